@@ -1,25 +1,37 @@
 import typescript from '@rollup/plugin-typescript';
 import dts from 'rollup-plugin-dts';
 
+// The testing helpers ship as a separate entry point, @tapsilat/tapsilat-js/testing
+const input = {
+  index: 'src/index.ts',
+  testing: 'src/testing/index.ts',
+};
+
+const external = ['crypto', 'fs', 'fs/promises', 'http', 'path', 'stream', 'stream/promises'];
+
 const config = [
   // Build TypeScript to JavaScript
   {
-    input: 'src/index.ts',
+    input,
     output: [
       {
-        file: 'dist/index.cjs',
+        dir: 'dist',
         format: 'cjs',
         sourcemap: true,
         exports: 'named',
+        entryFileNames: '[name].cjs',
+        chunkFileNames: 'chunks/[name]-[hash].cjs',
       },
       {
-        file: 'dist/index.js',
+        dir: 'dist',
         format: 'esm',
         sourcemap: true,
         exports: 'named',
+        entryFileNames: '[name].js',
+        chunkFileNames: 'chunks/[name]-[hash].js',
       },
     ],
-    external: ['crypto'],
+    external,
     plugins: [
       typescript({
         tsconfig: './tsconfig.json',
@@ -28,14 +40,16 @@ const config = [
   },
   // Bundle TypeScript declarations
   {
-    input: 'src/index.ts',
+    input,
     output: {
-      file: 'dist/index.d.ts',
+      dir: 'dist',
       format: 'esm',
+      entryFileNames: '[name].d.ts',
+      chunkFileNames: 'chunks/[name]-[hash].d.ts',
     },
-    external: ['crypto'],
+    external,
     plugins: [dts()],
   },
 ];
 
-export default config; 
\ No newline at end of file
+export default config;
@@ -0,0 +1,151 @@
+import { TapsilatSDK } from "./TapsilatSDK";
+import { createTransport } from "./http/transport";
+import { TapsilatConfig, TransportAdapter } from "./types/index";
+import { TapsilatValidationError } from "./errors/TapsilatError";
+import { isNonEmptyString } from "./utils/validators";
+
+/**
+ * @category Configuration
+ * @summary Default number of tenant clients kept by a pool
+ */
+export const DEFAULT_POOL_MAX_CLIENTS = 100;
+
+/**
+ * @category Configuration
+ * @summary Options of a client pool
+ * @description `tenantConfig` returns the credentials and overrides of a tenant; they are merged over
+ * `defaults`. Once `maxClients` clients exist, the least recently used one is evicted and passed to
+ * `onEvict`.
+ * @interface ClientPoolOptions
+ */
+export interface ClientPoolOptions {
+  defaults?: TapsilatConfig;
+  tenantConfig: (tenantId: string) => TapsilatConfig;
+  maxClients?: number;
+  onEvict?: (tenantId: string, client: TapsilatSDK) => void;
+}
+
+// CLIENT POOL
+// Summary: Lazily created, reused SDK instances keyed by tenant
+// Description: Tenants share one transport while each keeps its own credentials, rate limiter,
+// circuit breaker, cache and metrics
+/**
+ * Pool of SDK instances for platforms that call Tapsilat on behalf of many organizations
+ *
+ * @summary Lazily creates and reuses one SDK instance per tenant
+ * @description
+ * A tenant's client is created on first use from the pool defaults and the tenant's config, and
+ * reused afterwards, so its cache, rate limiter and circuit breaker keep their state across
+ * requests. All clients send through the transport of the defaults unless a tenant overrides it.
+ *
+ * @example
+ * ```typescript
+ * const pool = new TapsilatClientPool({
+ *   defaults: { rateLimit: { requestsPerSecond: 10 }, cache: {} },
+ *   tenantConfig: (merchantId) => ({ bearerToken: tokens.get(merchantId) }),
+ * });
+ *
+ * const order = await pool.get("merchant-42").getOrder("ref-1");
+ * ```
+ * @class TapsilatClientPool
+ */
+export class TapsilatClientPool {
+  private readonly clients = new Map<string, TapsilatSDK>();
+  private readonly defaults: TapsilatConfig;
+  private readonly transport: TransportAdapter;
+  private readonly maxClients: number;
+
+  /**
+   * @summary Creates an empty pool
+   *
+   * @param options - Defaults, tenant config resolver, size limit and eviction callback
+   */
+  constructor(private readonly options: ClientPoolOptions) {
+    const { transport, ...defaults } = options.defaults ?? {};
+    this.defaults = defaults;
+    this.transport = createTransport(transport);
+    this.maxClients = Math.max(
+      options.maxClients ?? DEFAULT_POOL_MAX_CLIENTS,
+      1
+    );
+  }
+
+  /**
+   * @summary Number of clients in the pool
+   */
+  get size(): number {
+    return this.clients.size;
+  }
+
+  /**
+   * @summary Returns the client of a tenant, creating it on first use
+   *
+   * @param tenantId - Tenant identifier, such as the organization ID
+   * @returns SDK instance of the tenant
+   * @throws {TapsilatValidationError} When the tenant ID is empty or its config is invalid
+   */
+  get(tenantId: string): TapsilatSDK {
+    let client = this.clients.get(tenantId);
+    if (client) {
+      // Re-inserting moves the client to the most recently used position
+      this.clients.delete(tenantId);
+      this.clients.set(tenantId, client);
+      return client;
+    }
+
+    if (!isNonEmptyString(tenantId)) {
+      throw new TapsilatValidationError("Tenant ID must be a non-empty string");
+    }
+    client = new TapsilatSDK({
+      ...this.defaults,
+      transport: this.transport,
+      ...this.options.tenantConfig(tenantId),
+    });
+    this.clients.set(tenantId, client);
+    while (this.clients.size > this.maxClients) {
+      this.evict(this.clients.keys().next().value as string);
+    }
+    return client;
+  }
+
+  /**
+   * @summary Tells whether a tenant has a client in the pool
+   *
+   * @param tenantId - Tenant identifier
+   * @returns True when the client exists
+   */
+  has(tenantId: string): boolean {
+    return this.clients.has(tenantId);
+  }
+
+  /**
+   * @summary Removes a tenant's client, for example after its token was revoked
+   * @description The next `get` creates a new client from the tenant's current config
+   *
+   * @param tenantId - Tenant identifier
+   * @returns True when a client was removed
+   */
+  evict(tenantId: string): boolean {
+    const client = this.clients.get(tenantId);
+    if (!client) {
+      return false;
+    }
+    this.clients.delete(tenantId);
+    // A failing callback must not fail the request that caused the eviction
+    try {
+      this.options.onEvict?.(tenantId, client);
+    } catch {
+      // ignored
+    }
+    return true;
+  }
+
+  /**
+   * @summary Removes every client
+   */
+  clear(): void {
+    for (const tenantId of [...this.clients.keys()]) {
+      this.evict(tenantId);
+    }
+  }
+}
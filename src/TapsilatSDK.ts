@@ -1,30 +1,22 @@
 import { HttpClient } from "./http/HttpClient";
+import { MetricsCollector } from "./http/metrics";
 import { ConfigManager } from "./config/ConfigManager";
-import {
-  validateBearerToken,
-  isNonEmptyString,
-  isPositiveNumber,
-  hasValidDecimalPlaces,
-  isInteger,
-  isValidEmail,
-} from "./utils/validators";
+import { resolveEnvironment, toOrigin } from "./config/environments";
+import { validateBearerToken } from "./utils/validators";
 import {
   TapsilatConfig,
   GetOrderResponse,
   GetOrdersRequest,
   GetOrdersResponse,
-  CancelOrderRequest,
   CancelOrderResponse,
   OrderRefundRequest,
   OrderRefundResponse,
-  RefundAllOrderDTO,
   OrderStatusResponse,
   GetSystemOrderStatusesResponse,
   GetOrderPaymentDetailsResponse,
   OrderPaymentDetailDTO,
   OrderCreateRequest,
   OrderCreateResponse,
-  OrderCreateDTO,
   OrderPaymentTermCreateDTO,
   OrderPaymentTermUpdateDTO,
   OrderTermRefundRequest,
@@ -59,9 +51,7 @@ import {
   RemoveBasketItemResponse,
   UpdateBasketItemRequest,
   UpdateBasketItemResponse,
-  OrderManualCallbackRequest,
   OrderManualCallbackResponse,
-  OrderRelatedUpdateRequest,
   OrderRelatedUpdateResponse,
   CallbackURLDTO,
   OrgCreateBusinessRequest,
@@ -118,11 +108,78 @@ import {
   CreateOrganizationCurrencyResponse,
   GetOrganizationPartnersResponse,
   GetOrganizationLimitsByIdResponse,
-  GetSystemConfigResponse
+  GetSystemConfigResponse,
+  Idempotent,
+  RequestOptions,
+  APIResponse,
+  WithResponse,
+  WithResponseMethods,
+  SafeMethods,
+  SafeResult,
+  MetricsRecorder,
+  TapsilatEnvironment,
+  ErrorCatalogEntry,
 } from "./types/index";
-import { TapsilatValidationError, TapsilatError } from "./errors/TapsilatError";
-import { handleError, handleResponse } from "./utils/response";
-import { verifyHmacSignature } from "./utils/verify";
+import { TapsilatError } from "./errors/TapsilatError";
+import { toResponseMetadata } from "./utils/response";
+import { FileDownload } from "./utils/download";
+import { catalogEntriesFromErrorCodes } from "./errors/catalog";
+import { OrdersResource } from "./resources/OrdersResource";
+import { SubscriptionsResource } from "./resources/SubscriptionsResource";
+import { OrganizationResource } from "./resources/OrganizationResource";
+import { SubmerchantsResource } from "./resources/SubmerchantsResource";
+import { SystemResource } from "./resources/SystemResource";
+import { WebhooksResource } from "./resources/WebhooksResource";
+
+const SAFE_NAMESPACES = [
+  "orders",
+  "subscriptions",
+  "organization",
+  "submerchant",
+  "system",
+  "webhooks",
+] as const;
+
+/**
+ * @category HTTP
+ * @summary Namespace of SDK operations, such as `orders`
+ * @typedef {string} SafeNamespace
+ */
+export type SafeNamespace = (typeof SAFE_NAMESPACES)[number];
+
+// Options the organization and its domains depend on; updates of other
+// options keep the fetched organization settings
+const ORGANIZATION_SETTINGS_KEYS: (keyof TapsilatConfig)[] = [
+  "environment",
+  "baseURL",
+  "checkoutDomain",
+  "subscriptionDomain",
+  "useOrganizationDomains",
+  "bearerToken",
+  "credentials",
+];
+
+// Resource class of each namespace
+interface TapsilatResources {
+  orders: OrdersResource;
+  subscriptions: SubscriptionsResource;
+  organization: OrganizationResource;
+  submerchant: SubmerchantsResource;
+  system: SystemResource;
+  webhooks: WebhooksResource;
+}
+
+/**
+ * @category HTTP
+ * @summary Type of `TapsilatSDK.safe`
+ * @description The SDK's async methods and namespaces, each method resolving with a `SafeResult`
+ * @typedef {object} SafeTapsilatSDK
+ */
+export type SafeTapsilatSDK =
+  // `safe` is left out so that the type does not refer to itself
+  SafeMethods<Omit<TapsilatSDK, "safe">> & {
+    [K in SafeNamespace]: SafeMethods<TapsilatResources[K]>;
+  };
 
 /**
  * Main SDK class for Tapsilat payment operations
@@ -144,6 +201,27 @@ import { verifyHmacSignature } from "./utils/verify";
 export class TapsilatSDK {
   private readonly httpClient: HttpClient;
   private readonly configManager: ConfigManager;
+  // Held in an object so that the views created by `safe` and
+  // `withResponse` share the fetched settings with the instance
+  private readonly organizationDomains: {
+    pending?: Promise<Partial<TapsilatEnvironment>>;
+  } = {};
+  private readonly loadedErrorCatalog: { entries: ErrorCatalogEntry[] } = {
+    entries: [],
+  };
+  // Keyed by the SDK or the view a namespace is accessed through, so that
+  // calls made through a view, such as `safe`, are sent with its client
+  private readonly resources = new WeakMap<
+    TapsilatSDK,
+    Partial<TapsilatResources>
+  >();
+
+  /**
+   * Request metrics of this client: latency, request, error, retry and rate-limit counts per endpoint
+   */
+  get metrics(): MetricsRecorder {
+    return this.configManager.getInternalConfig().metrics!;
+  }
 
   // SDK INITIALIZATION
   // Summary: Initializes the Tapsilat SDK with configuration options
@@ -157,167 +235,314 @@ export class TapsilatSDK {
    * The constructor validates the bearer token, sets up the HTTP client with proper headers,
    * configures retry mechanisms, and initializes internal state for API communication.
    *
-   * The SDK instance is immutable after creation - configuration cannot be changed without
-   * creating a new instance. This ensures thread safety and predictable behavior.
+   * The configuration can be changed later through `getConfigManager().updateConfig()`; updates
+   * are validated as a whole and apply to the next request.
    *
    * @param {TapsilatConfig} config - SDK configuration options
-   * @param {string} config.bearerToken - API authentication token (required)
-   * @param {string} [config.baseURL='https://panel.tapsilat.dev/v1'] - API base URL
-   * @param {number} [config.timeout=30000] - Request timeout in milliseconds
+   * @param {string} [config.bearerToken] - API authentication token (required without `credentials`)
+   * @param {CredentialsProvider|CredentialsOptions} [config.credentials] - Async token provider; tokens are cached, refreshed before expiry and once after a 401
+   * @param {TapsilatEnvironmentName|TapsilatEnvironment} [config.environment='production'] - `production`, `sandbox` or `staging`, the latter two with their URLs set, or the URLs of another deployment
+   * @param {string} [config.baseURL] - API base URL; overrides the environment's
+   * @param {string} [config.checkoutDomain] - Origin of the hosted checkout pages; overrides the environment's
+   * @param {string} [config.subscriptionDomain] - Origin of the hosted subscription pages; overrides the environment's
+   * @param {boolean} [config.useOrganizationDomains=false] - Prefer the checkout and subscription domains from the organization settings
+   * @param {number} [config.timeout=30000] - Timeout of each request attempt in milliseconds
+   * @param {Record<string, number>} [config.operationTimeouts] - Attempt timeouts by operation name, such as `orders.downloadPdf`; override the built-in defaults
+   * @param {number} [config.deadline] - Total time in milliseconds for all attempts and backoff sleeps of a request
    * @param {number} [config.maxRetries=3] - Maximum number of retry attempts
    * @param {number} [config.retryDelay=1000] - Delay between retries in milliseconds
    * @param {string} [config.version='v1'] - API version to use
-   * @param {boolean} [config.debug=false] - Enable debug logging
+   * @param {boolean} [config.debug=false] - Log HTTP activity to the console when no logger is set
+   * @param {Logger} [config.logger] - Structured logger for HTTP activity
+   * @param {RedactionOptions} [config.redaction] - Fields and patterns masked before logging
+   * @param {ResponseValidationMode} [config.responseValidation='lenient'] - Check responses against their schemas: reject mismatches, report them, or skip the checks
+   * @param {Function} [config.onSchemaDrift] - Receives the mismatches found in lenient mode; they are logged as warnings when omitted
+   * @param {Tracer} [config.tracer] - Tracer for operation and HTTP attempt spans
+   * @param {CircuitBreakerOptions} [config.circuitBreaker] - Fail calls fast while the API keeps failing
+   * @param {RateLimitOptions} [config.rateLimit] - Request rate and concurrency limits of this instance
+   * @param {CacheOptions} [config.cache] - Coalesce identical GET requests and cache their responses per route
+   * @param {MetricsRecorder} [config.metrics] - Metrics collector, shareable between clients; one is created when omitted
    *
    * @throws {TapsilatValidationError} When bearer token is invalid, missing, or malformed
    * @throws {TypeError} When config parameter is not an object or missing required fields
    */
   constructor(config: TapsilatConfig) {
-    validateBearerToken(config.bearerToken);
-    this.configManager = new ConfigManager(config);
-    this.httpClient = new HttpClient(this.configManager.getInternalConfig());
+    if (!config.credentials) {
+      validateBearerToken(config.bearerToken);
+    }
+    // The metrics collector is part of the configuration, so that the
+    // HTTP client and `metrics` always refer to the same recorder
+    this.configManager = new ConfigManager({
+      ...config,
+      metrics: config.metrics ?? new MetricsCollector(),
+    });
+    this.httpClient = new HttpClient(this.configManager);
+    // Organization settings may differ per token or environment
+    this.configManager.subscribe(({ changed }) => {
+      if (changed.some((key) => ORGANIZATION_SETTINGS_KEYS.includes(key))) {
+        this.organizationDomains.pending = undefined;
+      }
+    });
   }
 
   /**
    * Access to order operations
    */
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  get orders(): any {
-    return {
-      create: (request: OrderCreateDTO) =>
-        this.createOrder(request as unknown as OrderCreateRequest),
-      get: (referenceId: string) => this.getOrder(referenceId),
-      list: (params?: Parameters<TapsilatSDK["getOrders"]>[0]) =>
-        this.getOrders(params),
-      cancel: (referenceId: string) => this.cancelOrder(referenceId),
-      status: (referenceId: string) => this.getOrderStatus(referenceId),
-      refund: (request: OrderRefundRequest) => this.refundOrder(request),
-      refundAll: (referenceId: string) => this.refundAllOrder(referenceId),
-      paymentDetails: (request: OrderPaymentDetailDTO) => this.getOrderPaymentDetails(request),
-      paymentDetailsById: (referenceId: string) => this.getOrderPaymentDetailsById(referenceId),
-      callback: (id: string) => this.orderCallback(id),
-      updatePaymentOptions: (request: OrderPaymentOptionsUpdateDTO) => this.updatePaymentOptions(request),
-      splitItemPayment: (request: SplitOrderItemPaymentDTO) => this.splitOrderItemPayment(request),
-      vposQuery: (id: string) => this.orderVposQuery(id),
-      byConversationId: (conversationId: string) => this.getOrderByConversationId(conversationId),
-      transactions: (referenceId: string) => this.getOrderTransactions(referenceId),
-      submerchants: (
-        params?: Parameters<TapsilatSDK["getOrderSubmerchants"]>[0]
-      ) => this.getOrderSubmerchants(params),
-      checkoutUrl: (referenceId: string) => this.getCheckoutUrl(referenceId),
-      accounting: (request: OrderAccountingRequest) => this.orderAccounting(request),
-      postAuth: (request: OrderPostAuthRequest) => this.orderPostAuth(request),
-      manualCallback: (referenceId: string, conversationId?: string) => this.orderManualCallback(referenceId, conversationId),
-      relatedUpdate: (referenceId: string, relatedReferenceId: string) => this.orderRelatedUpdate(referenceId, relatedReferenceId),
-      addBasketItem: (request: AddBasketItemRequest) => this.addBasketItem(request),
-      removeBasketItem: (request: RemoveBasketItemRequest) => this.removeBasketItem(request),
-      updateBasketItem: (request: UpdateBasketItemRequest) => this.updateBasketItem(request),
-      createTerm: (request: OrderPaymentTermCreateDTO) => this.createOrderTerm(request),
-      updateTerm: (request: OrderPaymentTermUpdateDTO) => this.updateOrderTerm(request),
-      deleteTerm: (request: PaymentTermDeleteRequest) => this.deleteOrderTerm(request),
-      refundTerm: (request: OrderTermRefundRequest) => this.refundOrderTerm(request),
-      getTerm: (termReferenceId: string) => this.getOrderTerm(termReferenceId),
-      terminateTerm: (request: PaymentTermTerminateRequest) => this.terminateOrderTerm(request),
-      terminate: (request: OrderTerminateRequest) => this.terminateOrder(request),
-      getPayments: (request: GetOrderPaymentsRequest) => this.getOrderPayments(request),
-      getPdf: (id: string) => this.getOrderPdf(id),
-      getExcel: (id: string) => this.getOrderExcel(id),
-      createRefundRequest: (request: RefundOrderDTO) => this.createOrderRefundRequest(request),
-      addOip: (request: OrderOIPDTO) => this.addOrderOip(request),
-      charge: (request: OrderChargeRequest) => this.chargeOrder(request),
-      allPayments: () => this.getAllOrdersPayments(),
-    };
+  get orders(): OrdersResource {
+    return this.resource(
+      "orders",
+      () => new OrdersResource(this.httpClient, () => this.getEnvironment())
+    );
   }
 
   /**
    * Access to subscription operations
    */
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  get subscriptions(): any {
-    return {
-      create: (request: SubscriptionCreateRequest) => this.createSubscription(request),
-      get: (request: SubscriptionGetRequest) => this.getSubscription(request),
-      list: (params?: Parameters<TapsilatSDK["listSubscriptions"]>[0]) =>
-        this.listSubscriptions(params),
-      cancel: (request: SubscriptionCancelRequest) => this.cancelSubscription(request),
-      redirect: (request: SubscriptionRedirectRequest) => this.redirectSubscription(request),
-    };
+  get subscriptions(): SubscriptionsResource {
+    return this.resource(
+      "subscriptions",
+      () => new SubscriptionsResource(this.httpClient, () => this.getEnvironment())
+    );
   }
 
   /**
    * Access to organization operations
    */
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  get organization(): any {
-    return {
-      settings: () => this.getOrganizationSettings(),
-      callback: () => this.getOrganizationCallback(),
-      updateCallback: (request: CallbackURLDTO) => this.updateOrganizationCallback(request),
-      createBusiness: (request: OrgCreateBusinessRequest) => this.createOrganizationBusiness(request),
-      currencies: () => this.getOrganizationCurrencies(),
-      getLimitUser: (request: GetUserLimitRequest) => this.getOrganizationLimitUser(request),
-      setLimitUser: (request: SetLimitUserRequest) => this.setOrganizationLimitUser(request),
-      limits: () => this.getOrganizationLimits(),
-      meta: (name: string) => this.getOrganizationMeta(name),
-      scopes: () => this.getOrganizationScopes(),
-      suborganizations: (params?: Parameters<TapsilatSDK["getOrganizationSuborganizations"]>[0]) =>
-        this.getOrganizationSuborganizations(params),
-      createUser: (request: OrgCreateUserRequest) => this.createOrganizationUser(request),
-      verifyUser: (request: OrgUserVerifyRequest) => this.verifyOrganizationUser(request),
-      verifyUserMobile: (request: OrgUserMobileVerifyRequest) => this.verifyOrganizationUserMobile(request),
-      listVpos: (request: GetVposRequest) => this.listOrganizationVpos(request),
-      currencyPresets: () => this.getOrganizationCurrencyPresets(),
-      suborganizationDetails: (id: string) => this.getOrganizationSuborganizationDetails(id),
-      suborganizationSubmerchants: (id: string) => this.getOrganizationSuborganizationSubmerchants(id),
-      createUserToken: (request: OrgUserTokenCreateReq) => this.createOrganizationUserToken(request),
-      createCurrency: (payload: CreateOrganizationCurrencyPayload) => this.createOrganizationCurrency(payload),
-      partners: () => this.getOrganizationPartners(),
-      limitsById: (id: string, params?: { currency?: string; operation?: string }) => this.getOrganizationLimitsById(id, params),
-    };
+  get organization(): OrganizationResource {
+    return this.resource("organization", () => new OrganizationResource(this.httpClient));
   }
 
   /**
    * Access to submerchant operations
    */
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  get submerchant(): any {
-    return {
-      create: (request: SubmerchantCreateDTO) => this.createSubmerchant(request),
-      get: (id: string) => this.getSubmerchant(id),
-      getSuborganization: (id: string) => this.getSuborganizationBySubmerchant(id),
-      update: (id: string, request: SubmerchantUpdateDTO) => this.updateSubmerchant(id, request),
-      delete: (id: string) => this.deleteSubmerchant(id),
-      list: (page?: number, perPage?: number) => this.listSubmerchants(page, perPage),
-    };
+  get submerchant(): SubmerchantsResource {
+    return this.resource("submerchant", () => new SubmerchantsResource(this.httpClient));
   }
 
   /**
    * Access to system operations
    */
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  get system(): any {
-    return {
-      orderStatuses: () => this.getSystemOrderStatuses(),
-      basketItemTypes: () => this.getSystemBasketItemTypes(),
-      errorCodes: () => this.getSystemErrorCodes(),
-      paymentTermStatuses: () => this.getSystemPaymentTermStatuses(),
-      productTypes: () => this.getSystemProductTypes(),
-      shortcutTypes: () => this.getSystemShortcutTypes(),
-      transactionPaymentTypes: () => this.getSystemTransactionPaymentTypes(),
-      transactionPurposes: () => this.getSystemTransactionPurposes(),
-      transactionStatuses: () => this.getSystemTransactionStatuses(),
-      config: () => this.getSystemConfig(),
-    };
+  get system(): SystemResource {
+    return this.resource("system", () => new SystemResource(this.httpClient));
   }
 
   /**
    * Access to webhook operations
    */
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  get webhooks(): any {
-    return {
-      verify: (payload: string, signature: string, secret: string) => this.verifyWebhook(payload, signature, secret),
-    };
+  get webhooks(): WebhooksResource {
+    return this.resource("webhooks", () => new WebhooksResource());
+  }
+
+  /**
+   * Returns the resource of a namespace, creating it on first access
+   *
+   * @param name - Namespace of the resource
+   * @param create - Creates the resource with the HTTP client of this SDK, or of the view it is
+   * accessed through
+   * @returns Resource of this SDK or view
+   */
+  private resource<K extends SafeNamespace>(
+    name: K,
+    create: () => TapsilatResources[K]
+  ): TapsilatResources[K] {
+    let resources = this.resources.get(this);
+    if (!resources) {
+      resources = {};
+      this.resources.set(this, resources);
+    }
+    return (resources[name] ??= create());
+  }
+
+  // RESPONSE METADATA
+  // Summary: Call SDK methods and receive HTTP response details with the data
+  // Description: Wraps every async method so that it resolves with { data, response }
+  /**
+   * Returns a view of the SDK whose methods also resolve with HTTP response metadata
+   *
+   * @summary Access typed data together with status, headers and request ID
+   * @description
+   * Each async method on the returned object takes the same arguments as the SDK method of the
+   * same name and resolves with `{ data, response }`. `response` describes the operation's own HTTP
+   * response, not lookups it makes afterwards such as the organization settings: status, lower-cased headers (including rate-limit headers), the server
+   * request ID, the total duration across retries and the number of attempts.
+   *
+   * @example
+   * ```typescript
+   * const { data, response } = await sdk.withResponse().getOrder("order-ref");
+   * console.log(response.status, response.requestId, response.headers["x-ratelimit-remaining"]);
+   * ```
+   *
+   * @returns {WithResponseMethods<TapsilatSDK>} SDK methods resolving with data and response metadata
+   * @throws {TapsilatError} When the wrapped method finishes without making an HTTP request
+   */
+  withResponse(): WithResponseMethods<TapsilatSDK> {
+    return new Proxy(this, {
+      get: (target, property): unknown => {
+        const method: unknown = Reflect.get(target, property);
+        if (typeof method !== "function") {
+          return undefined;
+        }
+
+        return async (
+          ...args: unknown[]
+        ): Promise<WithResponse<unknown>> => {
+          const { data, response } = await this.callRecorded((scoped) =>
+            method.apply(scoped, args)
+          );
+          if (!response) {
+            throw new TapsilatError(
+              `${String(property)} did not make an HTTP request`,
+              "NO_RESPONSE"
+            );
+          }
+          return { data, response: toResponseMetadata(response) };
+        };
+      },
+    }) as unknown as WithResponseMethods<TapsilatSDK>;
+  }
+
+  // SAFE RESULTS
+  // Summary: Call SDK methods without try/catch
+  // Description: Wraps every async method and namespace so that failures resolve as values
+  /**
+   * Non-throwing view of the SDK
+   *
+   * @summary Call any SDK method and receive a result instead of an exception
+   * @description
+   * Each async method, including those of the `orders`, `subscriptions`, `organization`,
+   * `submerchant`, `system` and `webhooks` namespaces, takes the same arguments as the throwing
+   * method and resolves with `{ ok: true, data, meta }` or `{ ok: false, error }`. The view is
+   * derived from the SDK at call time, so it always offers the same operations. `error` is the
+   * `TapsilatError` the throwing method would have thrown; other errors are wrapped in one with
+   * code `UNKNOWN_ERROR`.
+   *
+   * @example
+   * ```typescript
+   * const result = await sdk.safe.orders.refund({ reference_id: "order-ref", amount: 50 });
+   * if (result.ok) {
+   *   console.log(result.data.refund_id, result.meta?.requestId);
+   * } else if (result.error instanceof TapsilatValidationError) {
+   *   console.log(result.error.details);
+   * }
+   * ```
+   *
+   * @returns {SafeTapsilatSDK} SDK methods resolving with a `SafeResult`
+   */
+  get safe(): SafeTapsilatSDK {
+    const wrap =
+      (invoke: (sdk: TapsilatSDK, args: unknown[]) => Promise<unknown>) =>
+      (...args: unknown[]): Promise<SafeResult<unknown>> =>
+        this.callSafely((scoped) => invoke(scoped, args));
+
+    return new Proxy(this, {
+      get: (target, property): unknown => {
+        const member: unknown = Reflect.get(target, property);
+        if (typeof member === "function") {
+          return wrap((scoped, args) =>
+            Reflect.get(scoped, property).apply(scoped, args)
+          );
+        }
+        if (!SAFE_NAMESPACES.includes(property as SafeNamespace)) {
+          return undefined;
+        }
+        return new Proxy(member as object, {
+          get: (namespace, name): unknown =>
+            typeof Reflect.get(namespace, name) === "function"
+              ? wrap((scoped, args) => {
+                  const resource: object = Reflect.get(scoped, property);
+                  return Reflect.get(resource, name).apply(resource, args);
+                })
+              : undefined,
+        });
+      },
+    }) as unknown as SafeTapsilatSDK;
+  }
+
+  /**
+   * Runs an SDK call and turns its outcome into a `SafeResult`
+   *
+   * @param invoke - Makes the call on the SDK view it is given
+   * @returns Data and response metadata, or the error of the call
+   */
+  private async callSafely(
+    invoke: (sdk: TapsilatSDK) => Promise<unknown>
+  ): Promise<SafeResult<unknown>> {
+    try {
+      const { data, response } = await this.callRecorded(invoke);
+      return {
+        ok: true,
+        data,
+        ...(response && { meta: toResponseMetadata(response) }),
+      };
+    } catch (error) {
+      return {
+        ok: false,
+        error:
+          error instanceof TapsilatError
+            ? error
+            : new TapsilatError(
+                error instanceof Error ? error.message : String(error),
+                "UNKNOWN_ERROR",
+                error
+              ),
+      };
+    }
+  }
+
+  /**
+   * Runs an SDK call against a view whose HTTP client records its responses
+   *
+   * @param invoke - Makes the call on the SDK view it is given
+   * @returns Data of the call and the first API response it received
+   */
+  private async callRecorded(
+    invoke: (sdk: TapsilatSDK) => Promise<unknown>
+  ): Promise<{ data: unknown; response?: APIResponse<unknown> }> {
+    let primaryResponse: APIResponse<unknown> | undefined;
+    // A recording view of the HTTP client per call, so that concurrent
+    // calls each see only their own response
+    const scoped = Object.create(this, {
+      httpClient: {
+        // An operation sends its own request before any lookup it needs
+        // afterwards, such as the organization settings for checkout URLs
+        value: this.createRecordingClient((response) => {
+          primaryResponse ??= response;
+        }),
+      },
+    }) as TapsilatSDK;
+
+    const data = await invoke(scoped);
+    return { data, response: primaryResponse };
+  }
+
+  /**
+   * Creates a view of the HTTP client that reports every response it returns
+   *
+   * @param onResponse - Called with each API response
+   * @returns HTTP client delegating to the SDK's client
+   */
+  private createRecordingClient(
+    onResponse: (response: APIResponse<unknown>) => void
+  ): HttpClient {
+    const recorder = Object.create(this.httpClient) as HttpClient;
+    for (const verb of ["get", "post", "put", "patch", "delete"] as const) {
+      const send = this.httpClient[verb] as (
+        ...args: unknown[]
+      ) => Promise<APIResponse<unknown>>;
+      Object.defineProperty(recorder, verb, {
+        // Called with the view it is invoked on, so client views derived
+        // from the recorder keep their own state
+        value: async function (
+          this: HttpClient,
+          ...args: unknown[]
+        ): Promise<APIResponse<unknown>> {
+          const response = await send.apply(this, args);
+          onResponse(response);
+          return response;
+        },
+      });
+    }
+    return recorder;
   }
 
   // ORDER CREATION
@@ -355,6 +580,7 @@ export class TapsilatSDK {
    * @param {string} [orderRequest.payment_failure_url] - URL to redirect after failed payment
    * @param {number[]} [orderRequest.enabled_installments] - Allowed installment counts
    * @param {OrderMetadata[]} [orderRequest.metadata] - Additional custom key/value data
+   * @param {RequestOptions} [options] - Per-call options such as a caller-supplied idempotency key
    *
    * @returns {Promise<OrderCreateResponse>} Promise resolving to order creation response
    * @returns {string} [OrderCreateResponse.id] - Internal order identifier
@@ -363,6 +589,7 @@ export class TapsilatSDK {
    * @returns {string} [OrderCreateResponse.conversation_id] - Echo of provided conversation ID
    * @returns {string} [OrderCreateResponse.status] - Initial order status
    * @returns {string} [OrderCreateResponse.qr_code_url] - QR code URL for mobile payments
+   * @returns {IdempotencyInfo} [OrderCreateResponse.idempotency] - Idempotency key used and whether the response was replayed
    *
    * @throws {TapsilatValidationError} When input validation fails:
    *   - Amount is not positive or has more than 2 decimal places
@@ -374,96 +601,11 @@ export class TapsilatSDK {
    * @throws {TapsilatNetworkError} When network request fails
    * @throws {TapsilatError} When API returns business logic errors
    */
-  async createOrder(
-    orderRequest: OrderCreateRequest
-  ): Promise<OrderCreateResponse> {
-    // Validate the order request
-    if (!orderRequest) {
-      throw new TapsilatValidationError(
-        "Order request cannot be null or undefined"
-      );
-    }
-
-    // Validate amount
-    if (!isPositiveNumber(orderRequest.amount)) {
-      throw new TapsilatValidationError("Amount must be a positive number", {
-        provided: orderRequest.amount,
-      });
-    }
-
-    if (!hasValidDecimalPlaces(orderRequest.amount)) {
-      throw new TapsilatValidationError(
-        "Amount must have maximum 2 decimal places",
-        { provided: orderRequest.amount }
-      );
-    }
-
-    // Validate currency
-    if (!isNonEmptyString(orderRequest.currency)) {
-      throw new TapsilatValidationError(
-        "Currency is required and must be a non-empty string",
-        { provided: orderRequest.currency }
-      );
-    }
-
-    // Validate locale
-    if (!isNonEmptyString(orderRequest.locale)) {
-      throw new TapsilatValidationError(
-        "Locale is required and must be a non-empty string",
-        { provided: orderRequest.locale }
-      );
-    }
-
-    // Validate buyer information
-    if (!orderRequest.buyer) {
-      throw new TapsilatValidationError("Buyer information is required");
-    }
-
-    const { buyer } = orderRequest;
-
-    if (!isNonEmptyString(buyer.name)) {
-      throw new TapsilatValidationError(
-        "Buyer name is required and must be a non-empty string",
-        { provided: buyer.name }
-      );
-    }
-
-    if (!isNonEmptyString(buyer.surname)) {
-      throw new TapsilatValidationError(
-        "Buyer surname is required and must be a non-empty string",
-        { provided: buyer.surname }
-      );
-    }
-
-    if (!isNonEmptyString(buyer.email)) {
-      throw new TapsilatValidationError(
-        "Buyer email is required and must be a non-empty string",
-        { provided: buyer.email }
-      );
-    }
-
-    if (!isValidEmail(buyer.email)) {
-      throw new TapsilatValidationError(
-        "Buyer email must be a valid email address",
-        { provided: buyer.email }
-      );
-    }
-
-
-    try {
-      // Make the API request
-      const createOrderResponse =
-        await this.httpClient.post<OrderCreateResponse>(
-          "/order/create",
-          orderRequest
-        );
-
-      // Use our generic response handler
-      return handleResponse(createOrderResponse, "Order creation");
-    } catch (error: unknown) {
-      // Use our generic error handler
-      return handleError(error, "order creation");
-    }
+  createOrder(
+    orderRequest: OrderCreateRequest,
+    options?: RequestOptions
+  ): Promise<Idempotent<OrderCreateResponse>> {
+    return this.orders.create(orderRequest, options);
   }
 
   // ORDER ACCOUNTING
@@ -476,30 +618,16 @@ export class TapsilatSDK {
    * @description Handles accounting operations for a specific order using its reference ID.
    *
    * @param {OrderAccountingRequest} request - Accounting request details
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or extra headers
    * @returns {Promise<OrderAccountingResponse>} Promise resolving to the accounting response
    * @throws {TapsilatValidationError} When input validation fails
    * @throws {TapsilatError} When API returns an error response
    */
-  async orderAccounting(
-    request: OrderAccountingRequest
+  orderAccounting(
+    request: OrderAccountingRequest,
+    options?: RequestOptions
   ): Promise<OrderAccountingResponse> {
-
-    if (!isNonEmptyString(request.order_reference_id)) {
-      throw new TapsilatValidationError(
-        "Order reference ID is required and must be a non-empty string",
-        { provided: request.order_reference_id }
-      );
-    }
-
-    try {
-      const orderAccountingResponse = await this.httpClient.post<OrderAccountingResponse>(
-        "/order/accounting",
-        request
-      );
-      return handleResponse(orderAccountingResponse, "Order accounting");
-    } catch (error: unknown) {
-      return handleError(error, "order accounting");
-    }
+    return this.orders.accounting(request, options);
   }
 
   // ORDER POST-AUTHORIZATION
@@ -512,34 +640,16 @@ export class TapsilatSDK {
    * @description Handles post-authorization operations for a specific order.
    *
    * @param {OrderPostAuthRequest} request - Post-authorization request details
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or extra headers
    * @returns {Promise<OrderPostAuthResponse>} Promise resolving to the post-auth response
    * @throws {TapsilatValidationError} When input validation fails
    * @throws {TapsilatError} When API returns an error response
    */
-  async orderPostAuth(
-    request: OrderPostAuthRequest
+  orderPostAuth(
+    request: OrderPostAuthRequest,
+    options?: RequestOptions
   ): Promise<OrderPostAuthResponse> {
-    if (!isNonEmptyString(request.reference_id)) {
-      throw new TapsilatValidationError(
-        "Reference ID is required and must be a non-empty string",
-        { provided: request.reference_id }
-      );
-    }
-    if (!isPositiveNumber(request.amount)) {
-      throw new TapsilatValidationError("Amount must be a positive number", {
-        provided: request.amount,
-      });
-    }
-
-    try {
-      const orderPostAuthResponse = await this.httpClient.post<OrderPostAuthResponse>(
-        "/order/postauth",
-        request
-      );
-      return handleResponse(orderPostAuthResponse, "Order post-auth");
-    } catch (error: unknown) {
-      return handleError(error, "order post-auth");
-    }
+    return this.orders.postAuth(request, options);
   }
 
   // SYSTEM ORDER STATUSES
@@ -551,122 +661,105 @@ export class TapsilatSDK {
    * @summary Retrieve system order statuses
    * @description Gets a list of all possible order statuses in the system.
    *
+   * @param options - Per-call options such as an abort signal, timeout or extra headers
+   *
    * @returns {Promise<GetSystemOrderStatusesResponse>} Promise resolving to system order statuses
    * @throws {TapsilatError} When API returns an error response
    */
-  async getSystemOrderStatuses(): Promise<GetSystemOrderStatusesResponse> {
-    try {
-      const getSystemOrderStatusesResponse = await this.httpClient.get<GetSystemOrderStatusesResponse>(
-        "/system/order-statuses"
-      );
-      return handleResponse(getSystemOrderStatusesResponse, "Get system order statuses");
-    } catch (error: unknown) {
-      return handleError(error, "get system order statuses");
-    }
+  getSystemOrderStatuses(options?: RequestOptions): Promise<GetSystemOrderStatusesResponse> {
+    return this.system.orderStatuses(options);
   }
 
   /**
    * Retrieves system basket item types.
    * Based on `get_system_basket_item_types` from Python SDK.
    */
-  async getSystemBasketItemTypes(): Promise<GetSystemBasketItemTypesResponse> {
-    try {
-      const response = await this.httpClient.get<GetSystemBasketItemTypesResponse>("/system/basket-item-types");
-      return handleResponse(response, "Get system basket item types");
-    } catch (error: unknown) {
-      return handleError(error, "get system basket item types");
-    }
+  getSystemBasketItemTypes(options?: RequestOptions): Promise<GetSystemBasketItemTypesResponse> {
+    return this.system.basketItemTypes(options);
   }
 
   /**
    * Retrieves system error codes.
    * Based on `get_system_error_codes` from Python SDK.
    */
-  async getSystemErrorCodes(): Promise<GetSystemErrorCodesResponse> {
-    try {
-      const response = await this.httpClient.get<GetSystemErrorCodesResponse>("/system/error-codes");
-      return handleResponse(response, "Get system error codes");
-    } catch (error: unknown) {
-      return handleError(error, "get system error codes");
-    }
+  getSystemErrorCodes(options?: RequestOptions): Promise<GetSystemErrorCodesResponse> {
+    return this.system.errorCodes(options);
+  }
+
+  /**
+   * Loads the platform's error codes into the error catalog
+   *
+   * @summary Map the error codes of `getSystemErrorCodes()` to error classes
+   * @description Codes whose message names a known category, such as insufficient funds or a
+   * 3-D Secure failure, are added to the catalog and from then on reject with that category's
+   * error class. Entries from the `errorCatalog` option keep precedence.
+   *
+   * @param options - Per-call options such as an abort signal, timeout or extra headers
+   * @returns Catalog entries recognised among the platform's error codes
+   */
+  async loadErrorCatalog(
+    options?: RequestOptions
+  ): Promise<ErrorCatalogEntry[]> {
+    const { rows = [] } = await this.getSystemErrorCodes(options);
+    const entries = catalogEntriesFromErrorCodes(rows);
+    // Entries of an earlier load are replaced; configured ones come last so
+    // that they win
+    const configured = (
+      this.configManager.getInternalConfig().errorCatalog ?? []
+    ).filter((entry) => !this.loadedErrorCatalog.entries.includes(entry));
+    this.loadedErrorCatalog.entries = entries;
+    this.configManager.updateConfig({
+      errorCatalog: [...entries, ...configured],
+    });
+    return entries;
   }
 
   /**
    * Retrieves system payment term statuses.
    * Based on `get_system_payment_term_statuses` from Python SDK.
    */
-  async getSystemPaymentTermStatuses(): Promise<GetSystemPaymentTermStatusesResponse> {
-    try {
-      const response = await this.httpClient.get<GetSystemPaymentTermStatusesResponse>("/system/payment-term-statuses");
-      return handleResponse(response, "Get system payment term statuses");
-    } catch (error: unknown) {
-      return handleError(error, "get system payment term statuses");
-    }
+  getSystemPaymentTermStatuses(options?: RequestOptions): Promise<GetSystemPaymentTermStatusesResponse> {
+    return this.system.paymentTermStatuses(options);
   }
 
   /**
    * Retrieves system product types.
    * Based on `get_system_product_types` from Python SDK.
    */
-  async getSystemProductTypes(): Promise<GetSystemProductTypesResponse> {
-    try {
-      const response = await this.httpClient.get<GetSystemProductTypesResponse>("/system/product-types");
-      return handleResponse(response, "Get system product types");
-    } catch (error: unknown) {
-      return handleError(error, "get system product types");
-    }
+  getSystemProductTypes(options?: RequestOptions): Promise<GetSystemProductTypesResponse> {
+    return this.system.productTypes(options);
   }
 
   /**
    * Retrieves system shortcut types.
    * Based on `get_system_shortcut_types` from Python SDK.
    */
-  async getSystemShortcutTypes(): Promise<GetSystemShortcutTypesResponse> {
-    try {
-      const response = await this.httpClient.get<GetSystemShortcutTypesResponse>("/system/shortcut-types");
-      return handleResponse(response, "Get system shortcut types");
-    } catch (error: unknown) {
-      return handleError(error, "get system shortcut types");
-    }
+  getSystemShortcutTypes(options?: RequestOptions): Promise<GetSystemShortcutTypesResponse> {
+    return this.system.shortcutTypes(options);
   }
 
   /**
    * Retrieves system transaction payment types.
    * Based on `get_system_transaction_payment_types` from Python SDK.
    */
-  async getSystemTransactionPaymentTypes(): Promise<GetSystemTransactionPaymentTypesResponse> {
-    try {
-      const response = await this.httpClient.get<GetSystemTransactionPaymentTypesResponse>("/system/transaction-payment-types");
-      return handleResponse(response, "Get system transaction payment types");
-    } catch (error: unknown) {
-      return handleError(error, "get system transaction payment types");
-    }
+  getSystemTransactionPaymentTypes(options?: RequestOptions): Promise<GetSystemTransactionPaymentTypesResponse> {
+    return this.system.transactionPaymentTypes(options);
   }
 
   /**
    * Retrieves system transaction purposes.
    * Based on `get_system_transaction_purposes` from Python SDK.
    */
-  async getSystemTransactionPurposes(): Promise<GetSystemTransactionPurposesResponse> {
-    try {
-      const response = await this.httpClient.get<GetSystemTransactionPurposesResponse>("/system/transaction-purposes");
-      return handleResponse(response, "Get system transaction purposes");
-    } catch (error: unknown) {
-      return handleError(error, "get system transaction purposes");
-    }
+  getSystemTransactionPurposes(options?: RequestOptions): Promise<GetSystemTransactionPurposesResponse> {
+    return this.system.transactionPurposes(options);
   }
 
   /**
    * Retrieves system transaction statuses.
    * Based on `get_system_transaction_statuses` from Python SDK.
    */
-  async getSystemTransactionStatuses(): Promise<GetSystemTransactionStatusesResponse> {
-    try {
-      const response = await this.httpClient.get<GetSystemTransactionStatusesResponse>("/system/transaction-statuses");
-      return handleResponse(response, "Get system transaction statuses");
-    } catch (error: unknown) {
-      return handleError(error, "get system transaction statuses");
-    }
+  getSystemTransactionStatuses(options?: RequestOptions): Promise<GetSystemTransactionStatusesResponse> {
+    return this.system.transactionStatuses(options);
   }
 
   // ORDER RETRIEVAL BY REFERENCE ID
@@ -679,32 +772,14 @@ export class TapsilatSDK {
    * @description Gets complete order data including buyer info, amounts, and current status using the unique reference ID.
    *
    * @param referenceId - The unique reference ID of the order
+   * @param options - Per-call options such as an abort signal, timeout or extra headers
    * @returns Promise resolving to the complete order details
    * @throws {TapsilatValidationError} When referenceId is invalid
    * @throws {TapsilatNetworkError} When API request fails due to network issues
    * @throws {TapsilatError} When API returns an error response
    */
-  async getOrder(referenceId: string): Promise<GetOrderResponse> {
-    // Validate input
-    if (!isNonEmptyString(referenceId)) {
-      throw new TapsilatValidationError(
-        "Order referenceId is required and must be a non-empty string",
-        { provided: referenceId }
-      );
-    }
-
-    try {
-      // Make the API request
-      const getOrderResponse = await this.httpClient.get<GetOrderResponse>(
-        `/order/${referenceId}`
-      );
-
-      // Use our generic response handler
-      return handleResponse(getOrderResponse, "Order retrieval");
-    } catch (error: unknown) {
-      // Use our generic error handler
-      return handleError(error, "order retrieval");
-    }
+  getOrder(referenceId: string, options?: RequestOptions): Promise<GetOrderResponse> {
+    return this.orders.get(referenceId, options);
   }
 
   // ORDER LISTING WITH PAGINATION
@@ -721,68 +796,11 @@ export class TapsilatSDK {
    * @throws {TapsilatNetworkError} When API request fails due to network issues
    * @throws {TapsilatError} When API returns an error response
    */
-  async getOrders(
-    params: GetOrdersRequest = {}
+  getOrders(
+    params: GetOrdersRequest = {},
+    options?: RequestOptions
   ): Promise<GetOrdersResponse> {
-    try {
-      // Validate pagination parameters if provided
-      // Check if page is defined
-      if (params.page !== undefined) {
-        // Check if page is integer
-        if (!isInteger(params.page)) {
-          throw new TapsilatValidationError("Page number must be an integer", {
-            provided: params.page,
-          });
-        }
-
-        // Check if page is positive
-        if (params.page < 1) {
-          throw new TapsilatValidationError(
-            "Page number must be greater than 0",
-            { provided: params.page }
-          );
-        }
-      }
-
-      // Check if per_page is defined
-      if (params.per_page !== undefined) {
-        // Check if per_page is integer
-        if (!isInteger(params.per_page)) {
-          throw new TapsilatValidationError(
-            "Items per page must be an integer",
-            { provided: params.per_page }
-          );
-        }
-
-        // Check if per_page is positive
-        if (params.per_page < 1) {
-          throw new TapsilatValidationError(
-            "Items per page must be greater than 0",
-            { provided: params.per_page }
-          );
-        }
-      }
-
-      // Check if status is defined
-      if (params.status !== undefined && !isInteger(params.status)) {
-        throw new TapsilatValidationError(
-          "Status must be an integer",
-          { provided: params.status }
-        );
-      }
-
-      // Make the API request
-      const getOrdersResponse = await this.httpClient.get<GetOrdersResponse>(
-        "/order/list",
-        { params: params as Record<string, unknown> }
-      );
-
-      // Use our generic response handler
-      return handleResponse(getOrdersResponse, "Order listing");
-    } catch (error: unknown) {
-      // Use our generic error handler
-      return handleError(error, "order listing");
-    }
+    return this.orders.list(params, options);
   }
 
   // ORDER CANCELLATION
@@ -795,51 +813,13 @@ export class TapsilatSDK {
    * @description Cancels unpaid order and prevents further payment processing.
    *
    * @param referenceId - The unique reference ID of the order to cancel
+   * @param options - Per-call options such as an abort signal, timeout or extra headers
    * @returns Promise resolving to the canceled order details
    * @throws {TapsilatValidationError} When referenceId is invalid
    * @throws {TapsilatError} When API returns an error response or order cannot be canceled
    */
-  async cancelOrder(referenceId: string): Promise<CancelOrderResponse> {
-    if (!isNonEmptyString(referenceId)) {
-      throw new TapsilatValidationError(
-        "Order referenceId is required and must be a non-empty string",
-        { provided: referenceId }
-      );
-    }
-
-    try {
-      const cancelOrderPayload: CancelOrderRequest = {
-        reference_id: referenceId,
-      };
-
-      const cancelOrderResponse = await this.httpClient.post<CancelOrderResponse>(
-        "/order/cancel",
-        cancelOrderPayload
-      );
-
-      // Check if API call was successful
-      if (!cancelOrderResponse.success) {
-        throw new TapsilatError(
-          cancelOrderResponse.error?.message ||
-          "Order cancellation API call failed",
-          cancelOrderResponse.error?.code || "CANCELLATION_API_FAILED"
-        );
-      }
-
-      // Check if response data exists
-      if (!cancelOrderResponse.data) {
-        throw new TapsilatError(
-          "Order cancellation response data is missing",
-          "CANCELLATION_DATA_MISSING"
-        );
-      }
-
-      return cancelOrderResponse.data;
-    } catch (error: unknown) {
-      return handleError(error, "order cancellation");
-
-    }
-
+  cancelOrder(referenceId: string, options?: RequestOptions): Promise<CancelOrderResponse> {
+    return this.orders.cancel(referenceId, options);
   }
 
   // ORDER STATUS RETRIEVAL
@@ -863,6 +843,7 @@ export class TapsilatSDK {
    * - Implement webhook verification and status synchronization
    *
    * @param {string} referenceId - Unique order reference identifier from order creation
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or extra headers
    *
    * @returns {Promise<OrderStatusResponse>} Promise resolving to current order status information
    * @returns {string} [OrderStatusResponse.error_code] - API-level error code when present
@@ -879,28 +860,8 @@ export class TapsilatSDK {
    *   - ACCESS_DENIED: Order belongs to different merchant
    *   - RATE_LIMIT_EXCEEDED: Too many status check requests
    */
-  async getOrderStatus(referenceId: string): Promise<OrderStatusResponse> {
-    // Validate input using proper validation
-    if (!isNonEmptyString(referenceId)) {
-      throw new TapsilatValidationError(
-        "Order referenceId is required and must be a non-empty string",
-        { provided: referenceId }
-      );
-    }
-
-    try {
-      // Make the API request
-      const getOrderStatusResponse =
-        await this.httpClient.get<OrderStatusResponse>(
-          `/order/${referenceId}/status`
-        );
-
-      // Use our generic response handler
-      return handleResponse(getOrderStatusResponse, "Order status retrieval");
-    } catch (error: unknown) {
-      // Use our generic error handler
-      return handleError(error, "order status retrieval");
-    }
+  getOrderStatus(referenceId: string, options?: RequestOptions): Promise<OrderStatusResponse> {
+    return this.orders.status(referenceId, options);
   }
 
   // ORDER REFUND OPERATIONS
@@ -914,37 +875,15 @@ export class TapsilatSDK {
    * @description Refunds specified amount from a paid order and returns transaction details.
    *
    * @param refundData - The refund details, including referenceId and amount.
+   * @param options - Per-call options such as a caller-supplied idempotency key
    * @returns Promise resolving to the refund transaction details.
    * @throws {TapsilatError} When API returns an error response or refund fails
    */
-  async refundOrder(
-    refundData: OrderRefundRequest
-  ): Promise<OrderRefundResponse> {
-    try {
-      const refundOrderResponse =
-        await this.httpClient.post<OrderRefundResponse>(
-          "/order/refund",
-          refundData
-        );
-
-      if (!refundOrderResponse.success) {
-        throw new TapsilatError(
-          refundOrderResponse.error?.message || "Order refund failed",
-          refundOrderResponse.error?.code || "REFUND_FAILED"
-        );
-      }
-
-      if (!refundOrderResponse.data) {
-        throw new TapsilatError(
-          "Order refund response data is missing",
-          "REFUND_DATA_MISSING"
-        );
-      }
-
-      return refundOrderResponse.data;
-    } catch (error: unknown) {
-      return handleError(error, "order refund");
-    }
+  refundOrder(
+    refundData: OrderRefundRequest,
+    options?: RequestOptions
+  ): Promise<Idempotent<OrderRefundResponse>> {
+    return this.orders.refund(refundData, options);
   }
 
   // ORDER FULL REFUND OPERATIONS
@@ -958,38 +897,15 @@ export class TapsilatSDK {
    * @description Refunds entire order amount and returns transaction details.
    *
    * @param referenceId - The unique identifier of the order to fully refund.
+   * @param options - Per-call options such as a caller-supplied idempotency key
    * @returns Promise resolving to the refund transaction details.
    * @throws {TapsilatError} When API returns an error response or full refund fails
    */
-  async refundAllOrder(referenceId: string): Promise<OrderRefundResponse> {
-    try {
-      const refundAllPayload: RefundAllOrderDTO = {
-        reference_id: referenceId,
-      };
-      const refundAllOrderResponse =
-        await this.httpClient.post<OrderRefundResponse>(
-          "/order/refund-all",
-          refundAllPayload
-        );
-
-      if (!refundAllOrderResponse.success) {
-        throw new TapsilatError(
-          refundAllOrderResponse.error?.message || "Full order refund failed",
-          refundAllOrderResponse.error?.code || "FULL_REFUND_FAILED"
-        );
-      }
-
-      if (!refundAllOrderResponse.data) {
-        throw new TapsilatError(
-          "Full order refund response data is missing",
-          "FULL_REFUND_DATA_MISSING"
-        );
-      }
-
-      return refundAllOrderResponse.data;
-    } catch (error: unknown) {
-      return handleError(error, "full order refund");
-    }
+  refundAllOrder(
+    referenceId: string,
+    options?: RequestOptions
+  ): Promise<Idempotent<OrderRefundResponse>> {
+    return this.orders.refundAll(referenceId, options);
   }
 
   // ORDER PAYMENT DETAILS
@@ -999,120 +915,66 @@ export class TapsilatSDK {
    * Retrieves the payment details for an order via POST request.
    * Based on `get_order_payment_details` from the Python SDK.
    */
-  async getOrderPaymentDetails(
-    request: OrderPaymentDetailDTO
+  getOrderPaymentDetails(
+    request: OrderPaymentDetailDTO,
+    options?: RequestOptions
   ): Promise<GetOrderPaymentDetailsResponse> {
-    try {
-      const getOrderPaymentDetailsResponse = await this.httpClient.post<GetOrderPaymentDetailsResponse>(
-        "/order/payment-details",
-        request
-      );
-      return handleResponse(getOrderPaymentDetailsResponse, "Order payment details");
-    } catch (error: unknown) {
-      return handleError(error, "order payment details");
-    }
+    return this.orders.paymentDetails(request, options);
   }
 
   /**
    * Retrieves the payment details for an order by ID.
    * Based on `get_order_payment_details_by_id` from the Python SDK.
    */
-  async getOrderPaymentDetailsById(
-    referenceId: string
+  getOrderPaymentDetailsById(
+    referenceId: string,
+    options?: RequestOptions
   ): Promise<GetOrderPaymentDetailsResponse> {
-    if (!isNonEmptyString(referenceId))
-      throw new TapsilatValidationError(
-        "Reference ID is required and must be a non-empty string"
-      );
-
-    try {
-      const getOrderPaymentDetailsResponse = await this.httpClient.get<GetOrderPaymentDetailsResponse>(
-        `/order/${referenceId}/payment-details`
-      );
-      return handleResponse(getOrderPaymentDetailsResponse, "Order payment details by id");
-    } catch (error: unknown) {
-      return handleError(error, "order payment details by id");
-    }
+    return this.orders.paymentDetailsById(referenceId, options);
   }
 
   /**
    * Retrieves the order callback via GET request.
    * Based on `order_callback` from the Python SDK.
    */
-  async orderCallback(
-    id: string
+  orderCallback(
+    id: string,
+    options?: RequestOptions
   ): Promise<OrderCallbackResponse> {
-    if (!isNonEmptyString(id))
-      throw new TapsilatValidationError(
-        "ID is required and must be a non-empty string"
-      );
-
-    try {
-      const response = await this.httpClient.get<OrderCallbackResponse>(
-        `/orders/${id}/callback`
-      );
-      return handleResponse(response, "Order callback");
-    } catch (error: unknown) {
-      return handleError(error, "order callback");
-    }
+    return this.orders.callback(id, options);
   }
 
   /**
    * Updates payment options for an order.
    * Based on `update_payment_options` from the Python SDK.
    */
-  async updatePaymentOptions(
-    request: OrderPaymentOptionsUpdateDTO
+  updatePaymentOptions(
+    request: OrderPaymentOptionsUpdateDTO,
+    options?: RequestOptions
   ): Promise<OrderRelatedUpdateResponse> {
-    try {
-      const response = await this.httpClient.patch<OrderRelatedUpdateResponse>(
-        "/order/payment-options",
-        request
-      );
-      return handleResponse(response, "Update payment options");
-    } catch (error: unknown) {
-      return handleError(error, "update payment options");
-    }
+    return this.orders.updatePaymentOptions(request, options);
   }
 
   /**
    * Splits order item payment.
    * Based on `split_order_item_payment` from the Python SDK.
    */
-  async splitOrderItemPayment(
-    request: SplitOrderItemPaymentDTO
+  splitOrderItemPayment(
+    request: SplitOrderItemPaymentDTO,
+    options?: RequestOptions
   ): Promise<OrderRelatedUpdateResponse> {
-    try {
-      const response = await this.httpClient.post<OrderRelatedUpdateResponse>(
-        "/order/split",
-        request
-      );
-      return handleResponse(response, "Split order item payment");
-    } catch (error: unknown) {
-      return handleError(error, "split order item payment");
-    }
+    return this.orders.splitItemPayment(request, options);
   }
 
   /**
    * Queries vpos for an order.
    * Based on `order_vpos_query` from the Python SDK.
    */
-  async orderVposQuery(
-    id: string
+  orderVposQuery(
+    id: string,
+    options?: RequestOptions
   ): Promise<OrderVposQueryResponse> {
-    if (!isNonEmptyString(id))
-      throw new TapsilatValidationError(
-        "ID is required and must be a non-empty string"
-      );
-
-    try {
-      const response = await this.httpClient.get<OrderVposQueryResponse>(
-        `/orders/${id}/vpos-query`
-      );
-      return handleResponse(response, "Order vpos query");
-    } catch (error: unknown) {
-      return handleError(error, "order vpos query");
-    }
+    return this.orders.vposQuery(id, options);
   }
 
   // ORDER LOOKUP BY CONVERSATION ID
@@ -1126,41 +988,13 @@ export class TapsilatSDK {
    * @description Alternative lookup method for orders using custom conversation identifier.
    *
    * @param conversationId - The custom conversation identifier used when creating the order
+   * @param options - Per-call options such as an abort signal, timeout or extra headers
    * @returns Promise resolving to the complete order details
    * @throws {TapsilatValidationError} When conversationId is invalid
    * @throws {TapsilatError} When API returns an error response
    */
-  async getOrderByConversationId(conversationId: string): Promise<GetOrderResponse> {
-    // Validate conversationId
-    if (!isNonEmptyString(conversationId)) {
-      throw new TapsilatValidationError(
-        "Order conversationId is required and must be a non-empty string",
-        { provided: conversationId }
-      );
-    }
-
-    try {
-      const getOrderByConversationIdResponse = await this.httpClient.get<GetOrderResponse>(
-        `/order/conversation/${conversationId}`
-      );
-
-      if (!getOrderByConversationIdResponse.success)
-        throw new TapsilatError(
-          getOrderByConversationIdResponse.error?.message ||
-          "Order retrieval by conversation ID failed",
-          getOrderByConversationIdResponse.error?.code || "ORDER_RETRIEVAL_FAILED"
-        );
-
-      if (!getOrderByConversationIdResponse.data)
-        throw new TapsilatError(
-          "Order response data is missing",
-          "ORDER_DATA_MISSING"
-        );
-
-      return getOrderByConversationIdResponse.data;
-    } catch (error: unknown) {
-      return handleError(error, "order retrieval by conversation ID");
-    }
+  getOrderByConversationId(conversationId: string, options?: RequestOptions): Promise<GetOrderResponse> {
+    return this.orders.byConversationId(conversationId, options);
   }
 
   // ORDER TRANSACTION HISTORY
@@ -1174,40 +1008,13 @@ export class TapsilatSDK {
    * @description Gets detailed transaction records and payment attempts for a specific order.
    *
    * @param referenceId - The unique reference ID of the order
+   * @param options - Per-call options such as an abort signal, timeout or extra headers
    * @returns Promise resolving to array of transaction records
    * @throws {TapsilatValidationError} When referenceId is invalid
    * @throws {TapsilatError} When API returns an error response
    */
-  async getOrderTransactions(referenceId: string): Promise<GetOrderTransactionsResponse> {
-    // Validate referenceId
-    if (!isNonEmptyString(referenceId)) {
-      throw new TapsilatValidationError(
-        "Order referenceId is required and must be a non-empty string",
-        { provided: referenceId }
-      );
-    }
-    try {
-      const getOrderTransactionsResponse = await this.httpClient.get<
-        GetOrderTransactionsResponse
-      >(`/order/${referenceId}/transactions`);
-
-      if (!getOrderTransactionsResponse.success)
-        throw new TapsilatError(
-          getOrderTransactionsResponse.error?.message ||
-          "Order transactions retrieval failed",
-          getOrderTransactionsResponse.error?.code ||
-          "TRANSACTIONS_RETRIEVAL_FAILED"
-        );
-      if (!getOrderTransactionsResponse.data)
-        throw new TapsilatError(
-          "Order transactions response data is missing",
-          "TRANSACTIONS_DATA_MISSING"
-        );
-
-      return getOrderTransactionsResponse.data;
-    } catch (error: unknown) {
-      return handleError(error, "order transactions retrieval");
-    }
+  getOrderTransactions(referenceId: string, options?: RequestOptions): Promise<GetOrderTransactionsResponse> {
+    return this.orders.transactions(referenceId, options);
   }
 
   // ORDER SUBMERCHANT LISTING
@@ -1224,24 +1031,12 @@ export class TapsilatSDK {
    * @returns Promise resolving to paginated list of submerchants
    * @throws {TapsilatError} When API returns an error response
    */
-  async getOrderSubmerchants(
-    params: GetOrderSubmerchantsRequest = {}
+  getOrderSubmerchants(
+    params: GetOrderSubmerchantsRequest = {},
+    options?: RequestOptions
   ): Promise<GetOrderSubmerchantsResponse> {
-    try {
-      const getOrderSubmerchantsResponse = await this.httpClient.get<
-        GetOrderSubmerchantsResponse
-      >("/order/submerchants", {
-        params: params,
-      });
-
-      return handleResponse(
-        getOrderSubmerchantsResponse,
-        "Order submerchants retrieval"
-      );
-    } catch (error: unknown) {
-      return handleError(error, "order submerchants retrieval");
-    }
-  }
+    return this.orders.submerchants(params, options);
+  }
 
   // ORDER CHECKOUT URL RETRIEVAL
   // Summary: Retrieve checkout URL for existing order
@@ -1254,18 +1049,12 @@ export class TapsilatSDK {
    * @description Gets the payment checkout URL for an existing order using reference ID.
    *
    * @param referenceId - The unique reference ID of the order
+   * @param options - Per-call options such as an abort signal, timeout or extra headers
    * @returns Promise resolving to the checkout URL string
    * @throws {TapsilatError} When checkout URL is not found in order response
    */
-  async getCheckoutUrl(referenceId: string): Promise<string> {
-    const order = await this.getOrder(referenceId);
-    if (order && order.checkout_url) {
-      return order.checkout_url;
-    }
-    throw new TapsilatError(
-      "Checkout URL not found in order response",
-      "CHECKOUT_URL_NOT_FOUND"
-    );
+  getCheckoutUrl(referenceId: string, options?: RequestOptions): Promise<string> {
+    return this.orders.checkoutUrl(referenceId, options);
   }
 
   // WEBHOOK SIGNATURE VERIFICATION
@@ -1283,25 +1072,12 @@ export class TapsilatSDK {
    * @returns Promise resolving to true if signature is valid
    * @throws {TapsilatValidationError} When input validation fails for payload, signature or secret
    */
-  async verifyWebhook(
+  verifyWebhook(
     payload: string,
     signature: string,
     secret: string
   ): Promise<boolean> {
-    if (!isNonEmptyString(payload))
-      throw new TapsilatValidationError(
-        "Webhook payload is required and must be a non-empty string"
-      );
-    if (!isNonEmptyString(signature))
-      throw new TapsilatValidationError(
-        "Webhook signature is required and must be a non-empty string"
-      );
-    if (!isNonEmptyString(secret))
-      throw new TapsilatValidationError(
-        "Webhook secret is required and must be a non-empty string"
-      );
-
-    return verifyHmacSignature(payload, signature, secret);
+    return this.webhooks.verify(payload, signature, secret);
   }
 
   // API HEALTH STATUS CHECK
@@ -1313,30 +1089,13 @@ export class TapsilatSDK {
    * @summary Check API service health and availability
    * @description Verifies that the Tapsilat API service is operational and accessible.
    *
+   * @param options - Per-call options such as an abort signal, timeout or extra headers
+   *
    * @returns Promise resolving to service status with status string and timestamp
    * @throws {TapsilatError} When API health check fails or returns invalid data
    */
-  async healthCheck(): Promise<{ status: string; timestamp: string }> {
-    try {
-      // We use the direct /health endpoint which returns plain string "OK"
-      const healthCheckResponse = await this.httpClient.get<string>("/health");
-      const healthData = handleResponse(healthCheckResponse, "Health check");
-
-      // The API returns "OK" string, verify consistency
-      if (healthData !== "OK") {
-        throw new TapsilatError(
-          `Unexpected health check response: ${healthData}`,
-          "HEALTH_CHECK_INVALID_RESPONSE"
-        );
-      }
-
-      return {
-        status: "UP",
-        timestamp: new Date().toISOString(),
-      };
-    } catch (error: unknown) {
-      return handleError(error, "health check");
-    }
+  healthCheck(options?: RequestOptions): Promise<{ status: string; timestamp: string }> {
+    return this.system.health(options);
   }
 
   // CONFIGURATION MANAGEMENT
@@ -1348,7 +1107,8 @@ export class TapsilatSDK {
    * @summary Access to the configuration manager for advanced configuration management
    * @description
    * Provides direct access to the ConfigManager instance for configuration operations.
-   * Use this to get, update, or manage SDK configuration settings.
+   * Use this to get, update, or manage SDK configuration settings. Updates are validated as a
+   * whole and reach the HTTP client immediately; `subscribe` reports each applied update.
    *
    * @example
    * ```typescript
@@ -1368,6 +1128,57 @@ export class TapsilatSDK {
     return this.configManager;
   }
 
+  /**
+   * Returns the URLs this client uses
+   *
+   * @summary Resolve the API base URL and the checkout and subscription domains
+   * @description
+   * Domains set in the configuration win. Otherwise, with `useOrganizationDomains`, the domains
+   * from the organization settings are used when the organization has them; the settings are
+   * fetched once and again after updates of the environment, URLs, domains or credentials. The environment preset comes last.
+   *
+   * @returns API base URL and checkout and subscription domains
+   */
+  async getEnvironment(): Promise<TapsilatEnvironment> {
+    const config = this.configManager.getInternalConfig();
+    const environment = resolveEnvironment(config);
+    if (!config.useOrganizationDomains) {
+      return environment;
+    }
+
+    const cache = this.organizationDomains;
+    if (!cache.pending) {
+      // Unavailable settings are not an error: the preset domains still apply
+      const domains = this.getOrganizationSettings().then(
+        (settings) => ({
+          checkoutDomain: settings.checkout_domain
+            ? toOrigin(settings.checkout_domain)
+            : undefined,
+          subscriptionDomain: settings.subscription_domain
+            ? toOrigin(settings.subscription_domain)
+            : undefined,
+        }),
+        () => {
+          if (cache.pending === domains) {
+            cache.pending = undefined;
+          }
+          return {};
+        }
+      );
+      cache.pending = domains;
+    }
+    const organization = await cache.pending;
+    return {
+      baseURL: environment.baseURL,
+      checkoutDomain:
+        (!config.checkoutDomain && organization.checkoutDomain) ||
+        environment.checkoutDomain,
+      subscriptionDomain:
+        (!config.subscriptionDomain && organization.subscriptionDomain) ||
+        environment.subscriptionDomain,
+    };
+  }
+
   // PAYMENT TERM MANAGEMENT
   // Summary: Create, update, delete, and manage payment terms for orders
   // Description: Full lifecycle management of payment terms including installments and refunds
@@ -1391,79 +1202,17 @@ export class TapsilatSDK {
    * @param {string} termData.status - Initial status of the payment term
    * @param {string} [termData.data] - Additional metadata for the term
    * @param {string} [termData.paid_date] - Date when payment was completed
+   * @param {RequestOptions} [options] - Per-call options such as a caller-supplied idempotency key
    *
    * @returns {Promise<PaymentTermResponse>} Promise resolving to created payment term details
    * @throws {TapsilatValidationError} When input validation fails
    * @throws {TapsilatError} When API returns an error response
    */
-  async createOrderTerm(
-    termData: OrderPaymentTermCreateDTO
-  ): Promise<OrderPaymentTermActionResponse> {
-    // Validate required fields
-    if (!isNonEmptyString(termData.order_id)) {
-      throw new TapsilatValidationError(
-        "Order ID is required and must be a non-empty string",
-        { provided: termData.order_id }
-      );
-    }
-
-    if (!isNonEmptyString(termData.term_reference_id)) {
-      throw new TapsilatValidationError(
-        "Term reference ID is required and must be a non-empty string",
-        { provided: termData.term_reference_id }
-      );
-    }
-
-    if (!isPositiveNumber(termData.amount)) {
-      throw new TapsilatValidationError("Amount must be a positive number", {
-        provided: termData.amount,
-      });
-    }
-
-    if (!hasValidDecimalPlaces(termData.amount)) {
-      throw new TapsilatValidationError(
-        "Amount must have maximum 2 decimal places",
-        { provided: termData.amount }
-      );
-    }
-
-    if (!isNonEmptyString(termData.due_date)) {
-      throw new TapsilatValidationError(
-        "Due date is required and must be a non-empty string",
-        { provided: termData.due_date }
-      );
-    }
-
-    if (!isInteger(termData.term_sequence)) {
-      throw new TapsilatValidationError("Term sequence must be an integer", {
-        provided: termData.term_sequence,
-      });
-    }
-
-    if (typeof termData.required !== "boolean") {
-      throw new TapsilatValidationError("Required field must be a boolean", {
-        provided: termData.required,
-      });
-    }
-
-    if (!isNonEmptyString(termData.status)) {
-      throw new TapsilatValidationError(
-        "Status is required and must be a non-empty string",
-        { provided: termData.status }
-      );
-    }
-
-    try {
-      const createTermResponse =
-        await this.httpClient.post<OrderPaymentTermActionResponse>(
-          "/order/term",
-          termData
-        );
-
-      return handleResponse(createTermResponse, "Payment term creation");
-    } catch (error: unknown) {
-      return handleError(error, "payment term creation");
-    }
+  createOrderTerm(
+    termData: OrderPaymentTermCreateDTO,
+    options?: RequestOptions
+  ): Promise<Idempotent<OrderPaymentTermActionResponse>> {
+    return this.orders.createTerm(termData, options);
   }
 
   /**
@@ -1483,68 +1232,17 @@ export class TapsilatSDK {
    * @param {boolean} [updateData.required] - Whether this payment term is required
    * @param {string} [updateData.status] - New status of the payment term
    * @param {number} [updateData.term_sequence] - New sequence number
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or extra headers
    *
    * @returns {Promise<PaymentTermResponse>} Promise resolving to updated payment term details
    * @throws {TapsilatValidationError} When input validation fails
    * @throws {TapsilatError} When API returns an error response
    */
-  async updateOrderTerm(
-    updateData: OrderPaymentTermUpdateDTO
+  updateOrderTerm(
+    updateData: OrderPaymentTermUpdateDTO,
+    options?: RequestOptions
   ): Promise<OrderPaymentTermActionResponse> {
-    // Validate required fields
-    if (!isNonEmptyString(updateData.term_reference_id)) {
-      throw new TapsilatValidationError(
-        "Term reference ID is required and must be a non-empty string",
-        { provided: updateData.term_reference_id }
-      );
-    }
-
-    // Validate optional amount if provided
-    if (updateData.amount !== undefined) {
-      if (!isPositiveNumber(updateData.amount)) {
-        throw new TapsilatValidationError("Amount must be a positive number", {
-          provided: updateData.amount,
-        });
-      }
-
-      if (!hasValidDecimalPlaces(updateData.amount)) {
-        throw new TapsilatValidationError(
-          "Amount must have maximum 2 decimal places",
-          { provided: updateData.amount }
-        );
-      }
-    }
-
-    // Validate optional term sequence if provided
-    if (updateData.term_sequence !== undefined) {
-      if (!isInteger(updateData.term_sequence)) {
-        throw new TapsilatValidationError("Term sequence must be an integer", {
-          provided: updateData.term_sequence,
-        });
-      }
-    }
-
-    // Validate optional required field if provided
-    if (
-      updateData.required !== undefined &&
-      typeof updateData.required !== "boolean"
-    ) {
-      throw new TapsilatValidationError("Required field must be a boolean", {
-        provided: updateData.required,
-      });
-    }
-
-    try {
-      const updateTermResponse =
-        await this.httpClient.patch<OrderPaymentTermActionResponse>(
-          "/order/term",
-          updateData
-        );
-
-      return handleResponse(updateTermResponse, "Payment term update");
-    } catch (error: unknown) {
-      return handleError(error, "payment term update");
-    }
+    return this.orders.updateTerm(updateData, options);
   }
 
   /**
@@ -1557,33 +1255,17 @@ export class TapsilatSDK {
    *
    * @param {PaymentTermDeleteRequest} deleteData - Payment term deletion data
    * @param {string} deleteData.term_reference_id - Reference ID of the term to delete
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or extra headers
    *
    * @returns {Promise<PaymentTermResponse>} Promise resolving to deleted payment term details
    * @throws {TapsilatValidationError} When input validation fails
    * @throws {TapsilatError} When API returns an error response
    */
-  async deleteOrderTerm(
-    deleteData: PaymentTermDeleteRequest
+  deleteOrderTerm(
+    deleteData: PaymentTermDeleteRequest,
+    options?: RequestOptions
   ): Promise<OrderPaymentTermActionResponse> {
-    // Validate required fields
-    if (!isNonEmptyString(deleteData.term_reference_id)) {
-      throw new TapsilatValidationError(
-        "Term reference ID is required and must be a non-empty string",
-        { provided: deleteData.term_reference_id }
-      );
-    }
-
-    try {
-      const deleteTermResponse =
-        await this.httpClient.delete<OrderPaymentTermActionResponse>(
-          "/order/term",
-          deleteData
-        );
-
-      return handleResponse(deleteTermResponse, "Payment term deletion");
-    } catch (error: unknown) {
-      return handleError(error, "payment term deletion");
-    }
+    return this.orders.deleteTerm(deleteData, options);
   }
 
   /**
@@ -1599,46 +1281,17 @@ export class TapsilatSDK {
    * @param {number} refundData.amount - Amount to refund
    * @param {string} [refundData.reference_id] - Optional reference ID
    * @param {string} [refundData.term_payment_id] - Optional term payment ID
+   * @param {RequestOptions} [options] - Per-call options such as a caller-supplied idempotency key
    *
    * @returns {Promise<PaymentTermRefundResponse>} Promise resolving to refund details
    * @throws {TapsilatValidationError} When input validation fails
    * @throws {TapsilatError} When API returns an error response
    */
-  async refundOrderTerm(
-    refundData: OrderTermRefundRequest
-  ): Promise<PaymentTermRefundResponse> {
-    // Validate required fields
-    if (!isNonEmptyString(refundData.term_id)) {
-      throw new TapsilatValidationError(
-        "Term ID is required and must be a non-empty string",
-        { provided: refundData.term_id }
-      );
-    }
-
-    if (!isPositiveNumber(refundData.amount)) {
-      throw new TapsilatValidationError("Amount must be a positive number", {
-        provided: refundData.amount,
-      });
-    }
-
-    if (!hasValidDecimalPlaces(refundData.amount)) {
-      throw new TapsilatValidationError(
-        "Amount must have maximum 2 decimal places",
-        { provided: refundData.amount }
-      );
-    }
-
-    try {
-      const refundTermResponse =
-        await this.httpClient.post<PaymentTermRefundResponse>(
-          "/order/term/refund",
-          refundData
-        );
-
-      return handleResponse(refundTermResponse, "Payment term refund");
-    } catch (error: unknown) {
-      return handleError(error, "payment term refund");
-    }
+  refundOrderTerm(
+    refundData: OrderTermRefundRequest,
+    options?: RequestOptions
+  ): Promise<Idempotent<PaymentTermRefundResponse>> {
+    return this.orders.refundTerm(refundData, options);
   }
 
   /**
@@ -1652,33 +1305,17 @@ export class TapsilatSDK {
    * @param {PaymentTermTerminateRequest} terminateData - Payment term termination data
    * @param {string} terminateData.term_reference_id - Reference ID of the term to terminate
    * @param {string} [terminateData.reason] - Optional reason for termination
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or extra headers
    *
    * @returns {Promise<PaymentTermResponse>} Promise resolving to terminated term details
    * @throws {TapsilatValidationError} When input validation fails
    * @throws {TapsilatError} When API returns an error response
    */
-  async terminateOrderTerm(
-    terminateData: PaymentTermTerminateRequest
+  terminateOrderTerm(
+    terminateData: PaymentTermTerminateRequest,
+    options?: RequestOptions
   ): Promise<PaymentTermResponse> {
-    // Validate required fields
-    if (!isNonEmptyString(terminateData.term_reference_id)) {
-      throw new TapsilatValidationError(
-        "Term reference ID is required and must be a non-empty string",
-        { provided: terminateData.term_reference_id }
-      );
-    }
-
-    try {
-      const terminateTermResponse =
-        await this.httpClient.post<PaymentTermResponse>(
-          "/order/term/terminate",
-          terminateData
-        );
-
-      return handleResponse(terminateTermResponse, "Payment term termination");
-    } catch (error: unknown) {
-      return handleError(error, "payment term termination");
-    }
+    return this.orders.terminateTerm(terminateData, options);
   }
 
   /**
@@ -1693,498 +1330,256 @@ export class TapsilatSDK {
    * @param {OrderTerminateRequest} terminateData - Order termination data
    * @param {string} terminateData.reference_id - Reference ID of the order to terminate
    * @param {string} [terminateData.reason] - Optional reason for termination
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or extra headers
    *
    * @returns {Promise<OrderTerminateResponse>} Promise resolving to terminated order details
    * @throws {TapsilatValidationError} When input validation fails
    * @throws {TapsilatError} When API returns an error response
    */
-  async terminateOrder(
-    terminateData: OrderTerminateRequest
+  terminateOrder(
+    terminateData: OrderTerminateRequest,
+    options?: RequestOptions
   ): Promise<OrderTerminateResponse> {
-    // Validate required fields
-    if (!isNonEmptyString(terminateData.reference_id)) {
-      throw new TapsilatValidationError(
-        "Reference ID is required and must be a non-empty string",
-        { provided: terminateData.reference_id }
-      );
-    }
-
-    try {
-      const terminateOrderResponse =
-        await this.httpClient.post<OrderTerminateResponse>(
-          "/order/terminate",
-          terminateData
-        );
-
-      return handleResponse(terminateOrderResponse, "Order termination");
-    } catch (error: unknown) {
-      return handleError(error, "order termination");
-    }
+    return this.orders.terminate(terminateData, options);
   }
 
-  async orderManualCallback(
+  orderManualCallback(
     referenceId: string,
-    conversationId?: string
+    conversationId?: string,
+    options?: RequestOptions
   ): Promise<OrderManualCallbackResponse> {
-    if (!isNonEmptyString(referenceId)) {
-      throw new TapsilatValidationError(
-        "Reference ID is required and must be a non-empty string"
-      );
-    }
-    const payload: OrderManualCallbackRequest = { reference_id: referenceId };
-    if (conversationId) {
-      payload.conversation_id = conversationId;
-    }
-    try {
-      const orderManualCallbackResponse = await this.httpClient.post<OrderManualCallbackResponse>(
-        "/order/callback",
-        payload
-      );
-      return handleResponse(orderManualCallbackResponse, "Order manual callback");
-    } catch (error: unknown) {
-      return handleError(error, "order manual callback");
-    }
+    return this.orders.manualCallback(referenceId, conversationId, options);
   }
 
-  async orderRelatedUpdate(
+  orderRelatedUpdate(
     referenceId: string,
-    relatedReferenceId: string
+    relatedReferenceId: string,
+    options?: RequestOptions
   ): Promise<OrderRelatedUpdateResponse> {
-    if (!isNonEmptyString(referenceId)) {
-      throw new TapsilatValidationError(
-        "Reference ID is required and must be a non-empty string"
-      );
-    }
-    if (!isNonEmptyString(relatedReferenceId)) {
-      throw new TapsilatValidationError(
-        "Related Reference ID is required and must be a non-empty string"
-      );
-    }
-    try {
-      const payload: OrderRelatedUpdateRequest = {
-        reference_id: referenceId,
-        related_reference_id: relatedReferenceId,
-      };
-      const orderRelatedUpdateResponse = await this.httpClient.patch<OrderRelatedUpdateResponse>(
-        "/order/releated",
-        payload
-      );
-      return handleResponse(orderRelatedUpdateResponse, "Order related update");
-    } catch (error: unknown) {
-      return handleError(error, "order related update");
-    }
+    return this.orders.relatedUpdate(referenceId, relatedReferenceId, options);
   }
 
-  async getOrganizationSettings(): Promise<OrganizationSettings> {
-    try {
-      const organizationSettingsResponse = await this.httpClient.get<OrganizationSettings>(
-        "/organization/settings"
-      );
-      return handleResponse(organizationSettingsResponse, "Get organization settings");
-    } catch (error: unknown) {
-      return handleError(error, "get organization settings");
-    }
+  getOrganizationSettings(options?: RequestOptions): Promise<OrganizationSettings> {
+    return this.organization.settings(options);
   }
 
-  async getOrderTerm(termReferenceId: string): Promise<GetOrderTermResponse> {
-    if (!isNonEmptyString(termReferenceId)) {
-      throw new TapsilatValidationError(
-        "Term Reference ID is required and must be a non-empty string"
-      );
-    }
-    try {
-      const orderTermResponse = await this.httpClient.get<GetOrderTermResponse>(
-        `/order/term`,
-        {
-          params: { term_reference_id: termReferenceId },
-        }
-      );
-      return handleResponse(orderTermResponse, "Get order term");
-    } catch (error: unknown) {
-      return handleError(error, "get order term");
-    }
+  getOrderTerm(termReferenceId: string, options?: RequestOptions): Promise<GetOrderTermResponse> {
+    return this.orders.getTerm(termReferenceId, options);
   }
 
   // SUBSCRIPTION METHODS
 
   /**
    * Add a new item to an existing order basket
+   *
+   * @param options - Per-call options such as an abort signal, timeout or extra headers
    */
-  async addBasketItem(request: AddBasketItemRequest): Promise<AddBasketItemResponse> {
-    try {
-      const addBasketItemResponse = await this.httpClient.post<AddBasketItemResponse>("/order/basket-item", request);
-      return handleResponse(addBasketItemResponse, "Add basket item");
-    } catch (error: unknown) {
-      return handleError(error, "add basket item");
-    }
+  addBasketItem(request: AddBasketItemRequest, options?: RequestOptions): Promise<AddBasketItemResponse> {
+    return this.orders.addBasketItem(request, options);
   }
 
   /**
    * Remove an item from an existing order basket
+   *
+   * @param options - Per-call options such as an abort signal, timeout or extra headers
    */
-  async removeBasketItem(request: RemoveBasketItemRequest): Promise<RemoveBasketItemResponse> {
-    try {
-      const removeBasketItemResponse = await this.httpClient.delete<RemoveBasketItemResponse>("/order/basket-item", request);
-      return handleResponse(removeBasketItemResponse, "Remove basket item");
-    } catch (error: unknown) {
-      return handleError(error, "remove basket item");
-    }
+  removeBasketItem(request: RemoveBasketItemRequest, options?: RequestOptions): Promise<RemoveBasketItemResponse> {
+    return this.orders.removeBasketItem(request, options);
   }
 
   /**
    * Update an existing item in an order basket
+   *
+   * @param options - Per-call options such as an abort signal, timeout or extra headers
    */
-  async updateBasketItem(request: UpdateBasketItemRequest): Promise<UpdateBasketItemResponse> {
-    try {
-      const updateBasketItemResponse = await this.httpClient.patch<UpdateBasketItemResponse>("/order/basket-item", request);
-      return handleResponse(updateBasketItemResponse, "Update basket item");
-    } catch (error: unknown) {
-      return handleError(error, "update basket item");
-    }
+  updateBasketItem(request: UpdateBasketItemRequest, options?: RequestOptions): Promise<UpdateBasketItemResponse> {
+    return this.orders.updateBasketItem(request, options);
   }
 
   /**
    * Retrieve organization callback (webhook) settings
+   *
+   * @param options - Per-call options such as an abort signal, timeout or extra headers
    */
-  async getOrganizationCallback(): Promise<CallbackURLDTO> {
-    try {
-      const organizationCallbackResponse = await this.httpClient.get<CallbackURLDTO>("/organization/callback");
-      return handleResponse(organizationCallbackResponse, "Get organization callback");
-    } catch (error: unknown) {
-      return handleError(error, "get organization callback");
-    }
+  getOrganizationCallback(options?: RequestOptions): Promise<CallbackURLDTO> {
+    return this.organization.callback(options);
   }
 
   /**
    * Update organization callback (webhook) settings
+   *
+   * @param options - Per-call options such as an abort signal, timeout or extra headers
    */
-  async updateOrganizationCallback(request: CallbackURLDTO): Promise<OrganizationResponse> {
-    try {
-      const organizationCallbackResponse = await this.httpClient.patch<OrganizationResponse>("/organization/callback", request);
-      return handleResponse(organizationCallbackResponse, "Update organization callback");
-    } catch (error: unknown) {
-      return handleError(error, "update organization callback");
-    }
+  updateOrganizationCallback(request: CallbackURLDTO, options?: RequestOptions): Promise<OrganizationResponse> {
+    return this.organization.updateCallback(request, options);
   }
 
   /**
    * Create a new business entity within the organization
+   *
+   * @param options - Per-call options such as an abort signal, timeout or extra headers
    */
-  async createOrganizationBusiness(request: OrgCreateBusinessRequest): Promise<OrgCreateBusinessResponse> {
-    try {
-      const organizationBusinessResponse = await this.httpClient.post<OrgCreateBusinessResponse>("/organization/business/create", request);
-      return handleResponse(organizationBusinessResponse, "Create organization business");
-    } catch (error: unknown) {
-      return handleError(error, "create organization business");
-    }
+  createOrganizationBusiness(request: OrgCreateBusinessRequest, options?: RequestOptions): Promise<OrgCreateBusinessResponse> {
+    return this.organization.createBusiness(request, options);
   }
 
   /**
    * Retrieve supported currencies for the organization
+   *
+   * @param options - Per-call options such as an abort signal, timeout or extra headers
    */
-  async getOrganizationCurrencies(): Promise<GetOrganizationCurrenciesResponse> {
-    try {
-      const organizationCurrenciesResponse = await this.httpClient.get<GetOrganizationCurrenciesResponse>("/organization/currencies");
-      return handleResponse(organizationCurrenciesResponse, "Get organization currencies");
-    } catch (error: unknown) {
-      return handleError(error, "get organization currencies");
-    }
+  getOrganizationCurrencies(options?: RequestOptions): Promise<GetOrganizationCurrenciesResponse> {
+    return this.organization.currencies(options);
   }
 
   /**
    * Retrieves organization currency presets.
    * Based on `get_organization_currency_presets` from Python SDK.
    */
-  async getOrganizationCurrencyPresets(): Promise<GetOrganizationCurrencyPresetsResponse> {
-    try {
-      const response = await this.httpClient.get<GetOrganizationCurrencyPresetsResponse>(
-        "/organization/currency-presets"
-      );
-      return handleResponse(response, "Get organization currency presets");
-    } catch (error: unknown) {
-      return handleError(error, "get organization currency presets");
-    }
+  getOrganizationCurrencyPresets(options?: RequestOptions): Promise<GetOrganizationCurrencyPresetsResponse> {
+    return this.organization.currencyPresets(options);
   }
 
   /**
    * Retrieves organization suborganization details.
    * Based on `get_organization_suborganization_details` from Python SDK.
    */
-  async getOrganizationSuborganizationDetails(id: string): Promise<GetSuborganizationDetailsResponse> {
-    if (!isNonEmptyString(id))
-      throw new TapsilatValidationError("ID is required and must be a non-empty string");
-
-    try {
-      const response = await this.httpClient.get<GetSuborganizationDetailsResponse>(
-        `/organization/suborganizations/${id}`
-      );
-      return handleResponse(response, "Get suborganization details");
-    } catch (error: unknown) {
-      return handleError(error, "get suborganization details");
-    }
+  getOrganizationSuborganizationDetails(id: string, options?: RequestOptions): Promise<GetSuborganizationDetailsResponse> {
+    return this.organization.suborganizationDetails(id, options);
   }
 
   /**
    * Retrieves organization suborganization submerchants.
    * Based on `get_organization_suborganization_submerchants` from Python SDK.
    */
-  async getOrganizationSuborganizationSubmerchants(id: string): Promise<GetSuborganizationSubmerchantsResponse> {
-    if (!isNonEmptyString(id))
-      throw new TapsilatValidationError("ID is required and must be a non-empty string");
-
-    try {
-      const response = await this.httpClient.get<GetSuborganizationSubmerchantsResponse>(
-        `/organization/suborganizations/${id}/submerchant`
-      );
-      return handleResponse(response, "Get suborganization submerchants");
-    } catch (error: unknown) {
-      return handleError(error, "get suborganization submerchants");
-    }
+  getOrganizationSuborganizationSubmerchants(id: string, options?: RequestOptions): Promise<GetSuborganizationSubmerchantsResponse> {
+    return this.organization.suborganizationSubmerchants(id, options);
   }
 
   /**
    * Retrieve limit information for a specific organization user
+   *
+   * @param options - Per-call options such as an abort signal, timeout or extra headers
    */
-  async getOrganizationLimitUser(request: GetUserLimitRequest): Promise<GetUserLimitResponse> {
-    try {
-      const organizationLimitUserResponse = await this.httpClient.get<GetUserLimitResponse>(
-        "/organization/limit/user",
-        { params: request }
-      );
-      return handleResponse(organizationLimitUserResponse, "Get organization user limit");
-    } catch (error: unknown) {
-      return handleError(error, "get organization user limit");
-    }
+  getOrganizationLimitUser(request: GetUserLimitRequest, options?: RequestOptions): Promise<GetUserLimitResponse> {
+    return this.organization.getLimitUser(request, options);
   }
 
   /**
    * Set limit for a specific organization user
+   *
+   * @param options - Per-call options such as an abort signal, timeout or extra headers
    */
-  async setOrganizationLimitUser(request: SetLimitUserRequest): Promise<SetLimitUserResponse> {
-    try {
-      const organizationLimitUserResponse = await this.httpClient.post<SetLimitUserResponse>("/organization/limit/user", request);
-      return handleResponse(organizationLimitUserResponse, "Set organization user limit");
-    } catch (error: unknown) {
-      return handleError(error, "set organization user limit");
-    }
+  setOrganizationLimitUser(request: SetLimitUserRequest, options?: RequestOptions): Promise<SetLimitUserResponse> {
+    return this.organization.setLimitUser(request, options);
   }
 
   /**
    * Retrieve organization overall limits
+   *
+   * @param options - Per-call options such as an abort signal, timeout or extra headers
    */
-  async getOrganizationLimits(): Promise<GetOrganizationLimitsResponse> {
-    try {
-      const organizationLimitsResponse = await this.httpClient.get<GetOrganizationLimitsResponse>("/organization/limits");
-      return handleResponse(organizationLimitsResponse, "Get organization limits");
-    } catch (error: unknown) {
-      return handleError(error, "get organization limits");
-    }
+  getOrganizationLimits(options?: RequestOptions): Promise<GetOrganizationLimitsResponse> {
+    return this.organization.limits(options);
   }
 
   /**
    * Retrieve meta information for the organization
+   *
+   * @param options - Per-call options such as an abort signal, timeout or extra headers
    */
-  async getOrganizationMeta(name: string): Promise<GetMetaResponse> {
-    if (!isNonEmptyString(name)) {
-      throw new TapsilatValidationError(
-        "Meta name is required and must be a non-empty string"
-      );
-    }
-    try {
-      const organizationMetaResponse = await this.httpClient.get<GetMetaResponse>(
-        `/organization/meta/${name}`
-      );
-      return handleResponse(organizationMetaResponse, "Get organization meta");
-    } catch (error: unknown) {
-      return handleError(error, "get organization meta");
-    }
+  getOrganizationMeta(name: string, options?: RequestOptions): Promise<GetMetaResponse> {
+    return this.organization.meta(name, options);
   }
 
   /**
    * Retrieve supported scopes for the organization
+   *
+   * @param options - Per-call options such as an abort signal, timeout or extra headers
    */
-  async getOrganizationScopes(): Promise<GetOrganizationScopesResponse> {
-    try {
-      const organizationScopesResponse = await this.httpClient.get<GetOrganizationScopesResponse>("/organization/scopes");
-      return handleResponse(organizationScopesResponse, "Get organization scopes");
-    } catch (error: unknown) {
-      return handleError(error, "get organization scopes");
-    }
+  getOrganizationScopes(options?: RequestOptions): Promise<GetOrganizationScopesResponse> {
+    return this.organization.scopes(options);
   }
 
   /**
    * Retrieve list of sub-organizations
    */
-  async getOrganizationSuborganizations(
-    params: GetSuborganizationsRequest = {}
+  getOrganizationSuborganizations(
+    params: GetSuborganizationsRequest = {},
+    options?: RequestOptions
   ): Promise<GetSubOrganizationListResponse> {
-    if (params.page !== undefined) {
-      if (!isInteger(params.page) || params.page < 1) {
-        throw new TapsilatValidationError(
-          "Suborganization page must be a positive integer",
-          { provided: params.page }
-        );
-      }
-    }
-    if (params.per_page !== undefined) {
-      if (!isInteger(params.per_page) || params.per_page < 1) {
-        throw new TapsilatValidationError(
-          "Suborganization per_page must be a positive integer",
-          { provided: params.per_page }
-        );
-      }
-    }
-    try {
-      const organizationSuborganizationsResponse = await this.httpClient.get<GetSubOrganizationListResponse>(
-        "/organization/suborganizations",
-        { params: params as Record<string, unknown> }
-      );
-      return handleResponse(organizationSuborganizationsResponse, "Get organization suborganizations");
-    } catch (error: unknown) {
-      return handleError(error, "get organization suborganizations");
-    }
+    return this.organization.suborganizations(params, options);
   }
 
   /**
    * Create a new user within the organization
+   *
+   * @param options - Per-call options such as an abort signal, timeout or extra headers
    */
-  async createOrganizationUser(request: OrgCreateUserRequest): Promise<OrgCreateUserResponse> {
-    try {
-      const organizationUserResponse = await this.httpClient.post<OrgCreateUserResponse>("/organization/user/create", request);
-      return handleResponse(organizationUserResponse, "Create organization user");
-    } catch (error: unknown) {
-      return handleError(error, "create organization user");
-    }
+  createOrganizationUser(request: OrgCreateUserRequest, options?: RequestOptions): Promise<OrgCreateUserResponse> {
+    return this.organization.createUser(request, options);
   }
 
   /**
    * Verify an organization user
+   *
+   * @param options - Per-call options such as an abort signal, timeout or extra headers
    */
-  async verifyOrganizationUser(request: OrgUserVerifyRequest): Promise<OrgUserVerifyResponse> {
-    try {
-      const organizationUserVerifyResponse = await this.httpClient.post<OrgUserVerifyResponse>("/organization/user/verify", request);
-      return handleResponse(organizationUserVerifyResponse, "Verify organization user");
-    } catch (error: unknown) {
-      return handleError(error, "verify organization user");
-    }
+  verifyOrganizationUser(request: OrgUserVerifyRequest, options?: RequestOptions): Promise<OrgUserVerifyResponse> {
+    return this.organization.verifyUser(request, options);
   }
 
   /**
    * Verify an organization user via mobile
+   *
+   * @param options - Per-call options such as an abort signal, timeout or extra headers
    */
-  async verifyOrganizationUserMobile(request: OrgUserMobileVerifyRequest): Promise<OrgUserMobileVerifyResponse> {
-    try {
-      const organizationUserMobileVerifyResponse = await this.httpClient.post<OrgUserMobileVerifyResponse>("/organization/user/verify-mobile", request);
-      return handleResponse(organizationUserMobileVerifyResponse, "Verify organization user mobile");
-    } catch (error: unknown) {
-      return handleError(error, "verify organization user mobile");
-    }
+  verifyOrganizationUserMobile(request: OrgUserMobileVerifyRequest, options?: RequestOptions): Promise<OrgUserMobileVerifyResponse> {
+    return this.organization.verifyUserMobile(request, options);
   }
 
   /**
    * List virtual POS terminals for the organization
+   *
+   * @param options - Per-call options such as an abort signal, timeout or extra headers
    */
-  async listOrganizationVpos(request: GetVposRequest): Promise<GetVposResponse> {
-    try {
-      const organizationVposResponse = await this.httpClient.post<GetVposResponse>("/organization/list-vpos", request);
-      return handleResponse(organizationVposResponse, "List organization VPOs");
-    } catch (error: unknown) {
-      return handleError(error, "list organization VPOs");
-    }
+  listOrganizationVpos(request: GetVposRequest, options?: RequestOptions): Promise<GetVposResponse> {
+    return this.organization.listVpos(request, options);
   }
 
-  async createSubscription(
-    request: SubscriptionCreateRequest
+  createSubscription(
+    request: SubscriptionCreateRequest,
+    options?: RequestOptions
   ): Promise<SubscriptionCreateResponse> {
-    try {
-      const subcriptionCreateResponse = await this.httpClient.post<SubscriptionCreateResponse>(
-        "/subscription/create",
-        request
-      );
-      return handleResponse(subcriptionCreateResponse, "Create subscription");
-    } catch (error: unknown) {
-      return handleError(error, "create subscription");
-    }
+    return this.subscriptions.create(request, options);
   }
 
-  async getSubscription(
-    request: SubscriptionGetRequest
+  getSubscription(
+    request: SubscriptionGetRequest,
+    options?: RequestOptions
   ): Promise<SubscriptionDetail> {
-    try {
-      const subscriptionDetailResponse = await this.httpClient.post<SubscriptionDetail>(
-        "/subscription",
-        request
-      );
-      const data = handleResponse(subscriptionDetailResponse, "Get subscription");
-
-      if (data.orders) {
-        data.orders.forEach((order) => {
-          if (order.payment_url && !order.payment_url.startsWith("http")) {
-            order.payment_url = `https://${order.payment_url}`;
-          }
-        });
-      }
-
-      return data;
-    } catch (error: unknown) {
-      return handleError(error, "get subscription");
-    }
+    return this.subscriptions.get(request, options);
   }
 
-  async listSubscriptions(
-    params: ListSubscriptionsRequest = {}
+  listSubscriptions(
+    params: ListSubscriptionsRequest = {},
+    options?: RequestOptions
   ): Promise<ListSubscriptionsResponse> {
-    try {
-      const listSubscriptionsResponse = await this.httpClient.get<
-        ListSubscriptionsResponse
-      >("/subscription/list", { params });
-      
-      return handleResponse(listSubscriptionsResponse, "List subscriptions");
-    } catch (error: unknown) {
-      return handleError(error, "list subscriptions");
-    }
+    return this.subscriptions.list(params, options);
   }
 
-  async cancelSubscription(
-    request: SubscriptionCancelRequest
+  cancelSubscription(
+    request: SubscriptionCancelRequest,
+    options?: RequestOptions
   ): Promise<CancelSubscriptionResponse> {
-    try {
-      const subscriptionCancelResponse = await this.httpClient.post<CancelSubscriptionResponse>(
-        "/subscription/cancel",
-        request
-      );
-      return handleResponse(subscriptionCancelResponse, "Cancel subscription");
-    } catch (error: unknown) {
-      return handleError(error, "cancel subscription");
-    }
+    return this.subscriptions.cancel(request, options);
   }
 
-  async redirectSubscription(
-    request: SubscriptionRedirectRequest
+  redirectSubscription(
+    request: SubscriptionRedirectRequest,
+    options?: RequestOptions
   ): Promise<SubscriptionRedirectResponse> {
-    try {
-      const subscriptionRedirectResponse = await this.httpClient.post<SubscriptionRedirectResponse>(
-        "/subscription/redirect",
-        request
-      );
-      const data = handleResponse(subscriptionRedirectResponse, "Redirect subscription");
-
-      if (data.url) {
-        // Extract subscription ID from the signed URL to create a clean link
-        // api returns: /token/subscription/{id}
-        // we want: https://checkout.tapsilat.dev/subscription/{id}
-        const match = data.url.match(/\/subscription\/([a-f0-9-]{36})$/);
-        if (match) {
-          data.url = `https://checkout.tapsilat.dev/?reference_id=${match[1]}`;
-        } else if (data.url.startsWith("/")) {
-          data.url = `https://checkout.tapsilat.dev${data.url}`;
-        }
-      }
-
-      return data;
-    } catch (error: unknown) {
-      return handleError(error, "redirect subscription");
-    }
+    return this.subscriptions.redirect(request, options);
   }
 
   // ORDER PAYMENTS
@@ -2198,17 +1593,11 @@ export class TapsilatSDK {
    * @description Retrieve a list of payments made for a specific order.
    *
    * @param request - Order payments request containing order_id
+   * @param options - Per-call options such as an abort signal, timeout or extra headers
    * @returns Promise resolving to order payments
    */
-  async getOrderPayments(request: GetOrderPaymentsRequest): Promise<GetOrderPaymentsResponse> {
-    try {
-      const response = await this.httpClient.get<GetOrderPaymentsResponse>(
-        `/order/${request.order_id}/payment`
-      );
-      return handleResponse(response, "Get order payments");
-    } catch (error) {
-      return handleError(error, "get order payments");
-    }
+  getOrderPayments(request: GetOrderPaymentsRequest, options?: RequestOptions): Promise<GetOrderPaymentsResponse> {
+    return this.orders.getPayments(request, options);
   }
 
   // ORDER PDF
@@ -2219,20 +1608,16 @@ export class TapsilatSDK {
    * Based on `get_order_pdf` from the Python SDK.
    *
    * @summary Download order PDF
-   * @description Download order as a PDF file.
+   * @description Download order as a PDF file. The file is buffered in memory; use
+   * `downloadOrderPdf` to stream it.
    *
    * @param id - Order reference ID
+   * @param options - Per-call options such as an abort signal, timeout or extra headers
    * @returns Promise resolving to a Blob representing the PDF
+   * @throws {TapsilatValidationError} When the order ID is empty
    */
-  async getOrderPdf(id: string): Promise<Blob> {
-    const response = await this.httpClient.get<Blob>(
-      `/order/${id}/pdf`,
-      { responseType: 'blob' }
-    );
-    if (!response.success) {
-      handleError(response.error, "get order pdf");
-    }
-    return response.data as Blob;
+  getOrderPdf(id: string, options?: RequestOptions): Promise<Blob> {
+    return this.orders.getPdf(id, options);
   }
 
   // ORDER EXCEL
@@ -2243,20 +1628,72 @@ export class TapsilatSDK {
    * Based on `get_order_excel` from the Python SDK.
    *
    * @summary Download order Excel
-   * @description Download order as an Excel file.
+   * @description Download order as an Excel file. The file is buffered in memory; use
+   * `downloadOrderExcel` to stream it.
    *
    * @param id - Order reference ID
+   * @param options - Per-call options such as an abort signal, timeout or extra headers
    * @returns Promise resolving to a Blob representing the Excel file
+   * @throws {TapsilatValidationError} When the order ID is empty
    */
-  async getOrderExcel(id: string): Promise<Blob> {
-    const response = await this.httpClient.get<Blob>(
-      `/order/${id}/excel`,
-      { responseType: 'blob' }
-    );
-    if (!response.success) {
-      handleError(response.error, "get order excel");
-    }
-    return response.data as Blob;
+  getOrderExcel(id: string, options?: RequestOptions): Promise<Blob> {
+    return this.orders.getExcel(id, options);
+  }
+
+  // ORDER PDF STREAM
+  // Summary: Stream order PDF
+  // Description: Download order as a PDF file without buffering it.
+  /**
+   * Streams order PDF.
+   *
+   * @summary Stream order PDF
+   * @description
+   * Resolves once the response headers arrive; the file is then read from the returned download
+   * as a web stream, a Node stream, or by saving it with `saveTo`. The file name comes from the
+   * Content-Disposition header, falling back to `<id>.pdf`.
+   *
+   * @example
+   * ```typescript
+   * const pdf = await sdk.downloadOrderPdf("ref-1");
+   * await pdf.saveTo(`/tmp/${pdf.filename}`, {
+   *   onProgress: ({ bytes, totalBytes }) => console.log(bytes, totalBytes),
+   * });
+   * ```
+   *
+   * @param id - Order reference ID
+   * @param options - Per-call options; the signal also cancels reading the file
+   * @returns Promise resolving to the download
+   * @throws {TapsilatValidationError} When the order ID is empty
+   */
+  downloadOrderPdf(
+    id: string,
+    options?: RequestOptions
+  ): Promise<FileDownload> {
+    return this.orders.downloadPdf(id, options);
+  }
+
+  // ORDER EXCEL STREAM
+  // Summary: Stream order Excel
+  // Description: Download order as an Excel file without buffering it.
+  /**
+   * Streams order Excel.
+   *
+   * @summary Stream order Excel
+   * @description
+   * Resolves once the response headers arrive; the file is then read from the returned download
+   * as a web stream, a Node stream, or by saving it with `saveTo`. The file name comes from the
+   * Content-Disposition header, falling back to `<id>.xlsx`.
+   *
+   * @param id - Order reference ID
+   * @param options - Per-call options; the signal also cancels reading the file
+   * @returns Promise resolving to the download
+   * @throws {TapsilatValidationError} When the order ID is empty
+   */
+  downloadOrderExcel(
+    id: string,
+    options?: RequestOptions
+  ): Promise<FileDownload> {
+    return this.orders.downloadExcel(id, options);
   }
 
   // ORDER REFUND REQUEST
@@ -2270,19 +1707,11 @@ export class TapsilatSDK {
    * @description Request a refund for an order.
    *
    * @param request - Order refund request payload
+   * @param options - Per-call options such as an abort signal, timeout or extra headers
    * @returns Promise resolving to refund response
    */
-  async createOrderRefundRequest(request: RefundOrderDTO): Promise<OrderRefundResponse> {
-    try {
-      const { reference_id, ...data } = request;
-      const response = await this.httpClient.post<OrderRefundResponse>(
-        `/order/${reference_id}/refund/request`,
-        data as Record<string, unknown>
-      );
-      return handleResponse(response, "Create order refund request");
-    } catch (error) {
-      return handleError(error, "create order refund request");
-    }
+  createOrderRefundRequest(request: RefundOrderDTO, options?: RequestOptions): Promise<OrderRefundResponse> {
+    return this.orders.createRefundRequest(request, options);
   }
 
   // ADD ORDER OIP
@@ -2296,19 +1725,11 @@ export class TapsilatSDK {
    * @description Adds an order item payment to a specific order.
    *
    * @param request - Order OIP request payload containing order_id and other details
+   * @param options - Per-call options such as an abort signal, timeout or extra headers
    * @returns Promise resolving to OIP response
    */
-  async addOrderOip(request: OrderOIPDTO): Promise<OrderOIPResponse> {
-    try {
-      const { order_id, ...data } = request;
-      const response = await this.httpClient.post<OrderOIPResponse>(
-        `/order/${order_id}/oip`,
-        data as Record<string, unknown>
-      );
-      return handleResponse(response, "Add order OIP");
-    } catch (error) {
-      return handleError(error, "add order oip");
-    }
+  addOrderOip(request: OrderOIPDTO, options?: RequestOptions): Promise<OrderOIPResponse> {
+    return this.orders.addOip(request, options);
   }
 
   // CREATE SUBMERCHANT
@@ -2322,18 +1743,11 @@ export class TapsilatSDK {
    * @description Creates a new submerchant.
    *
    * @param request - Submerchant creation payload
+   * @param options - Per-call options such as an abort signal, timeout or extra headers
    * @returns Promise resolving to the created submerchant details
    */
-  async createSubmerchant(request: SubmerchantCreateDTO): Promise<GetSubmerchantResponse> {
-    try {
-      const response = await this.httpClient.post<GetSubmerchantResponse>(
-        `/submerchants`,
-        request as unknown as Record<string, unknown>
-      );
-      return handleResponse(response, "Create submerchant");
-    } catch (error) {
-      return handleError(error, "create submerchant");
-    }
+  createSubmerchant(request: SubmerchantCreateDTO, options?: RequestOptions): Promise<GetSubmerchantResponse> {
+    return this.submerchant.create(request, options);
   }
 
   // GET SUBMERCHANT
@@ -2347,17 +1761,11 @@ export class TapsilatSDK {
    * @description Retrieves submerchant details.
    *
    * @param id - Submerchant ID
+   * @param options - Per-call options such as an abort signal, timeout or extra headers
    * @returns Promise resolving to submerchant details
    */
-  async getSubmerchant(id: string): Promise<GetSubmerchantResponse> {
-    try {
-      const response = await this.httpClient.get<GetSubmerchantResponse>(
-        `/submerchants/${id}`
-      );
-      return handleResponse(response, "Get submerchant");
-    } catch (error) {
-      return handleError(error, "get submerchant");
-    }
+  getSubmerchant(id: string, options?: RequestOptions): Promise<GetSubmerchantResponse> {
+    return this.submerchant.get(id, options);
   }
 
   // GET SUBORGANIZATION BY SUBMERCHANT
@@ -2371,17 +1779,11 @@ export class TapsilatSDK {
    * @description Retrieves the suborganization details associated with a submerchant.
    *
    * @param id - Submerchant ID
+   * @param options - Per-call options such as an abort signal, timeout or extra headers
    * @returns Promise resolving to suborganization details
    */
-  async getSuborganizationBySubmerchant(id: string): Promise<unknown> {
-    try {
-      const response = await this.httpClient.get<unknown>(
-        `/submerchants/${id}/suborganization`
-      );
-      return handleResponse(response, "Get suborganization by submerchant");
-    } catch (error) {
-      return handleError(error, "get suborganization by submerchant");
-    }
+  getSuborganizationBySubmerchant(id: string, options?: RequestOptions): Promise<unknown> {
+    return this.submerchant.getSuborganization(id, options);
   }
 
   // UPDATE SUBMERCHANT
@@ -2396,18 +1798,11 @@ export class TapsilatSDK {
    *
    * @param id - Submerchant ID
    * @param request - Update payload
+   * @param options - Per-call options such as an abort signal, timeout or extra headers
    * @returns Promise resolving to updated submerchant details
    */
-  async updateSubmerchant(id: string, request: SubmerchantUpdateDTO): Promise<GetSubmerchantResponse> {
-    try {
-      const response = await this.httpClient.put<GetSubmerchantResponse>(
-        `/submerchants/${id}`,
-        request as Record<string, unknown>
-      );
-      return handleResponse(response, "Update submerchant");
-    } catch (error) {
-      return handleError(error, "update submerchant");
-    }
+  updateSubmerchant(id: string, request: SubmerchantUpdateDTO, options?: RequestOptions): Promise<GetSubmerchantResponse> {
+    return this.submerchant.update(id, request, options);
   }
 
   // DELETE SUBMERCHANT
@@ -2421,17 +1816,11 @@ export class TapsilatSDK {
    * @description Deletes a submerchant.
    *
    * @param id - Submerchant ID
+   * @param options - Per-call options such as an abort signal, timeout or extra headers
    * @returns Promise resolving to deletion status
    */
-  async deleteSubmerchant(id: string): Promise<unknown> {
-    try {
-      const response = await this.httpClient.delete<unknown>(
-        `/submerchants/${id}`
-      );
-      return handleResponse(response, "Delete submerchant");
-    } catch (error) {
-      return handleError(error, "delete submerchant");
-    }
+  deleteSubmerchant(id: string, options?: RequestOptions): Promise<unknown> {
+    return this.submerchant.delete(id, options);
   }
 
   // LIST SUBMERCHANTS
@@ -2446,22 +1835,11 @@ export class TapsilatSDK {
    *
    * @param page - Page number
    * @param perPage - Items per page
+   * @param options - Per-call options such as an abort signal, timeout or extra headers
    * @returns Promise resolving to list of submerchants
    */
-  async listSubmerchants(page?: number, perPage?: number): Promise<ListSubmerchantsResponse> {
-    try {
-      const params: Record<string, unknown> = {};
-      if (page) params.page = page;
-      if (perPage) params.per_page = perPage;
-
-      const response = await this.httpClient.get<ListSubmerchantsResponse>(
-        `/submerchants`,
-        { params }
-      );
-      return handleResponse(response, "List submerchants");
-    } catch (error) {
-      return handleError(error, "list submerchants");
-    }
+  listSubmerchants(page?: number, perPage?: number, options?: RequestOptions): Promise<ListSubmerchantsResponse> {
+    return this.submerchant.list(page, perPage, options);
   }
 
   // CREATE ORGANIZATION USER TOKEN
@@ -2475,108 +1853,69 @@ export class TapsilatSDK {
    * @description Creates a token for an organization user.
    *
    * @param request - Token creation payload
+   * @param options - Per-call options such as an abort signal, timeout or extra headers
    * @returns Promise resolving to the created token details
    */
-  async createOrganizationUserToken(request: OrgUserTokenCreateReq): Promise<OrgUserTokenCreateResponse> {
-    try {
-      const response = await this.httpClient.post<OrgUserTokenCreateResponse>(
-        `/organization/user/token`,
-        request as unknown as Record<string, unknown>
-      );
-      return handleResponse(response, "Create organization user token");
-    } catch (error) {
-      return handleError(error, "create organization user token");
-    }
+  createOrganizationUserToken(request: OrgUserTokenCreateReq, options?: RequestOptions): Promise<OrgUserTokenCreateResponse> {
+    return this.organization.createUserToken(request, options);
   }
   /**
    * Charge an order
+   *
+   * @param options - Per-call options such as an abort signal, timeout or extra headers
    */
-  async chargeOrder(request: OrderChargeRequest): Promise<OrderChargeResponse> {
-    try {
-      const response = await this.httpClient.post<OrderChargeResponse>(
-        `/order/charge`,
-        request
-      );
-      return handleResponse(response, "Charge order");
-    } catch (error: unknown) {
-      return handleError(error, "charge order");
-    }
+  chargeOrder(
+    request: OrderChargeRequest,
+    options?: RequestOptions
+  ): Promise<Idempotent<OrderChargeResponse>> {
+    return this.orders.charge(request, options);
   }
 
   /**
    * Get payments for an order
+   *
+   * @param options - Per-call options such as an abort signal, timeout or extra headers
    */
-  async getAllOrdersPayments(): Promise<GetOrderPaymentsResponse> {
-    try {
-      const response = await this.httpClient.get<GetOrderPaymentsResponse>("/orders/payments");
-      return handleResponse(response, "Get all orders payments");
-    } catch (error: unknown) {
-      return handleError(error, "get all orders payments");
-    }
+  getAllOrdersPayments(options?: RequestOptions): Promise<GetOrderPaymentsResponse> {
+    return this.orders.allPayments(options);
   }
 
   /**
    * Create organization currency
+   *
+   * @param options - Per-call options such as an abort signal, timeout or extra headers
    */
-  async createOrganizationCurrency(payload: CreateOrganizationCurrencyPayload): Promise<CreateOrganizationCurrencyResponse> {
-    try {
-      const response = await this.httpClient.post<CreateOrganizationCurrencyResponse>(
-        "/organization/currencies",
-        payload
-      );
-      return handleResponse(response, "Create organization currency");
-    } catch (error: unknown) {
-      return handleError(error, "create organization currency");
-    }
+  createOrganizationCurrency(payload: CreateOrganizationCurrencyPayload, options?: RequestOptions): Promise<CreateOrganizationCurrencyResponse> {
+    return this.organization.createCurrency(payload, options);
   }
 
   /**
    * Get organization partners
+   *
+   * @param options - Per-call options such as an abort signal, timeout or extra headers
    */
-  async getOrganizationPartners(): Promise<GetOrganizationPartnersResponse> {
-    try {
-      const response = await this.httpClient.get<GetOrganizationPartnersResponse>("/organization/partners");
-      return handleResponse(response, "Get organization partners");
-    } catch (error: unknown) {
-      return handleError(error, "get organization partners");
-    }
+  getOrganizationPartners(options?: RequestOptions): Promise<GetOrganizationPartnersResponse> {
+    return this.organization.partners(options);
   }
 
   /**
    * Get organization limits by ID
    */
-  async getOrganizationLimitsById(
+  getOrganizationLimitsById(
     id: string,
-    params?: { currency?: string; operation?: string }
+    params?: { currency?: string; operation?: string },
+    options?: RequestOptions
   ): Promise<GetOrganizationLimitsByIdResponse> {
-    if (!isNonEmptyString(id)) {
-      throw new TapsilatValidationError("ID is required and must be a non-empty string");
-    }
-    try {
-      const queryParams = new URLSearchParams();
-      if (params?.currency) queryParams.append("currency", params.currency);
-      if (params?.operation) queryParams.append("operation", params.operation);
-      
-      const queryString = queryParams.toString();
-      const url = `/organization/${id}/limits${queryString ? `?${queryString}` : ''}`;
-      
-      const response = await this.httpClient.get<GetOrganizationLimitsByIdResponse>(url);
-      return handleResponse(response, "Get organization limits by ID");
-    } catch (error: unknown) {
-      return handleError(error, "get organization limits by ID");
-    }
+    return this.organization.limitsById(id, params, options);
   }
 
   /**
    * Get system config
+   *
+   * @param options - Per-call options such as an abort signal, timeout or extra headers
    */
-  async getSystemConfig(): Promise<GetSystemConfigResponse> {
-    try {
-      const response = await this.httpClient.get<GetSystemConfigResponse>("/system/config");
-      return handleResponse(response, "Get system config");
-    } catch (error: unknown) {
-      return handleError(error, "get system config");
-    }
+  getSystemConfig(options?: RequestOptions): Promise<GetSystemConfigResponse> {
+    return this.system.config(options);
   }
 
 }
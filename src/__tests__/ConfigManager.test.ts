@@ -1,5 +1,7 @@
 import { ConfigManager } from "../config/ConfigManager";
-import { TapsilatConfig } from "../types/index";
+import { TapsilatSDK } from "../TapsilatSDK";
+import { InMemoryTransport } from "../testing/InMemoryTransport";
+import { ConfigChange, TapsilatConfig } from "../types/index";
 import { TapsilatValidationError } from "../errors/TapsilatError";
 
 describe("ConfigManager", () => {
@@ -34,6 +36,31 @@ describe("ConfigManager", () => {
       // Internal config should remain unchanged
       expect(manager.getInternalConfig().timeout).toBe(30000);
     });
+
+    it("should reject an invalid initial configuration", () => {
+      const create = (): ConfigManager =>
+        new ConfigManager({ ...validConfig, timeout: -5, maxRetries: 1.5 });
+
+      expect(create).toThrow(TapsilatValidationError);
+      expect(create).toThrow(
+        "Invalid configuration: " +
+          "timeout: Timeout must be a positive number of milliseconds; " +
+          "maxRetries: Max retries must be a non-negative integer"
+      );
+    });
+
+    it("should reject invalid options when the SDK is created", () => {
+      const create = (config: Partial<TapsilatConfig>): TapsilatSDK =>
+        new TapsilatSDK({ ...validConfig, ...config });
+
+      expect(() => create({ timeout: -5 })).toThrow(TapsilatValidationError);
+      expect(() =>
+        create({ environment: "qa" as TapsilatConfig["environment"] })
+      ).toThrow(/environment: Environment must be one of/);
+      expect(() => create({ baseURL: "not a url" })).toThrow(
+        /baseURL: Base URL must be a valid HTTP\/HTTPS URL/
+      );
+    });
   });
 
   describe("getConfig", () => {
@@ -47,7 +74,11 @@ describe("ConfigManager", () => {
     });
 
     it("should indicate when bearer token is missing", () => {
-      const configWithoutToken = { ...validConfig, bearerToken: "" };
+      const configWithoutToken = {
+        ...validConfig,
+        bearerToken: undefined,
+        credentials: (): string => "provided-token-1",
+      };
       const manager = new ConfigManager(configWithoutToken);
       
       const config = manager.getConfig();
@@ -84,6 +115,108 @@ describe("ConfigManager", () => {
 
       expect(configManager.getBearerToken()).toBe(newToken);
     });
+
+    it("should reject the whole update when any field is invalid", () => {
+      let error: unknown;
+      try {
+        configManager.updateConfig({
+          timeout: 5000,
+          baseURL: "not a url",
+          maxRetries: -1,
+        });
+      } catch (caught) {
+        error = caught;
+      }
+
+      expect(error).toBeInstanceOf(TapsilatValidationError);
+      expect((error as TapsilatValidationError).details).toEqual({
+        baseURL: expect.any(String),
+        maxRetries: expect.any(String),
+      });
+      expect(configManager.getTimeout()).toBe(30000);
+      expect(configManager.getBaseUrl()).toBe("https://panel.tapsilat.dev/v1");
+    });
+  });
+
+  describe("subscribe", () => {
+    it("should notify listeners of the changed keys", () => {
+      const changes: ConfigChange[] = [];
+      const unsubscribe = configManager.subscribe((change): void => {
+        changes.push(change);
+      });
+
+      configManager.updateConfig({ timeout: 60000, debug: false });
+      unsubscribe();
+      configManager.updateConfig({ timeout: 90000 });
+
+      expect(changes).toHaveLength(1);
+      expect(changes[0].changed).toEqual(["timeout"]);
+      expect(changes[0].previous.timeout).toBe(30000);
+      expect(changes[0].current.timeout).toBe(60000);
+    });
+
+    it("should not notify listeners of rejected or empty updates", () => {
+      const listener = jest.fn();
+      configManager.subscribe(listener);
+
+      expect(() => configManager.updateConfig({ timeout: 0 })).toThrow(
+        TapsilatValidationError
+      );
+      configManager.updateConfig({ debug: false });
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it("should apply the update when a listener throws", () => {
+      configManager.subscribe((): void => {
+        throw new Error("listener failed");
+      });
+
+      configManager.updateConfig({ timeout: 60000 });
+
+      expect(configManager.getTimeout()).toBe(60000);
+    });
+  });
+
+  describe("live updates", () => {
+    it("should send the next request with the updated base URL and token", async () => {
+      const transport = new InMemoryTransport().on(
+        "GET",
+        /\/order\/ref-1$/,
+        { body: { reference_id: "ref-1" } }
+      );
+      const sdk = new TapsilatSDK({ ...validConfig, transport });
+
+      await sdk.getOrder("ref-1");
+      sdk.getConfigManager().updateConfig({
+        baseURL: "https://sandbox.tapsilat.dev/v1",
+        bearerToken: "rotated-token-67890",
+      });
+      await sdk.getOrder("ref-1");
+
+      const [first, second] = transport.requests;
+      expect(first.url).toBe("https://panel.tapsilat.dev/v1/order/ref-1");
+      expect(second.url).toBe("https://sandbox.tapsilat.dev/v1/order/ref-1");
+      expect(second.headers.get("authorization")).toBe(
+        "Bearer rotated-token-67890"
+      );
+    });
+
+    it("should start using a cache enabled after construction", async () => {
+      const transport = new InMemoryTransport().on(
+        "GET",
+        "/system/order-statuses",
+        { body: [] }
+      );
+      const sdk = new TapsilatSDK({ ...validConfig, transport });
+
+      await sdk.getSystemOrderStatuses();
+      sdk.getConfigManager().updateConfig({ cache: {} });
+      await sdk.getSystemOrderStatuses();
+      await sdk.getSystemOrderStatuses();
+
+      expect(transport.requests).toHaveLength(2);
+    });
   });
 
   describe("getInternalConfig", () => {
@@ -0,0 +1,596 @@
+import { HttpClient } from "../http/HttpClient";
+import { InMemoryTransport } from "../testing/InMemoryTransport";
+import {
+  TapsilatCancellationError,
+  TapsilatCircuitOpenError,
+} from "../errors/TapsilatError";
+import { CircuitStateChange } from "../types/index";
+
+const jsonResponse = (
+  body: unknown,
+  status = 200,
+  headers: Record<string, string> = {}
+): Response =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json", ...headers },
+  });
+
+const sentHeaders = (fetchMock: jest.Mock, call = 0): Headers =>
+  (fetchMock.mock.calls[call][1] as RequestInit).headers as Headers;
+
+describe("HttpClient", () => {
+  const config = {
+    bearerToken: "test-bearer-token-12345",
+    baseURL: "https://test.api.com/v1",
+    maxRetries: 2,
+  };
+
+  let fetchMock: jest.Mock;
+  let delaySpy: jest.SpyInstance;
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    global.fetch = fetchMock as unknown as typeof fetch;
+    delaySpy = jest
+      .spyOn(
+        HttpClient.prototype as unknown as { delay: () => Promise<void> },
+        "delay"
+      )
+      .mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    jest.restoreAllMocks();
+  });
+
+  describe("Idempotency", () => {
+    it("should not send an idempotency key on GET requests", async () => {
+      fetchMock.mockResolvedValueOnce(jsonResponse({ ok: true }));
+      const client = new HttpClient(config);
+
+      const response = await client.get("/order/ref-1");
+
+      expect(sentHeaders(fetchMock).has("Idempotency-Key")).toBe(false);
+      expect(response.idempotency).toBeUndefined();
+    });
+
+    it("should generate an idempotency key for mutating requests", async () => {
+      fetchMock.mockResolvedValueOnce(jsonResponse({ ok: true }));
+      const client = new HttpClient(config);
+
+      const response = await client.post("/order/refund", { amount: 1 });
+
+      const key = sentHeaders(fetchMock).get("Idempotency-Key");
+      expect(key).toMatch(/^[0-9a-f-]{36}$/);
+      expect(response.idempotency).toEqual({ key, replayed: false });
+    });
+
+    it("should keep the same key across retry attempts", async () => {
+      fetchMock
+        .mockRejectedValueOnce(new Error("socket hang up"))
+        .mockResolvedValueOnce(jsonResponse({ ok: true }));
+      const client = new HttpClient(config);
+
+      await client.post("/order/refund", { amount: 1 });
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(sentHeaders(fetchMock, 0).get("Idempotency-Key")).toBe(
+        sentHeaders(fetchMock, 1).get("Idempotency-Key")
+      );
+    });
+
+    it("should use a caller-supplied key and report replayed responses", async () => {
+      fetchMock.mockResolvedValueOnce(
+        jsonResponse({ ok: true }, 200, { "Idempotent-Replayed": "true" })
+      );
+      const client = new HttpClient(config);
+
+      const response = await client.post(
+        "/order/refund",
+        { amount: 1 },
+        { idempotencyKey: "refund-ref-1" }
+      );
+
+      expect(sentHeaders(fetchMock).get("Idempotency-Key")).toBe("refund-ref-1");
+      expect(response.idempotency).toEqual({
+        key: "refund-ref-1",
+        replayed: true,
+      });
+    });
+
+    it("should keep the authorization header when custom headers are passed", async () => {
+      fetchMock.mockResolvedValueOnce(jsonResponse({ ok: true }));
+      const client = new HttpClient(config);
+
+      await client.post(
+        "/order/refund",
+        { amount: 1 },
+        { headers: { "X-Custom": "1" } }
+      );
+
+      const headers = sentHeaders(fetchMock);
+      expect(headers.get("Authorization")).toBe(
+        "Bearer test-bearer-token-12345"
+      );
+      expect(headers.get("X-Custom")).toBe("1");
+      expect(headers.has("Idempotency-Key")).toBe(true);
+    });
+  });
+
+  describe("Retry policy", () => {
+    it("should retry 503 responses and return the eventual success", async () => {
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse({ message: "down" }, 503))
+        .mockResolvedValueOnce(jsonResponse({ ok: true }));
+      const client = new HttpClient(config);
+
+      const response = await client.get("/order/ref-1");
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(response.success).toBe(true);
+      expect(response.status).toBe(200);
+    });
+
+    it("should return the last failure once retries are exhausted", async () => {
+      fetchMock.mockImplementation(async () =>
+        jsonResponse({ message: "down" }, 502)
+      );
+      const client = new HttpClient(config);
+
+      const response = await client.get("/order/ref-1");
+
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      expect(response.success).toBe(false);
+      expect(response.status).toBe(502);
+    });
+
+    it("should not retry non-retryable statuses", async () => {
+      fetchMock.mockResolvedValueOnce(jsonResponse({ message: "bad" }, 400));
+      const client = new HttpClient(config);
+
+      const response = await client.get("/order/ref-1");
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(response.error?.code).toBe("VALIDATION_ERROR");
+    });
+
+    it("should honour Retry-After on 429 responses", async () => {
+      fetchMock
+        .mockResolvedValueOnce(
+          jsonResponse({ message: "slow down" }, 429, { "Retry-After": "2" })
+        )
+        .mockResolvedValueOnce(jsonResponse({ ok: true }));
+      const client = new HttpClient(config);
+
+      await client.get("/order/ref-1");
+
+      expect(delaySpy).toHaveBeenCalledWith(2000, undefined);
+    });
+
+    it("should use retryDelay with the configured backoff strategy", async () => {
+      fetchMock
+        .mockRejectedValueOnce(new Error("reset"))
+        .mockRejectedValueOnce(new Error("reset"))
+        .mockResolvedValueOnce(jsonResponse({ ok: true }));
+      const client = new HttpClient({
+        ...config,
+        retryDelay: 100,
+        retryPolicy: { backoff: "linear", jitter: "none" },
+      });
+
+      await client.get("/order/ref-1");
+
+      expect(delaySpy).toHaveBeenNthCalledWith(1, 100, undefined);
+      expect(delaySpy).toHaveBeenNthCalledWith(2, 200, undefined);
+    });
+
+    it("should not retry POST requests without an idempotency key", async () => {
+      fetchMock.mockResolvedValueOnce(jsonResponse({ message: "down" }, 503));
+      const client = new HttpClient({ ...config, autoIdempotencyKeys: false });
+
+      const response = await client.post("/order/refund", { amount: 1 });
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(response.success).toBe(false);
+    });
+
+    it("should stop retrying when the elapsed-time budget is spent", async () => {
+      fetchMock.mockImplementation(async () =>
+        jsonResponse({ message: "down" }, 503, { "Retry-After": "10" })
+      );
+      const client = new HttpClient(config);
+
+      await client.get("/order/ref-1", {
+        retryPolicy: { maxElapsedMs: 5000 },
+      });
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(delaySpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Response metadata", () => {
+    it("should report the request ID, attempts and duration", async () => {
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse({ message: "down" }, 503))
+        .mockResolvedValueOnce(
+          jsonResponse({ ok: true }, 200, { "X-Request-ID": "req-123" })
+        );
+      const client = new HttpClient(config);
+
+      const response = await client.get("/order/ref-1");
+
+      expect(response.requestId).toBe("req-123");
+      expect(response.headers?.["x-request-id"]).toBe("req-123");
+      expect(response.attempts).toBe(2);
+      expect(response.durationMs).toEqual(expect.any(Number));
+    });
+  });
+
+  describe("Cancellation", () => {
+    it("should reject without sending when the signal is already aborted", async () => {
+      const controller = new AbortController();
+      controller.abort();
+      const client = new HttpClient(config);
+
+      await expect(
+        client.get("/order/ref-1", { signal: controller.signal })
+      ).rejects.toBeInstanceOf(TapsilatCancellationError);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it("should stop retrying when the signal aborts during backoff", async () => {
+      delaySpy.mockRestore();
+      const controller = new AbortController();
+      fetchMock.mockImplementation(async () => {
+        setTimeout(() => controller.abort(), 10);
+        return jsonResponse({ message: "down" }, 503);
+      });
+      const client = new HttpClient({
+        ...config,
+        retryPolicy: { backoff: "constant", baseDelayMs: 60000, jitter: "none" },
+      });
+
+      await expect(
+        client.get("/order/ref-1", { signal: controller.signal })
+      ).rejects.toMatchObject({ code: "REQUEST_CANCELLED" });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it("should reject an in-flight request when the signal aborts", async () => {
+      const controller = new AbortController();
+      fetchMock.mockImplementation(
+        (_url: string, init: RequestInit) =>
+          new Promise((_resolve, reject) => {
+            init.signal?.addEventListener("abort", () =>
+              reject(new DOMException("aborted", "AbortError"))
+            );
+            controller.abort();
+          })
+      );
+      const client = new HttpClient(config);
+
+      await expect(
+        client.post("/order/refund", { amount: 1 }, { signal: controller.signal })
+      ).rejects.toBeInstanceOf(TapsilatCancellationError);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it("should merge per-call headers given as a Headers instance", async () => {
+      fetchMock.mockResolvedValueOnce(jsonResponse({ ok: true }));
+      const client = new HttpClient(config);
+
+      await client.get("/order/ref-1", {
+        headers: new Headers({ "X-Trace": "abc" }),
+      });
+
+      const headers = sentHeaders(fetchMock);
+      expect(headers.get("X-Trace")).toBe("abc");
+      expect(headers.get("Authorization")).toBe(
+        "Bearer test-bearer-token-12345"
+      );
+    });
+  });
+
+  describe("Circuit breaker", () => {
+    it("should open after consecutive failures and fail fast while open", async () => {
+      fetchMock.mockImplementation(async () =>
+        jsonResponse({ message: "down" }, 503)
+      );
+      const changes: CircuitStateChange[] = [];
+      const client = new HttpClient({
+        ...config,
+        maxRetries: 0,
+        circuitBreaker: {
+          failureThreshold: 2,
+          onStateChange: (change): void => {
+            changes.push(change);
+          },
+        },
+      });
+
+      await client.get("/order/ref-1");
+      await client.get("/order/ref-1");
+      const rejected = client.get("/order/ref-1");
+
+      await expect(rejected).rejects.toBeInstanceOf(TapsilatCircuitOpenError);
+      await expect(rejected).rejects.toMatchObject({
+        code: "CIRCUIT_OPEN",
+        circuit: "test.api.com",
+      });
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(changes).toEqual([
+        expect.objectContaining({
+          circuit: "test.api.com",
+          from: "closed",
+          to: "open",
+          failures: 2,
+        }),
+      ]);
+    });
+
+    it("should stop retrying once the circuit opens", async () => {
+      fetchMock.mockRejectedValue(new Error("socket hang up"));
+      const client = new HttpClient({
+        ...config,
+        maxRetries: 5,
+        circuitBreaker: { failureThreshold: 2 },
+      });
+
+      await expect(client.get("/order/ref-1")).rejects.toMatchObject({
+        code: "CIRCUIT_OPEN",
+      });
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it("should close again after a successful half-open trial", async () => {
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse({ message: "down" }, 500))
+        .mockResolvedValueOnce(jsonResponse({ ok: true }));
+      const changes: CircuitStateChange[] = [];
+      const client = new HttpClient({
+        ...config,
+        maxRetries: 0,
+        circuitBreaker: {
+          failureThreshold: 1,
+          cooldownMs: 0,
+          onStateChange: (change): void => {
+            changes.push(change);
+          },
+        },
+      });
+
+      await client.get("/order/ref-1");
+      const response = await client.get("/order/ref-1");
+
+      expect(response.success).toBe(true);
+      expect(changes.map(({ from, to }) => `${from}->${to}`)).toEqual([
+        "closed->open",
+        "open->half-open",
+        "half-open->closed",
+      ]);
+    });
+
+    it("should keep separate circuits per endpoint group", async () => {
+      fetchMock.mockImplementation(async (url: string) =>
+        url.endsWith("/order/list")
+          ? jsonResponse({ ok: true })
+          : jsonResponse({ message: "down" }, 503)
+      );
+      const client = new HttpClient({
+        ...config,
+        maxRetries: 0,
+        circuitBreaker: { scope: "endpoint", failureThreshold: 1 },
+      });
+
+      await client.get("/order/ref-1");
+
+      await expect(client.get("/order/ref-1")).rejects.toMatchObject({
+        circuit: "GET /order/ref-1",
+      });
+      expect((await client.get("/order/list")).success).toBe(true);
+    });
+  });
+
+  describe("Rate limiting", () => {
+    it("should cap the number of requests in flight", async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      fetchMock.mockImplementation(async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        inFlight--;
+        return jsonResponse({ ok: true });
+      });
+      const client = new HttpClient({
+        ...config,
+        rateLimit: { maxConcurrent: 2 },
+      });
+
+      const responses = await Promise.all(
+        [1, 2, 3, 4, 5].map((id) => client.get(`/order/ref-${id}`))
+      );
+
+      expect(responses.every((response) => response.success)).toBe(true);
+      expect(fetchMock).toHaveBeenCalledTimes(5);
+      expect(maxInFlight).toBe(2);
+    });
+
+    it("should space requests by the configured rate", async () => {
+      fetchMock.mockImplementation(async () => jsonResponse({ ok: true }));
+      const client = new HttpClient({
+        ...config,
+        rateLimit: { requestsPerSecond: 20, burst: 1 },
+      });
+      const startedAt = Date.now();
+
+      await Promise.all([
+        client.get("/order/ref-1"),
+        client.get("/order/ref-2"),
+      ]);
+
+      expect(Date.now() - startedAt).toBeGreaterThanOrEqual(45);
+    });
+
+    it("should queue requests once x-ratelimit-remaining reaches zero", async () => {
+      const resetAt = Math.floor(Date.now() / 1000) + 60;
+      fetchMock.mockResolvedValue(
+        jsonResponse({ ok: true }, 200, {
+          "X-RateLimit-Limit": "100",
+          "X-RateLimit-Remaining": "0",
+          "X-RateLimit-Reset": String(resetAt),
+        })
+      );
+      const client = new HttpClient({ ...config, rateLimit: {} });
+      const controller = new AbortController();
+
+      await client.get("/order/ref-1");
+      const queued = client.get("/order/ref-2", { signal: controller.signal });
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      controller.abort();
+
+      await expect(queued).rejects.toBeInstanceOf(TapsilatCancellationError);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("Timeouts", () => {
+    // Never answers; rejects like fetch once the attempt is aborted
+    const hang = (_url: string, init: RequestInit): Promise<Response> =>
+      new Promise((_resolve, reject) => {
+        init.signal?.addEventListener("abort", () =>
+          reject(new DOMException("aborted", "AbortError"))
+        );
+      });
+
+    it("should apply the configured timeout by default", async () => {
+      fetchMock.mockImplementation(hang);
+      const client = new HttpClient({ ...config, maxRetries: 0, timeout: 20 });
+
+      await expect(client.get("/order/ref-1")).rejects.toMatchObject({
+        code: "TIMEOUT",
+        details: { timeoutMs: 20 },
+      });
+    });
+
+    it("should prefer per-operation timeouts and let per-call timeouts win", async () => {
+      fetchMock.mockImplementation(hang);
+      const client = new HttpClient({
+        ...config,
+        maxRetries: 0,
+        timeout: 60000,
+        operationTimeouts: { "orders.status": 20 },
+      }).withOperation({
+        info: {
+          name: "orders.status",
+          method: "GET",
+          route: "/order/{reference_id}/status",
+        },
+      });
+
+      await expect(client.get("/order/ref-1/status")).rejects.toMatchObject({
+        code: "OPERATION_TIMEOUT",
+        details: { timeoutMs: 20, operation: "orders.status" },
+      });
+      await expect(
+        client.get("/order/ref-1/status", { timeout: 10 })
+      ).rejects.toMatchObject({ code: "TIMEOUT", details: { timeoutMs: 10 } });
+    });
+
+    it("should bound all attempts and backoff sleeps by the deadline", async () => {
+      delaySpy.mockRestore();
+      fetchMock.mockImplementation(hang);
+      const client = new HttpClient({
+        ...config,
+        maxRetries: 5,
+        timeout: 30,
+        retryPolicy: { backoff: "constant", baseDelayMs: 10, jitter: "none" },
+      });
+
+      await expect(
+        client.get("/order/ref-1", { deadline: 100 })
+      ).rejects.toMatchObject({ code: "DEADLINE_EXCEEDED" });
+      expect(fetchMock.mock.calls.length).toBeLessThan(6);
+    });
+
+    it("should not start a retry whose backoff passes the deadline", async () => {
+      delaySpy.mockRestore();
+      fetchMock.mockImplementation(async () =>
+        jsonResponse({ message: "down" }, 503)
+      );
+      const client = new HttpClient({
+        ...config,
+        deadline: 1000,
+        retryPolicy: { backoff: "constant", baseDelayMs: 5000, jitter: "none" },
+      });
+
+      await expect(client.get("/order/ref-1")).rejects.toMatchObject({
+        code: "DEADLINE_EXCEEDED",
+        details: { status: 503 },
+      });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("Transport", () => {
+    it("should send requests through a fetch-compatible function", async () => {
+      const customFetch = jest.fn(async () => jsonResponse({ ok: true }));
+      const client = new HttpClient({ ...config, transport: customFetch });
+
+      const response = await client.get("/order/ref-1");
+
+      expect(customFetch).toHaveBeenCalledWith(
+        "https://test.api.com/v1/order/ref-1",
+        expect.objectContaining({ method: "GET" })
+      );
+      expect(fetchMock).not.toHaveBeenCalled();
+      expect(response.data).toEqual({ ok: true });
+    });
+
+    it("should send requests through a transport adapter", async () => {
+      const transport = new InMemoryTransport().on(
+        "POST",
+        "/order/refund",
+        (request) => ({ status: 201, body: { echoed: request.body } })
+      );
+      const client = new HttpClient({ ...config, transport });
+
+      const response = await client.post("/order/refund", { amount: 5 });
+
+      expect(response.status).toBe(201);
+      expect(response.data).toEqual({ echoed: { amount: 5 } });
+      expect(transport.requests).toHaveLength(1);
+      expect(transport.requests[0].headers.get("Authorization")).toBe(
+        "Bearer test-bearer-token-12345"
+      );
+    });
+
+    it("should serve once-routes before persistent routes", async () => {
+      const transport = new InMemoryTransport()
+        .on("GET", "/order/ref-1", { body: { attempt: "later" } })
+        .once("GET", "/order/ref-1", { status: 503, body: { message: "down" } });
+      const client = new HttpClient({ ...config, transport });
+
+      const response = await client.get("/order/ref-1");
+
+      expect(transport.requests).toHaveLength(2);
+      expect(response.data).toEqual({ attempt: "later" });
+    });
+
+    it("should fail requests that match no in-memory route", async () => {
+      const client = new HttpClient({
+        ...config,
+        maxRetries: 0,
+        transport: new InMemoryTransport(),
+      });
+
+      await expect(client.get("/order/unknown")).rejects.toThrow(
+        "No in-memory route for GET /v1/order/unknown"
+      );
+    });
+  });
+});
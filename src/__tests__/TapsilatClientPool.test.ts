@@ -0,0 +1,103 @@
+import { TapsilatClientPool } from "../TapsilatClientPool";
+import { TapsilatSDK } from "../TapsilatSDK";
+import { InMemoryTransport } from "../testing/InMemoryTransport";
+import { TapsilatConfig } from "../types/index";
+import { TapsilatValidationError } from "../errors/TapsilatError";
+
+describe("TapsilatClientPool", () => {
+  const tokenOf = (tenantId: string): string => `token-of-${tenantId}-12345`;
+
+  const createPool = (
+    transport: InMemoryTransport,
+    maxClients?: number,
+    onEvict?: (tenantId: string, client: TapsilatSDK) => void
+  ): TapsilatClientPool =>
+    new TapsilatClientPool({
+      defaults: { transport, cache: {} },
+      tenantConfig: (tenantId) => ({ bearerToken: tokenOf(tenantId) }),
+      maxClients,
+      onEvict,
+    });
+
+  it("should create a client per tenant and reuse it", () => {
+    const pool = createPool(new InMemoryTransport());
+
+    const first = pool.get("merchant-1");
+
+    expect(pool.get("merchant-1")).toBe(first);
+    expect(pool.get("merchant-2")).not.toBe(first);
+    expect(pool.size).toBe(2);
+  });
+
+  it("should send each tenant's token through the shared transport", async () => {
+    const transport = new InMemoryTransport().on("GET", "/order/ref-1", {
+      body: { reference_id: "ref-1" },
+    });
+    const pool = createPool(transport);
+
+    await pool.get("merchant-1").getOrder("ref-1");
+    await pool.get("merchant-2").getOrder("ref-1");
+
+    expect(
+      transport.requests.map((request) => request.headers.get("authorization"))
+    ).toEqual([
+      `Bearer ${tokenOf("merchant-1")}`,
+      `Bearer ${tokenOf("merchant-2")}`,
+    ]);
+  });
+
+  it("should keep tenant caches apart", async () => {
+    const transport = new InMemoryTransport().on(
+      "GET",
+      "/system/order-statuses",
+      { body: [] }
+    );
+    const pool = createPool(transport);
+
+    await pool.get("merchant-1").getSystemOrderStatuses();
+    await pool.get("merchant-1").getSystemOrderStatuses();
+    await pool.get("merchant-2").getSystemOrderStatuses();
+
+    expect(transport.requests).toHaveLength(2);
+  });
+
+  it("should evict the least recently used client", () => {
+    const onEvict = jest.fn();
+    const pool = createPool(new InMemoryTransport(), 2, onEvict);
+
+    const first = pool.get("merchant-1");
+    pool.get("merchant-2");
+    pool.get("merchant-1");
+    pool.get("merchant-3");
+
+    expect(pool.has("merchant-1")).toBe(true);
+    expect(pool.has("merchant-2")).toBe(false);
+    expect(onEvict).toHaveBeenCalledWith("merchant-2", expect.any(TapsilatSDK));
+    expect(pool.get("merchant-1")).toBe(first);
+  });
+
+  it("should apply tenant overrides over the defaults", () => {
+    const pool = new TapsilatClientPool({
+      defaults: { maxRetries: 1, baseURL: "https://panel.tapsilat.dev/api/v1" },
+      tenantConfig: (tenantId): TapsilatConfig => ({
+        bearerToken: tokenOf(tenantId),
+        ...(tenantId === "merchant-vip" ? { maxRetries: 5 } : {}),
+      }),
+    });
+
+    const config = pool.get("merchant-vip").getConfigManager().getConfig();
+
+    expect(config.maxRetries).toBe(5);
+    expect(config.baseURL).toBe("https://panel.tapsilat.dev/api/v1");
+  });
+
+  it("should not keep a client whose config is invalid", () => {
+    const pool = new TapsilatClientPool({
+      tenantConfig: (): TapsilatConfig => ({ bearerToken: "bad" }),
+    });
+
+    expect(() => pool.get("merchant-1")).toThrow(TapsilatValidationError);
+    expect(() => pool.get("")).toThrow(TapsilatValidationError);
+    expect(pool.size).toBe(0);
+  });
+});
@@ -11,6 +11,7 @@ import {
   SubscriptionRedirectRequest,
 } from "../types/index";
 import { HttpClient } from "../http/HttpClient";
+import { TapsilatCancellationError } from "../errors/TapsilatError";
 
 // Mock the HttpClient
 jest.mock("../http/HttpClient");
@@ -62,6 +63,11 @@ describe("TapsilatSDK", () => {
     sdk = new TapsilatSDK(validConfig);
     mockHttpClient = (sdk as unknown as { httpClient: HttpClient })
       .httpClient as jest.Mocked<HttpClient>;
+    mockHttpClient.withOperation.mockImplementation(function (
+      this: HttpClient
+    ) {
+      return this;
+    });
   });
 
   describe("Order Operations", () => {
@@ -84,7 +90,8 @@ describe("TapsilatSDK", () => {
 
       expect(mockHttpClient.post).toHaveBeenCalledWith(
         "/order/create",
-        orderRequest
+        orderRequest,
+        undefined
       );
       expect(order).toEqual(mockResponse.data);
       expect(order.reference_id).toBe("order-123");
@@ -105,7 +112,8 @@ describe("TapsilatSDK", () => {
       const status = await sdk.getOrderStatus("order-123");
 
       expect(mockHttpClient.get).toHaveBeenCalledWith(
-        "/order/order-123/status"
+        "/order/order-123/status",
+        undefined
       );
       expect(status).toEqual(mockResponse.data);
       expect(status.status).toBe("COMPLETED");
@@ -134,7 +142,7 @@ describe("TapsilatSDK", () => {
 
       const order = await sdk.getOrder("order-123");
 
-      expect(mockHttpClient.get).toHaveBeenCalledWith("/order/order-123");
+      expect(mockHttpClient.get).toHaveBeenCalledWith("/order/order-123", undefined);
       expect(order).toEqual(mockData);
       expect(order.reference_id).toBe("order-123");
     });
@@ -195,7 +203,7 @@ describe("TapsilatSDK", () => {
 
       expect(mockHttpClient.post).toHaveBeenCalledWith("/order/cancel", {
         reference_id: "order-123",
-      });
+      }, undefined);
       expect(cancelledOrder).toEqual(mockData);
       expect(cancelledOrder.status).toBe("CANCELLED");
     });
@@ -224,12 +232,56 @@ describe("TapsilatSDK", () => {
 
       expect(mockHttpClient.post).toHaveBeenCalledWith(
         "/order/refund",
-        refundRequest
+        refundRequest,
+        undefined
       );
       expect(refund).toEqual(mockResponse.data);
       expect(refund.amount).toBe(50.0);
     });
 
+    it("should pass a caller-supplied idempotency key and surface replays", async () => {
+      const refundRequest = {
+        reference_id: "order-123",
+        amount: 50.0,
+      };
+
+      mockHttpClient.post.mockResolvedValueOnce({
+        success: true,
+        data: { refundId: "refund-456", status: "COMPLETED" },
+        idempotency: { key: "refund-order-123-1", replayed: true },
+      });
+
+      const refund = await sdk.refundOrder(refundRequest, {
+        idempotencyKey: "refund-order-123-1",
+      });
+
+      expect(mockHttpClient.post).toHaveBeenCalledWith(
+        "/order/refund",
+        refundRequest,
+        { idempotencyKey: "refund-order-123-1" }
+      );
+      expect(refund.refundId).toBe("refund-456");
+      expect(refund.idempotency).toEqual({
+        key: "refund-order-123-1",
+        replayed: true,
+      });
+    });
+
+    it("should forward per-call options and propagate cancellation", async () => {
+      const controller = new AbortController();
+      mockHttpClient.get.mockRejectedValueOnce(
+        new TapsilatCancellationError()
+      );
+
+      await expect(
+        sdk.orders.get("order-123", { signal: controller.signal, timeout: 5000 })
+      ).rejects.toBeInstanceOf(TapsilatCancellationError);
+      expect(mockHttpClient.get).toHaveBeenCalledWith("/order/order-123", {
+        signal: controller.signal,
+        timeout: 5000,
+      });
+    });
+
     it("should process order accounting successfully", async () => {
       const request: OrderAccountingRequest = {
         order_reference_id: "order-123",
@@ -246,7 +298,8 @@ describe("TapsilatSDK", () => {
 
       expect(mockHttpClient.post).toHaveBeenCalledWith(
         "/order/accounting",
-        request
+        request,
+        undefined
       );
       expect(result).toEqual(mockResponse.data);
     });
@@ -274,7 +327,8 @@ describe("TapsilatSDK", () => {
 
       expect(mockHttpClient.post).toHaveBeenCalledWith(
         "/order/postauth",
-        request
+        request,
+        undefined
       );
       expect(result).toEqual(mockData);
     });
@@ -297,7 +351,7 @@ describe("TapsilatSDK", () => {
 
       const result = await sdk.getSystemOrderStatuses();
 
-      expect(mockHttpClient.get).toHaveBeenCalledWith("/system/order-statuses");
+      expect(mockHttpClient.get).toHaveBeenCalledWith("/system/order-statuses", undefined);
       expect(result).toEqual(mockData);
     });
   });
@@ -411,6 +465,62 @@ describe("TapsilatSDK", () => {
     });
   });
 
+  describe("Response metadata", () => {
+    it("should return data together with the HTTP response details", async () => {
+      mockHttpClient.get.mockResolvedValueOnce({
+        success: true,
+        data: { reference_id: "order-123" },
+        status: 200,
+        headers: { "x-request-id": "req-1", "x-ratelimit-remaining": "99" },
+        requestId: "req-1",
+        durationMs: 42,
+        attempts: 2,
+      });
+
+      const { data, response } = await sdk
+        .withResponse()
+        .getOrder("order-123");
+
+      expect(data.reference_id).toBe("order-123");
+      expect(response).toEqual({
+        status: 200,
+        headers: { "x-request-id": "req-1", "x-ratelimit-remaining": "99" },
+        requestId: "req-1",
+        durationMs: 42,
+        attempts: 2,
+      });
+    });
+
+    it("should describe the response of methods that call other methods", async () => {
+      mockHttpClient.get.mockResolvedValueOnce({
+        success: true,
+        data: { checkout_url: "https://checkout.example/abc" },
+        status: 200,
+        headers: {},
+        requestId: "req-2",
+      });
+
+      const { data, response } = await sdk
+        .withResponse()
+        .getCheckoutUrl("order-123");
+
+      expect(data).toBe("https://checkout.example/abc");
+      expect(response.requestId).toBe("req-2");
+    });
+
+    it("should leave the regular methods unchanged", async () => {
+      mockHttpClient.get.mockResolvedValueOnce({
+        success: true,
+        data: { status: "PAID" },
+        status: 200,
+      });
+
+      const status = await sdk.getOrderStatus("order-123");
+
+      expect(status).toEqual({ status: "PAID" });
+    });
+  });
+
   describe("Health Check", () => {
     it("should perform health check successfully", async () => {
       const mockResponse = {
@@ -422,7 +532,7 @@ describe("TapsilatSDK", () => {
 
       const health = await sdk.healthCheck();
 
-      expect(mockHttpClient.get).toHaveBeenCalledWith("/health");
+      expect(mockHttpClient.get).toHaveBeenCalledWith("/health", undefined);
       // The healthCheck implementation now constructs its own response object
       // rather than returning the raw API response data directly.
       // So we expect the constructed object.
@@ -483,7 +593,8 @@ describe("TapsilatSDK", () => {
 
       expect(mockHttpClient.post).toHaveBeenCalledWith(
         "/order/term/terminate",
-        request
+        request,
+        undefined
       );
       expect(result).toEqual(mockResponse.data);
     });
@@ -501,7 +612,8 @@ describe("TapsilatSDK", () => {
         {
           reference_id: referenceId,
           conversation_id: conversationId,
-        }
+        },
+        undefined
       );
       expect(result).toEqual(mockResponse.data);
     });
@@ -522,7 +634,8 @@ describe("TapsilatSDK", () => {
         {
           reference_id: referenceId,
           related_reference_id: relatedReferenceId,
-        }
+        },
+        undefined
       );
       expect(result).toEqual(mockResponse.data);
     });
@@ -533,7 +646,7 @@ describe("TapsilatSDK", () => {
 
       const result = await sdk.getOrganizationSettings();
 
-      expect(mockHttpClient.get).toHaveBeenCalledWith("/organization/settings");
+      expect(mockHttpClient.get).toHaveBeenCalledWith("/organization/settings", undefined);
       expect(result).toEqual(mockResponse.data);
     });
 
@@ -543,7 +656,7 @@ describe("TapsilatSDK", () => {
 
       const result = await sdk.getOrganizationMeta("my_meta");
 
-      expect(mockHttpClient.get).toHaveBeenCalledWith("/organization/meta/my_meta");
+      expect(mockHttpClient.get).toHaveBeenCalledWith("/organization/meta/my_meta", undefined);
       expect(result).toEqual(mockResponse.data);
     });
 
@@ -577,7 +690,8 @@ describe("TapsilatSDK", () => {
       const order = await sdk.getOrderByConversationId(conversationId);
 
       expect(mockHttpClient.get).toHaveBeenCalledWith(
-        `/order/conversation/${conversationId}`
+        `/order/conversation/${conversationId}`,
+        undefined
       );
       expect(order).toEqual(mockResponse.data);
     });
@@ -619,9 +733,11 @@ describe("TapsilatSDK", () => {
 
       const result = await sdk.refundAllOrder(referenceId);
 
-      expect(mockHttpClient.post).toHaveBeenCalledWith("/order/refund-all", {
-        reference_id: referenceId,
-      });
+      expect(mockHttpClient.post).toHaveBeenCalledWith(
+        "/order/refund-all",
+        { reference_id: referenceId },
+        undefined
+      );
       expect(result).toEqual(mockResponse.data);
     });
 
@@ -642,7 +758,8 @@ describe("TapsilatSDK", () => {
 
       expect(mockHttpClient.post).toHaveBeenCalledWith(
         "/subscription/redirect",
-        request
+        request,
+        undefined
       );
       expect(result).toEqual(mockResponse.data);
     });
@@ -653,7 +770,7 @@ describe("TapsilatSDK", () => {
 
       const result = await sdk.getOrderPaymentDetailsById("ref_123");
 
-      expect(mockHttpClient.get).toHaveBeenCalledWith("/order/ref_123/payment-details");
+      expect(mockHttpClient.get).toHaveBeenCalledWith("/order/ref_123/payment-details", undefined);
       expect(result).toEqual(mockResponse.data);
     });
 
@@ -663,7 +780,7 @@ describe("TapsilatSDK", () => {
 
       const result = await sdk.orders.callback("ref_123");
 
-      expect(mockHttpClient.get).toHaveBeenCalledWith("/orders/ref_123/callback");
+      expect(mockHttpClient.get).toHaveBeenCalledWith("/orders/ref_123/callback", undefined);
       expect(result).toEqual(mockResponse.data);
     });
 
@@ -674,7 +791,7 @@ describe("TapsilatSDK", () => {
       const request = { reference_id: "ref_123", payment_options: ["3D"] };
       const result = await sdk.updatePaymentOptions(request);
 
-      expect(mockHttpClient.patch).toHaveBeenCalledWith("/order/payment-options", request);
+      expect(mockHttpClient.patch).toHaveBeenCalledWith("/order/payment-options", request, undefined);
       expect(result).toEqual(mockResponse.data);
     });
 
@@ -685,7 +802,7 @@ describe("TapsilatSDK", () => {
       const request = { amount: 10, order_id: "order_123", order_item_payment_id: "item_1" };
       const result = await sdk.splitOrderItemPayment(request);
 
-      expect(mockHttpClient.post).toHaveBeenCalledWith("/order/split", request);
+      expect(mockHttpClient.post).toHaveBeenCalledWith("/order/split", request, undefined);
       expect(result).toEqual(mockResponse.data);
     });
 
@@ -695,7 +812,7 @@ describe("TapsilatSDK", () => {
 
       const result = await sdk.orders.vposQuery("ref_123");
 
-      expect(mockHttpClient.get).toHaveBeenCalledWith("/orders/ref_123/vpos-query");
+      expect(mockHttpClient.get).toHaveBeenCalledWith("/orders/ref_123/vpos-query", undefined);
       expect(result).toEqual(mockResponse.data);
     });
 
@@ -705,7 +822,7 @@ describe("TapsilatSDK", () => {
 
       const result = await sdk.getOrganizationCurrencyPresets();
 
-      expect(mockHttpClient.get).toHaveBeenCalledWith("/organization/currency-presets");
+      expect(mockHttpClient.get).toHaveBeenCalledWith("/organization/currency-presets", undefined);
       expect(result).toEqual(mockResponse.data);
     });
 
@@ -715,7 +832,7 @@ describe("TapsilatSDK", () => {
 
       const result = await sdk.getOrganizationSuborganizationDetails("sub_org_1");
 
-      expect(mockHttpClient.get).toHaveBeenCalledWith("/organization/suborganizations/sub_org_1");
+      expect(mockHttpClient.get).toHaveBeenCalledWith("/organization/suborganizations/sub_org_1", undefined);
       expect(result).toEqual(mockResponse.data);
     });
 
@@ -725,7 +842,7 @@ describe("TapsilatSDK", () => {
 
       const result = await sdk.getOrganizationSuborganizationSubmerchants("sub_org_1");
 
-      expect(mockHttpClient.get).toHaveBeenCalledWith("/organization/suborganizations/sub_org_1/submerchant");
+      expect(mockHttpClient.get).toHaveBeenCalledWith("/organization/suborganizations/sub_org_1/submerchant", undefined);
       expect(result).toEqual(mockResponse.data);
     });
 
@@ -735,28 +852,28 @@ describe("TapsilatSDK", () => {
       mockHttpClient.get.mockResolvedValue(mockResponse);
 
       await sdk.getSystemBasketItemTypes();
-      expect(mockHttpClient.get).toHaveBeenCalledWith("/system/basket-item-types");
+      expect(mockHttpClient.get).toHaveBeenCalledWith("/system/basket-item-types", undefined);
 
       await sdk.getSystemErrorCodes();
-      expect(mockHttpClient.get).toHaveBeenCalledWith("/system/error-codes");
+      expect(mockHttpClient.get).toHaveBeenCalledWith("/system/error-codes", undefined);
 
       await sdk.getSystemPaymentTermStatuses();
-      expect(mockHttpClient.get).toHaveBeenCalledWith("/system/payment-term-statuses");
+      expect(mockHttpClient.get).toHaveBeenCalledWith("/system/payment-term-statuses", undefined);
 
       await sdk.getSystemProductTypes();
-      expect(mockHttpClient.get).toHaveBeenCalledWith("/system/product-types");
+      expect(mockHttpClient.get).toHaveBeenCalledWith("/system/product-types", undefined);
 
       await sdk.getSystemShortcutTypes();
-      expect(mockHttpClient.get).toHaveBeenCalledWith("/system/shortcut-types");
+      expect(mockHttpClient.get).toHaveBeenCalledWith("/system/shortcut-types", undefined);
 
       await sdk.getSystemTransactionPaymentTypes();
-      expect(mockHttpClient.get).toHaveBeenCalledWith("/system/transaction-payment-types");
+      expect(mockHttpClient.get).toHaveBeenCalledWith("/system/transaction-payment-types", undefined);
 
       await sdk.getSystemTransactionPurposes();
-      expect(mockHttpClient.get).toHaveBeenCalledWith("/system/transaction-purposes");
+      expect(mockHttpClient.get).toHaveBeenCalledWith("/system/transaction-purposes", undefined);
 
       await sdk.getSystemTransactionStatuses();
-      expect(mockHttpClient.get).toHaveBeenCalledWith("/system/transaction-statuses");
+      expect(mockHttpClient.get).toHaveBeenCalledWith("/system/transaction-statuses", undefined);
     });
   });
 
@@ -767,7 +884,7 @@ describe("TapsilatSDK", () => {
         mockHttpClient.get.mockResolvedValueOnce(mockResponse);
 
         const result = await sdk.orders.getPayments({ order_id: "order-123" });
-        expect(mockHttpClient.get).toHaveBeenCalledWith("/order/order-123/payment");
+        expect(mockHttpClient.get).toHaveBeenCalledWith("/order/order-123/payment", undefined);
         expect(result).toEqual(mockResponse.data);
       });
 
@@ -795,7 +912,7 @@ describe("TapsilatSDK", () => {
 
         const request = { reference_id: "order-123", amount: 100 };
         const result = await sdk.orders.createRefundRequest(request);
-        expect(mockHttpClient.post).toHaveBeenCalledWith("/order/order-123/refund/request", { amount: 100 });
+        expect(mockHttpClient.post).toHaveBeenCalledWith("/order/order-123/refund/request", { amount: 100 }, undefined);
         expect(result).toEqual(mockResponse.data);
       });
 
@@ -805,7 +922,7 @@ describe("TapsilatSDK", () => {
 
         const request = { order_id: "order-123", amount: 100, type: 1 };
         const result = await sdk.orders.addOip(request);
-        expect(mockHttpClient.post).toHaveBeenCalledWith("/order/order-123/oip", { amount: 100, type: 1 });
+        expect(mockHttpClient.post).toHaveBeenCalledWith("/order/order-123/oip", { amount: 100, type: 1 }, undefined);
         expect(result).toEqual(mockResponse.data);
       });
     });
@@ -817,7 +934,7 @@ describe("TapsilatSDK", () => {
 
         const request = { email: "test@test.com" };
         const result = await sdk.organization.createUserToken(request);
-        expect(mockHttpClient.post).toHaveBeenCalledWith("/organization/user/token", request);
+        expect(mockHttpClient.post).toHaveBeenCalledWith("/organization/user/token", request, undefined);
         expect(result).toEqual(mockResponse.data);
       });
     });
@@ -829,7 +946,7 @@ describe("TapsilatSDK", () => {
 
         const request = { name: "Test Submerchant", email: "sub@test.com", address: "test", city: "Istanbul", country: "Turkey", gsm_number: "5555555555", iban: "TR123", identity_number: "11111111111", contact_name: "Test", contact_surname: "Sub", sub_merchant_type: "PERSONAL", tax_office: "test", zip_code: "34000" };
         const result = await sdk.submerchant.create(request);
-        expect(mockHttpClient.post).toHaveBeenCalledWith("/submerchants", request);
+        expect(mockHttpClient.post).toHaveBeenCalledWith("/submerchants", request, undefined);
         expect(result).toEqual(mockResponse.data);
       });
 
@@ -838,7 +955,7 @@ describe("TapsilatSDK", () => {
         mockHttpClient.get.mockResolvedValueOnce(mockResponse);
 
         const result = await sdk.submerchant.get("sub-1");
-        expect(mockHttpClient.get).toHaveBeenCalledWith("/submerchants/sub-1");
+        expect(mockHttpClient.get).toHaveBeenCalledWith("/submerchants/sub-1", undefined);
         expect(result).toEqual(mockResponse.data);
       });
 
@@ -847,7 +964,7 @@ describe("TapsilatSDK", () => {
         mockHttpClient.get.mockResolvedValueOnce(mockResponse);
 
         const result = await sdk.submerchant.getSuborganization("sub-1");
-        expect(mockHttpClient.get).toHaveBeenCalledWith("/submerchants/sub-1/suborganization");
+        expect(mockHttpClient.get).toHaveBeenCalledWith("/submerchants/sub-1/suborganization", undefined);
         expect(result).toEqual(mockResponse.data);
       });
 
@@ -856,7 +973,7 @@ describe("TapsilatSDK", () => {
         mockHttpClient.put.mockResolvedValueOnce(mockResponse);
 
         const result = await sdk.submerchant.update("sub-1", { name: "Updated" });
-        expect(mockHttpClient.put).toHaveBeenCalledWith("/submerchants/sub-1", { name: "Updated" });
+        expect(mockHttpClient.put).toHaveBeenCalledWith("/submerchants/sub-1", { name: "Updated" }, undefined);
         expect(result).toEqual(mockResponse.data);
       });
 
@@ -865,7 +982,7 @@ describe("TapsilatSDK", () => {
         mockHttpClient.delete.mockResolvedValueOnce(mockResponse);
 
         const result = await sdk.submerchant.delete("sub-1");
-        expect(mockHttpClient.delete).toHaveBeenCalledWith("/submerchants/sub-1");
+        expect(mockHttpClient.delete).toHaveBeenCalledWith("/submerchants/sub-1", undefined);
         expect(result).toEqual(mockResponse.data);
       });
 
@@ -885,7 +1002,7 @@ describe("TapsilatSDK", () => {
         mockHttpClient.post.mockResolvedValueOnce(mockResponse);
 
         const result = await sdk.orders.charge({ order_reference_id: "test_ref" });
-        expect(mockHttpClient.post).toHaveBeenCalledWith("/order/charge", { order_reference_id: "test_ref" });
+        expect(mockHttpClient.post).toHaveBeenCalledWith("/order/charge", { order_reference_id: "test_ref" }, undefined);
         expect(result).toEqual(mockResponse.data);
       });
 
@@ -894,7 +1011,7 @@ describe("TapsilatSDK", () => {
         mockHttpClient.get.mockResolvedValueOnce(mockResponse);
 
         const result = await sdk.orders.allPayments();
-        expect(mockHttpClient.get).toHaveBeenCalledWith("/orders/payments");
+        expect(mockHttpClient.get).toHaveBeenCalledWith("/orders/payments", undefined);
         expect(result).toEqual(mockResponse.data);
       });
 
@@ -903,7 +1020,7 @@ describe("TapsilatSDK", () => {
         mockHttpClient.post.mockResolvedValueOnce(mockResponse);
 
         const result = await sdk.organization.createCurrency({ currency_code: "USD" });
-        expect(mockHttpClient.post).toHaveBeenCalledWith("/organization/currencies", { currency_code: "USD" });
+        expect(mockHttpClient.post).toHaveBeenCalledWith("/organization/currencies", { currency_code: "USD" }, undefined);
         expect(result).toEqual(mockResponse.data);
       });
 
@@ -912,7 +1029,7 @@ describe("TapsilatSDK", () => {
         mockHttpClient.get.mockResolvedValueOnce(mockResponse);
 
         const result = await sdk.organization.partners();
-        expect(mockHttpClient.get).toHaveBeenCalledWith("/organization/partners");
+        expect(mockHttpClient.get).toHaveBeenCalledWith("/organization/partners", undefined);
         expect(result).toEqual(mockResponse.data);
       });
 
@@ -921,7 +1038,7 @@ describe("TapsilatSDK", () => {
         mockHttpClient.get.mockResolvedValueOnce(mockResponse);
 
         const result = await sdk.organization.limitsById("org-123", { currency: "USD" });
-        expect(mockHttpClient.get).toHaveBeenCalledWith("/organization/org-123/limits?currency=USD");
+        expect(mockHttpClient.get).toHaveBeenCalledWith("/organization/org-123/limits?currency=USD", undefined);
         expect(result).toEqual(mockResponse.data);
       });
 
@@ -930,7 +1047,7 @@ describe("TapsilatSDK", () => {
         mockHttpClient.get.mockResolvedValueOnce(mockResponse);
 
         const result = await sdk.system.config();
-        expect(mockHttpClient.get).toHaveBeenCalledWith("/system/config");
+        expect(mockHttpClient.get).toHaveBeenCalledWith("/system/config", undefined);
         expect(result).toEqual(mockResponse.data);
       });
     });
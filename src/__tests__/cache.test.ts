@@ -0,0 +1,182 @@
+import { TapsilatSDK } from "../TapsilatSDK";
+import { MemoryCacheStore } from "../http/cache";
+import { TapsilatError } from "../errors/TapsilatError";
+import { InMemoryTransport } from "../testing/InMemoryTransport";
+import { CacheEntry, CacheStore } from "../types/index";
+
+describe("Response cache", () => {
+  const bearerToken = "test-bearer-token-12345";
+
+  const countRequests = (
+    transport: InMemoryTransport,
+    method: string,
+    path: string
+  ): number =>
+    transport.requests.filter(
+      (request) => request.method === method && request.path.endsWith(path)
+    ).length;
+
+  it("should coalesce identical GET requests in flight", async () => {
+    const transport = new InMemoryTransport().on(
+      "GET",
+      "/order/ref-1/transactions",
+      async () => {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        return { body: [{ id: "tx-1" }] };
+      }
+    );
+    const sdk = new TapsilatSDK({ bearerToken, transport, cache: {} });
+
+    const results = await Promise.all([
+      sdk.getOrderTransactions("ref-1"),
+      sdk.getOrderTransactions("ref-1"),
+      sdk.getOrderTransactions("ref-1"),
+    ]);
+    await sdk.getOrderTransactions("ref-1");
+
+    expect(results).toEqual([
+      [{ id: "tx-1" }],
+      [{ id: "tx-1" }],
+      [{ id: "tx-1" }],
+    ]);
+    expect(results[0]).not.toBe(results[1]);
+    // The route has no TTL, so the later call is sent again
+    expect(countRequests(transport, "GET", "/transactions")).toBe(2);
+  });
+
+  it("should serve system lookups from the cache", async () => {
+    const transport = new InMemoryTransport().on(
+      "GET",
+      "/system/order-statuses",
+      { body: [{ code: 1, name: "PAID" }] }
+    );
+    const sdk = new TapsilatSDK({ bearerToken, transport, cache: {} });
+
+    await sdk.getSystemOrderStatuses();
+    const statuses = await sdk.getSystemOrderStatuses();
+
+    expect(statuses).toEqual([{ code: 1, name: "PAID" }]);
+    expect(transport.requests).toHaveLength(1);
+  });
+
+  it("should invalidate an order's entries when the SDK mutates it", async () => {
+    const transport = new InMemoryTransport()
+      .on("GET", "/order/ref-1/status", { body: { status: "PAID" } })
+      .on("GET", "/order/ref-2/status", { body: { status: "PAID" } })
+      .on("POST", "/order/cancel", { body: { status: "CANCELLED" } });
+    const sdk = new TapsilatSDK({ bearerToken, transport, cache: {} });
+
+    await sdk.getOrderStatus("ref-1");
+    await sdk.getOrderStatus("ref-2");
+    await sdk.cancelOrder("ref-1");
+    await sdk.getOrderStatus("ref-1");
+    await sdk.getOrderStatus("ref-2");
+
+    expect(countRequests(transport, "GET", "/order/ref-1/status")).toBe(2);
+    expect(countRequests(transport, "GET", "/order/ref-2/status")).toBe(1);
+  });
+
+  it("should invalidate entries that another instance stored in a shared store", async () => {
+    const store = new MemoryCacheStore();
+    const transport = new InMemoryTransport()
+      .on("GET", "/order/ref-1/status", { body: { status: "PAID" } })
+      .on("GET", "/order/ref-2/status", { body: { status: "PAID" } })
+      .on("POST", "/order/cancel", { body: { status: "CANCELLED" } });
+    const reader = new TapsilatSDK({ bearerToken, transport, cache: { store } });
+    const writer = new TapsilatSDK({ bearerToken, transport, cache: { store } });
+
+    await reader.getOrderStatus("ref-1");
+    await reader.getOrderStatus("ref-2");
+    await writer.cancelOrder("ref-1");
+    await reader.getOrderStatus("ref-1");
+    await reader.getOrderStatus("ref-2");
+
+    expect(countRequests(transport, "GET", "/order/ref-1/status")).toBe(2);
+    expect(countRequests(transport, "GET", "/order/ref-2/status")).toBe(1);
+  });
+
+  it("should use a custom store and per-route TTLs", async () => {
+    const entries = new Map<string, CacheEntry>();
+    const store: CacheStore = {
+      get: jest.fn(async (key: string) => entries.get(key)),
+      set: jest.fn(async (key: string, entry: CacheEntry) => {
+        entries.set(key, entry);
+      }),
+      delete: jest.fn(async (key: string) => {
+        entries.delete(key);
+      }),
+    };
+    const transport = new InMemoryTransport().on("GET", "/order/ref-1", {
+      body: { reference_id: "ref-1" },
+    });
+    const sdk = new TapsilatSDK({
+      bearerToken,
+      transport,
+      cache: { store, ttls: { "/order/{reference_id}": 60000 } },
+    });
+
+    await sdk.getOrder("ref-1");
+    await sdk.getOrder("ref-1");
+
+    expect(transport.requests).toHaveLength(1);
+    expect(store.set).toHaveBeenCalledWith(
+      expect.stringMatching(/^[0-9a-f]{16}:GET .*\/order\/ref-1$/),
+      expect.objectContaining({ tags: ["order:ref-1"] }),
+      60000
+    );
+  });
+
+  it("should let a caller stop waiting without cancelling the shared request", async () => {
+    const transport = new InMemoryTransport().on(
+      "GET",
+      "/order/ref-1/transactions",
+      async () => {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        return { body: [] };
+      }
+    );
+    const sdk = new TapsilatSDK({ bearerToken, transport, cache: {} });
+    const controller = new AbortController();
+
+    const cancelled = sdk.getOrderTransactions("ref-1", {
+      signal: controller.signal,
+    });
+    const waiting = sdk.getOrderTransactions("ref-1");
+    controller.abort();
+
+    await expect(cancelled).rejects.toMatchObject({ code: "REQUEST_CANCELLED" });
+    await expect(waiting).resolves.toEqual([]);
+    expect(transport.requests).toHaveLength(1);
+  });
+
+  it("should keep the error class and HTTP details of failed requests", async () => {
+    const transport = new InMemoryTransport().on("GET", "/order/missing", {
+      status: 404,
+      body: { message: "Order not found" },
+    });
+    const sdk = new TapsilatSDK({ bearerToken, transport, cache: {} });
+
+    const error = await sdk.getOrder("missing").catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(TapsilatError);
+    expect(error).toMatchObject({ code: "NOT_FOUND", status: 404 });
+  });
+
+  it("should evict the least recently used entry from the memory store", () => {
+    const store = new MemoryCacheStore(2);
+    const entry = (id: string): CacheEntry => ({
+      response: { success: true, data: id },
+      storedAt: Date.now(),
+      tags: [],
+    });
+
+    store.set("a", entry("a"), 60000);
+    store.set("b", entry("b"), 60000);
+    store.get("a");
+    store.set("c", entry("c"), 60000);
+
+    expect(store.get("a")).toBeDefined();
+    expect(store.get("b")).toBeUndefined();
+    expect(store.get("c")).toBeDefined();
+  });
+});
@@ -0,0 +1,136 @@
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { TapsilatSDK } from "../TapsilatSDK";
+import { CassetteTransport } from "../testing/CassetteTransport";
+import { InMemoryTransport } from "../testing/InMemoryTransport";
+import { TapsilatError } from "../errors/TapsilatError";
+
+describe("CassetteTransport", () => {
+  const bearerToken = "test-bearer-token-12345";
+  let directory: string;
+  let path: string;
+
+  const upstream = (): InMemoryTransport =>
+    new InMemoryTransport()
+      .on("POST", "/order/create", {
+        body: { reference_id: "ref-1", checkout_url: "https://checkout/1" },
+      })
+      .on("GET", "/order/ref-1", {
+        body: { reference_id: "ref-1", buyer: { email: "ali@example.com" } },
+      });
+
+  const record = async (): Promise<void> => {
+    const sdk = new TapsilatSDK({
+      bearerToken,
+      transport: new CassetteTransport({
+        path,
+        mode: "record",
+        transport: upstream(),
+      }),
+    });
+    await sdk.createOrder({
+      amount: 100,
+      currency: "TRY",
+      locale: "tr",
+      buyer: { name: "Ali", surname: "Veli", email: "ali@example.com" },
+    });
+    await sdk.getOrder("ref-1");
+  };
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "tapsilat-cassette-"));
+    path = join(directory, "orders.json");
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("should record interactions without credentials or PII", async () => {
+    await record();
+
+    const text = await readFile(path, "utf8");
+    const cassette = JSON.parse(text);
+
+    expect(cassette.version).toBe(1);
+    expect(cassette.interactions).toHaveLength(2);
+    expect(cassette.interactions[0].request).toMatchObject({
+      method: "POST",
+      path: "/api/v1/order/create",
+    });
+    expect(text).not.toContain(bearerToken);
+    expect(text).not.toContain("ali@example.com");
+  });
+
+  it("should replay recorded responses without the network", async () => {
+    await record();
+    const live = new InMemoryTransport();
+    const sdk = new TapsilatSDK({
+      bearerToken,
+      transport: new CassetteTransport({ path, transport: live }),
+    });
+
+    const order = await sdk.getOrder("ref-1");
+
+    expect(order.reference_id).toBe("ref-1");
+    expect(live.requests).toHaveLength(0);
+  });
+
+  it("should match request bodies regardless of key order", async () => {
+    await record();
+    const sdk = new TapsilatSDK({
+      bearerToken,
+      transport: new CassetteTransport({ path }),
+    });
+
+    const result = await sdk.createOrder({
+      buyer: { email: "ali@example.com", surname: "Veli", name: "Ali" },
+      locale: "tr",
+      currency: "TRY",
+      amount: 100,
+    });
+
+    expect(result.reference_id).toBe("ref-1");
+  });
+
+  it("should fail unmatched requests in strict replay without retrying", async () => {
+    await record();
+    const transport = new CassetteTransport({ path });
+    const request = jest.spyOn(transport, "request");
+    const sdk = new TapsilatSDK({ bearerToken, transport, maxRetries: 3 });
+
+    const error = await sdk.getOrder("ref-2").catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(TapsilatError);
+    expect(error.code).toBe("CASSETTE_MISMATCH");
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it("should record only unmatched requests in auto mode", async () => {
+    const live = upstream();
+    const sdk = new TapsilatSDK({
+      bearerToken,
+      transport: new CassetteTransport({ path, mode: "auto", transport: live }),
+    });
+
+    await sdk.getOrder("ref-1");
+    await sdk.getOrder("ref-1");
+
+    expect(live.requests).toHaveLength(1);
+    expect(JSON.parse(await readFile(path, "utf8")).interactions).toHaveLength(
+      1
+    );
+  });
+
+  it("should report a missing cassette in replay", async () => {
+    const sdk = new TapsilatSDK({
+      bearerToken,
+      transport: new CassetteTransport({ path }),
+    });
+
+    await expect(sdk.getOrder("ref-1")).rejects.toMatchObject({
+      code: "CASSETTE_UNREADABLE",
+    });
+  });
+});
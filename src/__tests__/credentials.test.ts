@@ -0,0 +1,190 @@
+import { TapsilatSDK } from "../TapsilatSDK";
+import { HttpClient } from "../http/HttpClient";
+import { InMemoryTransport } from "../testing/InMemoryTransport";
+import { TapsilatAuthenticationError } from "../errors/TapsilatError";
+import { Credentials } from "../types/index";
+
+describe("Credentials", () => {
+  const baseURL = "https://test.api.com/v1";
+
+  const authorizationHeaders = (transport: InMemoryTransport): string[] =>
+    transport.requests.map((request) => request.headers.get("Authorization")!);
+
+  // Accepts only the given token and answers 401 to any other
+  const acceptOnly = (token: string): InMemoryTransport =>
+    new InMemoryTransport().on("GET", "/order/ref-1", (request) =>
+      request.headers.get("Authorization") === `Bearer ${token}`
+        ? { body: { reference_id: "ref-1" } }
+        : { status: 401, body: { message: "token expired" } }
+    );
+
+  it("should cache tokens with an expiry", async () => {
+    const provider = jest.fn(async () => ({
+      token: "provided-token-1",
+      expiresAt: Date.now() + 10 * 60 * 1000,
+    }));
+    const transport = acceptOnly("provided-token-1");
+    const client = new HttpClient({
+      baseURL,
+      credentials: provider,
+      transport,
+    });
+
+    await client.get("/order/ref-1");
+    await client.get("/order/ref-1");
+
+    expect(provider).toHaveBeenCalledTimes(1);
+    expect(authorizationHeaders(transport)).toEqual([
+      "Bearer provided-token-1",
+      "Bearer provided-token-1",
+    ]);
+  });
+
+  it("should keep tokens without an expiry until they are rejected", async () => {
+    const provider = jest.fn(async () => "provided-token-1");
+    const transport = acceptOnly("provided-token-1").on(
+      "POST",
+      "/order/cancel",
+      { body: { status: "cancelled" } }
+    );
+    const sdk = new TapsilatSDK({
+      baseURL,
+      credentials: provider,
+      transport,
+      cache: {},
+    });
+
+    await sdk.getOrder("ref-1");
+    await sdk.getOrder("ref-1");
+    await sdk.cancelOrder("ref-1");
+    await sdk.getOrder("ref-1");
+
+    expect(provider).toHaveBeenCalledTimes(1);
+    expect(transport.requests).toHaveLength(3);
+  });
+
+  it("should refresh a token in the background before it expires", async () => {
+    let issued = 0;
+    const provider = jest.fn(async () => ({
+      token: `provided-token-${++issued}`,
+      expiresAt: Date.now() + 30000,
+    }));
+    const transport = new InMemoryTransport().on("GET", "/order/ref-1", {
+      body: {},
+    });
+    const client = new HttpClient({
+      baseURL,
+      transport,
+      credentials: { provider, refreshMarginMs: 60000 },
+    });
+
+    await client.get("/order/ref-1");
+    await client.get("/order/ref-1");
+    await client.get("/order/ref-1");
+
+    expect(authorizationHeaders(transport)).toEqual([
+      "Bearer provided-token-1",
+      "Bearer provided-token-1",
+      "Bearer provided-token-2",
+    ]);
+  });
+
+  it("should repeat a request once with a fresh token after a 401", async () => {
+    const tokens = ["stale-token-123", "fresh-token-456"];
+    const provider = jest.fn(async () => ({
+      token: tokens.shift()!,
+      expiresAt: Date.now() + 10 * 60 * 1000,
+    }));
+    const transport = acceptOnly("fresh-token-456");
+    const client = new HttpClient({
+      baseURL,
+      credentials: provider,
+      transport,
+    });
+
+    const response = await client.get("/order/ref-1");
+
+    expect(response.success).toBe(true);
+    expect(authorizationHeaders(transport)).toEqual([
+      "Bearer stale-token-123",
+      "Bearer fresh-token-456",
+    ]);
+  });
+
+  it("should repeat a mutating request with the same idempotency key", async () => {
+    const tokens = ["stale-token-123", "fresh-token-456"];
+    const transport = new InMemoryTransport().on(
+      "POST",
+      "/order/refund",
+      (request) =>
+        request.headers.get("Authorization") === "Bearer fresh-token-456"
+          ? { body: { is_success: true } }
+          : { status: 401, body: { message: "token expired" } }
+    );
+    const client = new HttpClient({
+      baseURL,
+      credentials: async (): Promise<Credentials> => ({
+        token: tokens.shift()!,
+        expiresAt: Date.now() + 10 * 60 * 1000,
+      }),
+      transport,
+    });
+
+    await client.post("/order/refund", { reference_id: "ref-1" });
+
+    const [first, second] = transport.requests.map((request) =>
+      request.headers.get("Idempotency-Key")
+    );
+    expect(transport.requests).toHaveLength(2);
+    expect(first).toBeTruthy();
+    expect(second).toBe(first);
+  });
+
+  it("should not repeat a request when the provider returns the rejected token", async () => {
+    const transport = acceptOnly("other-token-789");
+    const client = new HttpClient({
+      baseURL,
+      credentials: (): string => "static-token-123",
+      transport,
+    });
+
+    const response = await client.get("/order/ref-1");
+
+    expect(response.status).toBe(401);
+    expect(transport.requests).toHaveLength(1);
+  });
+
+  it("should report provider failures as authentication errors", async () => {
+    const client = new HttpClient({
+      baseURL,
+      credentials: async (): Promise<string> => {
+        throw new Error("vault unavailable");
+      },
+      transport: new InMemoryTransport(),
+    });
+
+    const request = client.get("/order/ref-1");
+
+    await expect(request).rejects.toBeInstanceOf(TapsilatAuthenticationError);
+    await expect(request).rejects.toThrow(
+      "Failed to obtain credentials: vault unavailable"
+    );
+  });
+
+  it("should send tokens rotated through the config manager", async () => {
+    const transport = acceptOnly("rotated-token-456");
+    const sdk = new TapsilatSDK({
+      bearerToken: "initial-token-123",
+      baseURL,
+      transport,
+    });
+
+    sdk.getConfigManager().updateConfig({ bearerToken: "rotated-token-456" });
+    const order = await sdk.getOrder("ref-1");
+
+    expect(order.reference_id).toBe("ref-1");
+    expect(authorizationHeaders(transport)).toEqual([
+      "Bearer rotated-token-456",
+    ]);
+  });
+});
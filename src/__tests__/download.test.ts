@@ -0,0 +1,142 @@
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { TapsilatSDK } from "../TapsilatSDK";
+import { parseContentDisposition } from "../utils/download";
+import { InMemoryTransport } from "../testing/InMemoryTransport";
+import { DownloadProgress } from "../types/index";
+import {
+  TapsilatError,
+  TapsilatValidationError,
+} from "../errors/TapsilatError";
+
+describe("Downloads", () => {
+  const bearerToken = "test-bearer-token-12345";
+
+  const streamOf = (...chunks: string[]): ReadableStream<Uint8Array> =>
+    new ReadableStream({
+      start: (controller): void => {
+        for (const chunk of chunks) {
+          controller.enqueue(new TextEncoder().encode(chunk));
+        }
+        controller.close();
+      },
+    });
+
+  const pdfTransport = (
+    headers: Record<string, string> = {}
+  ): InMemoryTransport =>
+    new InMemoryTransport().on(
+      "GET",
+      "/order/ref-1/pdf",
+      () =>
+        new Response(streamOf("%PDF-", "1.7 ", "body"), {
+          headers: { "content-type": "application/pdf", ...headers },
+        })
+    );
+
+  describe("parseContentDisposition", () => {
+    it("should read quoted and unquoted file names", () => {
+      expect(
+        parseContentDisposition('attachment; filename="order ref-1.pdf"')
+      ).toBe("order ref-1.pdf");
+      expect(parseContentDisposition("attachment; filename=order.xlsx")).toBe(
+        "order.xlsx"
+      );
+    });
+
+    it("should prefer the encoded file name", () => {
+      expect(
+        parseContentDisposition(
+          "attachment; filename=\"siparis.pdf\"; filename*=UTF-8''sipari%C5%9F.pdf"
+        )
+      ).toBe("sipariş.pdf");
+    });
+
+    it("should drop directory parts", () => {
+      expect(
+        parseContentDisposition('attachment; filename="../../etc/passwd"')
+      ).toBe("passwd");
+      expect(parseContentDisposition("inline")).toBeUndefined();
+    });
+  });
+
+  describe("downloadOrderPdf", () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), "tapsilat-download-"));
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it("should save the streamed file and report progress", async () => {
+      const sdk = new TapsilatSDK({
+        bearerToken,
+        transport: pdfTransport({
+          "content-disposition": 'attachment; filename="ref-1-invoice.pdf"',
+          "content-length": "13",
+        }),
+      });
+      const progress: DownloadProgress[] = [];
+
+      const download = await sdk.downloadOrderPdf("ref-1");
+      const saved = await download.saveTo(join(directory, download.filename), {
+        onProgress: (update): void => {
+          progress.push(update);
+        },
+      });
+
+      expect(download.filename).toBe("ref-1-invoice.pdf");
+      expect(download.contentType).toBe("application/pdf");
+      expect(saved.bytes).toBe(13);
+      expect(await readFile(saved.path, "utf8")).toBe("%PDF-1.7 body");
+      expect(progress[progress.length - 1]).toEqual({
+        bytes: 13,
+        totalBytes: 13,
+      });
+    });
+
+    it("should fall back to a file name derived from the order", async () => {
+      const sdk = new TapsilatSDK({ bearerToken, transport: pdfTransport() });
+
+      const download = await sdk.downloadOrderPdf("ref-1");
+      const chunks: string[] = [];
+      for await (const chunk of await download.toNodeStream()) {
+        chunks.push(chunk.toString());
+      }
+
+      expect(download.filename).toBe("ref-1.pdf");
+      expect(chunks.join("")).toBe("%PDF-1.7 body");
+      expect(() => download.stream()).toThrow(TapsilatError);
+    });
+
+    it("should reject with the API error of a failed download", async () => {
+      const transport = new InMemoryTransport().on("GET", "/order/ref-1/pdf", {
+        status: 404,
+        body: { error: "Order not found" },
+      });
+      const sdk = new TapsilatSDK({ bearerToken, transport });
+
+      await expect(sdk.downloadOrderPdf("ref-1")).rejects.toMatchObject({
+        message: "Order not found",
+      });
+      await expect(sdk.getOrderPdf("ref-1")).rejects.toMatchObject({
+        message: "Order not found",
+      });
+    });
+
+    it("should validate the order id", async () => {
+      const sdk = new TapsilatSDK({ bearerToken, transport: pdfTransport() });
+
+      await expect(sdk.downloadOrderPdf("")).rejects.toThrow(
+        TapsilatValidationError
+      );
+      await expect(sdk.getOrderExcel(" ")).rejects.toThrow(
+        TapsilatValidationError
+      );
+    });
+  });
+});
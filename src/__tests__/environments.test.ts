@@ -0,0 +1,219 @@
+import { TapsilatSDK } from "../TapsilatSDK";
+import { resolveEnvironment } from "../config/environments";
+import { InMemoryTransport } from "../testing/InMemoryTransport";
+import { TapsilatEnvironment } from "../types/index";
+import { TapsilatValidationError } from "../errors/TapsilatError";
+
+describe("Environments", () => {
+  const bearerToken = "test-bearer-token-12345";
+  const subscriptionId = "0b0f4a9e-5a43-4d8a-9a53-1f2c3d4e5f60";
+  const staging: TapsilatEnvironment = {
+    baseURL: "https://staging-api.example.com/api/v1",
+    checkoutDomain: "https://staging-checkout.example.com",
+    subscriptionDomain: "https://staging-subscribe.example.com/",
+  };
+
+  it("should use the production preset by default", () => {
+    expect(resolveEnvironment({})).toEqual({
+      baseURL: "https://panel.tapsilat.dev/api/v1",
+      checkoutDomain: "https://checkout.tapsilat.dev",
+      subscriptionDomain: "https://checkout.tapsilat.dev",
+    });
+  });
+
+  it("should let explicit URLs override the environment", () => {
+    expect(
+      resolveEnvironment({
+        environment: staging,
+        baseURL: "https://proxy.example.com/tapsilat/",
+        checkoutDomain: "https://pay.example.com",
+      })
+    ).toEqual({
+      baseURL: "https://proxy.example.com/tapsilat",
+      checkoutDomain: "https://pay.example.com",
+      subscriptionDomain: "https://staging-subscribe.example.com",
+    });
+  });
+
+  it("should send requests to and rewrite URLs for a custom environment", async () => {
+    const transport = new InMemoryTransport()
+      .on("POST", "/subscription/redirect", {
+        body: { url: `/token/subscription/${subscriptionId}` },
+      })
+      .on("GET", "/order/ref-1", {
+        body: { reference_id: "ref-1", checkout_url: "/pay/ref-1" },
+      });
+    const sdk = new TapsilatSDK({
+      bearerToken,
+      transport,
+      environment: staging,
+    });
+
+    const redirect = await sdk.redirectSubscription({
+      subscription_id: subscriptionId,
+    });
+    const checkoutUrl = await sdk.getCheckoutUrl("ref-1");
+
+    expect(transport.requests[0].url).toBe(
+      "https://staging-api.example.com/api/v1/subscription/redirect"
+    );
+    expect(redirect.url).toBe(
+      `https://staging-subscribe.example.com/?reference_id=${subscriptionId}`
+    );
+    expect(checkoutUrl).toBe("https://staging-checkout.example.com/pay/ref-1");
+  });
+
+  it("should prefer the organization's domains when asked to", async () => {
+    const transport = new InMemoryTransport()
+      .on("GET", "/organization/settings", {
+        body: { subscription_domain: "subscribe.merchant.com" },
+      })
+      .on("POST", "/subscription/redirect", {
+        body: { url: `/token/subscription/${subscriptionId}` },
+      });
+    const sdk = new TapsilatSDK({
+      bearerToken,
+      transport,
+      useOrganizationDomains: true,
+    });
+
+    const first = await sdk.redirectSubscription({
+      subscription_id: subscriptionId,
+    });
+    await sdk.redirectSubscription({ subscription_id: subscriptionId });
+    const environment = await sdk.getEnvironment();
+
+    expect(first.url).toBe(
+      `https://subscribe.merchant.com/?reference_id=${subscriptionId}`
+    );
+    expect(environment.checkoutDomain).toBe("https://checkout.tapsilat.dev");
+    expect(
+      transport.requests.filter((request) =>
+        request.path.endsWith("/organization/settings")
+      )
+    ).toHaveLength(1);
+  });
+
+  it("should fetch organization settings again only when the organization may change", async () => {
+    const transport = new InMemoryTransport().on(
+      "GET",
+      "/organization/settings",
+      { body: { checkout_domain: "pay.merchant.com" } }
+    );
+    const sdk = new TapsilatSDK({
+      bearerToken,
+      transport,
+      useOrganizationDomains: true,
+    });
+    const settingsRequests = (): number =>
+      transport.requests.filter((request) =>
+        request.path.endsWith("/organization/settings")
+      ).length;
+
+    await sdk.getEnvironment();
+    sdk.getConfigManager().updateConfig({ timeout: 5000 });
+    await sdk.getEnvironment();
+    expect(settingsRequests()).toBe(1);
+
+    sdk
+      .getConfigManager()
+      .updateConfig({ bearerToken: "other-bearer-token-678" });
+    await sdk.getEnvironment();
+    expect(settingsRequests()).toBe(2);
+  });
+
+  it("should report the create response, not the settings lookup", async () => {
+    const transport = new InMemoryTransport()
+      .on("POST", "/order/create", {
+        status: 201,
+        body: { reference_id: "ref-1", checkout_url: "/pay/ref-1" },
+        headers: { "x-request-id": "req-create" },
+      })
+      .on("GET", "/organization/settings", {
+        body: { checkout_domain: "pay.merchant.com" },
+        headers: { "x-request-id": "req-settings" },
+      });
+    const sdk = new TapsilatSDK({
+      bearerToken,
+      transport,
+      useOrganizationDomains: true,
+    });
+    const request = {
+      amount: 100,
+      currency: "TRY" as const,
+      locale: "tr" as const,
+      buyer: { name: "John", surname: "Doe", email: "john@example.com" },
+    };
+
+    const { data, response } = await sdk.withResponse().createOrder(request);
+    const result = await sdk.safe.orders.create(request);
+
+    expect(data.checkout_url).toBe("https://pay.merchant.com/pay/ref-1");
+    expect(response).toMatchObject({ status: 201, requestId: "req-create" });
+    expect(result).toMatchObject({
+      ok: true,
+      meta: { status: 201, requestId: "req-create" },
+    });
+  });
+
+  it("should fall back to the preset when organization settings are unavailable", async () => {
+    const transport = new InMemoryTransport().on(
+      "GET",
+      "/organization/settings",
+      { status: 403, body: { error: "Forbidden" } }
+    );
+    const sdk = new TapsilatSDK({
+      bearerToken,
+      transport,
+      useOrganizationDomains: true,
+    });
+
+    const environment = await sdk.getEnvironment();
+
+    expect(environment.subscriptionDomain).toBe(
+      "https://checkout.tapsilat.dev"
+    );
+  });
+
+  it("should take the sandbox and staging URLs from the configuration", async () => {
+    expect(
+      () => new TapsilatSDK({ bearerToken, environment: "sandbox" })
+    ).toThrow(
+      "Invalid configuration: environment: The sandbox environment needs " +
+        "baseURL, checkoutDomain, subscriptionDomain"
+    );
+
+    const sdk = new TapsilatSDK({
+      bearerToken,
+      environment: "staging",
+      ...staging,
+    });
+
+    await expect(sdk.getEnvironment()).resolves.toEqual({
+      baseURL: "https://staging-api.example.com/api/v1",
+      checkoutDomain: "https://staging-checkout.example.com",
+      subscriptionDomain: "https://staging-subscribe.example.com",
+    });
+  });
+
+  it("should name the presets when the environment is unknown", () => {
+    const resolve = (): unknown =>
+      resolveEnvironment({ environment: "qa" as never });
+
+    expect(resolve).toThrow(TapsilatValidationError);
+    expect(resolve).toThrow(
+      "Environment must be one of: production, sandbox, staging"
+    );
+  });
+
+  it("should reject unknown environments and malformed domains", () => {
+    const sdk = new TapsilatSDK({ bearerToken });
+
+    expect(() =>
+      sdk.getConfigManager().updateConfig({
+        environment: "qa" as never,
+        checkoutDomain: "checkout.example.com",
+      })
+    ).toThrow(TapsilatValidationError);
+  });
+});
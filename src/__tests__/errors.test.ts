@@ -0,0 +1,254 @@
+import { TapsilatSDK } from "../TapsilatSDK";
+import { InMemoryTransport } from "../testing/InMemoryTransport";
+import {
+  TapsilatAuthenticationError,
+  TapsilatBusinessError,
+  TapsilatCardDeclinedError,
+  TapsilatError,
+  TapsilatInsufficientFundsError,
+  TapsilatRateLimitError,
+  TapsilatThreeDSecureError,
+  TapsilatValidationError,
+} from "../errors/TapsilatError";
+import { ErrorCatalogEntry } from "../types/index";
+
+describe("HTTP errors", () => {
+  const createSdk = (transport: InMemoryTransport): TapsilatSDK =>
+    new TapsilatSDK({
+      bearerToken: "test-bearer-token-12345",
+      baseURL: "https://test.api.com/v1",
+      transport,
+      maxRetries: 0,
+    });
+
+  it("should throw the subclass with the HTTP details attached", async () => {
+    const body = {
+      message: "Invalid buyer",
+      errors: { "buyer.email": ["is invalid"] },
+    };
+    const sdk = createSdk(
+      new InMemoryTransport().on("POST", "/order/refund", {
+        status: 422,
+        body,
+        headers: { "x-request-id": "req-42" },
+      })
+    );
+
+    const error = await sdk
+      .refundOrder({ reference_id: "ref-1", amount: 10 })
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(TapsilatValidationError);
+    expect(error).toMatchObject({
+      message: "Invalid buyer",
+      code: "VALIDATION_ERROR",
+      details: { "buyer.email": ["is invalid"] },
+      status: 422,
+      requestId: "req-42",
+      method: "POST",
+      path: "/v1/order/refund",
+      body,
+    });
+  });
+
+  it("should keep the retry wait of rate-limited and unavailable responses", async () => {
+    const sdk = createSdk(
+      new InMemoryTransport()
+        .on("GET", "/order/ref-1", {
+          status: 429,
+          body: { message: "Slow down" },
+          headers: { "retry-after": "7" },
+        })
+        .on("GET", "/order/ref-2/status", {
+          status: 503,
+          body: "upstream down",
+          headers: { "retry-after": "30" },
+        })
+    );
+
+    await expect(sdk.getOrder("ref-1")).rejects.toBeInstanceOf(
+      TapsilatRateLimitError
+    );
+    await expect(sdk.getOrder("ref-1")).rejects.toMatchObject({
+      status: 429,
+      retryAfter: 7,
+    });
+    await expect(sdk.getOrderStatus("ref-2")).rejects.toMatchObject({
+      code: "SERVICE_UNAVAILABLE",
+      status: 503,
+      retryAfter: 30,
+      body: "upstream down",
+    });
+  });
+
+  it("should throw authentication errors from handleResponse", async () => {
+    const sdk = createSdk(
+      new InMemoryTransport().on("GET", "/order/ref-1", {
+        status: 403,
+        body: { message: "Forbidden" },
+      })
+    );
+
+    await expect(sdk.getOrder("ref-1")).rejects.toBeInstanceOf(
+      TapsilatAuthenticationError
+    );
+  });
+
+  it("should serialize without the stack and with PII masked", async () => {
+    const sdk = createSdk(
+      new InMemoryTransport().on("POST", "/order/create", {
+        status: 400,
+        body: { message: "Rejected", buyer: { email: "ayse@example.com" } },
+      })
+    );
+
+    const error = (await sdk
+      .createOrder({
+        amount: 10,
+        currency: "TRY",
+        locale: "tr",
+        buyer: { name: "Ayşe", surname: "Yılmaz", email: "ayse@example.com" },
+      })
+      .catch((caught: unknown) => caught)) as TapsilatError;
+    const json = JSON.parse(JSON.stringify(error));
+
+    expect(json).toEqual({
+      name: "TapsilatValidationError",
+      message: "Rejected",
+      code: "VALIDATION_ERROR",
+      status: 400,
+      method: "POST",
+      path: "/v1/order/create",
+      body: { message: "Rejected", buyer: { email: "[REDACTED]" } },
+    });
+    expect(error.body).toEqual({
+      message: "Rejected",
+      buyer: { email: "ayse@example.com" },
+    });
+  });
+});
+
+describe("Error catalog", () => {
+  const createSdk = (
+    transport: InMemoryTransport,
+    errorCatalog?: ErrorCatalogEntry[]
+  ): TapsilatSDK =>
+    new TapsilatSDK({
+      bearerToken: "test-bearer-token-12345",
+      baseURL: "https://test.api.com/v1",
+      transport,
+      errorCatalog,
+      maxRetries: 0,
+    });
+
+  it("should map business codes to the error hierarchy", async () => {
+    const sdk = createSdk(
+      new InMemoryTransport().on("POST", "/order/charge", {
+        status: 402,
+        body: { code: "INSUFFICIENT_FUNDS", message: "Bakiye yetersiz" },
+      })
+    );
+
+    const error = await sdk
+      .chargeOrder({ reference_id: "ref-1" } as never)
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(TapsilatInsufficientFundsError);
+    expect(error).toBeInstanceOf(TapsilatCardDeclinedError);
+    expect(error).toBeInstanceOf(TapsilatBusinessError);
+    expect(error).toMatchObject({
+      code: "INSUFFICIENT_FUNDS",
+      category: "insufficient_funds",
+      isRetryable: false,
+      message: "Bakiye yetersiz",
+      status: 402,
+    });
+    expect((error as TapsilatBusinessError).getUserMessage("tr")).toBe(
+      "Kartınızın bakiyesi yetersiz. Lütfen başka bir kart deneyin."
+    );
+    expect(JSON.parse(JSON.stringify(error))).toMatchObject({
+      category: "insufficient_funds",
+      isRetryable: false,
+    });
+  });
+
+  it("should use configured entries and fall back to the HTTP status", async () => {
+    const sdk = createSdk(
+      new InMemoryTransport()
+        .on("GET", "/order/ref-1", {
+          status: 400,
+          body: { error_code: 3021, message: "3DS failed" },
+        })
+        .on("GET", "/order/ref-2", {
+          status: 400,
+          body: { code: "UNKNOWN_BUSINESS_CODE", message: "Bad" },
+        }),
+      [
+        {
+          code: "3021",
+          category: "three_ds_failure",
+          userMessages: { tr: "Doğrulama başarısız", en: "Check failed" },
+        },
+      ]
+    );
+
+    const error = await sdk
+      .getOrder("ref-1")
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(TapsilatThreeDSecureError);
+    expect(error).toMatchObject({ code: "3021", isRetryable: true });
+    expect((error as TapsilatBusinessError).getUserMessage()).toBe(
+      "Check failed"
+    );
+    await expect(sdk.getOrder("ref-2")).rejects.toBeInstanceOf(
+      TapsilatValidationError
+    );
+  });
+
+  it("should load the platform's error codes into the catalog", async () => {
+    const transport = new InMemoryTransport()
+      .on("GET", "/system/error-codes", {
+        body: {
+          rows: [
+            { code: 1051, message: "Yetersiz bakiye" },
+            { code: 1054, message: "Kart reddedildi" },
+            { code: 2001, message: "3D Secure doğrulaması başarısız" },
+            { code: 9001, message: "Sistem hatası" },
+          ],
+        },
+      })
+      .on("POST", "/order/charge", (request) => ({
+        status: 402,
+        body: { code: (request.body as { code: number }).code },
+      }));
+    const sdk = createSdk(transport, [
+      { code: "1054", category: "limit_exceeded" },
+    ]);
+
+    const entries = await sdk.loadErrorCatalog();
+    const charge = (code: number): Promise<unknown> =>
+      sdk.chargeOrder({ code } as never).catch((caught: unknown) => caught);
+
+    expect(entries).toEqual([
+      { code: "1051", category: "insufficient_funds" },
+      { code: "1054", category: "card_declined" },
+      { code: "2001", category: "three_ds_failure" },
+    ]);
+    expect(await charge(1051)).toBeInstanceOf(TapsilatInsufficientFundsError);
+    expect(await charge(1054)).toMatchObject({ category: "limit_exceeded" });
+    expect(await charge(9001)).not.toBeInstanceOf(TapsilatBusinessError);
+    await sdk.loadErrorCatalog();
+    expect(await charge(1054)).toMatchObject({ category: "limit_exceeded" });
+  });
+
+  it("should reject invalid catalog entries", () => {
+    expect(() =>
+      createSdk(new InMemoryTransport())
+        .getConfigManager()
+        .updateConfig({
+          errorCatalog: [{ code: "1", category: "unknown" as never }],
+        })
+    ).toThrow(TapsilatValidationError);
+  });
+});
@@ -0,0 +1,135 @@
+import { TapsilatSDK } from "../TapsilatSDK";
+import { TestDataFactory } from "../testing/index";
+import { InMemoryTransport } from "../testing/InMemoryTransport";
+import { isValidEmail, validateGsmNumber } from "../utils/validators";
+import { TapsilatValidationError } from "../errors/TapsilatError";
+
+// Independent reference checks, written from the published algorithms
+const isValidTckn = (value: string): boolean => {
+  if (!/^[1-9]\d{10}$/.test(value)) return false;
+  const d = [...value].map(Number);
+  const tenth =
+    ((d[0] + d[2] + d[4] + d[6] + d[8]) * 7 - (d[1] + d[3] + d[5] + d[7])) %
+    10;
+  const eleventh = d.slice(0, 10).reduce((a, b) => a + b, 0) % 10;
+  return (tenth + 10) % 10 === d[9] && eleventh === d[10];
+};
+
+const isValidVkn = (value: string): boolean => {
+  if (!/^\d{10}$/.test(value)) return false;
+  let sum = 0;
+  for (let i = 0; i < 9; i++) {
+    const step = (Number(value[i]) + 9 - i) % 10;
+    if (step !== 0) sum += (step * 2 ** (9 - i)) % 9 || 9;
+  }
+  return (10 - (sum % 10)) % 10 === Number(value[9]);
+};
+
+const isValidIban = (value: string): boolean => {
+  const rearranged = value.slice(4) + value.slice(0, 4);
+  const numeric = rearranged.replace(/[A-Z]/g, (c) =>
+    String(c.charCodeAt(0) - 55)
+  );
+  return BigInt(numeric) % 97n === 1n;
+};
+
+describe("TestDataFactory", () => {
+  it("should agree with the reference checks on known numbers", () => {
+    expect(isValidTckn("10000000146")).toBe(true);
+    expect(isValidVkn("4540536920")).toBe(true);
+    expect(isValidIban("TR330006100519786457841326")).toBe(true);
+  });
+
+  it("should generate valid Turkish identifiers", () => {
+    const factory = new TestDataFactory({ seed: 7 });
+
+    for (let i = 0; i < 50; i++) {
+      expect(isValidTckn(factory.tckn())).toBe(true);
+      expect(isValidVkn(factory.vkn())).toBe(true);
+      const iban = factory.iban();
+      expect(iban).toMatch(/^TR\d{24}$/);
+      expect(isValidIban(iban)).toBe(true);
+      expect(validateGsmNumber(factory.gsmNumber()).isValid).toBe(true);
+    }
+  });
+
+  it("should generate invalid identifiers for negative tests", () => {
+    const factory = new TestDataFactory({ seed: 7 });
+
+    expect(isValidTckn(factory.invalidTckn())).toBe(false);
+    expect(isValidVkn(factory.invalidVkn())).toBe(false);
+    expect(isValidIban(factory.invalidIban())).toBe(false);
+    expect(validateGsmNumber(factory.invalidGsmNumber()).isValid).toBe(false);
+  });
+
+  it("should be deterministic for a seed", () => {
+    const first = new TestDataFactory({ seed: 42 });
+    const second = new TestDataFactory({ seed: 42 });
+
+    expect(second.orderCreateRequest()).toEqual(first.orderCreateRequest());
+    expect(second.submerchant()).toEqual(first.submerchant());
+    expect(new TestDataFactory({ seed: 43 }).orderCreateRequest()).not.toEqual(
+      new TestDataFactory({ seed: 42 }).orderCreateRequest()
+    );
+  });
+
+  it("should build orders whose amount is the basket total", () => {
+    const factory = new TestDataFactory();
+
+    const order = factory.orderCreateRequest({
+      basket_items: [
+        factory.basketItem({ price: 120.5 }),
+        factory.basketItem({ price: 79.25, quantity: 2 }),
+      ],
+    });
+
+    expect(order.amount).toBe(279);
+    expect(isValidEmail(order.buyer.email)).toBe(true);
+    expect(isValidTckn(order.buyer.identity_number as string)).toBe(true);
+    expect(order.billing_address?.vat_number).toBe(
+      order.buyer.identity_number
+    );
+  });
+
+  it("should merge nested overrides", () => {
+    const factory = new TestDataFactory();
+
+    const order = factory.orderCreateRequest({
+      currency: "EUR",
+      buyer: { email: "test@example.com" },
+      billing_address: { billing_type: "BUSINESS" },
+    });
+
+    expect(order.currency).toBe("EUR");
+    expect(order.buyer.email).toBe("test@example.com");
+    expect(order.buyer.name).toEqual(expect.any(String));
+    expect(order.billing_address).toMatchObject({
+      billing_type: "BUSINESS",
+      tax_office: expect.any(String),
+    });
+    expect(isValidVkn(order.billing_address?.vat_number as string)).toBe(true);
+  });
+
+  it("should produce requests that createOrder accepts or rejects", async () => {
+    const factory = new TestDataFactory({ seed: 3 });
+    const transport = new InMemoryTransport().on("POST", "/order/create", {
+      body: { reference_id: "ref-1" },
+    });
+    const sdk = new TapsilatSDK({
+      bearerToken: "test-bearer-token-12345",
+      transport,
+    });
+
+    await expect(
+      sdk.createOrder(factory.orderCreateRequest())
+    ).resolves.toMatchObject({ reference_id: "ref-1" });
+    for (const field of ["amount", "decimal_places", "buyer_email"] as const) {
+      await expect(
+        sdk.createOrder(factory.invalidOrderCreateRequest(field))
+      ).rejects.toThrow(TapsilatValidationError);
+    }
+    const submerchant = factory.invalidSubmerchant("iban");
+    expect(isValidIban(submerchant.iban)).toBe(false);
+    expect(isValidTckn(submerchant.identity_number)).toBe(true);
+  });
+});
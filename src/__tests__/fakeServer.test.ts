@@ -0,0 +1,247 @@
+import { TapsilatSDK } from "../TapsilatSDK";
+import { FakeTapsilatServer } from "../testing/FakeTapsilatServer";
+import { InMemoryTransport } from "../testing/InMemoryTransport";
+import { OrderCreateRequest } from "../types/index";
+import { TapsilatError } from "../errors/TapsilatError";
+
+describe("FakeTapsilatServer", () => {
+  const bearerToken = "test-bearer-token-12345";
+  const webhookSecret = "whsec-test";
+
+  const order: OrderCreateRequest = {
+    amount: 150,
+    currency: "TRY",
+    locale: "tr",
+    conversation_id: "conv-1",
+    buyer: { name: "Ayşe", surname: "Yılmaz", email: "ayse@example.com" },
+  };
+
+  let server: FakeTapsilatServer;
+  let sdk: TapsilatSDK;
+
+  beforeEach(() => {
+    server = new FakeTapsilatServer({ bearerToken, webhookSecret });
+    sdk = new TapsilatSDK({ bearerToken, transport: server, retryDelay: 1 });
+  });
+
+  it("should take an order through payment and refunds", async () => {
+    const { reference_id } = await sdk.createOrder(order);
+
+    expect(await sdk.getOrderStatus(reference_id)).toEqual({
+      status: "created",
+    });
+    await server.completePayment(reference_id);
+    await sdk.refundOrder({ reference_id, amount: 50 });
+    expect(await sdk.getOrder(reference_id)).toMatchObject({
+      status_enum: "PARTIALLY_REFUNDED",
+      refunded_amount: "50.00",
+    });
+
+    const refund = await sdk.refundAllOrder(reference_id);
+
+    expect(refund.amount).toBe(100);
+    expect(await sdk.getOrderByConversationId("conv-1")).toMatchObject({
+      reference_id,
+      status_enum: "REFUNDED",
+    });
+    expect(server.webhooks.map((delivery) => delivery.event.type)).toEqual([
+      "order.completed",
+      "refund.completed",
+      "refund.completed",
+    ]);
+  });
+
+  it("should sign webhooks so that verifyWebhook accepts them", async () => {
+    const receiver = new InMemoryTransport().on("POST", "/webhooks", {
+      status: 204,
+    });
+    server = new FakeTapsilatServer({
+      webhookSecret,
+      webhookUrl: "https://merchant.test/webhooks",
+      transport: receiver,
+    });
+    sdk = new TapsilatSDK({ bearerToken, transport: server });
+
+    const { reference_id } = await sdk.createOrder(order);
+    await server.failPayment(reference_id);
+
+    const [delivery] = server.webhooks;
+    const [received] = receiver.requests;
+    expect(delivery).toMatchObject({
+      status: 204,
+      event: { type: "order.failed", data: { reference_id } },
+    });
+    expect(received.headers.get("x-tapsilat-signature")).toBe(
+      delivery.signature
+    );
+    expect(
+      await sdk.verifyWebhook(delivery.payload, delivery.signature, webhookSecret)
+    ).toBe(true);
+  });
+
+  it("should reject invalid state transitions and unknown orders", async () => {
+    const { reference_id } = await sdk.createOrder(order);
+
+    await expect(
+      sdk.refundOrder({ reference_id, amount: 10 })
+    ).rejects.toMatchObject({
+      code: "VALIDATION_ERROR",
+      message: "Order in status CREATED cannot be refunded",
+    });
+    await sdk.cancelOrder(reference_id);
+    await expect(sdk.cancelOrder(reference_id)).rejects.toThrow(
+      "Order in status CANCELLED cannot be cancelled"
+    );
+    await expect(server.completePayment(reference_id)).rejects.toThrow(
+      TapsilatError
+    );
+    await expect(sdk.getOrder("missing")).rejects.toMatchObject({
+      code: "NOT_FOUND",
+    });
+  });
+
+  it("should change basket items and payment terms only before payment", async () => {
+    const { reference_id, order_id } = await sdk.createOrder(order);
+    await sdk.addBasketItem({
+      order_reference_id: reference_id,
+      basket_item: { id: "item-1", name: "Kitap", price: 150, quantity: 1 },
+    });
+    await sdk.updateBasketItem({
+      order_reference_id: reference_id,
+      basket_item: { id: "item-1", quantity: 2 },
+    });
+    await sdk.createOrderTerm({
+      order_id: order_id as string,
+      term_reference_id: "term-1",
+      amount: 150,
+      due_date: "2026-11-01 00:00:00",
+      term_sequence: 1,
+      required: true,
+      status: "PENDING",
+    });
+
+    expect(await sdk.getOrderTerm("term-1")).toMatchObject({
+      amount: 150,
+      status: "PENDING",
+    });
+    await server.completePayment(reference_id);
+
+    expect(await sdk.getOrder(reference_id)).toMatchObject({
+      basket_items: [{ id: "item-1", name: "Kitap", quantity: 2 }],
+      payment_terms: [{ term_reference_id: "term-1", status: "PAID" }],
+    });
+    await expect(
+      sdk.removeBasketItem({
+        order_reference_id: reference_id,
+        basket_item_id: "item-1",
+      })
+    ).rejects.toMatchObject({ code: "VALIDATION_ERROR" });
+    await expect(
+      sdk.deleteOrderTerm({ term_reference_id: "term-1" })
+    ).rejects.toThrow("Term in status PAID cannot be changed");
+    await sdk.refundOrderTerm({ term_id: "term-1", amount: 150 });
+    expect(await sdk.getOrderStatus(reference_id)).toEqual({
+      status: "refunded",
+    });
+  });
+
+  it("should create, list and cancel subscriptions", async () => {
+    const created = await sdk.createSubscription({
+      amount: 99.9,
+      currency: "TRY",
+      period: 30,
+      title: "Pro",
+      external_reference_id: "sub-ext-1",
+    });
+
+    expect(
+      await sdk.getSubscription({ external_reference_id: "sub-ext-1" })
+    ).toMatchObject({
+      amount: "99.90",
+      is_active: true,
+      orders: [{ reference_id: created.order_reference_id, status: "CREATED" }],
+    });
+    await sdk.cancelSubscription({ reference_id: created.reference_id });
+    await expect(
+      sdk.cancelSubscription({ reference_id: created.reference_id })
+    ).rejects.toThrow("Subscription is already cancelled");
+    expect(await sdk.listSubscriptions()).toMatchObject({
+      total: 1,
+      rows: [{ is_active: false }],
+    });
+  });
+
+  it("should validate, update and delete submerchants", async () => {
+    await expect(
+      sdk.createSubmerchant({ name: "Eksik" } as never)
+    ).rejects.toMatchObject({
+      code: "VALIDATION_ERROR",
+      details: expect.objectContaining({ iban: "is required" }),
+    });
+
+    const submerchant = await sdk.createSubmerchant({
+      name: "Deniz Ticaret",
+      email: "info@deniz.test",
+      gsm_number: "+905321234567",
+      iban: "TR330006100519786457841326",
+      identity_number: "10000000146",
+      address: "Bağdat Cd. 1",
+      city: "İstanbul",
+      country: "Türkiye",
+      contact_name: "Deniz",
+      contact_surname: "Kaya",
+      sub_merchant_type: "PERSONAL",
+      tax_office: "Kadıköy",
+      zip_code: "34710",
+    });
+    const id = submerchant.id as string;
+    await sdk.updateSubmerchant(id, { city: "Ankara" });
+
+    expect(await sdk.getSubmerchant(id)).toMatchObject({ city: "Ankara" });
+    expect(await sdk.listSubmerchants()).toMatchObject({ total: 1 });
+    await sdk.deleteSubmerchant(id);
+    await expect(sdk.getSubmerchant(id)).rejects.toMatchObject({
+      code: "NOT_FOUND",
+    });
+  });
+
+  it("should replay idempotent requests and serve injected faults", async () => {
+    server.failNext("POST", "/order/create", { status: 503 });
+
+    const first = await sdk.createOrder(order, { idempotencyKey: "key-1" });
+    const second = await sdk.createOrder(order, { idempotencyKey: "key-1" });
+
+    expect(second.reference_id).toBe(first.reference_id);
+    expect(second.idempotency?.replayed).toBe(true);
+    expect(server.requests).toHaveLength(3);
+  });
+
+  it("should reject other bearer tokens", async () => {
+    const other = new TapsilatSDK({
+      bearerToken: "another-token-12345",
+      transport: server,
+      maxRetries: 0,
+    });
+
+    await expect(other.getOrder("ref-1")).rejects.toMatchObject({
+      code: "AUTHENTICATION_ERROR",
+    });
+  });
+
+  it("should serve the same API over HTTP", async () => {
+    const baseURL = await server.listen();
+    try {
+      const client = new TapsilatSDK({ bearerToken, baseURL });
+
+      const { reference_id } = await client.createOrder(order);
+
+      expect(await client.getOrder(reference_id)).toMatchObject({
+        amount: "150.00",
+        buyer: { email: "ayse@example.com" },
+      });
+      expect(await client.healthCheck()).toMatchObject({ status: "UP" });
+    } finally {
+      await server.close();
+    }
+  });
+});
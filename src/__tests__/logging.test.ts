@@ -0,0 +1,250 @@
+import { TapsilatSDK } from "../TapsilatSDK";
+import { HttpClient } from "../http/HttpClient";
+import { createLoggingInterceptor } from "../http/interceptors";
+import { createRedactor } from "../utils/redact";
+import { InMemoryTransport } from "../testing/InMemoryTransport";
+import { Logger } from "../types/index";
+
+const TOKEN = "test-bearer-token-12345";
+
+const createMemoryLogger = (): Logger & { entries: unknown[][] } => {
+  const entries: unknown[][] = [];
+  return {
+    entries,
+    debug: (message, fields) => entries.push(["debug", message, fields]),
+    info: (message, fields) => entries.push(["info", message, fields]),
+    warn: (message, fields) => entries.push(["warn", message, fields]),
+    error: (message, fields) => entries.push(["error", message, fields]),
+  };
+};
+
+const buyer = {
+  name: "John",
+  surname: "Doe",
+  email: "john@example.com",
+  gsm_number: "+905551234567",
+  identity_number: "74300864791",
+};
+
+describe("Logging", () => {
+  describe("createRedactor", () => {
+    it("should mask buyer PII at any depth and keep other fields", () => {
+      const redactor = createRedactor();
+
+      expect(
+        redactor.redact({
+          amount: 100,
+          buyer,
+          items: [{ name: "Phone", email: "a@b.co" }],
+        })
+      ).toEqual({
+        amount: 100,
+        buyer: {
+          name: "[REDACTED]",
+          surname: "[REDACTED]",
+          email: "[REDACTED]",
+          gsm_number: "[REDACTED]",
+          identity_number: "[REDACTED]",
+        },
+        items: [{ name: "Phone", email: "[REDACTED]" }],
+      });
+    });
+
+    it("should mask the names of basket item payers but not of items", () => {
+      const redactor = createRedactor();
+
+      expect(
+        redactor.redact({
+          basket_items: [
+            { name: "Phone", payer: { name: "Ali", type: "PERSONAL" } },
+          ],
+        })
+      ).toEqual({
+        basket_items: [
+          { name: "Phone", payer: { name: "[REDACTED]", type: "PERSONAL" } },
+        ],
+      });
+      expect(
+        createRedactor({ keep: ["buyer.name"] }).redact({
+          buyer: { name: "Ali" },
+        })
+      ).toEqual({ buyer: { name: "Ali" } });
+    });
+
+    it("should mask authorization headers given as a Headers instance", () => {
+      const redactor = createRedactor();
+
+      expect(
+        redactor.redact(
+          new Headers({ Authorization: `Bearer ${TOKEN}`, "X-Trace": "1" })
+        )
+      ).toEqual({ authorization: "[REDACTED]", "x-trace": "1" });
+    });
+
+    it("should mask bearer tokens and card numbers inside strings", () => {
+      const redactor = createRedactor();
+
+      expect(
+        redactor.redact(`Bearer ${TOKEN} paid with 4111 1111 1111 1111`)
+      ).toBe("Bearer [REDACTED] paid with [REDACTED]");
+      expect(redactor.redact("timestamp 1700000000000")).toBe(
+        "timestamp 1700000000000"
+      );
+    });
+
+    it("should apply custom fields, kept fields, patterns and mask", () => {
+      const redactor = createRedactor({
+        fields: ["buyer_id"],
+        keep: ["email"],
+        patterns: [/secret-\w+/],
+        mask: "***",
+      });
+
+      expect(
+        redactor.redact({
+          buyer_id: "buy_1",
+          email: "john@example.com",
+          note: "secret-abc",
+        })
+      ).toEqual({ buyer_id: "***", email: "john@example.com", note: "***" });
+    });
+
+    it("should mask sensitive query parameters", () => {
+      const redactor = createRedactor();
+
+      expect(
+        redactor.redactUrl("https://api.test/order/list?email=a%40b.co&page=1")
+      ).toBe("https://api.test/order/list?email=%5BREDACTED%5D&page=1");
+    });
+  });
+
+  describe("HttpClient", () => {
+    it("should log redacted requests and responses through the logger", async () => {
+      const logger = createMemoryLogger();
+      const transport = new InMemoryTransport().on("POST", "/order/create", {
+        body: { reference_id: "ref-1" },
+        headers: { "X-Request-ID": "req-1" },
+      });
+      const client = new HttpClient({ bearerToken: TOKEN, transport, logger });
+
+      await client.post("/order/create", { amount: 10, buyer });
+
+      const logged = JSON.stringify(logger.entries);
+      expect(logged).not.toContain(TOKEN);
+      expect(logged).not.toContain("john@example.com");
+      expect(logged).not.toContain("74300864791");
+      expect(logger.entries[0]).toEqual([
+        "debug",
+        "Sending request",
+        expect.objectContaining({
+          method: "POST",
+          body: expect.objectContaining({ amount: 10 }),
+        }),
+      ]);
+      expect(logger.entries[1]).toEqual([
+        "debug",
+        "Received response",
+        expect.objectContaining({ status: 200, requestId: "req-1", attempts: 1 }),
+      ]);
+    });
+
+    it("should mask the submerchant's name in logged requests", async () => {
+      const logger = createMemoryLogger();
+      const transport = new InMemoryTransport().on("POST", "/submerchants", {
+        body: { id: "sub-1" },
+      });
+      const sdk = new TapsilatSDK({ bearerToken: TOKEN, transport, logger });
+
+      await sdk.createSubmerchant({
+        name: "Deniz Kaya",
+        email: "deniz@example.com",
+        gsm_number: "+905321234567",
+        iban: "TR330006100519786457841326",
+        identity_number: "10000000146",
+        address: "Bağdat Cd. 1",
+        city: "İstanbul",
+        country: "Türkiye",
+        contact_name: "Deniz",
+        contact_surname: "Kaya",
+        sub_merchant_type: "PERSONAL",
+        tax_office: "Kadıköy",
+        zip_code: "34710",
+      });
+
+      expect(JSON.stringify(logger.entries)).not.toContain("Deniz");
+      expect(logger.entries[0]).toEqual([
+        "debug",
+        "Sending request",
+        expect.objectContaining({
+          body: expect.objectContaining({
+            name: "[REDACTED]",
+            city: "İstanbul",
+          }),
+        }),
+      ]);
+    });
+
+    it("should log to the console when debug is enabled", async () => {
+      const debugSpy = jest.spyOn(console, "debug").mockImplementation();
+      const transport = new InMemoryTransport().on("GET", "/health", {
+        body: "ok",
+      });
+      const client = new HttpClient({ bearerToken: TOKEN, transport, debug: true });
+
+      await client.get("/health");
+
+      expect(debugSpy).toHaveBeenCalledWith(
+        "[tapsilat] Sending request",
+        expect.objectContaining({
+          headers: expect.objectContaining({ authorization: "[REDACTED]" }),
+        })
+      );
+      debugSpy.mockRestore();
+    });
+
+    it("should not log when neither a logger nor debug is configured", async () => {
+      const spies = (["debug", "info", "warn", "error", "log"] as const).map(
+        (level) => jest.spyOn(console, level).mockImplementation()
+      );
+      const transport = new InMemoryTransport().on("GET", "/health", {
+        body: "ok",
+      });
+      const client = new HttpClient({ bearerToken: TOKEN, transport });
+
+      await client.get("/health");
+
+      spies.forEach((spy) => {
+        expect(spy).not.toHaveBeenCalled();
+        spy.mockRestore();
+      });
+    });
+  });
+
+  describe("createLoggingInterceptor", () => {
+    it("should not leak the token or PII", () => {
+      const logger = createMemoryLogger();
+      const interceptor = createLoggingInterceptor({ logger });
+
+      interceptor.request("https://api.test/order/create", {
+        method: "POST",
+        headers: { Authorization: `Bearer ${TOKEN}` },
+        body: JSON.stringify({ buyer }),
+      });
+
+      const logged = JSON.stringify(logger.entries);
+      expect(logged).not.toContain(TOKEN);
+      expect(logged).not.toContain("+905551234567");
+      expect(logged).not.toContain("John");
+    });
+
+    it("should stay silent when debug is false", () => {
+      const logSpy = jest.spyOn(console, "debug").mockImplementation();
+      const interceptor = createLoggingInterceptor(false);
+
+      interceptor.request("https://api.test/health", { method: "GET" });
+
+      expect(logSpy).not.toHaveBeenCalled();
+      logSpy.mockRestore();
+    });
+  });
+});
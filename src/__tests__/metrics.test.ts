@@ -0,0 +1,164 @@
+import { TapsilatSDK } from "../TapsilatSDK";
+import { HttpClient } from "../http/HttpClient";
+import { createTimingInterceptor, RequestTiming } from "../http/interceptors";
+import { MetricsCollector } from "../http/metrics";
+import { InMemoryTransport } from "../testing/InMemoryTransport";
+import { RequestMetric } from "../types/index";
+
+describe("Metrics", () => {
+  const bearerToken = "test-bearer-token-12345";
+  const retryPolicy = { baseDelayMs: 1, jitter: "none" as const };
+
+  it("should group requests by endpoint template", async () => {
+    const transport = new InMemoryTransport().on(
+      "GET",
+      /\/order\/[^/]+$/,
+      { body: { status: "paid" } }
+    );
+    const sdk = new TapsilatSDK({ bearerToken, transport });
+
+    await sdk.getOrder("ref-1");
+    await sdk.getOrder("ref-2");
+
+    const { endpoints } = sdk.metrics.snapshot();
+    expect(endpoints).toHaveLength(1);
+    expect(endpoints[0]).toMatchObject({
+      route: "/order/{reference_id}",
+      method: "GET",
+      requests: 2,
+      retries: 0,
+      errors: {},
+    });
+    expect(endpoints[0].latency.count).toBe(2);
+    expect(endpoints[0].latency.buckets.at(-1)?.count).toBe(2);
+  });
+
+  it("should count retries, rate-limit hits and error codes", async () => {
+    const metrics = new MetricsCollector();
+    const transport = new InMemoryTransport()
+      .on("POST", "/order/refund", { status: 400, body: { message: "bad" } })
+      .once("POST", "/order/refund", {
+        status: 429,
+        body: { message: "slow down" },
+      });
+    const sdk = new TapsilatSDK({
+      bearerToken,
+      transport,
+      metrics,
+      retryPolicy,
+    });
+
+    await expect(
+      sdk.refundOrder({ reference_id: "ref-1", amount: 10 })
+    ).rejects.toThrow();
+
+    expect(metrics.snapshot().endpoints[0]).toMatchObject({
+      route: "/order/refund",
+      method: "POST",
+      requests: 1,
+      retries: 1,
+      rateLimitHits: 1,
+      errors: { VALIDATION_ERROR: 1 },
+    });
+  });
+
+  it("should record cancelled requests and label raw requests by path", async () => {
+    const metrics = new MetricsCollector();
+    const client = new HttpClient({
+      bearerToken,
+      metrics,
+      transport: new InMemoryTransport(),
+    });
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      client.get("/order/ref-1?lang=tr", { signal: controller.signal })
+    ).rejects.toMatchObject({ code: "REQUEST_CANCELLED" });
+
+    expect(metrics.snapshot().endpoints[0]).toMatchObject({
+      route: "/order/ref-1",
+      errors: { REQUEST_CANCELLED: 1 },
+    });
+  });
+
+  it("should push each metric to subscribers until they unsubscribe", () => {
+    const metrics = new MetricsCollector();
+    const received: RequestMetric[] = [];
+    const unsubscribe = metrics.subscribe((metric) => received.push(metric));
+    const metric = {
+      route: "/order/list",
+      method: "GET",
+      status: 200,
+      durationMs: 12,
+      attempts: 1,
+      rateLimitHits: 0,
+    };
+
+    metrics.record(metric);
+    unsubscribe();
+    metrics.record(metric);
+
+    expect(received).toEqual([metric]);
+    expect(metrics.snapshot().endpoints[0].requests).toBe(2);
+  });
+
+  it("should export metrics in the Prometheus text format", () => {
+    const metrics = new MetricsCollector({ buckets: [10, 100] });
+    metrics.record({
+      route: "/order/{reference_id}",
+      method: "GET",
+      status: 404,
+      durationMs: 42,
+      attempts: 2,
+      rateLimitHits: 1,
+      errorCode: "NOT_FOUND",
+    });
+
+    const text = metrics.toPrometheus();
+
+    const labels = 'method="GET",route="/order/{reference_id}"';
+    expect(text).toContain("# TYPE tapsilat_request_duration_ms histogram");
+    expect(text).toContain(`tapsilat_requests_total{${labels}} 1`);
+    expect(text).toContain(
+      `tapsilat_request_duration_ms_bucket{${labels},le="10"} 0`
+    );
+    expect(text).toContain(
+      `tapsilat_request_duration_ms_bucket{${labels},le="100"} 1`
+    );
+    expect(text).toContain(
+      `tapsilat_request_duration_ms_bucket{${labels},le="+Inf"} 1`
+    );
+    expect(text).toContain(`tapsilat_request_duration_ms_sum{${labels}} 42`);
+    expect(text).toContain(
+      `tapsilat_request_errors_total{${labels},code="NOT_FOUND"} 1`
+    );
+    expect(text).toContain(`tapsilat_request_retries_total{${labels}} 1`);
+    expect(text).toContain(`tapsilat_rate_limit_hits_total{${labels}} 1`);
+  });
+
+  describe("createTimingInterceptor", () => {
+    it("should tag and time requests whose headers are a Headers instance", async () => {
+      const timings: RequestTiming[] = [];
+      const interceptor = createTimingInterceptor((timing) =>
+        timings.push(timing)
+      );
+
+      const request = await interceptor.request("/order/ref-1", {
+        method: "GET",
+        headers: new Headers({ Authorization: `Bearer ${bearerToken}` }),
+      });
+      await interceptor.response({ success: true }, request);
+
+      const headers = request.options.headers as Headers;
+      expect(headers.get("Authorization")).toBe(`Bearer ${bearerToken}`);
+      expect(timings).toEqual([
+        expect.objectContaining({
+          method: "GET",
+          url: "/order/ref-1",
+          requestId: headers.get("X-Request-ID"),
+        }),
+      ]);
+    });
+  });
+});
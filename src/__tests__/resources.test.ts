@@ -0,0 +1,114 @@
+import { TapsilatSDK } from "../TapsilatSDK";
+import { InMemoryTransport } from "../testing/InMemoryTransport";
+import { HttpClient } from "../http/HttpClient";
+import { MetricsCollector } from "../http/metrics";
+import { OrdersResource } from "../resources/OrdersResource";
+import { SubmerchantsResource } from "../resources/SubmerchantsResource";
+
+describe("Namespaced resources", () => {
+  const createSdk = (transport: InMemoryTransport): TapsilatSDK =>
+    new TapsilatSDK({
+      bearerToken: "test-bearer-token-12345",
+      baseURL: "https://test.api.com/v1",
+      transport,
+      maxRetries: 0,
+    });
+
+  it("should create each resource once per SDK instance", () => {
+    const sdk = createSdk(new InMemoryTransport());
+
+    expect(sdk.orders).toBeInstanceOf(OrdersResource);
+    expect(sdk.orders).toBe(sdk.orders);
+    expect(sdk.submerchant).toBeInstanceOf(SubmerchantsResource);
+    expect(sdk.system).toBe(sdk.system);
+    expect(createSdk(new InMemoryTransport()).orders).not.toBe(sdk.orders);
+  });
+
+  it("should send requests as the operation of the flat method", async () => {
+    const transport = new InMemoryTransport().on(
+      "GET",
+      "/order/ref-1/status",
+      { body: { status: "paid" } }
+    );
+    const sdk = createSdk(transport);
+
+    await expect(sdk.orders.status("ref-1")).resolves.toEqual({
+      status: "paid",
+    });
+    expect(sdk.metrics.snapshot().endpoints[0]).toMatchObject({
+      route: "/order/{reference_id}/status",
+      requests: 1,
+    });
+  });
+
+  it("should work when created on their own", async () => {
+    const transport = new InMemoryTransport().on("POST", "/order/refund", {
+      body: { refund_id: "rf-1", status: "success", amount: 50 },
+    });
+    const metrics = new MetricsCollector();
+    const orders = new OrdersResource(
+      new HttpClient({
+        bearerToken: "test-bearer-token-12345",
+        baseURL: "https://test.api.com/v1",
+        transport,
+        maxRetries: 0,
+        metrics,
+      })
+    );
+
+    await expect(
+      orders.refund({ reference_id: "ref-1", amount: 50 })
+    ).resolves.toMatchObject({ refund_id: "rf-1" });
+    expect(transport.requests).toHaveLength(1);
+    expect(metrics.snapshot().endpoints[0]).toMatchObject({
+      route: "/order/refund",
+      requests: 1,
+    });
+  });
+
+  it("should resolve relative checkout URLs without the SDK", async () => {
+    const transport = new InMemoryTransport().on("GET", "/order/ref-1", {
+      body: { reference_id: "ref-1", checkout_url: "/?reference_id=ref-1" },
+    });
+    const orders = new OrdersResource(
+      new HttpClient({
+        bearerToken: "test-bearer-token-12345",
+        checkoutDomain: "https://pay.example.com",
+        transport,
+        maxRetries: 0,
+      })
+    );
+
+    await expect(orders.checkoutUrl("ref-1")).resolves.toBe(
+      "https://pay.example.com/?reference_id=ref-1"
+    );
+  });
+
+  it("should run calls made through safe against its view", async () => {
+    const sdk = createSdk(
+      new InMemoryTransport().on("GET", "/system/order-statuses", {
+        body: [],
+        headers: { "x-request-id": "req-7" },
+      })
+    );
+
+    const result = await sdk.safe.system.orderStatuses();
+
+    expect(result).toMatchObject({ ok: true, meta: { requestId: "req-7" } });
+    expect(sdk.safe.orders).not.toBe(sdk.orders);
+  });
+
+  it("should type the arguments of each method", () => {
+    const sdk = createSdk(new InMemoryTransport());
+    const typeChecks = (): unknown[] => [
+      // @ts-expect-error amount must be a number
+      sdk.orders.refund({ reference_id: "ref-1", amount: "50" }),
+      // @ts-expect-error buyer is required
+      sdk.orders.create({ amount: 10, currency: "TRY", locale: "tr" }),
+      // @ts-expect-error listSubmerchants takes a page number
+      sdk.submerchant.list("1"),
+    ];
+
+    expect(typeof typeChecks).toBe("function");
+  });
+});
@@ -0,0 +1,97 @@
+import { TapsilatSDK } from "../TapsilatSDK";
+import { InMemoryTransport } from "../testing/InMemoryTransport";
+import { OPERATIONS } from "../http/operations";
+import {
+  TapsilatError,
+  TapsilatValidationError,
+} from "../errors/TapsilatError";
+
+describe("TapsilatSDK.safe", () => {
+  const createSdk = (transport: InMemoryTransport): TapsilatSDK =>
+    new TapsilatSDK({
+      bearerToken: "test-bearer-token-12345",
+      baseURL: "https://test.api.com/v1",
+      transport,
+      maxRetries: 0,
+    });
+
+  it("should resolve with data and response metadata", async () => {
+    const sdk = createSdk(
+      new InMemoryTransport().on("POST", "/order/refund", {
+        body: { refund_id: "rf-1", status: "success", amount: 50 },
+        headers: { "x-request-id": "req-1" },
+      })
+    );
+
+    const result = await sdk.safe.orders.refund({
+      reference_id: "ref-1",
+      amount: 50,
+    });
+
+    expect(result).toMatchObject({
+      ok: true,
+      data: { refund_id: "rf-1" },
+      meta: { status: 200, requestId: "req-1", attempts: 1 },
+    });
+  });
+
+  it("should resolve with the error instead of throwing", async () => {
+    const sdk = createSdk(
+      new InMemoryTransport().on("GET", "/order/ref-1", {
+        status: 422,
+        body: { message: "Invalid reference" },
+      })
+    );
+
+    const result = await sdk.safe.getOrder("ref-1");
+    if (result.ok) {
+      throw new Error("expected a failed result");
+    }
+
+    expect(result.error).toBeInstanceOf(TapsilatValidationError);
+    expect(result.error).toMatchObject({
+      message: "Invalid reference",
+      status: 422,
+    });
+    await expect(
+      sdk.safe.createOrder({ amount: -1 } as never)
+    ).resolves.toMatchObject({
+      ok: false,
+      error: { code: "VALIDATION_ERROR" },
+    });
+  });
+
+  it("should leave out metadata of calls without an HTTP request", async () => {
+    const sdk = createSdk(new InMemoryTransport());
+
+    const result = await sdk.safe.webhooks.verify("{}", "invalid", "secret");
+
+    expect(result).toEqual({ ok: true, data: false });
+  });
+
+  it("should wrap errors that are not TapsilatErrors", async () => {
+    const sdk = createSdk(new InMemoryTransport());
+    jest
+      .spyOn(sdk, "healthCheck")
+      .mockRejectedValueOnce(new TypeError("boom"));
+
+    const result = await sdk.safe.healthCheck();
+
+    expect(result).toMatchObject({
+      ok: false,
+      error: { code: "UNKNOWN_ERROR", message: "boom" },
+    });
+    expect(!result.ok && result.error).toBeInstanceOf(TapsilatError);
+  });
+
+  it("should offer every operation", () => {
+    const sdk = createSdk(new InMemoryTransport());
+    const safe = sdk.safe as unknown as Record<string, unknown>;
+
+    for (const methodName of Object.keys(OPERATIONS)) {
+      expect(typeof safe[methodName]).toBe("function");
+    }
+    expect(typeof sdk.safe.subscriptions.list).toBe("function");
+    expect(safe.metrics).toBeUndefined();
+  });
+});
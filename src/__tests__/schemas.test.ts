@@ -0,0 +1,239 @@
+import { TapsilatSDK } from "../TapsilatSDK";
+import { TapsilatSchemaError } from "../errors/TapsilatError";
+import { InMemoryTransport } from "../testing/InMemoryTransport";
+import { schema, validateSchema } from "../schemas/schema";
+import { RESPONSE_SCHEMAS } from "../schemas/responses";
+import { OPERATIONS } from "../http/operations";
+import { validateConfig } from "../utils/validators";
+import { Logger, SchemaDrift, TapsilatConfig } from "../types/index";
+
+const driftedOrder = {
+  reference_id: "ref-1",
+  amount: 100,
+  basket_items: [{ id: "item-1", price: "10" }],
+};
+
+describe("Response schemas", () => {
+  const createSdk = (
+    transport: InMemoryTransport,
+    config: Partial<TapsilatConfig> = {}
+  ): TapsilatSDK =>
+    new TapsilatSDK({
+      bearerToken: "test-bearer-token-12345",
+      baseURL: "https://test.api.com/v1",
+      transport,
+      maxRetries: 0,
+      ...config,
+    });
+
+  const orderTransport = (body: unknown): InMemoryTransport =>
+    new InMemoryTransport().on("GET", "/order/ref-1", {
+      body,
+      headers: { "x-request-id": "req-9" },
+    });
+
+  describe("validateSchema", () => {
+    it("should report mismatches with their JSON paths", () => {
+      const rowsSchema = schema.object({
+        status: schema.optional(schema.string),
+        rows: schema.array(
+          schema.object({ code: schema.union(schema.string, schema.number) })
+        ),
+      });
+
+      expect(
+        validateSchema(rowsSchema, {
+          status: null,
+          rows: [{ code: 1 }, { code: true }],
+        })
+      ).toEqual([
+        {
+          path: "$.rows[1].code",
+          expected: "string | number",
+          received: "boolean",
+        },
+      ]);
+      expect(validateSchema(rowsSchema, { rows: "none" })).toEqual([
+        { path: "$.rows", expected: "array", received: "string" },
+      ]);
+    });
+
+    it("should accept fields the schema does not describe", () => {
+      expect(
+        validateSchema(RESPONSE_SCHEMAS["orders.status"], {
+          status: "paid",
+          settled: true,
+        })
+      ).toEqual([]);
+      expect(validateSchema(schema.literal("TRY", "USD"), "JPY")).toEqual([
+        { path: "$", expected: '"TRY" | "USD"', received: '"JPY"' },
+      ]);
+    });
+
+    it("should leave out operations that return files", () => {
+      expect(RESPONSE_SCHEMAS["orders.get"]).toBeDefined();
+      expect(RESPONSE_SCHEMAS["orders.getPdf"]).toBeUndefined();
+      expect(RESPONSE_SCHEMAS["orders.downloadExcel"]).toBeUndefined();
+    });
+
+    it("should have a schema for every operation that returns JSON", () => {
+      const files = [
+        "orders.getPdf",
+        "orders.getExcel",
+        "orders.downloadPdf",
+        "orders.downloadExcel",
+      ];
+
+      const missing = Object.values(OPERATIONS)
+        .map((info) => info.name)
+        .filter((name) => !files.includes(name) && !RESPONSE_SCHEMAS[name]);
+
+      expect(missing).toEqual([]);
+    });
+  });
+
+  describe("strict mode", () => {
+    it("should reject a drifted response with a schema error", async () => {
+      const sdk = createSdk(orderTransport(driftedOrder), {
+        responseValidation: "strict",
+      });
+
+      const error = await sdk.getOrder("ref-1").catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(TapsilatSchemaError);
+      expect(error).toMatchObject({
+        code: "SCHEMA_ERROR",
+        operation: "orders.get",
+        status: 200,
+        requestId: "req-9",
+        method: "GET",
+        path: "/v1/order/ref-1",
+        issues: [
+          { path: "$.amount", expected: "string", received: "number" },
+          {
+            path: "$.basket_items[0].price",
+            expected: "number",
+            received: "string",
+          },
+        ],
+      });
+      expect((error as Error).message).toBe(
+        "Response of orders.get does not match its schema: " +
+          "$.amount: expected string, received number; " +
+          "$.basket_items[0].price: expected number, received string"
+      );
+    });
+
+    it("should return responses that match their schema", async () => {
+      const sdk = createSdk(
+        orderTransport({ reference_id: "ref-1", amount: "100", locale: null }),
+        { responseValidation: "strict" }
+      );
+
+      await expect(sdk.getOrder("ref-1")).resolves.toMatchObject({
+        reference_id: "ref-1",
+        amount: "100",
+      });
+    });
+
+    it("should accept the plain-text health check", async () => {
+      const transport = new InMemoryTransport().on("GET", "/health", {
+        body: "OK",
+      });
+      const sdk = createSdk(transport, { responseValidation: "strict" });
+
+      await expect(sdk.healthCheck()).resolves.toMatchObject({ status: "UP" });
+    });
+
+    it("should surface the error through the safe API", async () => {
+      const sdk = createSdk(orderTransport(driftedOrder), {
+        responseValidation: "strict",
+      });
+
+      const result = await sdk.safe.orders.get("ref-1");
+
+      expect(result.ok).toBe(false);
+      expect(!result.ok && result.error).toBeInstanceOf(TapsilatSchemaError);
+    });
+  });
+
+  describe("lenient mode", () => {
+    it("should pass drift to the hook and return the response", async () => {
+      const drifts: SchemaDrift[] = [];
+      const sdk = createSdk(orderTransport(driftedOrder), {
+        onSchemaDrift: (drift) => drifts.push(drift),
+      });
+
+      await expect(sdk.getOrder("ref-1")).resolves.toMatchObject(
+        driftedOrder
+      );
+      expect(drifts).toEqual([
+        {
+          operation: "orders.get",
+          status: 200,
+          requestId: "req-9",
+          issues: [
+            { path: "$.amount", expected: "string", received: "number" },
+            {
+              path: "$.basket_items[0].price",
+              expected: "number",
+              received: "string",
+            },
+          ],
+        },
+      ]);
+    });
+
+    it("should log a warning when no hook is set", async () => {
+      const warn = jest.fn();
+      const logger: Logger = {
+        debug: jest.fn(),
+        info: jest.fn(),
+        warn,
+        error: jest.fn(),
+      };
+      const sdk = createSdk(orderTransport(driftedOrder), { logger });
+
+      await sdk.getOrder("ref-1");
+
+      expect(warn).toHaveBeenCalledWith(
+        "Response does not match its schema",
+        expect.objectContaining({ operation: "orders.get" })
+      );
+    });
+
+    it("should ignore errors thrown by the hook", async () => {
+      const sdk = createSdk(orderTransport(driftedOrder), {
+        onSchemaDrift: () => {
+          throw new Error("hook failed");
+        },
+      });
+
+      await expect(sdk.getOrder("ref-1")).resolves.toBeDefined();
+    });
+  });
+
+  describe("off mode", () => {
+    it("should skip the checks", async () => {
+      const onSchemaDrift = jest.fn();
+      const sdk = createSdk(orderTransport(driftedOrder), {
+        responseValidation: "off",
+        onSchemaDrift,
+      });
+
+      await expect(sdk.getOrder("ref-1")).resolves.toMatchObject(
+        driftedOrder
+      );
+      expect(onSchemaDrift).not.toHaveBeenCalled();
+    });
+  });
+
+  it("should reject an unknown validation mode", () => {
+    expect(() =>
+      validateConfig({
+        bearerToken: "test-bearer-token-12345",
+        responseValidation: "loose" as TapsilatConfig["responseValidation"],
+      })
+    ).toThrow(/responseValidation: Response validation must be one of/);
+  });
+});
@@ -0,0 +1,159 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { TapsilatSDK } from "../TapsilatSDK";
+import { InMemoryTransport } from "../testing/InMemoryTransport";
+import { Span, SpanAttributeValue, SpanOptions, Tracer } from "../types/index";
+
+interface RecordedSpan extends Span {
+  name: string;
+  kind?: number;
+  attributes: Record<string, SpanAttributeValue | undefined>;
+  status?: { code: number; message?: string };
+  parent?: RecordedSpan;
+  ended: boolean;
+  spanId: string;
+}
+
+class RecordingTracer implements Tracer {
+  readonly spans: RecordedSpan[] = [];
+  private readonly active = new AsyncLocalStorage<RecordedSpan>();
+
+  startSpan(name: string, options: SpanOptions = {}): RecordedSpan {
+    const spanId = (this.spans.length + 1).toString(16).padStart(16, "0");
+    const span: RecordedSpan = {
+      name,
+      kind: options.kind,
+      attributes: { ...options.attributes },
+      parent: this.active.getStore(),
+      ended: false,
+      spanId,
+      setAttribute(key, value) {
+        span.attributes[key] = value;
+      },
+      setStatus(status) {
+        span.status = status;
+      },
+      spanContext: () => ({
+        traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+        spanId,
+        traceFlags: 1,
+      }),
+      end() {
+        span.ended = true;
+      },
+    };
+    this.spans.push(span);
+    return span;
+  }
+
+  startActiveSpan<F extends (span: Span) => unknown>(
+    name: string,
+    options: SpanOptions,
+    fn: F
+  ): ReturnType<F> {
+    const span = this.startSpan(name, options);
+    return this.active.run(span, () => fn(span)) as ReturnType<F>;
+  }
+}
+
+describe("Tracing", () => {
+  const bearerToken = "test-bearer-token-12345";
+  const retryPolicy = { baseDelayMs: 1, jitter: "none" as const };
+
+  it("should create an operation span with a child span per attempt", async () => {
+    const tracer = new RecordingTracer();
+    const transport = new InMemoryTransport()
+      .on("POST", "/order/refund", { body: { refund_id: "rf-1" } })
+      .once("POST", "/order/refund", { status: 503, body: { message: "down" } });
+    const sdk = new TapsilatSDK({ bearerToken, transport, tracer, retryPolicy });
+
+    await sdk.refundOrder({ reference_id: "ref-1", amount: 10 });
+
+    const [operation, first, second] = tracer.spans;
+    expect(tracer.spans).toHaveLength(3);
+    expect(operation.name).toBe("tapsilat.orders.refund");
+    expect(operation.attributes).toMatchObject({
+      "tapsilat.reference_id": "ref-1",
+      "http.route": "/order/refund",
+      "http.request.method": "POST",
+      "http.response.status_code": 200,
+      "tapsilat.retry_count": 1,
+    });
+    expect(operation.status).toBeUndefined();
+
+    expect(first.name).toBe("HTTP POST");
+    expect(first.parent).toBe(operation);
+    expect(first.attributes["http.response.status_code"]).toBe(503);
+    expect(first.status?.code).toBe(2);
+    expect(second.parent).toBe(operation);
+    expect(second.attributes["http.request.resend_count"]).toBe(1);
+    expect(tracer.spans.every((span) => span.ended)).toBe(true);
+  });
+
+  it("should propagate the attempt span with a traceparent header", async () => {
+    const tracer = new RecordingTracer();
+    const transport = new InMemoryTransport().on("GET", "/order/ref-1", {
+      body: { reference_id: "ref-1" },
+    });
+    const sdk = new TapsilatSDK({ bearerToken, transport, tracer });
+
+    await sdk.getOrder("ref-1");
+
+    const attempt = tracer.spans[1];
+    expect(transport.requests[0].headers.get("traceparent")).toBe(
+      `00-4bf92f3577b34da6a3ce929d0e0e4736-${attempt.spanId}-01`
+    );
+    expect(tracer.spans[0].attributes["tapsilat.reference_id"]).toBe("ref-1");
+  });
+
+  it("should record the error code on failed operations", async () => {
+    const tracer = new RecordingTracer();
+    const transport = new InMemoryTransport().on("GET", "/order/missing", {
+      status: 404,
+      body: { message: "Order not found" },
+    });
+    const sdk = new TapsilatSDK({ bearerToken, transport, tracer });
+
+    await expect(sdk.getOrder("missing")).rejects.toThrow("Order not found");
+
+    const [operation] = tracer.spans;
+    expect(operation.attributes["tapsilat.error_code"]).toBe("NOT_FOUND");
+    expect(operation.status).toEqual({ code: 2, message: "Order not found" });
+    expect(operation.ended).toBe(true);
+  });
+
+  it("should nest spans of operations that call other operations", async () => {
+    const tracer = new RecordingTracer();
+    const transport = new InMemoryTransport().on("GET", "/order/ref-1", {
+      body: { checkout_url: "https://checkout.example/ref-1" },
+    });
+    const sdk = new TapsilatSDK({ bearerToken, transport, tracer });
+
+    const { data } = await sdk.withResponse().getCheckoutUrl("ref-1");
+
+    expect(data).toBe("https://checkout.example/ref-1");
+    expect(tracer.spans.map((span) => span.name)).toEqual([
+      "tapsilat.orders.checkoutUrl",
+      "tapsilat.orders.get",
+      "HTTP GET",
+    ]);
+    expect(tracer.spans[1].parent).toBe(tracer.spans[0]);
+    expect(tracer.spans[2].parent).toBe(tracer.spans[1]);
+  });
+
+  it("should trace operations with a tracer set by a configuration update", async () => {
+    const tracer = new RecordingTracer();
+    const transport = new InMemoryTransport().on("GET", "/order/ref-1", {
+      body: {},
+    });
+    const sdk = new TapsilatSDK({ bearerToken, transport });
+
+    sdk.getConfigManager().updateConfig({ tracer });
+    await sdk.getOrder("ref-1");
+
+    expect(tracer.spans.map((span) => span.name)).toEqual([
+      "tapsilat.orders.get",
+      "HTTP GET",
+    ]);
+    expect(tracer.spans[1].parent).toBe(tracer.spans[0]);
+  });
+});
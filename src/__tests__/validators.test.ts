@@ -207,7 +207,7 @@ describe("Crypto Utils", () => {
     const testPayload = '{"test": "data"}';
     const testSecret = "test-secret-key";
 
-    it("should verify valid HMAC signature", () => {
+    it("should verify valid HMAC signature", async () => {
       // Generate a valid signature
       const expectedSignature = crypto
         .createHmac("sha256", testSecret)
@@ -215,31 +215,31 @@ describe("Crypto Utils", () => {
         .digest("hex");
 
       const fullSignature = `sha256=${expectedSignature}`;
-      expect(verifyHmacSignature(testPayload, fullSignature, testSecret)).toBe(
-        true
-      );
+      await expect(
+        verifyHmacSignature(testPayload, fullSignature, testSecret)
+      ).resolves.toBe(true);
     });
 
-    it("should reject invalid HMAC signature", () => {
+    it("should reject invalid HMAC signature", async () => {
       const invalidSignature = "sha256=invalid-signature-hash";
-      expect(
+      await expect(
         verifyHmacSignature(testPayload, invalidSignature, testSecret)
-      ).toBe(false);
+      ).resolves.toBe(false);
     });
 
-    it("should reject signature without sha256 prefix", () => {
+    it("should reject signature without sha256 prefix", async () => {
       const expectedSignature = crypto
         .createHmac("sha256", testSecret)
         .update(testPayload)
         .digest("hex");
 
       // Missing sha256= prefix
-      expect(
+      await expect(
         verifyHmacSignature(testPayload, expectedSignature, testSecret)
-      ).toBe(false);
+      ).resolves.toBe(false);
     });
 
-    it("should reject signature with wrong secret", () => {
+    it("should reject signature with wrong secret", async () => {
       const wrongSecret = "wrong-secret";
       const expectedSignature = crypto
         .createHmac("sha256", wrongSecret)
@@ -248,12 +248,12 @@ describe("Crypto Utils", () => {
 
       const fullSignature = `sha256=${expectedSignature}`;
       // Using different secret should fail
-      expect(verifyHmacSignature(testPayload, fullSignature, testSecret)).toBe(
-        false
-      );
+      await expect(
+        verifyHmacSignature(testPayload, fullSignature, testSecret)
+      ).resolves.toBe(false);
     });
 
-    it("should handle different payload content", () => {
+    it("should handle different payload content", async () => {
       const differentPayload = '{"order_id": "12345", "status": "completed"}';
       const expectedSignature = crypto
         .createHmac("sha256", testSecret)
@@ -261,9 +261,9 @@ describe("Crypto Utils", () => {
         .digest("hex");
 
       const fullSignature = `sha256=${expectedSignature}`;
-      expect(
+      await expect(
         verifyHmacSignature(differentPayload, fullSignature, testSecret)
-      ).toBe(true);
+      ).resolves.toBe(true);
     });
   });
 });
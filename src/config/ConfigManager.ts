@@ -2,25 +2,31 @@
  * @category Configuration
  * @module ConfigManager
  */
-import { TapsilatConfig } from "../types/index";
-import { validateBearerToken } from "../utils/validators";
+import { ConfigChange, TapsilatConfig } from "../types/index";
+import { validateConfig } from "../utils/validators";
 
 /**
  * @category Configuration
  * @summary Configuration management for Tapsilat SDK
- * @description Handles SDK configuration updates, validation, and secure access to configuration data
+ * @description Handles SDK configuration updates, validation, and secure access to configuration data.
+ * The manager is the single source of truth of an SDK instance: its HTTP client subscribes to it and
+ * applies every update to the next request.
  * @class ConfigManager
  */
 export class ConfigManager {
-  private config: TapsilatConfig;
+  private config: Readonly<TapsilatConfig>;
+  private readonly listeners = new Set<(change: ConfigChange) => void>();
 
   /**
    * @summary Creates a new configuration manager
-   * @description Initializes the configuration manager with the provided configuration options
+   * @description Initializes the configuration manager with the provided configuration options,
+   * which are validated by the same rules as updates
    * 
    * @param config - Initial SDK configuration
+   * @throws {TapsilatValidationError} When any option is invalid
    */
   constructor(config: TapsilatConfig) {
+    validateConfig(config);
     this.config = { ...config }; // Create a copy to avoid external mutations
   }
 
@@ -44,16 +50,51 @@ export class ConfigManager {
   /**
    * @category Configuration Management
    * @summary Update SDK configuration with new values
-   * @description Updates the SDK configuration with provided values, validating bearer token if changed
+   * @description Merges the values into the current configuration and validates the result as a
+   * whole. The update is applied atomically: when any field is invalid nothing changes. Subscribers
+   * are notified once the new configuration is in place.
    *
    * @param newConfig - Partial configuration to update
-   * @throws {TapsilatValidationError} When Bearer token is invalid
+   * @throws {TapsilatValidationError} When the resulting configuration is invalid
    */
   updateConfig(newConfig: Partial<TapsilatConfig>): void {
-    if (newConfig.bearerToken) {
-      validateBearerToken(newConfig.bearerToken);
+    const previous = this.config;
+    const current = { ...previous, ...newConfig };
+    validateConfig(current);
+
+    const keys = new Set([
+      ...Object.keys(previous),
+      ...Object.keys(current),
+    ]) as Set<keyof TapsilatConfig>;
+    const changed = [...keys].filter((key) => previous[key] !== current[key]);
+    if (changed.length === 0) {
+      return;
+    }
+
+    this.config = current;
+    const change: ConfigChange = { changed, previous, current };
+    for (const listener of this.listeners) {
+      // A failing listener must not fail the update that has been applied
+      try {
+        listener(change);
+      } catch {
+        // ignored
+      }
     }
-    Object.assign(this.config, newConfig);
+  }
+
+  /**
+   * @category Configuration Management
+   * @summary Calls a listener with every configuration update from now on
+   *
+   * @param listener - Receives the changed keys and the previous and current configuration
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: (change: ConfigChange) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
   }
 
   /**
@@ -76,7 +117,7 @@ export class ConfigManager {
    * @internal
    * @returns Bearer token
    */
-  getBearerToken(): string {
+  getBearerToken(): string | undefined {
     return this.config.bearerToken;
   }
 
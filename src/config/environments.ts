@@ -0,0 +1,125 @@
+/**
+ * @category Configuration
+ * @module Environments
+ */
+import {
+  TapsilatConfig,
+  TapsilatEnvironment,
+  TapsilatEnvironmentName,
+} from "../types/index";
+import { TapsilatValidationError } from "../errors/TapsilatError";
+
+/**
+ * @category Configuration
+ * @summary Built-in environment presets
+ * @description Only production has published URLs. The sandbox and staging URLs are provided per
+ * account, so those presets take them from `baseURL`, `checkoutDomain` and `subscriptionDomain`.
+ */
+export const TAPSILAT_ENVIRONMENTS: Readonly<
+  Record<TapsilatEnvironmentName, Readonly<Partial<TapsilatEnvironment>>>
+> = {
+  production: {
+    baseURL: "https://panel.tapsilat.dev/api/v1",
+    checkoutDomain: "https://checkout.tapsilat.dev",
+    subscriptionDomain: "https://checkout.tapsilat.dev",
+  },
+  sandbox: {},
+  staging: {},
+};
+
+/**
+ * @category Configuration
+ * @summary Environment used when the configuration names none
+ */
+export const DEFAULT_ENVIRONMENT: TapsilatEnvironmentName = "production";
+
+// ENVIRONMENT RESOLUTION
+// Summary: Combines the environment preset with the URLs set directly in the configuration
+// Description: `baseURL`, `checkoutDomain` and `subscriptionDomain` override the environment's values
+/**
+ * @category Configuration
+ * @summary Lists the URLs that neither the configuration nor its environment preset provide
+ *
+ * @param config - SDK configuration
+ * @returns Names of the missing options, empty for custom environments and complete presets
+ * @throws {TapsilatValidationError} When the environment name is not a preset
+ */
+export const missingEnvironmentUrls = (
+  config: TapsilatConfig
+): (keyof TapsilatEnvironment)[] => {
+  const { environment = DEFAULT_ENVIRONMENT } = config;
+  if (typeof environment === "object") {
+    return [];
+  }
+  if (!Object.keys(TAPSILAT_ENVIRONMENTS).includes(environment)) {
+    throw new TapsilatValidationError(
+      `Environment must be one of: ${Object.keys(TAPSILAT_ENVIRONMENTS).join(
+        ", "
+      )}`,
+      { provided: environment }
+    );
+  }
+  const preset = TAPSILAT_ENVIRONMENTS[environment];
+  return (["baseURL", "checkoutDomain", "subscriptionDomain"] as const).filter(
+    (key) => !config[key] && !preset[key]
+  );
+};
+
+/**
+ * @category Configuration
+ * @summary Returns the URLs an SDK instance uses
+ *
+ * @param config - SDK configuration
+ * @returns API base URL and checkout and subscription domains, without trailing slashes
+ * @throws {TapsilatValidationError} When the environment is unknown or lacks a URL
+ */
+export const resolveEnvironment = (
+  config: TapsilatConfig
+): TapsilatEnvironment => {
+  const missing = missingEnvironmentUrls(config);
+  if (missing.length > 0) {
+    throw new TapsilatValidationError(
+      `The ${config.environment as string} environment needs ${missing.join(
+        ", "
+      )} in the configuration`,
+      { missing }
+    );
+  }
+  const environment =
+    typeof config.environment === "object"
+      ? config.environment
+      : TAPSILAT_ENVIRONMENTS[config.environment ?? DEFAULT_ENVIRONMENT];
+  return {
+    baseURL: trimSlashes((config.baseURL || environment.baseURL)!),
+    checkoutDomain: toOrigin(
+      (config.checkoutDomain || environment.checkoutDomain)!
+    ),
+    subscriptionDomain: toOrigin(
+      (config.subscriptionDomain || environment.subscriptionDomain)!
+    ),
+  };
+};
+
+/**
+ * @category Configuration
+ * @summary Normalizes a domain to an origin
+ * @description Organization settings hold bare host names; those are served over HTTPS
+ *
+ * @param domain - Host name or URL
+ * @returns URL with a scheme and without trailing slashes
+ */
+export const toOrigin = (domain: string): string =>
+  trimSlashes(/^https?:\/\//i.test(domain) ? domain : `https://${domain}`);
+
+/**
+ * @category Configuration
+ * @summary Resolves a URL returned by the API against a domain
+ *
+ * @param url - Absolute URL, or path relative to the domain
+ * @param domain - Origin that relative paths belong to
+ * @returns Absolute URL
+ */
+export const toAbsoluteUrl = (url: string, domain: string): string =>
+  url.startsWith("/") ? `${trimSlashes(domain)}${url}` : url;
+
+const trimSlashes = (url: string): string => url.replace(/\/+$/, "");
@@ -2,7 +2,33 @@
  * @category Errors
  * @module TapsilatError
  */
-import { APIError } from "../types/index";
+import {
+  APIError,
+  SchemaIssue,
+  TapsilatErrorCategory,
+  UserMessages,
+} from "../types/index";
+import { createRedactor } from "../utils/redact";
+
+/**
+ * @category Errors
+ * @summary HTTP details of the response an error was created from
+ * @description `body` is the parsed JSON or text body of the error response. `retryAfter` is the
+ * wait in seconds requested through `Retry-After` or `x-ratelimit-reset`.
+ * @interface HttpErrorContext
+ */
+export interface HttpErrorContext {
+  status?: number;
+  requestId?: string;
+  method?: string;
+  path?: string;
+  body?: unknown;
+  retryAfter?: number;
+}
+
+// Errors are serialized without the caller's redaction options, so the
+// defaults mask credentials and PII in bodies and details
+const serializationRedactor = createRedactor();
 
 /**
  * @category Errors
@@ -14,6 +40,12 @@ import { APIError } from "../types/index";
 export class TapsilatError extends Error {
   public readonly code: string;
   public readonly details?: unknown;
+  public readonly status?: number;
+  public readonly requestId?: string;
+  public readonly method?: string;
+  public readonly path?: string;
+  public readonly body?: unknown;
+  public readonly retryAfter?: number;
 
   /**
    * @summary Creates a new TapsilatError instance
@@ -39,14 +71,56 @@ export class TapsilatError extends Error {
 
   /**
    * @summary Creates a TapsilatError from an API error response
-   * @description Factory method to convert API error format to a TapsilatError instance
+   * @description Factory method to convert API error format to a TapsilatError instance. Errors
+   * of the HTTP client already are TapsilatError subclasses and are returned as they are.
    *
    * @param apiError - API error object from response
-   * @returns New TapsilatError instance with properties from API error
+   * @returns The error itself, or a new TapsilatError instance with properties from API error
    */
   static fromAPIError(apiError: APIError): TapsilatError {
+    if (apiError instanceof TapsilatError) {
+      return apiError;
+    }
     return new TapsilatError(apiError.message, apiError.code, apiError.details);
   }
+
+  /**
+   * @summary Attaches the HTTP details of the response the error was created from
+   *
+   * @internal
+   * @param context - Status, request ID, method, path, raw body and retry wait
+   * @returns The same error
+   */
+  withHttpContext(context: HttpErrorContext): this {
+    return Object.assign(this, context);
+  }
+
+  /**
+   * @summary Returns a plain object for logging and JSON serialization
+   * @description Leaves out the stack trace and fields that are not set; credentials and PII in the
+   * message, details and body are masked
+   *
+   * @returns Name, message, code, details and HTTP details of the error
+   */
+  toJSON(): Record<string, unknown> {
+    const fields: Record<string, unknown> = {
+      name: this.name,
+      message: this.message,
+      code: this.code,
+      details: this.details,
+      status: this.status,
+      requestId: this.requestId,
+      method: this.method,
+      path: this.path,
+      retryAfter: this.retryAfter,
+      body: this.body,
+    };
+    return serializationRedactor.redact(
+      Object.fromEntries(
+        Object.entries(fields).filter(([, value]) => value !== undefined)
+      )
+    ) as Record<string, unknown>;
+  }
 }
 
 /**
@@ -144,3 +218,300 @@ export class TapsilatRateLimitError extends TapsilatError {
     this.retryAfter = retryAfter;
   }
 }
+
+/**
+ * @category Errors
+ * @summary Error class for requests cancelled through an AbortSignal
+ * @description Raised when the caller aborts a request, including while the SDK waits between retry attempts
+ * @class TapsilatCancellationError
+ * @extends TapsilatError
+ */
+export class TapsilatCancellationError extends TapsilatError {
+  /**
+   * @summary Creates a new cancellation error instance
+   * @description Initializes cancellation error with an optional message and the abort reason
+   *
+   * @param message - Human-readable error message (defaults to 'Request was cancelled')
+   * @param reason - Optional abort reason supplied to the AbortController
+   */
+  constructor(message: string = "Request was cancelled", reason?: unknown) {
+    super(message, "REQUEST_CANCELLED", reason);
+    this.name = "TapsilatCancellationError";
+  }
+}
+
+/**
+ * @category Errors
+ * @summary Error class for calls rejected by an open circuit breaker
+ * @description Raised without contacting the API while the circuit of the host or endpoint group is open
+ * @class TapsilatCircuitOpenError
+ * @extends TapsilatError
+ */
+export class TapsilatCircuitOpenError extends TapsilatError {
+  public readonly circuit: string;
+  public readonly retryAfterMs: number;
+
+  /**
+   * @summary Creates a new circuit-open error instance
+   * @description Initializes the error with the circuit name and the time left until trial calls are allowed
+   *
+   * @param circuit - Host, or method and route template, of the open circuit
+   * @param retryAfterMs - Milliseconds until the circuit lets a trial call through
+   */
+  constructor(circuit: string, retryAfterMs: number) {
+    super(`Circuit breaker is open for ${circuit}`, "CIRCUIT_OPEN", {
+      circuit,
+      retryAfterMs,
+    });
+    this.name = "TapsilatCircuitOpenError";
+    this.circuit = circuit;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// Issues listed in the message; all of them are kept in `issues`
+const MAX_MESSAGE_ISSUES = 3;
+
+/**
+ * @category Errors
+ * @summary Error class for responses that do not match their schema
+ * @description Raised in the `strict` response validation mode. `issues` lists every mismatch with
+ * the JSON path of the field, such as `$.basket_items[0].price`.
+ * @class TapsilatSchemaError
+ * @extends TapsilatError
+ */
+export class TapsilatSchemaError extends TapsilatError {
+  public readonly operation: string;
+  public readonly issues: SchemaIssue[];
+
+  /**
+   * @summary Creates a new schema error instance
+   *
+   * @param operation - Dotted name of the operation, such as `orders.get`
+   * @param issues - Mismatches found in the response body
+   */
+  constructor(operation: string, issues: SchemaIssue[]) {
+    const listed = issues
+      .slice(0, MAX_MESSAGE_ISSUES)
+      .map(
+        (issue) =>
+          `${issue.path}: expected ${issue.expected}, received ${issue.received}`
+      );
+    if (issues.length > MAX_MESSAGE_ISSUES) {
+      listed.push(`${issues.length - MAX_MESSAGE_ISSUES} more`);
+    }
+    super(
+      `Response of ${operation} does not match its schema: ${listed.join("; ")}`,
+      "SCHEMA_ERROR",
+      { operation, issues }
+    );
+    this.name = "TapsilatSchemaError";
+    this.operation = operation;
+    this.issues = issues;
+  }
+}
+
+/**
+ * @category Errors
+ * @summary Retry behaviour and customer-facing messages of a business error
+ * @interface BusinessErrorInfo
+ */
+export interface BusinessErrorInfo {
+  isRetryable: boolean;
+  userMessages: UserMessages;
+}
+
+/**
+ * @category Errors
+ * @summary Base class of errors mapped from Tapsilat business error codes
+ * @description Created by the error catalog when an error response carries a known business code.
+ * `message` is the API's message; `getUserMessage()` returns a message that is safe to show the
+ * customer.
+ * @class TapsilatBusinessError
+ * @extends TapsilatError
+ */
+export class TapsilatBusinessError extends TapsilatError {
+  public readonly category: TapsilatErrorCategory;
+  public readonly isRetryable: boolean;
+  public readonly userMessages: UserMessages;
+
+  /**
+   * @summary Creates a new business error instance
+   *
+   * @param message - Error message returned by the API
+   * @param code - Tapsilat business error code
+   * @param category - Category of the code
+   * @param info - Whether the payment may be retried as it is, and the customer-facing messages
+   * @param details - Optional additional error context
+   */
+  constructor(
+    message: string,
+    code: string,
+    category: TapsilatErrorCategory,
+    info: BusinessErrorInfo,
+    details?: unknown
+  ) {
+    super(message, code, details);
+    this.name = "TapsilatBusinessError";
+    this.category = category;
+    this.isRetryable = info.isRetryable;
+    this.userMessages = info.userMessages;
+  }
+
+  /**
+   * @summary Returns the message to show the customer
+   *
+   * @param locale - Language of the message (defaults to 'en')
+   * @returns Customer-facing message without internal details
+   */
+  getUserMessage(locale: keyof UserMessages = "en"): string {
+    return this.userMessages[locale];
+  }
+
+  /**
+   * @summary Returns a plain object for logging and JSON serialization
+   * @description Adds the category and whether the error is retryable to the base fields
+   *
+   * @returns Serializable fields of the error
+   */
+  toJSON(): Record<string, unknown> {
+    return {
+      ...super.toJSON(),
+      category: this.category,
+      isRetryable: this.isRetryable,
+    };
+  }
+}
+
+/**
+ * @category Errors
+ * @summary Error class for payments declined by the card issuer
+ * @class TapsilatCardDeclinedError
+ * @extends TapsilatBusinessError
+ */
+export class TapsilatCardDeclinedError extends TapsilatBusinessError {
+  /**
+   * @summary Creates a new card-declined error instance
+   *
+   * @param message - Error message returned by the API
+   * @param code - Tapsilat business error code
+   * @param info - Whether the payment may be retried as it is, and the customer-facing messages
+   * @param details - Optional additional error context
+   * @param category - Category of the code, set by subclasses
+   */
+  constructor(
+    message: string,
+    code: string,
+    info: BusinessErrorInfo,
+    details?: unknown,
+    category: TapsilatErrorCategory = "card_declined"
+  ) {
+    super(message, code, category, info, details);
+    this.name = "TapsilatCardDeclinedError";
+  }
+}
+
+/**
+ * @category Errors
+ * @summary Error class for payments declined because the card has insufficient funds
+ * @description A card decline, so it is also an instance of `TapsilatCardDeclinedError`
+ * @class TapsilatInsufficientFundsError
+ * @extends TapsilatCardDeclinedError
+ */
+export class TapsilatInsufficientFundsError extends TapsilatCardDeclinedError {
+  /**
+   * @summary Creates a new insufficient-funds error instance
+   *
+   * @param message - Error message returned by the API
+   * @param code - Tapsilat business error code
+   * @param info - Whether the payment may be retried as it is, and the customer-facing messages
+   * @param details - Optional additional error context
+   */
+  constructor(
+    message: string,
+    code: string,
+    info: BusinessErrorInfo,
+    details?: unknown
+  ) {
+    super(message, code, info, details, "insufficient_funds");
+    this.name = "TapsilatInsufficientFundsError";
+  }
+}
+
+/**
+ * @category Errors
+ * @summary Error class for failed 3-D Secure authentication
+ * @class TapsilatThreeDSecureError
+ * @extends TapsilatBusinessError
+ */
+export class TapsilatThreeDSecureError extends TapsilatBusinessError {
+  /**
+   * @summary Creates a new 3-D Secure error instance
+   *
+   * @param message - Error message returned by the API
+   * @param code - Tapsilat business error code
+   * @param info - Whether the payment may be retried as it is, and the customer-facing messages
+   * @param details - Optional additional error context
+   */
+  constructor(
+    message: string,
+    code: string,
+    info: BusinessErrorInfo,
+    details?: unknown
+  ) {
+    super(message, code, "three_ds_failure", info, details);
+    this.name = "TapsilatThreeDSecureError";
+  }
+}
+
+/**
+ * @category Errors
+ * @summary Error class for payments over a card, merchant or transaction limit
+ * @class TapsilatLimitExceededError
+ * @extends TapsilatBusinessError
+ */
+export class TapsilatLimitExceededError extends TapsilatBusinessError {
+  /**
+   * @summary Creates a new limit-exceeded error instance
+   *
+   * @param message - Error message returned by the API
+   * @param code - Tapsilat business error code
+   * @param info - Whether the payment may be retried as it is, and the customer-facing messages
+   * @param details - Optional additional error context
+   */
+  constructor(
+    message: string,
+    code: string,
+    info: BusinessErrorInfo,
+    details?: unknown
+  ) {
+    super(message, code, "limit_exceeded", info, details);
+    this.name = "TapsilatLimitExceededError";
+  }
+}
+
+/**
+ * @category Errors
+ * @summary Error class for requests reusing a reference or conversation ID
+ * @class TapsilatDuplicateReferenceError
+ * @extends TapsilatBusinessError
+ */
+export class TapsilatDuplicateReferenceError extends TapsilatBusinessError {
+  /**
+   * @summary Creates a new duplicate-reference error instance
+   *
+   * @param message - Error message returned by the API
+   * @param code - Tapsilat business error code
+   * @param info - Whether the request may be retried as it is, and the customer-facing messages
+   * @param details - Optional additional error context
+   */
+  constructor(
+    message: string,
+    code: string,
+    info: BusinessErrorInfo,
+    details?: unknown
+  ) {
+    super(message, code, "duplicate_reference", info, details);
+    this.name = "TapsilatDuplicateReferenceError";
+  }
+}
@@ -0,0 +1,210 @@
+/**
+ * @category Errors
+ * @module ErrorCatalog
+ */
+import {
+  ErrorCatalogEntry,
+  SystemErrorCode,
+  TapsilatErrorCategory,
+} from "../types/index";
+import {
+  BusinessErrorInfo,
+  TapsilatBusinessError,
+  TapsilatCardDeclinedError,
+  TapsilatDuplicateReferenceError,
+  TapsilatInsufficientFundsError,
+  TapsilatLimitExceededError,
+  TapsilatThreeDSecureError,
+} from "./TapsilatError";
+
+/**
+ * @category Errors
+ * @summary Retry behaviour and customer-facing messages of each error category
+ * @description `isRetryable` tells whether the same payment can succeed when it is tried again
+ * without changes: only a failed 3-D Secure authentication can
+ */
+export const ERROR_CATEGORY_DEFAULTS: Readonly<
+  Record<TapsilatErrorCategory, BusinessErrorInfo>
+> = {
+  card_declined: {
+    isRetryable: false,
+    userMessages: {
+      tr: "Kartınız bankanız tarafından reddedildi. Lütfen başka bir kart deneyin.",
+      en: "Your card was declined by your bank. Please try another card.",
+    },
+  },
+  insufficient_funds: {
+    isRetryable: false,
+    userMessages: {
+      tr: "Kartınızın bakiyesi yetersiz. Lütfen başka bir kart deneyin.",
+      en: "Your card has insufficient funds. Please try another card.",
+    },
+  },
+  three_ds_failure: {
+    isRetryable: true,
+    userMessages: {
+      tr: "3D Secure doğrulaması tamamlanamadı. Lütfen tekrar deneyin.",
+      en: "3D Secure verification could not be completed. Please try again.",
+    },
+  },
+  limit_exceeded: {
+    isRetryable: false,
+    userMessages: {
+      tr: "İşlem limiti aşıldı. Lütfen daha düşük bir tutar veya başka bir kart deneyin.",
+      en: "The transaction limit was exceeded. Please try a lower amount or another card.",
+    },
+  },
+  duplicate_reference: {
+    isRetryable: false,
+    userMessages: {
+      tr: "Bu işlem daha önce gönderildi.",
+      en: "This transaction has already been submitted.",
+    },
+  },
+};
+
+/**
+ * @category Errors
+ * @summary Business error codes the SDK maps without any configuration
+ * @description Extend or override them with the `errorCatalog` option or `loadErrorCatalog()`
+ */
+export const DEFAULT_ERROR_CATALOG: readonly ErrorCatalogEntry[] = [
+  { code: "CARD_DECLINED", category: "card_declined" },
+  { code: "DO_NOT_HONOR", category: "card_declined" },
+  { code: "INVALID_CARD", category: "card_declined" },
+  { code: "EXPIRED_CARD", category: "card_declined" },
+  { code: "LOST_CARD", category: "card_declined" },
+  { code: "STOLEN_CARD", category: "card_declined" },
+  { code: "INSUFFICIENT_FUNDS", category: "insufficient_funds" },
+  { code: "THREE_DS_FAILED", category: "three_ds_failure" },
+  { code: "THREE_DS_AUTHENTICATION_FAILED", category: "three_ds_failure" },
+  { code: "THREE_DS_NOT_ENROLLED", category: "three_ds_failure" },
+  { code: "LIMIT_EXCEEDED", category: "limit_exceeded" },
+  { code: "DAILY_LIMIT_EXCEEDED", category: "limit_exceeded" },
+  { code: "TRANSACTION_LIMIT_EXCEEDED", category: "limit_exceeded" },
+  { code: "DUPLICATE_REFERENCE", category: "duplicate_reference" },
+  { code: "DUPLICATE_CONVERSATION_ID", category: "duplicate_reference" },
+  { code: "DUPLICATE_ORDER", category: "duplicate_reference" },
+];
+
+type BusinessErrorClass = new (
+  message: string,
+  code: string,
+  info: BusinessErrorInfo,
+  details?: unknown
+) => TapsilatBusinessError;
+
+const CATEGORY_CLASSES: Record<TapsilatErrorCategory, BusinessErrorClass> = {
+  card_declined: TapsilatCardDeclinedError,
+  insufficient_funds: TapsilatInsufficientFundsError,
+  three_ds_failure: TapsilatThreeDSecureError,
+  limit_exceeded: TapsilatLimitExceededError,
+  duplicate_reference: TapsilatDuplicateReferenceError,
+};
+
+// Checked in order, so the more specific categories win over card_declined
+const CATEGORY_KEYWORDS: [TapsilatErrorCategory, RegExp][] = [
+  ["insufficient_funds", /insufficient|yetersiz\s*bakiye|bakiye\s*yetersiz/i],
+  ["three_ds_failure", /\b3-?d\b|3d\s*secure|three[_\s-]?ds/i],
+  ["limit_exceeded", /limit/i],
+  [
+    "duplicate_reference",
+    /duplicate|already\s+exists|zaten\s+mevcut|mükerrer/i,
+  ],
+  [
+    "card_declined",
+    /declin|do\s*not\s*honou?r|reddedildi|onaylanmadı|stolen|lost|çalıntı|kayıp/i,
+  ],
+];
+
+// ERROR CATALOG
+// Summary: Maps Tapsilat business error codes to error classes
+// Description: Built from the default entries and the configured ones; later entries win
+/**
+ * @category Errors
+ * @summary Maps Tapsilat business error codes to error classes and categories
+ * @description Codes are compared as strings, so numeric codes from the API match entries whose
+ * code is the same number written as a string
+ *
+ * @example
+ * ```typescript
+ * const catalog = new ErrorCatalog([{ code: "1051", category: "insufficient_funds" }]);
+ * const error = catalog.createError("1051", "Yetersiz bakiye");
+ * error instanceof TapsilatCardDeclinedError; // true
+ * ```
+ * @class ErrorCatalog
+ */
+export class ErrorCatalog {
+  private readonly entries = new Map<string, ErrorCatalogEntry>();
+
+  /**
+   * @summary Creates a catalog of the default entries and the given ones
+   *
+   * @param entries - Entries added to, or overriding, the defaults
+   */
+  constructor(entries: readonly ErrorCatalogEntry[] = []) {
+    for (const entry of [...DEFAULT_ERROR_CATALOG, ...entries]) {
+      this.entries.set(String(entry.code), entry);
+    }
+  }
+
+  /**
+   * @summary Looks up a business error code
+   *
+   * @param code - Business error code from an error response
+   * @returns Catalog entry, or undefined when the code is unknown
+   */
+  get(code: string | number): ErrorCatalogEntry | undefined {
+    return this.entries.get(String(code));
+  }
+
+  /**
+   * @summary Creates the error of a business error code
+   *
+   * @param code - Business error code from an error response
+   * @param message - Error message returned by the API; the English customer message by default
+   * @param details - Optional additional error context
+   * @returns Error of the code's category, or undefined when the code is unknown
+   */
+  createError(
+    code: string | number,
+    message?: string,
+    details?: unknown
+  ): TapsilatBusinessError | undefined {
+    const entry = this.get(code);
+    if (!entry) {
+      return undefined;
+    }
+    const defaults = ERROR_CATEGORY_DEFAULTS[entry.category];
+    const info: BusinessErrorInfo = {
+      isRetryable: entry.isRetryable ?? defaults.isRetryable,
+      userMessages: entry.userMessages ?? defaults.userMessages,
+    };
+    return new CATEGORY_CLASSES[entry.category](
+      message || info.userMessages.en,
+      String(code),
+      info,
+      details
+    );
+  }
+}
+
+/**
+ * @summary Build catalog entries from the platform's error codes
+ * @description Classifies each code by keywords in its message, in Turkish or English, or in the
+ * code itself. Codes that match no category are left out.
+ *
+ * @param rows - Rows returned by `getSystemErrorCodes()`
+ * @returns Catalog entries of the recognised codes
+ */
+export const catalogEntriesFromErrorCodes = (
+  rows: readonly SystemErrorCode[]
+): ErrorCatalogEntry[] =>
+  rows.flatMap((row) => {
+    if (row.code === undefined || row.code === "") {
+      return [];
+    }
+    const text = `${row.code} ${row.message ?? ""}`;
+    const match = CATEGORY_KEYWORDS.find(([, pattern]) => pattern.test(text));
+    return match ? [{ code: String(row.code), category: match[0] }] : [];
+  });
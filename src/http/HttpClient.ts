@@ -2,15 +2,72 @@
  * @category HTTP
  * @module HttpClient
  */
-import { TapsilatConfig, APIResponse } from "../types/index";
+import {
+  TapsilatConfig,
+  ConfigChange,
+  APIResponse,
+  Logger,
+  MetricsRecorder,
+  RetryPolicy,
+  SchemaDrift,
+  TapsilatEnvironment,
+  Tracer,
+  TransportAdapter,
+} from "../types/index";
 import {
   TapsilatError,
   TapsilatNetworkError,
   TapsilatAuthenticationError,
   TapsilatValidationError,
   TapsilatRateLimitError,
+  TapsilatCancellationError,
+  TapsilatCircuitOpenError,
+  TapsilatSchemaError,
 } from "../errors/TapsilatError";
 import { InterceptorManager } from "./interceptors";
+import {
+  computeRetryDelay,
+  getRetryAfterMs,
+  isRetryableStatus,
+  isRetryAllowed,
+  isWithinRetryBudget,
+  resolveRetryPolicy,
+} from "./retry";
+import { createTransport } from "./transport";
+import {
+  AttemptTimeout,
+  capToDeadline,
+  resolveAttemptTimeout,
+  timeoutError,
+} from "./timeouts";
+import { CircuitBreaker } from "./circuitBreaker";
+import { RateLimiter } from "./rateLimiter";
+import { ResponseCache } from "./cache";
+import { CredentialsManager } from "./credentials";
+import { ErrorCatalog } from "../errors/catalog";
+import { ConfigManager } from "../config/ConfigManager";
+import { resolveEnvironment } from "../config/environments";
+import { resolveLogger, toLoggableBody } from "../utils/logger";
+import { RESPONSE_SCHEMAS } from "../schemas/responses";
+import { validateSchema } from "../schemas/schema";
+import { createRedactor, Redactor } from "../utils/redact";
+import {
+  recordSpanError,
+  setSpanAttributes,
+  SpanKind,
+  SpanStatusCode,
+  withTraceparent,
+} from "./tracing";
+import type { OperationContext } from "./operations";
+
+/**
+ * @category HTTP
+ * @summary How the body of a successful response is read
+ * @description `stream` returns the unread body as a web `ReadableStream`; error responses are always
+ * parsed as JSON or text
+ * @typedef {string} ResponseBodyType
+ */
+export type ResponseBodyType = "json" | "text" | "blob" | "arraybuffer" | "stream";
 
 /**
  * @category HTTP
@@ -20,11 +77,14 @@ import { InterceptorManager } from "./interceptors";
  */
 export interface RequestConfig extends Omit<RequestInit, "method" | "body"> {
   timeout?: number;
+  deadline?: number;
   retries?: number;
   baseURL?: string;
   maxRetries?: number;
   params?: Record<string, unknown>;
-  responseType?: "json" | "text" | "blob" | "arraybuffer";
+  responseType?: ResponseBodyType;
+  idempotencyKey?: string;
+  retryPolicy?: RetryPolicy;
 }
 
 /**
@@ -35,6 +95,24 @@ export interface RequestConfig extends Omit<RequestInit, "method" | "body"> {
  */
 export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
 
+/**
+ * @category HTTP
+ * @summary Header carrying the idempotency key of mutating requests
+ */
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+
+/**
+ * @category HTTP
+ * @summary Response header set by the API when a stored response is replayed
+ */
+export const IDEMPOTENT_REPLAYED_HEADER = "Idempotent-Replayed";
+
+/**
+ * @category HTTP
+ * @summary Response header carrying the server-assigned request ID
+ */
+export const REQUEST_ID_HEADER = "x-request-id";
+
 /**
  * @category HTTP
  * @summary Generic constraint for request body types
@@ -49,6 +127,18 @@ export type RequestBody =
   | string
   | FormData;
 
+// Web Crypto, as in webhook verification, keeps the main entry free of Node
+// built-ins; only the download helpers load `fs` and `stream`, on first use
+const sha256Hex = async (value: string): Promise<string> => {
+  const digest = await globalThis.crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(value)
+  );
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+};
+
 /**
  * @category HTTP
  * @summary HTTP Client for making API requests to Tapsilat services
@@ -58,7 +148,7 @@ export type RequestBody =
  * @example
  * ```typescript
  * const client = new HttpClient({
- *   apiKey: 'your-api-key',
+ *   bearerToken: 'your-bearer-token',
  *   baseURL: 'https://api.example.com/v1'
  * });
  *
@@ -67,17 +157,120 @@ export type RequestBody =
  * @class HttpClient
  */
 export class HttpClient {
-  private readonly config: TapsilatConfig;
+  private config: Readonly<TapsilatConfig>;
   private readonly interceptors = new InterceptorManager();
+  private transport!: TransportAdapter;
+  private logger!: Logger;
+  private tracer?: Tracer;
+  private metrics?: MetricsRecorder;
+  private circuitBreaker?: CircuitBreaker;
+  private rateLimiter?: RateLimiter;
+  private cache?: ResponseCache;
+  private credentials?: CredentialsManager;
+  private redactor!: Redactor;
+  private errorCatalog!: ErrorCatalog;
+  private readonly operation?: OperationContext;
 
   /**
    * @summary Creates a new HTTP client instance
-   * @description Initializes the HTTP client with the provided configuration
+   * @description Initializes the HTTP client with the provided configuration. Given a config
+   * manager, the client follows its updates: each update applies to the next request.
+   *
+   * @param config - The configuration for the Tapsilat API client, or the manager holding it
+   */
+  constructor(config: TapsilatConfig | ConfigManager) {
+    if (config instanceof ConfigManager) {
+      this.config = config.getInternalConfig();
+      config.subscribe((change) => this.applyConfig(change));
+    } else {
+      this.config = config;
+    }
+    this.applyConfig();
+  }
+
+  /**
+   * @category HTTP Client Internals
+   * @summary Applies a configuration update
+   * @description Components whose settings did not change are kept, so an update of the timeout
+   * does not reset the cache, the rate limiter or the circuit breaker
    *
-   * @param config - The configuration for the Tapsilat API client
+   * @param change - Update from the config manager; omitted when the client is created
    */
-  constructor(config: TapsilatConfig) {
+  private applyConfig(change?: ConfigChange): void {
+    const config = change ? change.current : this.config;
+    const affects = (...keys: (keyof TapsilatConfig)[]): boolean =>
+      !change || keys.some((key) => change.changed.includes(key));
+
     this.config = config;
+    this.tracer = config.tracer;
+    this.metrics = config.metrics;
+    if (affects("transport")) {
+      this.transport = createTransport(config.transport);
+    }
+    if (affects("logger", "debug", "redaction")) {
+      this.logger = resolveLogger(config);
+      this.redactor = createRedactor(config.redaction);
+    }
+    if (affects("credentials")) {
+      this.credentials = config.credentials
+        ? new CredentialsManager(config.credentials, this.logger)
+        : undefined;
+    }
+    if (affects("errorCatalog")) {
+      this.errorCatalog = new ErrorCatalog(config.errorCatalog);
+    }
+    if (affects("cache")) {
+      this.cache = config.cache ? new ResponseCache(config.cache) : undefined;
+    }
+    if (affects("rateLimit")) {
+      this.rateLimiter = config.rateLimit
+        ? new RateLimiter(config.rateLimit)
+        : undefined;
+    }
+    if (affects("circuitBreaker")) {
+      this.circuitBreaker = config.circuitBreaker
+        ? new CircuitBreaker(config.circuitBreaker)
+        : undefined;
+      this.circuitBreaker?.subscribe((change) =>
+        this.logger.warn("Circuit breaker state changed", { ...change })
+      );
+    }
+  }
+
+  /**
+   * @category Tracing
+   * @summary Returns a view of the client whose requests belong to an SDK operation
+   * @description Requests made through the view are labelled with the operation's route and record
+   * their outcome on the operation span; the client itself is shared, so concurrent operations do
+   * not interfere
+   *
+   * @param operation - Operation description and optional span
+   * @returns Client view bound to the operation
+   */
+  withOperation(operation: OperationContext): HttpClient {
+    return Object.create(this, { operation: { value: operation } });
+  }
+
+  /**
+   * @category Tracing
+   * @summary Gets the tracer of the current configuration
+   *
+   * @returns Tracer, or undefined when tracing is disabled
+   */
+  getTracer(): Tracer | undefined {
+    return this.tracer;
+  }
+
+  /**
+   * @category Configuration
+   * @summary Gets the API base URL and the checkout and subscription domains
+   * @description Resolved from the current configuration: URLs and domains set in it win over
+   * those of the environment preset
+   *
+   * @returns URLs of the configured environment
+   */
+  getEnvironment(): TapsilatEnvironment {
+    return resolveEnvironment(this.config);
   }
 
   /**
@@ -87,13 +280,28 @@ export class HttpClient {
   async get<T = unknown>(url: string): Promise<APIResponse<T>>;
   async get<T = unknown>(
     url: string,
-    config: RequestConfig
+    config?: RequestConfig
   ): Promise<APIResponse<T>>;
   async get<T = unknown>(
     url: string,
     config?: RequestConfig
   ): Promise<APIResponse<T>> {
-    return this.request<T>("GET", url, undefined, config);
+    const responseType = config?.responseType ?? "json";
+    if (!this.cache || responseType !== "json") {
+      return this.request<T>("GET", url, undefined, config);
+    }
+
+    // Cached and coalesced responses are shared between callers, so the
+    // request runs without any one caller's signal
+    const { signal, ...sharedConfig } = config ?? {};
+    const referenceId = this.operation?.referenceId;
+    return this.cache.fetch<T>(
+      await this.cacheKey(url, config),
+      this.routeOf(url),
+      referenceId ? [`order:${referenceId}`] : [],
+      () => this.request<T>("GET", url, undefined, sharedConfig),
+      signal ?? undefined
+    );
   }
 
   /**
@@ -108,14 +316,14 @@ export class HttpClient {
   async post<T = unknown>(
     url: string,
     body: RequestBody,
-    config: RequestConfig
+    config?: RequestConfig
   ): Promise<APIResponse<T>>;
   async post<T = unknown>(
     url: string,
     body?: RequestBody,
     config?: RequestConfig
   ): Promise<APIResponse<T>> {
-    return this.request<T>("POST", url, body, config);
+    return this.mutate<T>("POST", url, body, config);
   }
 
   /**
@@ -130,14 +338,14 @@ export class HttpClient {
   async put<T = unknown>(
     url: string,
     body: RequestBody,
-    config: RequestConfig
+    config?: RequestConfig
   ): Promise<APIResponse<T>>;
   async put<T = unknown>(
     url: string,
     body?: RequestBody,
     config?: RequestConfig
   ): Promise<APIResponse<T>> {
-    return this.request<T>("PUT", url, body, config);
+    return this.mutate<T>("PUT", url, body, config);
   }
 
   /**
@@ -152,14 +360,14 @@ export class HttpClient {
   async patch<T = unknown>(
     url: string,
     body: RequestBody,
-    config: RequestConfig
+    config?: RequestConfig
   ): Promise<APIResponse<T>>;
   async patch<T = unknown>(
     url: string,
     body?: RequestBody,
     config?: RequestConfig
   ): Promise<APIResponse<T>> {
-    return this.request<T>("PATCH", url, body, config);
+    return this.mutate<T>("PATCH", url, body, config);
   }
 
   /**
@@ -169,7 +377,7 @@ export class HttpClient {
   async delete<T = unknown>(url: string): Promise<APIResponse<T>>;
   async delete<T = unknown>(
     url: string,
-    config: RequestConfig
+    config?: RequestConfig
   ): Promise<APIResponse<T>>;
   async delete<T = unknown>(
     url: string,
@@ -190,7 +398,57 @@ export class HttpClient {
       body = bodyOrConfig as RequestBody;
     }
 
-    return this.request<T>("DELETE", url, body, requestConfig);
+    return this.mutate<T>("DELETE", url, body, requestConfig);
+  }
+
+  /**
+   * @category HTTP Client Internals
+   * @summary Sends a mutating request and invalidates the cached responses of its order
+   * @description Runs whether or not the request succeeded, since a failed response does not prove
+   * that the order was left unchanged
+   *
+   * @param method - HTTP method of the request
+   * @param url - Request URL (relative to baseURL)
+   * @param body - Request body data
+   * @param config - Additional request configuration
+   * @returns Promise resolving to API response
+   */
+  private async mutate<T>(
+    method: HttpMethod,
+    url: string,
+    body?: RequestBody,
+    config?: RequestConfig
+  ): Promise<APIResponse<T>> {
+    try {
+      return await this.request<T>(method, url, body, config);
+    } finally {
+      const referenceId = this.operation?.referenceId;
+      if (this.cache && referenceId) {
+        await this.cache.invalidate(`order:${referenceId}`);
+      }
+    }
+  }
+
+  /**
+   * @category HTTP Client Internals
+   * @summary Builds the cache key of a GET request
+   * @description Keys include a hash of the bearer token, so clients with different credentials
+   * never share entries in a shared store
+   *
+   * @param url - Request URL as passed to the client
+   * @param config - Request configuration
+   * @returns Cache key
+   */
+  private async cacheKey(
+    url: string,
+    config?: RequestConfig
+  ): Promise<string> {
+    const credentials = (await sha256Hex(await this.resolveToken())).slice(
+      0,
+      16
+    );
+    const fullUrl = this.buildUrl(url, config?.baseURL, config?.params);
+    return `${credentials}:GET ${fullUrl}`;
   }
 
   private isRequestConfig(obj: unknown): obj is RequestConfig {
@@ -199,12 +457,165 @@ export class HttpClient {
       obj !== null &&
       !Array.isArray(obj) &&
       (Object.keys(obj).some((k) =>
-        ["headers", "timeout", "retries", "baseURL", "params"].includes(k)
+        [
+          "headers",
+          "timeout",
+          "deadline",
+          "retries",
+          "baseURL",
+          "params",
+          "idempotencyKey",
+          "retryPolicy",
+          "signal",
+        ].includes(k)
       ) ||
         Object.keys(obj).length === 0)
     );
   }
 
+  /**
+   * @category HTTP Client
+   * @summary Sends a request, repeating it once with a fresh token after a 401
+   * @description Only applies when the credentials provider returns, or the configuration by then
+   * holds, a token other than the rejected one
+   *
+   * @param method - HTTP method to use
+   * @param url - Request URL (relative to baseURL)
+   * @param body - Request body data
+   * @param config - Additional request configuration
+   * @returns Promise resolving to API response
+   */
+  private async request<T>(
+    method: HttpMethod,
+    url: string,
+    body?: RequestBody,
+    config?: RequestConfig
+  ): Promise<APIResponse<T>> {
+    // Mutating requests carry one idempotency key shared by every attempt,
+    // including the one repeated after a 401, so that sending the request
+    // again cannot apply the same operation twice
+    const idempotencyKey =
+      method === "GET"
+        ? undefined
+        : config?.idempotencyKey ||
+          (this.config.autoIdempotencyKeys === false
+            ? undefined
+            : globalThis.crypto.randomUUID());
+    const token = await this.resolveToken();
+    const response = await this.sendRequest<T>(
+      method,
+      url,
+      token,
+      idempotencyKey,
+      body,
+      config
+    );
+    if (response.status !== 401) {
+      return this.checkSchema(method, url, config, response);
+    }
+
+    const freshToken = this.credentials
+      ? await this.credentials.refresh(token)
+      : await this.resolveToken();
+    if (freshToken === token) {
+      return response;
+    }
+    this.logger.info("Repeating request with refreshed credentials", {
+      method,
+      url,
+    });
+    return this.checkSchema(
+      method,
+      url,
+      config,
+      await this.sendRequest<T>(
+        method,
+        url,
+        freshToken,
+        idempotencyKey,
+        body,
+        config
+      )
+    );
+  }
+
+  /**
+   * @category HTTP Client Internals
+   * @summary Checks a successful JSON response against the schema of its operation
+   * @description In `strict` mode a mismatch turns the response into a failure carrying a
+   * TapsilatSchemaError. In `lenient` mode it is passed to `onSchemaDrift`, or logged as a warning
+   * when no hook is set, and the response is returned as it is.
+   *
+   * @param method - HTTP method of the request
+   * @param url - Request URL (relative to baseURL)
+   * @param config - Additional request configuration
+   * @param response - Final API response
+   * @returns The response, or a failed response in strict mode
+   */
+  private checkSchema<T>(
+    method: HttpMethod,
+    url: string,
+    config: RequestConfig | undefined,
+    response: APIResponse<T>
+  ): APIResponse<T> {
+    const mode = this.config.responseValidation ?? "lenient";
+    const operation = this.operation?.info.name;
+    const responseSchema = operation ? RESPONSE_SCHEMAS[operation] : undefined;
+    if (
+      mode === "off" ||
+      !operation ||
+      !responseSchema ||
+      !response.success ||
+      (config?.responseType ?? "json") !== "json"
+    ) {
+      return response;
+    }
+
+    const issues = validateSchema(responseSchema, response.data);
+    if (issues.length === 0) {
+      return response;
+    }
+    if (mode === "strict") {
+      const error = new TapsilatSchemaError(operation, issues).withHttpContext({
+        status: response.status,
+        requestId: response.requestId,
+        method,
+        path: new URL(this.buildUrl(url, config?.baseURL)).pathname,
+        body: response.data,
+      });
+      return { ...response, success: false, data: undefined, error };
+    }
+
+    const drift: SchemaDrift = {
+      operation,
+      issues,
+      status: response.status,
+      requestId: response.requestId,
+    };
+    if (this.config.onSchemaDrift) {
+      try {
+        this.config.onSchemaDrift(drift);
+      } catch {
+        // ignored
+      }
+    } else {
+      this.logger.warn("Response does not match its schema", { ...drift });
+    }
+    return response;
+  }
+
+  /**
+   * @category HTTP Client Internals
+   * @summary Returns the bearer token for the next request
+   *
+   * @returns Token from the credentials provider, or the configured bearer token
+   */
+  private async resolveToken(): Promise<string> {
+    return this.credentials
+      ? this.credentials.getToken()
+      : this.config.bearerToken ?? "";
+  }
+
   /**
    * @category HTTP Client
    * @summary Core request method with comprehensive error handling and retry logic
@@ -212,19 +623,45 @@ export class HttpClient {
    *
    * @param method - HTTP method to use
    * @param url - Request URL (relative to baseURL)
+   * @param token - Bearer token sent with every attempt
+   * @param idempotencyKey - Idempotency key sent with every attempt of a mutating request, if any
    * @param body - Request body data
    * @param config - Additional request configuration
    * @returns Promise resolving to API response
    */
-  private async request<T>(
+  private async sendRequest<T>(
     method: HttpMethod,
     url: string,
+    token: string,
+    idempotencyKey: string | undefined,
     body?: RequestBody,
     config?: RequestConfig
   ): Promise<APIResponse<T>> {
     const fullUrl = this.buildUrl(url, config?.baseURL, config?.params);
-    const requestOptions = await this.buildRequestOptions(method, body, config);
-    const maxRetries = config?.retries ?? this.config.maxRetries ?? 3;
+    const requestOptions = await this.buildRequestOptions(
+      method,
+      token,
+      body,
+      config
+    );
+    const retryPolicy = resolveRetryPolicy(this.config, config?.retryPolicy);
+    const maxRetries = config?.retries ?? retryPolicy.maxRetries;
+    const canRetry = isRetryAllowed(method, idempotencyKey, retryPolicy);
+    const startedAt = Date.now();
+    const attemptTimeout = resolveAttemptTimeout(
+      this.config,
+      this.operation?.info.name,
+      config?.timeout
+    );
+    const deadline = config?.deadline ?? this.config.deadline;
+    const deadlineAt = deadline !== undefined ? startedAt + deadline : undefined;
+    const signal = config?.signal ?? undefined;
+    if (idempotencyKey) {
+      (requestOptions.headers as Headers).set(
+        IDEMPOTENCY_KEY_HEADER,
+        idempotencyKey
+      );
+    }
 
     // Execute request interceptors
     const { url: interceptedUrl, options: interceptedOptions } =
@@ -234,15 +671,102 @@ export class HttpClient {
       );
 
     let lastError: Error | null = null;
+    const logContext = { method, url: interceptedUrl };
+    const outcome = { attempts: 0, rateLimitHits: 0 };
+    const breaker = this.circuitBreaker;
+    const circuit = breaker?.circuitFor(
+      interceptedUrl,
+      method,
+      this.routeOf(url)
+    );
 
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      if (signal?.aborted) {
+        this.logger.debug("Request cancelled", logContext);
+        const cancellation = new TapsilatCancellationError(
+          undefined,
+          signal.reason
+        );
+        this.recordMetric(method, url, startedAt, outcome, cancellation);
+        throw cancellation;
+      }
+
+      this.logger.debug("Sending request", {
+        ...logContext,
+        attempt: attempt + 1,
+        headers: interceptedOptions.headers,
+        body: toLoggableBody(interceptedOptions.body),
+      });
+
       try {
-        const response = await this.makeRequest<T>(
-          interceptedUrl,
-          interceptedOptions,
-          config?.timeout,
-          config?.responseType
+        // An open circuit rejects the attempt before anything is sent
+        if (breaker && circuit) {
+          breaker.acquire(circuit);
+        }
+        outcome.attempts = attempt + 1;
+        const response = await this.throttle(signal, () =>
+          this.sendAttempt<T>(
+            method,
+            interceptedUrl,
+            interceptedOptions,
+            attempt,
+            capToDeadline(attemptTimeout, deadlineAt),
+            config?.responseType,
+            idempotencyKey
+          )
         );
+        if (response.status === 429) {
+          outcome.rateLimitHits++;
+        }
+        if (breaker && circuit) {
+          if (breaker.isFailureStatus(response.status)) {
+            breaker.recordFailure(circuit);
+          } else {
+            breaker.recordSuccess(circuit);
+          }
+        }
+
+        // Retry transient HTTP failures such as 429 and 5xx while the
+        // policy and the elapsed-time budget allow it
+        if (
+          canRetry &&
+          attempt < maxRetries &&
+          isRetryableStatus(response.status, retryPolicy)
+        ) {
+          const retryDelay = computeRetryDelay(
+            retryPolicy,
+            attempt,
+            getRetryAfterMs(response.headers)
+          );
+          // A retry that cannot finish before the deadline is not started
+          if (this.passesDeadline(deadlineAt, retryDelay)) {
+            lastError = this.deadlineError(deadline, response.status);
+            break;
+          }
+          if (isWithinRetryBudget(retryPolicy, startedAt, retryDelay)) {
+            this.logger.warn("Retrying request after retryable status", {
+              ...logContext,
+              attempt: attempt + 1,
+              status: response.status,
+              delayMs: retryDelay,
+            });
+            await this.delay(retryDelay, signal);
+            continue;
+          }
+        }
+
+        response.attempts = attempt + 1;
+        response.durationMs = Date.now() - startedAt;
+        this.logResponse(logContext, response);
+        this.recordMetric(method, url, startedAt, outcome, response);
+        if (this.operation?.span) {
+          setSpanAttributes(this.operation.span, {
+            "http.response.status_code": response.status,
+            "tapsilat.retry_count": attempt,
+            "tapsilat.request_id": response.requestId,
+            "tapsilat.error_code": response.error?.code,
+          });
+        }
 
         // Execute response interceptors
         const interceptedResponse =
@@ -253,10 +777,25 @@ export class HttpClient {
 
         return interceptedResponse;
       } catch (error) {
+        if (breaker && circuit && !(error instanceof TapsilatCircuitOpenError)) {
+          if (error instanceof TapsilatNetworkError) {
+            breaker.recordFailure(circuit);
+          } else {
+            breaker.release(circuit);
+          }
+        }
+
+        // Cancellation ends the request immediately, without retries or error interceptors
+        if (error instanceof TapsilatCancellationError) {
+          this.logger.debug("Request cancelled", logContext);
+          this.recordMetric(method, url, startedAt, outcome, error);
+          throw error;
+        }
+
         lastError = error as Error;
 
-        // Don't retry on certain error types
-        if (this.shouldNotRetry(lastError)) {
+        // Don't retry on certain error types or requests that are unsafe to repeat
+        if (!canRetry || this.shouldNotRetry(lastError)) {
           break;
         }
 
@@ -265,11 +804,35 @@ export class HttpClient {
           break;
         }
 
-        // Wait before retry with exponential backoff
-        await this.delay(this.calculateRetryDelay(attempt));
+        // Wait before retry, giving up once the elapsed-time budget is spent
+        const retryDelay = computeRetryDelay(retryPolicy, attempt);
+        if (this.passesDeadline(deadlineAt, retryDelay)) {
+          lastError = this.deadlineError(deadline);
+          break;
+        }
+        if (!isWithinRetryBudget(retryPolicy, startedAt, retryDelay)) {
+          break;
+        }
+        this.logger.warn("Retrying request after network error", {
+          ...logContext,
+          attempt: attempt + 1,
+          error: lastError,
+          delayMs: retryDelay,
+        });
+        await this.delay(retryDelay, signal);
       }
     }
 
+    this.logger.error("Request failed", {
+      ...logContext,
+      durationMs: Date.now() - startedAt,
+      error: lastError,
+    });
+    this.recordMetric(method, url, startedAt, outcome, lastError);
+    if (this.operation?.span && lastError) {
+      recordSpanError(this.operation.span, lastError);
+    }
+
     // Execute error interceptors as last resort
     return this.interceptors.executeErrorInterceptors(lastError!, {
       url: interceptedUrl,
@@ -279,24 +842,212 @@ export class HttpClient {
 
   /**
    * @category HTTP Client Internals
-   * @summary Makes the actual HTTP request with timeout handling
-   * @description Performs the fetch request with timeout handling and abort controller
+   * @summary Logs the final response of a request
+   * @description Successful responses are logged at debug level and API errors at warn level
+   *
+   * @param context - Method and URL of the request
+   * @param response - Final API response
+   */
+  private logResponse(
+    context: { method: HttpMethod; url: string },
+    response: APIResponse<unknown>
+  ): void {
+    const fields = {
+      ...context,
+      status: response.status,
+      requestId: response.requestId,
+      durationMs: response.durationMs,
+      attempts: response.attempts,
+    };
+    if (response.success) {
+      this.logger.debug("Received response", fields);
+    } else {
+      this.logger.warn("Received error response", {
+        ...fields,
+        error: response.error,
+      });
+    }
+  }
+
+  /**
+   * @category HTTP Client Internals
+   * @summary Records the outcome of a request on the configured metrics recorder
+   * @description Requests are labelled with the route template of their SDK operation, or with the
+   * request path when they are made outside an operation
+   *
+   * @param method - HTTP method of the request
+   * @param url - Request URL as passed to the client
+   * @param startedAt - Time the request started, in epoch milliseconds
+   * @param outcome - Number of attempts and of 429 responses
+   * @param result - Final API response, or the error that ended the request
+   */
+  private recordMetric(
+    method: HttpMethod,
+    url: string,
+    startedAt: number,
+    outcome: { attempts: number; rateLimitHits: number },
+    result: APIResponse<unknown> | Error | null
+  ): void {
+    if (!this.metrics) {
+      return;
+    }
+    const isError = result instanceof Error;
+    this.metrics.record({
+      route: this.routeOf(url),
+      method,
+      status: isError ? undefined : result?.status,
+      durationMs: Date.now() - startedAt,
+      attempts: outcome.attempts,
+      rateLimitHits: outcome.rateLimitHits,
+      errorCode: isError
+        ? result instanceof TapsilatError
+          ? result.code
+          : "UNKNOWN"
+        : result?.error?.code,
+    });
+  }
+
+  /**
+   * @category HTTP Client Internals
+   * @summary Returns the route template of the SDK operation, or the request path outside an operation
    *
+   * @param url - Request URL as passed to the client
+   * @returns Route used to label metrics and endpoint circuits
+   */
+  private routeOf(url: string): string {
+    return this.operation?.info.route ?? url.split("?")[0];
+  }
+
+  /**
+   * @category HTTP Client Internals
+   * @summary Sends an attempt once the rate limiter has a token and a free slot for it
+   * @description The rate-limit headers of the response are fed back into the limiter
+   *
+   * @param signal - Optional signal that cancels the wait in the queue
+   * @param send - Sends the attempt
+   * @returns Promise resolving to API response
+   */
+  private async throttle<T>(
+    signal: AbortSignal | undefined,
+    send: () => Promise<APIResponse<T>>
+  ): Promise<APIResponse<T>> {
+    if (!this.rateLimiter) {
+      return send();
+    }
+
+    const release = await this.rateLimiter.acquire(signal);
+    try {
+      const response = await send();
+      this.rateLimiter.update(response.headers, response.status);
+      return response;
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * @category HTTP Client Internals
+   * @summary Sends a single attempt, inside its own span when tracing is enabled
+   * @description The attempt span carries the method, route, URL, status and resend count, and its
+   * context is propagated with the `traceparent` header
+   *
+   * @param method - HTTP method of the request
    * @param url - Full URL to request
    * @param options - Fetch request options
-   * @param timeout - Optional timeout in milliseconds
+   * @param attempt - Attempt number (0-indexed)
+   * @param timeout - Time limit of the attempt
+   * @param responseType - Optional expected response body type
+   * @param idempotencyKey - Idempotency key sent with the request, if any
    * @returns Promise resolving to API response
    */
+  private async sendAttempt<T>(
+    method: HttpMethod,
+    url: string,
+    options: RequestInit,
+    attempt: number,
+    timeout: AttemptTimeout,
+    responseType?: ResponseBodyType,
+    idempotencyKey?: string
+  ): Promise<APIResponse<T>> {
+    if (!this.tracer) {
+      return this.makeRequest<T>(
+        url,
+        options,
+        timeout,
+        responseType,
+        idempotencyKey
+      );
+    }
+
+    const span = this.tracer.startSpan(`HTTP ${method}`, {
+      kind: SpanKind.CLIENT,
+      attributes: {
+        "http.request.method": method,
+        "http.route": this.operation?.info.route,
+        "url.full": this.redactor.redactUrl(url),
+        "http.request.resend_count": attempt > 0 ? attempt : undefined,
+        "tapsilat.operation": this.operation?.info.name,
+      },
+    });
+    try {
+      const response = await this.makeRequest<T>(
+        url,
+        withTraceparent(options, span),
+        timeout,
+        responseType,
+        idempotencyKey
+      );
+      setSpanAttributes(span, {
+        "http.response.status_code": response.status,
+        "tapsilat.request_id": response.requestId,
+      });
+      if (!response.success) {
+        setSpanAttributes(span, {
+          "error.type": String(response.status ?? response.error?.code),
+          "tapsilat.error_code": response.error?.code,
+        });
+        span.setStatus({ code: SpanStatusCode.ERROR });
+      }
+      return response;
+    } catch (error) {
+      recordSpanError(span, error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * @category HTTP Client Internals
+   * @summary Makes the actual HTTP request with timeout and cancellation handling
+   * @description Sends the request through the configured transport; the internal abort controller fires on timeout or when the caller's signal aborts
+   *
+   * @param url - Full URL to request
+   * @param options - Fetch request options
+   * @param timeout - Time limit of the attempt; its code is used when it elapses
+   * @param responseType - Optional expected response body type
+   * @param idempotencyKey - Idempotency key sent with the request, if any
+   * @returns Promise resolving to API response
+   * @throws {TapsilatNetworkError} With code `TIMEOUT`, `OPERATION_TIMEOUT` or `DEADLINE_EXCEEDED`
+   * when the attempt runs out of time
+   */
   private async makeRequest<T>(
     url: string,
     options: RequestInit,
-    timeout?: number,
-    responseType?: "json" | "text" | "blob" | "arraybuffer"
+    timeout: AttemptTimeout,
+    responseType?: ResponseBodyType,
+    idempotencyKey?: string
   ): Promise<APIResponse<T>> {
+    const signal = options.signal;
+    if (signal?.aborted) {
+      throw new TapsilatCancellationError(undefined, signal.reason);
+    }
+
     const controller = new AbortController();
-    const timeoutId = timeout
-      ? setTimeout(() => controller.abort(), timeout)
-      : null;
+    const onAbort = (): void => controller.abort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+    const timeoutId = setTimeout(() => controller.abort(), timeout.ms);
+    let streaming = false;
 
     try {
       const requestOptions: RequestInit = {
@@ -304,22 +1055,40 @@ export class HttpClient {
         signal: controller.signal,
       };
 
-      const response = await fetch(url, requestOptions);
+      const response = await this.transport.request(url, requestOptions);
 
-      if (timeoutId) {
-        clearTimeout(timeoutId);
-      }
+      clearTimeout(timeoutId);
 
-      return await this.processResponse<T>(response, responseType);
+      const result = await this.processResponse<T>(
+        response,
+        { method: options.method ?? "GET", url },
+        responseType,
+        idempotencyKey
+      );
+      // A streamed body is read after this returns, so the caller's signal
+      // must still be able to cancel it
+      streaming = responseType === "stream" && result.success;
+      return result;
     } catch (error) {
-      if (timeoutId) {
-        clearTimeout(timeoutId);
+      clearTimeout(timeoutId);
+
+      if (signal?.aborted) {
+        throw new TapsilatCancellationError(undefined, signal.reason);
+      }
+
+      // Errors raised on purpose, such as an unmatched cassette request,
+      // keep their code instead of becoming network errors
+      if (error instanceof TapsilatError) {
+        throw error;
+      }
+
+      // The caller's signal was not aborted, so only the timeout can have
+      // aborted the internal controller
+      if (controller.signal.aborted) {
+        throw timeoutError(timeout, { operation: this.operation?.info.name });
       }
 
       if (error instanceof Error) {
-        if (error.name === "AbortError") {
-          throw new TapsilatNetworkError("Request timeout", "TIMEOUT");
-        }
         throw new TapsilatNetworkError(
           `Network request failed: ${error.message}`,
           "NETWORK_ERROR"
@@ -327,6 +1096,10 @@ export class HttpClient {
       }
 
       throw new TapsilatNetworkError("Unknown network error", "UNKNOWN");
+    } finally {
+      if (!streaming) {
+        signal?.removeEventListener("abort", onAbort);
+      }
     }
   }
 
@@ -336,25 +1109,34 @@ export class HttpClient {
    * @description Parses the response and formats it according to the APIResponse interface
    *
    * @param response - The raw fetch Response object
+   * @param request - Method and URL of the request, attached to errors
+   * @param responseType - Optional expected response body type
+   * @param idempotencyKey - Idempotency key sent with the request, if any
    * @returns Processed API response
    */
   private async processResponse<T>(
     response: Response,
-    responseType?: "json" | "text" | "blob" | "arraybuffer"
+    request: { method: string; url: string },
+    responseType?: ResponseBodyType,
+    idempotencyKey?: string
   ): Promise<APIResponse<T>> {
     const contentType = response.headers.get("content-type");
     const isJson = contentType?.includes("application/json");
 
     let responseData: unknown;
+    // Error bodies carry the API's error details, whatever the caller expects
+    const bodyType = response.ok ? responseType : undefined;
 
     try {
-      if (responseType === "blob") {
+      if (bodyType === "stream") {
+        responseData = response.body;
+      } else if (bodyType === "blob") {
         responseData = await response.blob();
-      } else if (responseType === "arraybuffer") {
+      } else if (bodyType === "arraybuffer") {
         responseData = await response.arrayBuffer();
-      } else if (responseType === "text") {
+      } else if (bodyType === "text") {
         responseData = await response.text();
-      } else if (isJson || responseType === "json") {
+      } else if (isJson || bodyType === "json") {
         responseData = await response.json();
       } else {
         responseData = await response.text();
@@ -363,42 +1145,88 @@ export class HttpClient {
       throw new TapsilatError("Failed to parse response body", "PARSE_ERROR");
     }
 
+    const status = response.status;
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, key) => {
+      headers[key] = value;
+    });
+    const requestId = headers[REQUEST_ID_HEADER] || undefined;
+
+    const idempotency = idempotencyKey
+      ? {
+          key: idempotencyKey,
+          replayed:
+            response.headers
+              .get(IDEMPOTENT_REPLAYED_HEADER)
+              ?.toLowerCase() === "true",
+        }
+      : undefined;
+
     // Handle successful responses
     if (response.ok) {
       return {
         success: true,
         data: responseData as T,
+        status,
+        headers,
+        requestId,
+        ...(idempotency && { idempotency }),
       };
     }
 
-    // Handle error responses
-    const error = this.createErrorFromResponse(response, responseData);
+    // Handle error responses; the error keeps its subclass so that
+    // `handleResponse` can throw it as it is
+    const retryAfterMs = getRetryAfterMs(headers);
+    const retryAfter =
+      retryAfterMs !== undefined ? Math.ceil(retryAfterMs / 1000) : undefined;
+    const error = this.createErrorFromResponse(
+      status,
+      responseData,
+      retryAfter
+    ).withHttpContext({
+      status,
+      requestId,
+      method: request.method.toUpperCase(),
+      path: new URL(request.url).pathname,
+      body: responseData,
+      retryAfter,
+    });
 
     return {
       success: false,
-      error: {
-        message: error.message,
-        code: error.code,
-        details: error.details,
-      },
+      error,
+      status,
+      headers,
+      requestId,
+      ...(idempotency && { idempotency }),
     };
   }
 
   /**
    * @category HTTP Client Internals
    * @summary Creates appropriate error based on response status and data
-   * @description Maps HTTP status codes to specific Tapsilat error types
+   * @description Maps business error codes known to the error catalog to their error classes, and
+   * other responses by HTTP status code to specific Tapsilat error types
    *
-   * @param response - The raw fetch Response object
+   * @param status - HTTP status code of the response
    * @param data - The parsed response data
+   * @param retryAfter - Seconds the server asked to wait, if any
    * @returns Appropriate TapsilatError subclass instance
    */
   private createErrorFromResponse(
-    response: Response,
-    data: unknown
+    status: number,
+    data: unknown,
+    retryAfter?: number
   ): TapsilatError {
-    const status = response.status;
     const errorMessage = this.extractErrorMessage(data);
+    const businessCode = this.extractBusinessCode(data);
+    const businessError =
+      businessCode !== undefined
+        ? this.errorCatalog.createError(businessCode, errorMessage)
+        : undefined;
+    if (businessError) {
+      return businessError;
+    }
 
     switch (status) {
       case 401:
@@ -418,17 +1246,11 @@ export class HttpClient {
           errorMessage || "Validation failed",
           this.extractValidationDetails(data)
         );
-      case 429: {
-        const rateLimitInfo = this.extractRateLimitInfo(response);
+      case 429:
         return new TapsilatRateLimitError(
           errorMessage || "Rate limit exceeded",
-          rateLimitInfo.resetTime
-            ? Math.floor(
-                (rateLimitInfo.resetTime.getTime() - Date.now()) / 1000
-              )
-            : undefined
+          retryAfter
         );
-      }
       case 404:
         return new TapsilatError(
           errorMessage || "Resource not found",
@@ -476,6 +1298,25 @@ export class HttpClient {
     return undefined;
   }
 
+  /**
+   * @category HTTP Client Internals
+   * @summary Extracts the Tapsilat business error code from error response
+   * @description Reads the `code`, `error_code` or `errorCode` field of a JSON error body
+   *
+   * @param data - The parsed response data
+   * @returns Business error code, or undefined when the body has none
+   */
+  private extractBusinessCode(data: unknown): string | number | undefined {
+    if (data && typeof data === "object") {
+      const obj = data as Record<string, unknown>;
+      const code = obj.code ?? obj.error_code ?? obj.errorCode;
+      return typeof code === "string" || typeof code === "number"
+        ? code
+        : undefined;
+    }
+    return undefined;
+  }
+
   /**
    * @category HTTP Client Internals
    * @summary Extracts validation details from error response
@@ -494,30 +1335,6 @@ export class HttpClient {
     return undefined;
   }
 
-  /**
-   * @category HTTP Client Internals
-   * @summary Extracts rate limit information from response headers
-   * @description Reads and parses rate limiting headers from the API response
-   *
-   * @param response - The raw fetch Response object
-   * @returns Rate limit information including limits and reset time
-   */
-  private extractRateLimitInfo(response: Response): {
-    limit?: number;
-    remaining?: number;
-    resetTime?: Date;
-  } {
-    const limit = response.headers.get("x-ratelimit-limit");
-    const remaining = response.headers.get("x-ratelimit-remaining");
-    const reset = response.headers.get("x-ratelimit-reset");
-
-    return {
-      limit: limit ? parseInt(limit, 10) : undefined,
-      remaining: remaining ? parseInt(remaining, 10) : undefined,
-      resetTime: reset ? new Date(parseInt(reset, 10) * 1000) : undefined,
-    };
-  }
-
   /**
    * @category HTTP Client Internals
    * @summary Builds the complete URL for the request
@@ -533,10 +1350,7 @@ export class HttpClient {
     customBaseURL?: string,
     params?: Record<string, unknown>
   ): string {
-    const baseURL =
-      customBaseURL ||
-      this.config.baseURL ||
-      "https://panel.tapsilat.dev/api/v1";
+    const baseURL = customBaseURL || resolveEnvironment(this.config).baseURL;
 
     if (url.startsWith("http://") || url.startsWith("https://")) {
       return url;
@@ -570,20 +1384,25 @@ export class HttpClient {
    * @description Prepares headers and request configuration for fetch API
    *
    * @param method - The HTTP method to use
+   * @param token - Bearer token for the Authorization header
    * @param body - Optional request body
    * @param config - Additional request configuration
    * @returns Configured RequestInit object for fetch
    */
   private async buildRequestOptions(
     method: HttpMethod,
+    token: string,
     body?: RequestBody,
     config?: RequestConfig
   ): Promise<RequestInit> {
     const headers = new Headers({
       "User-Agent": `TapsilatSDK/1.0.0`,
-      Authorization: `Bearer ${this.config.bearerToken}`,
+      Authorization: `Bearer ${token}`,
       Accept: "application/json",
-      ...(config?.headers as Record<string, string>),
+    });
+    // Accept plain objects, header tuples and Headers instances alike
+    new Headers(config?.headers).forEach((value, key) => {
+      headers.set(key, value);
     });
 
     // Set content type for requests with body
@@ -595,8 +1414,8 @@ export class HttpClient {
 
     const options: RequestInit = {
       method,
-      headers,
       ...config,
+      headers,
     };
 
     // Add body for non-GET requests
@@ -626,37 +1445,76 @@ export class HttpClient {
     return (
       error instanceof TapsilatAuthenticationError ||
       error instanceof TapsilatValidationError ||
-      (error instanceof TapsilatError && error.code === "NOT_FOUND")
+      error instanceof TapsilatCircuitOpenError ||
+      (error instanceof TapsilatError &&
+        [
+          "NOT_FOUND",
+          "DEADLINE_EXCEEDED",
+          "CASSETTE_MISMATCH",
+          "CASSETTE_UNREADABLE",
+        ].includes(error.code))
     );
   }
 
   /**
    * @category HTTP Client Internals
-   * @summary Calculates retry delay with exponential backoff
-   * @description Implements exponential backoff with jitter for retry attempts
+   * @summary Checks whether a backoff sleep would end after the request's deadline
    *
-   * @param attempt - The current retry attempt number (0-indexed)
-   * @returns Delay in milliseconds before next retry
+   * @param deadlineAt - Deadline as an epoch timestamp in milliseconds, if any
+   * @param delayMs - Backoff delay before the next attempt
+   * @returns Whether the next attempt could not start before the deadline
    */
-  private calculateRetryDelay(attempt: number): number {
-    const baseDelay = 1000; // 1 second
-    const maxDelay = 30000; // 30 seconds
-    const delay = Math.min(baseDelay * Math.pow(2, attempt), maxDelay);
+  private passesDeadline(
+    deadlineAt: number | undefined,
+    delayMs: number
+  ): boolean {
+    return deadlineAt !== undefined && Date.now() + delayMs >= deadlineAt;
+  }
 
-    // Add jitter to prevent thundering herd
-    return delay + Math.random() * 1000;
+  /**
+   * @category HTTP Client Internals
+   * @summary Creates the error of a request whose deadline leaves no time for another attempt
+   *
+   * @param deadline - Total deadline of the request in milliseconds
+   * @param status - HTTP status of the last response, if the last attempt got one
+   * @returns Network error with code `DEADLINE_EXCEEDED`
+   */
+  private deadlineError(
+    deadline: number | undefined,
+    status?: number
+  ): TapsilatNetworkError {
+    return timeoutError(
+      { ms: deadline ?? 0, code: "DEADLINE_EXCEEDED" },
+      { operation: this.operation?.info.name, status }
+    );
   }
 
   /**
    * @category HTTP Client Internals
    * @summary Utility method to create delay
-   * @description Creates a promise that resolves after the specified time
+   * @description Creates a promise that resolves after the specified time, or rejects as soon as the signal aborts
    *
    * @param ms - Delay time in milliseconds
+   * @param signal - Optional signal that cancels the wait
    * @returns Promise that resolves after the delay
    */
-  private delay(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  private delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new TapsilatCancellationError(undefined, signal.reason));
+        return;
+      }
+
+      const onAbort = (): void => {
+        clearTimeout(timeoutId);
+        reject(new TapsilatCancellationError(undefined, signal?.reason));
+      };
+      const timeoutId = setTimeout(() => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
   }
 
   // Interceptor management methods
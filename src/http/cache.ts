@@ -0,0 +1,327 @@
+/**
+ * @category HTTP
+ * @module Cache
+ */
+import {
+  APIResponse,
+  CacheEntry,
+  CacheOptions,
+  CacheStore,
+} from "../types/index";
+import { TapsilatCancellationError } from "../errors/TapsilatError";
+
+/**
+ * @category HTTP
+ * @summary Time to live of cached GET responses per route, in milliseconds
+ * @description System lookups rarely change; order details and status are cached briefly so that
+ * bursts of concurrent reads share one response
+ */
+export const DEFAULT_CACHE_TTLS: Readonly<Record<string, number>> = {
+  "/system/*": 5 * 60 * 1000,
+  "/order/{reference_id}": 5000,
+  "/order/{reference_id}/status": 2000,
+};
+
+/**
+ * @category HTTP
+ * @summary Default number of entries kept by the in-memory store
+ */
+export const DEFAULT_CACHE_MAX_ENTRIES = 1000;
+
+// MEMORY CACHE STORE
+// Summary: In-memory least-recently-used store with per-entry expiry
+// Description: Default store of the response cache
+/**
+ * @category HTTP
+ * @summary In-memory LRU cache store
+ * @description Evicts the least recently used entry once `maxEntries` is reached, and drops
+ * entries whose time to live has passed when they are read
+ * @class MemoryCacheStore
+ */
+export class MemoryCacheStore implements CacheStore {
+  private readonly entries = new Map<
+    string,
+    { entry: CacheEntry; expiresAt: number }
+  >();
+
+  /**
+   * @summary Creates an empty store
+   *
+   * @param maxEntries - Maximum number of entries kept
+   */
+  constructor(
+    private readonly maxEntries: number = DEFAULT_CACHE_MAX_ENTRIES
+  ) {}
+
+  /**
+   * @summary Number of entries currently stored, including expired ones not read since
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * @summary Returns an entry that has not expired, marking it as recently used
+   *
+   * @param key - Cache key
+   * @returns Stored entry, or undefined when missing or expired
+   */
+  get(key: string): CacheEntry | undefined {
+    const stored = this.entries.get(key);
+    if (!stored) {
+      return undefined;
+    }
+    this.entries.delete(key);
+    if (Date.now() >= stored.expiresAt) {
+      return undefined;
+    }
+    // Re-inserting moves the entry to the most recently used position
+    this.entries.set(key, stored);
+    return stored.entry;
+  }
+
+  /**
+   * @summary Stores an entry, evicting the least recently used one when full
+   *
+   * @param key - Cache key
+   * @param entry - Entry to store
+   * @param ttlMs - Time to live in milliseconds
+   */
+  set(key: string, entry: CacheEntry, ttlMs: number): void {
+    this.entries.delete(key);
+    this.entries.set(key, { entry, expiresAt: Date.now() + ttlMs });
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  /**
+   * @summary Removes an entry
+   *
+   * @param key - Cache key
+   */
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+}
+
+interface Flight {
+  promise: Promise<APIResponse<unknown>>;
+  tags: string[];
+}
+
+// RESPONSE CACHE
+// Summary: Coalesces identical GET requests and caches their responses per route
+// Description: Entries are tagged with the order they belong to and dropped when the SDK mutates it
+/**
+ * @category HTTP
+ * @summary Single-flight deduplication and caching of GET responses
+ * @description Identical GET requests in flight share one request. Successful responses of routes
+ * with a time to live are stored. Each caller receives its own copy of the response.
+ * @class ResponseCache
+ */
+export class ResponseCache {
+  private readonly store: CacheStore;
+  private readonly ttls: Record<string, number>;
+  private readonly defaultTtlMs: number;
+  private readonly maxTags: number;
+  private readonly sharedStore: boolean;
+  private readonly inFlight = new Map<string, Flight>();
+  private readonly keysByTag = new Map<string, Set<string>>();
+  private generation = 0;
+
+  /**
+   * @summary Creates a response cache
+   *
+   * @param options - Store, per-route TTLs and the default TTL
+   */
+  constructor(options: CacheOptions = {}) {
+    this.store =
+      options.store ??
+      new MemoryCacheStore(options.maxEntries ?? DEFAULT_CACHE_MAX_ENTRIES);
+    this.ttls = { ...DEFAULT_CACHE_TTLS, ...options.ttls };
+    this.defaultTtlMs = options.defaultTtlMs ?? 0;
+    this.maxTags = options.maxEntries ?? DEFAULT_CACHE_MAX_ENTRIES;
+    this.sharedStore = options.store !== undefined;
+  }
+
+  // Invalidation markers must outlive every entry they may apply to
+  private get maxTtlMs(): number {
+    return Math.max(this.defaultTtlMs, ...Object.values(this.ttls));
+  }
+
+  /**
+   * @summary Returns the time to live of a route
+   * @description Exact route templates win over prefixes ending in `*`; the longest prefix wins
+   *
+   * @param route - Route template or request path
+   * @returns Time to live in milliseconds; 0 when responses are not cached
+   */
+  ttlFor(route: string): number {
+    if (route in this.ttls) {
+      return this.ttls[route];
+    }
+    let match: { length: number; ttl: number } | undefined;
+    for (const [pattern, ttl] of Object.entries(this.ttls)) {
+      if (!pattern.endsWith("*")) {
+        continue;
+      }
+      const prefix = pattern.slice(0, -1);
+      if (
+        route.startsWith(prefix) &&
+        (!match || prefix.length > match.length)
+      ) {
+        match = { length: prefix.length, ttl };
+      }
+    }
+    return match?.ttl ?? this.defaultTtlMs;
+  }
+
+  /**
+   * @summary Serves a GET request from the cache, from an identical request in flight, or by sending it
+   *
+   * @param key - Cache key of the request
+   * @param route - Route template used to pick the time to live
+   * @param tags - Tags the stored entry is invalidated by
+   * @param send - Sends the request; called without the caller's signal, since its result is shared
+   * @param signal - Optional signal that stops this caller from waiting
+   * @returns Copy of the API response
+   */
+  async fetch<T>(
+    key: string,
+    route: string,
+    tags: string[],
+    send: () => Promise<APIResponse<T>>,
+    signal?: AbortSignal
+  ): Promise<APIResponse<T>> {
+    const ttlMs = this.ttlFor(route);
+    if (ttlMs > 0) {
+      const entry = await this.store.get(key);
+      if (entry && !(await this.isInvalidated(entry))) {
+        return copyResponse(entry.response) as APIResponse<T>;
+      }
+    }
+
+    let flight = this.inFlight.get(key);
+    if (!flight) {
+      const generation = this.generation;
+      const promise = send()
+        .then(async (response) => {
+          // Responses that raced with an invalidation are not stored
+          if (
+            ttlMs > 0 &&
+            response.success &&
+            generation === this.generation
+          ) {
+            await this.store.set(
+              key,
+              { response, storedAt: Date.now(), tags },
+              ttlMs
+            );
+            this.indexTags(key, tags);
+          }
+          return response as APIResponse<unknown>;
+        })
+        .finally(() => {
+          if (this.inFlight.get(key) === flight) {
+            this.inFlight.delete(key);
+          }
+        });
+      flight = { promise, tags };
+      this.inFlight.set(key, flight);
+    }
+
+    const response = await waitUnlessAborted(flight.promise, signal);
+    return copyResponse(response) as APIResponse<T>;
+  }
+
+  /**
+   * @summary Drops the stored entries and in-flight requests carrying a tag
+   * @description Entries stored by this instance are deleted. With a custom store, which other
+   * processes may share, a marker is stored as well, and entries of the tag stored before it are
+   * no longer served.
+   *
+   * @param tag - Tag to invalidate, such as `order:<reference_id>`
+   */
+  async invalidate(tag: string): Promise<void> {
+    this.generation++;
+    for (const [key, flight] of this.inFlight) {
+      if (flight.tags.includes(tag)) {
+        this.inFlight.delete(key);
+      }
+    }
+    const keys = this.keysByTag.get(tag);
+    this.keysByTag.delete(tag);
+    for (const key of keys ?? []) {
+      await this.store.delete(key);
+    }
+    if (this.sharedStore) {
+      await this.store.set(
+        tagKey(tag),
+        { response: { success: true }, storedAt: Date.now(), tags: [] },
+        this.maxTtlMs
+      );
+    }
+  }
+
+  // An entry is stale when one of its tags was invalidated, by any process
+  // sharing the store, at or after the time it was stored
+  private async isInvalidated(entry: CacheEntry): Promise<boolean> {
+    if (!this.sharedStore) {
+      return false;
+    }
+    for (const tag of entry.tags) {
+      const marker = await this.store.get(tagKey(tag));
+      if (marker && marker.storedAt >= entry.storedAt) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  // The tag index is bounded like the default store; the oldest tags are
+  // forgotten first, by which time their entries have usually expired
+  private indexTags(key: string, tags: string[]): void {
+    for (const tag of tags) {
+      const keys = this.keysByTag.get(tag) ?? new Set<string>();
+      keys.add(key);
+      this.keysByTag.delete(tag);
+      this.keysByTag.set(tag, keys);
+    }
+    while (this.keysByTag.size > this.maxTags) {
+      this.keysByTag.delete(this.keysByTag.keys().next().value as string);
+    }
+  }
+}
+
+const tagKey = (tag: string): string => `tag:${tag}`;
+
+// Errors are shared rather than cloned: structuredClone would turn the
+// TapsilatError subclasses into plain errors without their code and status
+const copyResponse = <T>(response: APIResponse<T>): APIResponse<T> => {
+  const { error, ...rest } = response;
+  const copy = structuredClone(rest) as APIResponse<T>;
+  return error ? { ...copy, error } : copy;
+};
+
+const waitUnlessAborted = <T>(
+  promise: Promise<T>,
+  signal?: AbortSignal
+): Promise<T> => {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    return Promise.reject(
+      new TapsilatCancellationError(undefined, signal.reason)
+    );
+  }
+  return new Promise((resolve, reject) => {
+    const onAbort = (): void =>
+      reject(new TapsilatCancellationError(undefined, signal.reason));
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener("abort", onAbort);
+    });
+  });
+};
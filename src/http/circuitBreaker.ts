@@ -0,0 +1,226 @@
+/**
+ * @category HTTP
+ * @module CircuitBreaker
+ */
+import {
+  CircuitBreakerOptions,
+  CircuitState,
+  CircuitStateChange,
+} from "../types/index";
+import { TapsilatCircuitOpenError } from "../errors/TapsilatError";
+
+/**
+ * @category HTTP
+ * @summary Circuit breaker settings used when no option is given
+ */
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: Readonly<
+  Required<Omit<CircuitBreakerOptions, "onStateChange">>
+> = {
+  scope: "host",
+  failureThreshold: 5,
+  cooldownMs: 30000,
+  halfOpenMaxCalls: 1,
+  failureStatusCodes: [500, 502, 503, 504],
+};
+
+interface Circuit {
+  state: CircuitState;
+  failures: number;
+  openedAt: number;
+  trialsInFlight: number;
+}
+
+// CIRCUIT BREAKER
+// Summary: Tracks consecutive failures per circuit and rejects calls while a circuit is open
+// Description: Closed -> open after the failure threshold, open -> half-open after the cool-down,
+// half-open -> closed on a successful trial or back to open on a failed one
+/**
+ * @category HTTP
+ * @summary Fails calls fast while a host or endpoint group keeps failing
+ * @description Each attempt asks for permission with `acquire` and reports its outcome with
+ * `recordSuccess`, `recordFailure` or `release`. State changes are passed to `onStateChange`
+ * and to every subscriber.
+ * @class CircuitBreaker
+ */
+export class CircuitBreaker {
+  private readonly options: Required<
+    Omit<CircuitBreakerOptions, "onStateChange">
+  >;
+  private readonly circuits = new Map<string, Circuit>();
+  private readonly listeners = new Set<(change: CircuitStateChange) => void>();
+
+  /**
+   * @summary Creates a circuit breaker with every circuit closed
+   *
+   * @param options - Scope, thresholds, cool-down and state change callback
+   */
+  constructor(options: CircuitBreakerOptions = {}) {
+    const { onStateChange, ...settings } = options;
+    this.options = { ...DEFAULT_CIRCUIT_BREAKER_OPTIONS, ...settings };
+    if (onStateChange) {
+      this.listeners.add(onStateChange);
+    }
+  }
+
+  /**
+   * @summary Returns the circuit a request belongs to
+   *
+   * @param url - Full request URL
+   * @param method - HTTP method of the request
+   * @param route - Route template of the request's endpoint
+   * @returns Host, or method and route template, depending on the scope
+   */
+  circuitFor(url: string, method: string, route: string): string {
+    if (this.options.scope === "endpoint") {
+      return `${method} ${route}`;
+    }
+    try {
+      return new URL(url).host;
+    } catch {
+      return url;
+    }
+  }
+
+  /**
+   * @summary Lets an attempt through, or rejects it while the circuit is open
+   *
+   * @param circuit - Circuit of the attempt
+   * @throws {TapsilatCircuitOpenError} When the circuit is open, or half-open with every trial slot taken
+   */
+  acquire(circuit: string): void {
+    const state = this.getCircuit(circuit);
+    if (state.state === "open") {
+      const retryAfterMs = state.openedAt + this.options.cooldownMs - Date.now();
+      if (retryAfterMs > 0) {
+        throw new TapsilatCircuitOpenError(circuit, retryAfterMs);
+      }
+      this.transition(circuit, state, "half-open");
+    }
+    if (state.state === "half-open") {
+      if (state.trialsInFlight >= this.options.halfOpenMaxCalls) {
+        throw new TapsilatCircuitOpenError(circuit, 0);
+      }
+      state.trialsInFlight++;
+    }
+  }
+
+  /**
+   * @summary Records a successful attempt, closing a half-open circuit
+   *
+   * @param circuit - Circuit of the attempt
+   */
+  recordSuccess(circuit: string): void {
+    const state = this.getCircuit(circuit);
+    this.release(circuit);
+    state.failures = 0;
+    if (state.state !== "closed") {
+      this.transition(circuit, state, "closed");
+    }
+  }
+
+  /**
+   * @summary Records a failed attempt, opening the circuit at the threshold or after a failed trial
+   *
+   * @param circuit - Circuit of the attempt
+   */
+  recordFailure(circuit: string): void {
+    const state = this.getCircuit(circuit);
+    this.release(circuit);
+    state.failures++;
+    if (
+      state.state === "half-open" ||
+      (state.state === "closed" &&
+        state.failures >= this.options.failureThreshold)
+    ) {
+      state.openedAt = Date.now();
+      this.transition(circuit, state, "open");
+    }
+  }
+
+  /**
+   * @summary Frees the trial slot of an attempt that ended without an outcome, such as a cancelled one
+   *
+   * @param circuit - Circuit of the attempt
+   */
+  release(circuit: string): void {
+    const state = this.getCircuit(circuit);
+    state.trialsInFlight = Math.max(state.trialsInFlight - 1, 0);
+  }
+
+  /**
+   * @summary Tells whether a response status counts as a failure
+   *
+   * @param status - HTTP status of the response
+   * @returns True when the status is one of the failure status codes
+   */
+  isFailureStatus(status?: number): boolean {
+    return (
+      status !== undefined && this.options.failureStatusCodes.includes(status)
+    );
+  }
+
+  /**
+   * @summary Returns the current state of a circuit
+   * @description An open circuit whose cool-down has passed is reported as half-open
+   *
+   * @param circuit - Host, or method and route template
+   * @returns State of the circuit; unknown circuits are closed
+   */
+  getState(circuit: string): CircuitState {
+    const state = this.circuits.get(circuit);
+    if (!state) {
+      return "closed";
+    }
+    if (
+      state.state === "open" &&
+      Date.now() >= state.openedAt + this.options.cooldownMs
+    ) {
+      return "half-open";
+    }
+    return state.state;
+  }
+
+  /**
+   * @summary Calls a listener with every state change from now on
+   *
+   * @param listener - Receives each state change
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: (change: CircuitStateChange) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private getCircuit(circuit: string): Circuit {
+    let state = this.circuits.get(circuit);
+    if (!state) {
+      state = { state: "closed", failures: 0, openedAt: 0, trialsInFlight: 0 };
+      this.circuits.set(circuit, state);
+    }
+    return state;
+  }
+
+  private transition(circuit: string, state: Circuit, to: CircuitState): void {
+    const change: CircuitStateChange = {
+      circuit,
+      from: state.state,
+      to,
+      failures: state.failures,
+      at: Date.now(),
+    };
+    state.state = to;
+    if (to !== "half-open") {
+      state.trialsInFlight = 0;
+    }
+    for (const listener of this.listeners) {
+      // A failing listener must not fail the request that changed the state
+      try {
+        listener(change);
+      } catch {
+        // ignored
+      }
+    }
+  }
+}
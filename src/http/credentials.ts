@@ -0,0 +1,136 @@
+/**
+ * @category HTTP
+ * @module Credentials
+ */
+import {
+  CredentialsOptions,
+  CredentialsProvider,
+  Logger,
+} from "../types/index";
+import {
+  TapsilatAuthenticationError,
+  TapsilatError,
+} from "../errors/TapsilatError";
+import { validateBearerToken } from "../utils/validators";
+import { silentLogger } from "../utils/logger";
+
+/**
+ * @category HTTP
+ * @summary Default time before expiry at which a cached token is refreshed, in milliseconds
+ */
+export const DEFAULT_REFRESH_MARGIN_MS = 60000;
+
+// CREDENTIALS MANAGER
+// Summary: Caches the provider's bearer token and refreshes it
+// Description: Refreshes ahead of expiry in the background, and on demand after a 401
+/**
+ * @category HTTP
+ * @summary Supplies bearer tokens from a credentials provider
+ * @description Tokens are cached; those without an expiry until a 401 leads to `refresh`. Within
+ * the refresh margin the cached token is still used while a new one is fetched in the background;
+ * once expired, requests wait for the new token. Concurrent fetches share one provider call.
+ * @class CredentialsManager
+ */
+export class CredentialsManager {
+  private readonly provider: CredentialsProvider;
+  private readonly refreshMarginMs: number;
+  private current?: { token: string; expiresAt: number };
+  private pending?: Promise<string>;
+
+  /**
+   * @summary Creates a credentials manager
+   *
+   * @param credentials - Provider, or provider with refresh settings
+   * @param logger - Logger for background refresh failures
+   */
+  constructor(
+    credentials: CredentialsProvider | CredentialsOptions,
+    private readonly logger: Logger = silentLogger
+  ) {
+    const options =
+      typeof credentials === "function"
+        ? { provider: credentials }
+        : credentials;
+    this.provider = options.provider;
+    this.refreshMarginMs = options.refreshMarginMs ?? DEFAULT_REFRESH_MARGIN_MS;
+  }
+
+  /**
+   * @summary Returns the token to send with a request
+   *
+   * @returns Cached token, or a token fetched from the provider
+   * @throws {TapsilatAuthenticationError} When the provider fails
+   * @throws {TapsilatValidationError} When the provider returns a malformed token
+   */
+  async getToken(): Promise<string> {
+    const current = this.current;
+    if (current) {
+      const now = Date.now();
+      if (now < current.expiresAt - this.refreshMarginMs) {
+        return current.token;
+      }
+      if (now < current.expiresAt) {
+        // Refresh ahead of expiry without holding up this request
+        this.fetch().catch((error) =>
+          this.logger.warn("Credentials refresh failed", { error })
+        );
+        return current.token;
+      }
+    }
+    return this.fetch();
+  }
+
+  /**
+   * @summary Fetches a new token after the API rejected one
+   * @description When another request already replaced the rejected token, the replacement is
+   * returned without calling the provider again
+   *
+   * @param rejectedToken - Token the API answered with 401
+   * @returns New token, which equals the rejected one when the provider has nothing newer
+   */
+  async refresh(rejectedToken: string): Promise<string> {
+    if (this.current && this.current.token !== rejectedToken) {
+      return this.current.token;
+    }
+    this.current = undefined;
+    return this.fetch();
+  }
+
+  private fetch(): Promise<string> {
+    if (!this.pending) {
+      this.pending = this.callProvider().finally(() => {
+        this.pending = undefined;
+      });
+    }
+    return this.pending;
+  }
+
+  private async callProvider(): Promise<string> {
+    let result: Awaited<ReturnType<CredentialsProvider>>;
+    try {
+      result = await this.provider();
+    } catch (error) {
+      if (error instanceof TapsilatError) {
+        throw error;
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      throw new TapsilatAuthenticationError(
+        `Failed to obtain credentials: ${message}`
+      );
+    }
+
+    const credentials =
+      typeof result === "string" ? { token: result } : result;
+    validateBearerToken(credentials?.token);
+    const expiresAt =
+      credentials.expiresAt instanceof Date
+        ? credentials.expiresAt.getTime()
+        : credentials.expiresAt;
+    // Tokens without an expiry are kept until the API rejects them
+    this.current = {
+      token: credentials.token,
+      expiresAt: expiresAt ?? Number.POSITIVE_INFINITY,
+    };
+    return credentials.token;
+  }
+}
@@ -2,7 +2,13 @@
  * @category HTTP
  * @module Interceptors
  */
-import { APIResponse } from "../types/index";
+import { APIResponse, Logger, RedactionOptions } from "../types/index";
+import {
+  createConsoleLogger,
+  createRedactingLogger,
+  toLoggableBody,
+} from "../utils/logger";
+import { createRedactor } from "../utils/redact";
 
 /**
  * @category Interceptors
@@ -218,94 +224,135 @@ export class InterceptorManager {
   }
 }
 
+/**
+ * @category Built-in Interceptors
+ * @summary Options for the logging interceptors
+ * @description Logger that receives the entries and the redaction applied to them
+ * @interface LoggingInterceptorOptions
+ */
+export interface LoggingInterceptorOptions {
+  logger?: Logger;
+  redaction?: RedactionOptions;
+}
+
 /**
  * @category Built-in Interceptors
  * @summary Creates a set of interceptors for logging API requests, responses, and errors
- * @description Provides detailed logging of HTTP activity when debug mode is enabled
+ * @description Logs HTTP activity through a structured logger. Tokens, PII and card data in
+ * headers, bodies and URLs are redacted before they are logged.
  *
- * @param debug - When true, enables console logging of API activities
+ * @param options - `true` to log to the console, or a logger and redaction options
  * @returns Object containing request, response, and error interceptors for logging
  */
 export const createLoggingInterceptor = (
-  debug: boolean = false
+  options: boolean | LoggingInterceptorOptions = false
 ): {
   request: RequestInterceptor;
   response: ResponseInterceptor;
   error: ErrorInterceptor;
-} => ({
-  request: (url, options): { url: string; options: RequestInit } => {
-    if (debug) {
-      console.log(`🔄 API Request: ${options.method} ${url}`);
-      console.log("Headers:", options.headers);
-      if (options.body) {
-        console.log("Body:", options.body);
-      }
-    }
-    return { url, options };
-  },
+} => {
+  const { logger: baseLogger, redaction } =
+    typeof options === "boolean"
+      ? { logger: options ? createConsoleLogger() : undefined, redaction: undefined }
+      : options;
+  const logger = baseLogger
+    ? createRedactingLogger(baseLogger, createRedactor(redaction))
+    : undefined;
 
-  response: (response, request): APIResponse<unknown> => {
-    if (debug) {
-      console.log(`✅ API Response: ${request.options.method} ${request.url}`);
-      console.log("Success:", response.success);
-      if (response.error) {
-        console.log("Error:", response.error);
-      }
-    }
-    return response;
-  },
+  return {
+    request: (url, requestOptions): { url: string; options: RequestInit } => {
+      logger?.debug("API request", {
+        method: requestOptions.method,
+        url,
+        headers: requestOptions.headers,
+        body: toLoggableBody(requestOptions.body),
+      });
+      return { url, options: requestOptions };
+    },
 
-  error: (error, request): never => {
-    if (debug) {
-      console.error(`❌ API Error: ${request.options.method} ${request.url}`);
-      console.error("Error:", error.message);
-    }
-    throw error;
-  },
-});
+    response: (response, request): APIResponse<unknown> => {
+      logger?.debug("API response", {
+        method: request.options.method,
+        url: request.url,
+        success: response.success,
+        status: response.status,
+        requestId: response.requestId,
+        error: response.error,
+      });
+      return response;
+    },
+
+    error: (error, request): never => {
+      logger?.error("API error", {
+        method: request.options.method,
+        url: request.url,
+        error,
+      });
+      throw error;
+    },
+  };
+};
+
+/**
+ * @category Interceptors
+ * @summary Timing of one API call measured by the timing interceptor
+ * @interface RequestTiming
+ */
+export interface RequestTiming {
+  method?: string;
+  url: string;
+  requestId: string;
+  durationMs: number;
+}
 
 /**
  * @category Built-in Interceptors
  * @summary Creates interceptors for measuring API request/response times
- * @description Tracks the duration of API calls and logs performance metrics
+ * @description Tags each request with an `X-Request-ID` header and reports how long the call took.
+ * Works with request headers given as a plain object, an array of pairs or a `Headers` instance.
+ *
+ * @deprecated Use the SDK's `metrics` collector, which records latency histograms, error, retry
+ * and rate-limit counts per endpoint
  *
+ * @param onTiming - Receives each timing, for example to pass it to your logger
  * @returns Object containing request and response interceptors for timing measurement
  */
-export const createTimingInterceptor = (): {
+export const createTimingInterceptor = (
+  onTiming: (timing: RequestTiming) => void
+): {
   request: RequestInterceptor;
   response: ResponseInterceptor;
 } => {
   const timings = new Map<string, number>();
+  let sequence = 0;
 
   return {
     request: (url, options): { url: string; options: RequestInit } => {
-      const requestId = `${options.method}-${url}-${Date.now()}`;
+      const requestId = `${options.method}-${Date.now()}-${++sequence}`;
+      const headers = new Headers(options.headers);
+      headers.set(TIMING_REQUEST_ID_HEADER, requestId);
       timings.set(requestId, Date.now());
 
-      return {
-        url,
-        options: {
-          ...options,
-          headers: {
-            ...options.headers,
-            "X-Request-ID": requestId,
-          },
-        },
-      };
+      return { url, options: { ...options, headers } };
     },
 
     response: (response, request): APIResponse<unknown> => {
-      const headers = request.options.headers as Record<string, unknown>;
-      const requestId = headers?.["X-Request-ID"] as string;
-      if (requestId && timings.has(requestId)) {
-        const startTime = timings.get(requestId)!;
-        const duration = Date.now() - startTime;
-        console.log(
-          `⏱️ API call took ${duration}ms: ${request.options.method} ${request.url}`
-        );
+      const requestId = new Headers(request.options.headers).get(
+        TIMING_REQUEST_ID_HEADER
+      );
+      const startTime = requestId ? timings.get(requestId) : undefined;
+      if (requestId && startTime !== undefined) {
         timings.delete(requestId);
+        onTiming({
+          method: request.options.method,
+          url: request.url,
+          requestId,
+          durationMs: Date.now() - startTime,
+        });
       }
       return response;
     },
   };
 };
+
+const TIMING_REQUEST_ID_HEADER = "X-Request-ID";
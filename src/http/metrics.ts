@@ -0,0 +1,286 @@
+/**
+ * @category HTTP
+ * @module Metrics
+ */
+import {
+  EndpointMetrics,
+  MetricsRecorder,
+  MetricsSnapshot,
+  RequestMetric,
+} from "../types/index";
+
+/**
+ * @category HTTP
+ * @summary Upper bounds of the default latency histogram buckets, in milliseconds
+ */
+export const DEFAULT_LATENCY_BUCKETS: readonly number[] = [
+  5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000,
+];
+
+/**
+ * @category HTTP
+ * @summary Options of the metrics collector
+ * @description `buckets` sets the upper bounds of the latency histogram, in milliseconds
+ * @interface MetricsCollectorOptions
+ */
+export interface MetricsCollectorOptions {
+  buckets?: number[];
+}
+
+interface EndpointState {
+  route: string;
+  method: string;
+  requests: number;
+  errors: Map<string, number>;
+  retries: number;
+  rateLimitHits: number;
+  bucketCounts: number[];
+  count: number;
+  sum: number;
+  min: number;
+  max: number;
+}
+
+// METRICS COLLECTOR
+// Summary: In-memory metrics of every request, keyed by endpoint template
+// Description: Read with snapshot(), follow with subscribe(), or scrape with toPrometheus()
+/**
+ * @category HTTP
+ * @summary Collects latency, request, error, retry and rate-limit metrics per endpoint
+ * @description Every SDK client records one metric per request, after its retries. Metrics are
+ * keyed by HTTP method and endpoint template, so reference IDs in URLs do not create new series.
+ *
+ * @example
+ * ```typescript
+ * const metrics = new MetricsCollector();
+ * const sdk = new TapsilatSDK({ bearerToken, metrics });
+ *
+ * metrics.subscribe((metric) => statsd.timing(metric.route, metric.durationMs));
+ * app.get("/metrics", (_req, res) => res.type("text/plain").send(metrics.toPrometheus()));
+ * ```
+ * @class MetricsCollector
+ */
+export class MetricsCollector implements MetricsRecorder {
+  private readonly buckets: number[];
+  private readonly endpoints = new Map<string, EndpointState>();
+  private readonly listeners = new Set<(metric: RequestMetric) => void>();
+  private startedAt = Date.now();
+
+  /**
+   * @summary Creates an empty metrics collector
+   *
+   * @param options - Latency histogram buckets
+   */
+  constructor(options: MetricsCollectorOptions = {}) {
+    this.buckets = [...(options.buckets ?? DEFAULT_LATENCY_BUCKETS)].sort(
+      (a, b) => a - b
+    );
+  }
+
+  /**
+   * @summary Records the outcome of one request and notifies the subscribers
+   *
+   * @param metric - Request outcome
+   */
+  record(metric: RequestMetric): void {
+    const key = `${metric.method} ${metric.route}`;
+    let state = this.endpoints.get(key);
+    if (!state) {
+      state = {
+        route: metric.route,
+        method: metric.method,
+        requests: 0,
+        errors: new Map(),
+        retries: 0,
+        rateLimitHits: 0,
+        bucketCounts: this.buckets.map(() => 0),
+        count: 0,
+        sum: 0,
+        min: Infinity,
+        max: 0,
+      };
+      this.endpoints.set(key, state);
+    }
+
+    state.requests++;
+    state.retries += Math.max(metric.attempts - 1, 0);
+    state.rateLimitHits += metric.rateLimitHits;
+    if (metric.errorCode) {
+      state.errors.set(
+        metric.errorCode,
+        (state.errors.get(metric.errorCode) ?? 0) + 1
+      );
+    }
+    this.buckets.forEach((le, index) => {
+      if (metric.durationMs <= le) {
+        state!.bucketCounts[index]++;
+      }
+    });
+    state.count++;
+    state.sum += metric.durationMs;
+    state.min = Math.min(state.min, metric.durationMs);
+    state.max = Math.max(state.max, metric.durationMs);
+
+    for (const listener of this.listeners) {
+      // A failing listener must not fail the request that was measured
+      try {
+        listener(metric);
+      } catch {
+        // ignored
+      }
+    }
+  }
+
+  /**
+   * @summary Returns a copy of the metrics of every endpoint
+   *
+   * @returns Metrics collected since creation or the last reset
+   */
+  snapshot(): MetricsSnapshot {
+    return {
+      startedAt: this.startedAt,
+      endpoints: [...this.endpoints.values()].map(
+        (state): EndpointMetrics => ({
+          route: state.route,
+          method: state.method,
+          requests: state.requests,
+          errors: Object.fromEntries(state.errors),
+          retries: state.retries,
+          rateLimitHits: state.rateLimitHits,
+          latency: {
+            buckets: this.buckets.map((le, index) => ({
+              le,
+              count: state.bucketCounts[index],
+            })),
+            count: state.count,
+            sum: state.sum,
+            min: state.count > 0 ? state.min : 0,
+            max: state.max,
+          },
+        })
+      ),
+    };
+  }
+
+  /**
+   * @summary Calls a listener with every metric recorded from now on
+   *
+   * @param listener - Receives each request outcome
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: (metric: RequestMetric) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * @summary Formats the metrics in the Prometheus text exposition format
+   * @description Exposes `tapsilat_requests_total`, `tapsilat_request_duration_ms`,
+   * `tapsilat_request_errors_total`, `tapsilat_request_retries_total` and
+   * `tapsilat_rate_limit_hits_total`, labelled by `method` and `route`
+   *
+   * @returns Text ready to be served on a metrics endpoint
+   */
+  toPrometheus(): string {
+    const { endpoints } = this.snapshot();
+    const lines: string[] = [];
+    const family = (name: string, type: string, help: string): void => {
+      lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+    };
+
+    family(
+      "tapsilat_requests_total",
+      "counter",
+      "Requests made through the Tapsilat SDK"
+    );
+    for (const endpoint of endpoints) {
+      lines.push(
+        `tapsilat_requests_total${formatLabels(endpoint)} ${endpoint.requests}`
+      );
+    }
+
+    family(
+      "tapsilat_request_duration_ms",
+      "histogram",
+      "Request duration in milliseconds, including retries"
+    );
+    for (const endpoint of endpoints) {
+      const { latency } = endpoint;
+      for (const bucket of latency.buckets) {
+        lines.push(
+          `tapsilat_request_duration_ms_bucket${formatLabels(endpoint, {
+            le: String(bucket.le),
+          })} ${bucket.count}`
+        );
+      }
+      lines.push(
+        `tapsilat_request_duration_ms_bucket${formatLabels(endpoint, {
+          le: "+Inf",
+        })} ${latency.count}`,
+        `tapsilat_request_duration_ms_sum${formatLabels(endpoint)} ${latency.sum}`,
+        `tapsilat_request_duration_ms_count${formatLabels(endpoint)} ${latency.count}`
+      );
+    }
+
+    family(
+      "tapsilat_request_errors_total",
+      "counter",
+      "Failed requests by Tapsilat error code"
+    );
+    for (const endpoint of endpoints) {
+      for (const [code, count] of Object.entries(endpoint.errors)) {
+        lines.push(
+          `tapsilat_request_errors_total${formatLabels(endpoint, { code })} ${count}`
+        );
+      }
+    }
+
+    family(
+      "tapsilat_request_retries_total",
+      "counter",
+      "Retry attempts made after the first attempt"
+    );
+    for (const endpoint of endpoints) {
+      lines.push(
+        `tapsilat_request_retries_total${formatLabels(endpoint)} ${endpoint.retries}`
+      );
+    }
+
+    family(
+      "tapsilat_rate_limit_hits_total",
+      "counter",
+      "Responses with status 429"
+    );
+    for (const endpoint of endpoints) {
+      lines.push(
+        `tapsilat_rate_limit_hits_total${formatLabels(endpoint)} ${endpoint.rateLimitHits}`
+      );
+    }
+
+    return `${lines.join("\n")}\n`;
+  }
+
+  /**
+   * @summary Clears every collected metric; subscribers stay registered
+   */
+  reset(): void {
+    this.endpoints.clear();
+    this.startedAt = Date.now();
+  }
+}
+
+const formatLabels = (
+  endpoint: { method: string; route: string },
+  extra: Record<string, string> = {}
+): string => {
+  const labels = { method: endpoint.method, route: endpoint.route, ...extra };
+  const formatted = Object.entries(labels).map(
+    ([name, value]) => `${name}="${escapeLabelValue(value)}"`
+  );
+  return `{${formatted.join(",")}}`;
+};
+
+const escapeLabelValue = (value: string): string =>
+  value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
@@ -0,0 +1,149 @@
+/**
+ * @category HTTP
+ * @module Operations
+ */
+import type { HttpMethod } from "./HttpClient";
+import { Span } from "../types/index";
+
+/**
+ * @category HTTP
+ * @summary Describes an SDK operation for tracing and metrics
+ * @description Dotted operation name, HTTP method and route template of the request the operation sends, and whether its first argument is an order reference ID
+ * @interface OperationInfo
+ */
+export interface OperationInfo {
+  name: string;
+  method: HttpMethod;
+  route: string;
+  byReferenceId?: boolean;
+}
+
+/**
+ * @category HTTP
+ * @summary SDK operation that a request is made for
+ * @description Operation description, the order reference ID it was called with, and the operation span when tracing is enabled
+ * @interface OperationContext
+ */
+export interface OperationContext {
+  info: OperationInfo;
+  referenceId?: string;
+  span?: Span;
+}
+
+/**
+ * @category HTTP
+ * @summary Operation descriptions keyed by SDK method name
+ * @description Names follow the namespaced accessors, so `refundOrder` is `orders.refund`; route
+ * templates use `{param}` placeholders for path parameters
+ */
+export const OPERATIONS: Readonly<Record<string, OperationInfo>> = {
+  createOrder: { name: "orders.create", method: "POST", route: "/order/create" },
+  orderAccounting: { name: "orders.accounting", method: "POST", route: "/order/accounting" },
+  orderPostAuth: { name: "orders.postAuth", method: "POST", route: "/order/postauth" },
+  getSystemOrderStatuses: { name: "system.orderStatuses", method: "GET", route: "/system/order-statuses" },
+  getSystemBasketItemTypes: { name: "system.basketItemTypes", method: "GET", route: "/system/basket-item-types" },
+  getSystemErrorCodes: { name: "system.errorCodes", method: "GET", route: "/system/error-codes" },
+  getSystemPaymentTermStatuses: { name: "system.paymentTermStatuses", method: "GET", route: "/system/payment-term-statuses" },
+  getSystemProductTypes: { name: "system.productTypes", method: "GET", route: "/system/product-types" },
+  getSystemShortcutTypes: { name: "system.shortcutTypes", method: "GET", route: "/system/shortcut-types" },
+  getSystemTransactionPaymentTypes: { name: "system.transactionPaymentTypes", method: "GET", route: "/system/transaction-payment-types" },
+  getSystemTransactionPurposes: { name: "system.transactionPurposes", method: "GET", route: "/system/transaction-purposes" },
+  getSystemTransactionStatuses: { name: "system.transactionStatuses", method: "GET", route: "/system/transaction-statuses" },
+  getOrder: { name: "orders.get", method: "GET", route: "/order/{reference_id}", byReferenceId: true },
+  getOrders: { name: "orders.list", method: "GET", route: "/order/list" },
+  cancelOrder: { name: "orders.cancel", method: "POST", route: "/order/cancel", byReferenceId: true },
+  getOrderStatus: { name: "orders.status", method: "GET", route: "/order/{reference_id}/status", byReferenceId: true },
+  refundOrder: { name: "orders.refund", method: "POST", route: "/order/refund" },
+  refundAllOrder: { name: "orders.refundAll", method: "POST", route: "/order/refund-all", byReferenceId: true },
+  getOrderPaymentDetails: { name: "orders.paymentDetails", method: "POST", route: "/order/payment-details" },
+  getOrderPaymentDetailsById: { name: "orders.paymentDetailsById", method: "GET", route: "/order/{reference_id}/payment-details", byReferenceId: true },
+  orderCallback: { name: "orders.callback", method: "GET", route: "/orders/{id}/callback" },
+  updatePaymentOptions: { name: "orders.updatePaymentOptions", method: "PATCH", route: "/order/payment-options" },
+  splitOrderItemPayment: { name: "orders.splitItemPayment", method: "POST", route: "/order/split" },
+  orderVposQuery: { name: "orders.vposQuery", method: "GET", route: "/orders/{id}/vpos-query" },
+  getOrderByConversationId: { name: "orders.byConversationId", method: "GET", route: "/order/conversation/{conversation_id}" },
+  getOrderTransactions: { name: "orders.transactions", method: "GET", route: "/order/{reference_id}/transactions", byReferenceId: true },
+  getOrderSubmerchants: { name: "orders.submerchants", method: "GET", route: "/order/submerchants" },
+  getCheckoutUrl: { name: "orders.checkoutUrl", method: "GET", route: "/order/{reference_id}", byReferenceId: true },
+  healthCheck: { name: "system.health", method: "GET", route: "/health" },
+  createOrderTerm: { name: "orders.createTerm", method: "POST", route: "/order/term" },
+  updateOrderTerm: { name: "orders.updateTerm", method: "PATCH", route: "/order/term" },
+  deleteOrderTerm: { name: "orders.deleteTerm", method: "DELETE", route: "/order/term" },
+  refundOrderTerm: { name: "orders.refundTerm", method: "POST", route: "/order/term/refund" },
+  terminateOrderTerm: { name: "orders.terminateTerm", method: "POST", route: "/order/term/terminate" },
+  terminateOrder: { name: "orders.terminate", method: "POST", route: "/order/terminate" },
+  orderManualCallback: { name: "orders.manualCallback", method: "POST", route: "/order/callback", byReferenceId: true },
+  orderRelatedUpdate: { name: "orders.relatedUpdate", method: "PATCH", route: "/order/releated", byReferenceId: true },
+  getOrganizationSettings: { name: "organization.settings", method: "GET", route: "/organization/settings" },
+  getOrderTerm: { name: "orders.getTerm", method: "GET", route: "/order/term" },
+  addBasketItem: { name: "orders.addBasketItem", method: "POST", route: "/order/basket-item" },
+  removeBasketItem: { name: "orders.removeBasketItem", method: "DELETE", route: "/order/basket-item" },
+  updateBasketItem: { name: "orders.updateBasketItem", method: "PATCH", route: "/order/basket-item" },
+  getOrganizationCallback: { name: "organization.callback", method: "GET", route: "/organization/callback" },
+  updateOrganizationCallback: { name: "organization.updateCallback", method: "PATCH", route: "/organization/callback" },
+  createOrganizationBusiness: { name: "organization.createBusiness", method: "POST", route: "/organization/business/create" },
+  getOrganizationCurrencies: { name: "organization.currencies", method: "GET", route: "/organization/currencies" },
+  getOrganizationCurrencyPresets: { name: "organization.currencyPresets", method: "GET", route: "/organization/currency-presets" },
+  getOrganizationSuborganizationDetails: { name: "organization.suborganizationDetails", method: "GET", route: "/organization/suborganizations/{id}" },
+  getOrganizationSuborganizationSubmerchants: { name: "organization.suborganizationSubmerchants", method: "GET", route: "/organization/suborganizations/{id}/submerchant" },
+  getOrganizationLimitUser: { name: "organization.getLimitUser", method: "GET", route: "/organization/limit/user" },
+  setOrganizationLimitUser: { name: "organization.setLimitUser", method: "POST", route: "/organization/limit/user" },
+  getOrganizationLimits: { name: "organization.limits", method: "GET", route: "/organization/limits" },
+  getOrganizationMeta: { name: "organization.meta", method: "GET", route: "/organization/meta/{name}" },
+  getOrganizationScopes: { name: "organization.scopes", method: "GET", route: "/organization/scopes" },
+  getOrganizationSuborganizations: { name: "organization.suborganizations", method: "GET", route: "/organization/suborganizations" },
+  createOrganizationUser: { name: "organization.createUser", method: "POST", route: "/organization/user/create" },
+  verifyOrganizationUser: { name: "organization.verifyUser", method: "POST", route: "/organization/user/verify" },
+  verifyOrganizationUserMobile: { name: "organization.verifyUserMobile", method: "POST", route: "/organization/user/verify-mobile" },
+  listOrganizationVpos: { name: "organization.listVpos", method: "POST", route: "/organization/list-vpos" },
+  createSubscription: { name: "subscriptions.create", method: "POST", route: "/subscription/create" },
+  getSubscription: { name: "subscriptions.get", method: "POST", route: "/subscription" },
+  listSubscriptions: { name: "subscriptions.list", method: "GET", route: "/subscription/list" },
+  cancelSubscription: { name: "subscriptions.cancel", method: "POST", route: "/subscription/cancel" },
+  redirectSubscription: { name: "subscriptions.redirect", method: "POST", route: "/subscription/redirect" },
+  getOrderPayments: { name: "orders.getPayments", method: "GET", route: "/order/{order_id}/payment" },
+  getOrderPdf: { name: "orders.getPdf", method: "GET", route: "/order/{id}/pdf" },
+  getOrderExcel: { name: "orders.getExcel", method: "GET", route: "/order/{id}/excel" },
+  downloadOrderPdf: { name: "orders.downloadPdf", method: "GET", route: "/order/{id}/pdf" },
+  downloadOrderExcel: { name: "orders.downloadExcel", method: "GET", route: "/order/{id}/excel" },
+  createOrderRefundRequest: { name: "orders.createRefundRequest", method: "POST", route: "/order/{reference_id}/refund/request", byReferenceId: true },
+  addOrderOip: { name: "orders.addOip", method: "POST", route: "/order/{order_id}/oip" },
+  createSubmerchant: { name: "submerchant.create", method: "POST", route: "/submerchants" },
+  getSubmerchant: { name: "submerchant.get", method: "GET", route: "/submerchants/{id}" },
+  getSuborganizationBySubmerchant: { name: "submerchant.getSuborganization", method: "GET", route: "/submerchants/{id}/suborganization" },
+  updateSubmerchant: { name: "submerchant.update", method: "PUT", route: "/submerchants/{id}" },
+  deleteSubmerchant: { name: "submerchant.delete", method: "DELETE", route: "/submerchants/{id}" },
+  listSubmerchants: { name: "submerchant.list", method: "GET", route: "/submerchants" },
+  createOrganizationUserToken: { name: "organization.createUserToken", method: "POST", route: "/organization/user/token" },
+  chargeOrder: { name: "orders.charge", method: "POST", route: "/order/charge" },
+  getAllOrdersPayments: { name: "orders.allPayments", method: "GET", route: "/orders/payments" },
+  createOrganizationCurrency: { name: "organization.createCurrency", method: "POST", route: "/organization/currencies" },
+  getOrganizationPartners: { name: "organization.partners", method: "GET", route: "/organization/partners" },
+  getOrganizationLimitsById: { name: "organization.limitsById", method: "GET", route: "/organization/{id}/limits" },
+  getSystemConfig: { name: "system.config", method: "GET", route: "/system/config" },
+};
+
+/**
+ * @summary Find the order reference ID an SDK method was called with
+ * @description The reference ID is the first argument of methods addressed by reference ID, or the
+ * `reference_id` or `order_reference_id` field of the request object
+ *
+ * @param info - Operation being called
+ * @param args - Arguments the SDK method was called with
+ * @returns Reference ID, or undefined when the call is not about a single order
+ */
+export const getReferenceId = (
+  info: OperationInfo,
+  args: unknown[]
+): string | undefined => {
+  const [first] = args;
+  if (typeof first === "string" && info.byReferenceId) {
+    return first;
+  }
+  if (first && typeof first === "object") {
+    const request = first as Record<string, unknown>;
+    const referenceId = request.reference_id ?? request.order_reference_id;
+    return typeof referenceId === "string" ? referenceId : undefined;
+  }
+  return undefined;
+};
@@ -0,0 +1,198 @@
+/**
+ * @category HTTP
+ * @module RateLimiter
+ */
+import { RateLimitOptions } from "../types/index";
+import { TapsilatCancellationError } from "../errors/TapsilatError";
+import { getRetryAfterMs } from "./retry";
+
+// Used when the API reports an exhausted budget without a reset time
+const DEFAULT_RESET_MS = 1000;
+
+interface Waiter {
+  resolve: (release: () => void) => void;
+  reject: (error: Error) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+// RATE LIMITER
+// Summary: Token bucket and concurrency cap shared by every request of an SDK instance
+// Description: Requests wait in order for a token and a free slot; the bucket learns the
+// remaining budget and reset time from the API's rate-limit headers
+/**
+ * @category HTTP
+ * @summary Queues requests so an SDK instance stays within its rate and concurrency limits
+ * @description Each attempt calls `acquire` before it is sent and calls the returned release
+ * function when it settles. `update` feeds the response headers back into the bucket.
+ * @class RateLimiter
+ */
+export class RateLimiter {
+  private readonly capacity: number;
+  private readonly refillPerMs: number;
+  private readonly maxConcurrent: number;
+  private readonly learnFromHeaders: boolean;
+  private readonly queue: Waiter[] = [];
+  private tokens: number;
+  private lastRefill = Date.now();
+  private limit?: number;
+  private resetAt = 0;
+  private blockedUntil = 0;
+  private active = 0;
+  private timer?: ReturnType<typeof setTimeout>;
+
+  /**
+   * @summary Creates a rate limiter with a full bucket
+   *
+   * @param options - Rate, burst, concurrency and header learning settings
+   */
+  constructor(options: RateLimitOptions = {}) {
+    const rate = options.requestsPerSecond;
+    this.refillPerMs = rate && rate > 0 ? rate / 1000 : 0;
+    this.capacity = this.refillPerMs
+      ? Math.max(options.burst ?? rate!, 1)
+      : Infinity;
+    this.tokens = this.capacity;
+    this.maxConcurrent = options.maxConcurrent ?? Infinity;
+    this.learnFromHeaders = options.learnFromHeaders ?? true;
+  }
+
+  /**
+   * @summary Number of requests waiting for a token or a free slot
+   */
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * @summary Waits for a token and a free concurrency slot
+   *
+   * @param signal - Optional signal that cancels the wait
+   * @returns Function that frees the slot once the request has settled
+   * @throws {TapsilatCancellationError} When the signal aborts while the request is queued
+   */
+  acquire(signal?: AbortSignal): Promise<() => void> {
+    if (signal?.aborted) {
+      return Promise.reject(
+        new TapsilatCancellationError(undefined, signal.reason)
+      );
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = { resolve, reject, signal };
+      if (signal) {
+        waiter.onAbort = (): void => {
+          const index = this.queue.indexOf(waiter);
+          if (index !== -1) {
+            this.queue.splice(index, 1);
+            reject(new TapsilatCancellationError(undefined, signal.reason));
+            this.drain();
+          }
+        };
+        signal.addEventListener("abort", waiter.onAbort, { once: true });
+      }
+      this.queue.push(waiter);
+      this.drain();
+    });
+  }
+
+  /**
+   * @summary Learns the remaining budget from a response
+   * @description Caps the bucket at `x-ratelimit-remaining` and, once it is exhausted, holds
+   * requests until `x-ratelimit-reset`; a 429 holds them for its `Retry-After`
+   *
+   * @param headers - Lower-cased response headers
+   * @param status - HTTP status of the response
+   */
+  update(headers: Record<string, string> | undefined, status?: number): void {
+    if (!this.learnFromHeaders || !headers) {
+      return;
+    }
+
+    const now = Date.now();
+    const limit = parseInt(headers["x-ratelimit-limit"], 10);
+    const remaining = parseInt(headers["x-ratelimit-remaining"], 10);
+    const reset = parseInt(headers["x-ratelimit-reset"], 10);
+    if (!Number.isNaN(limit)) {
+      this.limit = limit;
+    }
+    if (!Number.isNaN(remaining)) {
+      this.refill(now);
+      this.tokens = Math.min(this.tokens, Math.max(remaining, 0));
+      this.resetAt = Number.isNaN(reset)
+        ? now + DEFAULT_RESET_MS
+        : Math.max(reset * 1000, now);
+    }
+    if (status === 429) {
+      this.blockedUntil =
+        now + (getRetryAfterMs(headers, now) ?? DEFAULT_RESET_MS);
+    }
+    this.drain();
+  }
+
+  // Hands out tokens and slots to the queue in order, and schedules the next
+  // attempt when the head of the queue has to wait for a token
+  private drain(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    while (this.queue.length > 0 && this.active < this.maxConcurrent) {
+      const now = Date.now();
+      this.refill(now);
+      const wait = this.waitForToken(now);
+      if (wait > 0) {
+        this.timer = setTimeout(() => this.drain(), wait);
+        return;
+      }
+
+      const waiter = this.queue.shift()!;
+      if (waiter.onAbort) {
+        waiter.signal?.removeEventListener("abort", waiter.onAbort);
+      }
+      this.tokens--;
+      this.active++;
+      let released = false;
+      waiter.resolve(() => {
+        if (!released) {
+          released = true;
+          this.active--;
+          this.drain();
+        }
+      });
+    }
+  }
+
+  private refill(now: number): void {
+    if (this.refillPerMs) {
+      this.tokens = Math.min(
+        this.capacity,
+        this.tokens + (now - this.lastRefill) * this.refillPerMs
+      );
+    }
+    this.lastRefill = now;
+    if (this.resetAt && now >= this.resetAt) {
+      this.tokens = Math.max(
+        this.tokens,
+        Math.min(this.capacity, this.limit ?? Infinity)
+      );
+      this.resetAt = 0;
+    }
+  }
+
+  private waitForToken(now: number): number {
+    if (now < this.blockedUntil) {
+      return this.blockedUntil - now;
+    }
+    if (this.tokens >= 1) {
+      return 0;
+    }
+    const untilRefill = this.refillPerMs
+      ? Math.ceil((1 - this.tokens) / this.refillPerMs)
+      : Infinity;
+    const untilReset = this.resetAt ? this.resetAt - now : Infinity;
+    const wait = Math.min(untilRefill, untilReset);
+    return Number.isFinite(wait) ? Math.max(wait, 1) : DEFAULT_RESET_MS;
+  }
+}
@@ -0,0 +1,184 @@
+/**
+ * @category HTTP
+ * @module Retry
+ */
+import { RetryPolicy, TapsilatConfig } from "../types/index";
+import type { HttpMethod } from "./HttpClient";
+
+/**
+ * @category HTTP
+ * @summary Fully resolved retry policy with every option filled in
+ * @description Result of merging the defaults, the SDK configuration and any per-request override
+ * @typedef {object} ResolvedRetryPolicy
+ */
+export type ResolvedRetryPolicy = Required<RetryPolicy>;
+
+/**
+ * @category HTTP
+ * @summary Default retry policy used when nothing is configured
+ * @description Retries transient failures three times with exponential backoff and equal jitter
+ */
+export const DEFAULT_RETRY_POLICY: ResolvedRetryPolicy = {
+  maxRetries: 3,
+  retryableStatusCodes: [408, 425, 429, 500, 502, 503, 504],
+  maxElapsedMs: 60000,
+  backoff: "exponential",
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  jitter: "equal",
+  respectRetryAfter: true,
+  idempotentOnly: true,
+};
+
+const IDEMPOTENT_METHODS: HttpMethod[] = ["GET", "PUT", "DELETE"];
+
+/**
+ * @summary Merge retry settings from defaults, SDK config and request
+ * @description Later sources win; the legacy `maxRetries` and `retryDelay` config fields seed the policy
+ *
+ * @param config - SDK configuration
+ * @param override - Optional per-request retry policy
+ * @returns Resolved retry policy
+ */
+export const resolveRetryPolicy = (
+  config: TapsilatConfig,
+  override?: RetryPolicy
+): ResolvedRetryPolicy => {
+  const legacy: RetryPolicy = {};
+  if (config.maxRetries !== undefined) legacy.maxRetries = config.maxRetries;
+  if (config.retryDelay !== undefined) legacy.baseDelayMs = config.retryDelay;
+
+  return {
+    ...DEFAULT_RETRY_POLICY,
+    ...legacy,
+    ...stripUndefined(config.retryPolicy),
+    ...stripUndefined(override),
+  };
+};
+
+/**
+ * @summary Check whether a request may be retried at all
+ * @description With `idempotentOnly`, only idempotent methods or requests carrying an idempotency key are retried
+ *
+ * @param method - HTTP method of the request
+ * @param idempotencyKey - Idempotency key sent with the request, if any
+ * @param policy - Resolved retry policy
+ * @returns Whether retries are allowed for this request
+ */
+export const isRetryAllowed = (
+  method: HttpMethod,
+  idempotencyKey: string | undefined,
+  policy: ResolvedRetryPolicy
+): boolean =>
+  !policy.idempotentOnly ||
+  IDEMPOTENT_METHODS.includes(method) ||
+  Boolean(idempotencyKey);
+
+/**
+ * @summary Check whether an HTTP status should be retried
+ *
+ * @param status - HTTP status code of the response
+ * @param policy - Resolved retry policy
+ * @returns Whether the status is listed as retryable
+ */
+export const isRetryableStatus = (
+  status: number | undefined,
+  policy: ResolvedRetryPolicy
+): boolean =>
+  status !== undefined && policy.retryableStatusCodes.includes(status);
+
+/**
+ * @summary Read the server-requested wait time from response headers
+ * @description Understands `Retry-After` in seconds or as an HTTP date, and `x-ratelimit-reset` as a Unix timestamp
+ *
+ * @param headers - Response headers with lower-case names
+ * @param now - Current time in milliseconds
+ * @returns Wait time in milliseconds, or undefined when the server gave none
+ */
+export const getRetryAfterMs = (
+  headers: Record<string, string> | undefined,
+  now: number = Date.now()
+): number | undefined => {
+  const retryAfter = headers?.["retry-after"];
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (!Number.isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - now);
+    }
+  }
+
+  const reset = headers?.["x-ratelimit-reset"];
+  if (reset) {
+    const resetAt = parseInt(reset, 10);
+    if (!Number.isNaN(resetAt)) {
+      return Math.max(0, resetAt * 1000 - now);
+    }
+  }
+
+  return undefined;
+};
+
+/**
+ * @summary Calculate the wait before the next attempt
+ * @description Applies the backoff strategy and jitter, or the server-requested wait when honoured
+ *
+ * @param policy - Resolved retry policy
+ * @param attempt - The attempt that just failed (0-indexed)
+ * @param retryAfterMs - Server-requested wait in milliseconds, if any
+ * @returns Delay in milliseconds
+ */
+export const computeRetryDelay = (
+  policy: ResolvedRetryPolicy,
+  attempt: number,
+  retryAfterMs?: number
+): number => {
+  if (policy.respectRetryAfter && retryAfterMs !== undefined) {
+    return retryAfterMs;
+  }
+
+  let delay: number;
+  switch (policy.backoff) {
+    case "constant":
+      delay = policy.baseDelayMs;
+      break;
+    case "linear":
+      delay = policy.baseDelayMs * (attempt + 1);
+      break;
+    default:
+      delay = policy.baseDelayMs * Math.pow(2, attempt);
+  }
+  delay = Math.min(delay, policy.maxDelayMs);
+
+  // Jitter spreads retries from many clients to prevent a thundering herd
+  switch (policy.jitter) {
+    case "full":
+      return Math.random() * delay;
+    case "equal":
+      return delay / 2 + Math.random() * (delay / 2);
+    default:
+      return delay;
+  }
+};
+
+/**
+ * @summary Check whether another attempt fits in the elapsed-time budget
+ *
+ * @param policy - Resolved retry policy
+ * @param startedAt - Time the first attempt started, in milliseconds
+ * @param delayMs - Planned delay before the next attempt
+ * @returns Whether waiting and retrying stays within `maxElapsedMs`
+ */
+export const isWithinRetryBudget = (
+  policy: ResolvedRetryPolicy,
+  startedAt: number,
+  delayMs: number
+): boolean => Date.now() - startedAt + delayMs <= policy.maxElapsedMs;
+
+const stripUndefined = (policy?: RetryPolicy): RetryPolicy =>
+  Object.fromEntries(
+    Object.entries(policy ?? {}).filter(([, value]) => value !== undefined)
+  );
@@ -0,0 +1,111 @@
+/**
+ * @category HTTP
+ * @module Timeouts
+ */
+import { TapsilatConfig } from "../types/index";
+import { TapsilatNetworkError } from "../errors/TapsilatError";
+
+/**
+ * @category HTTP
+ * @summary Attempt timeout used when the configuration sets none
+ */
+export const DEFAULT_TIMEOUT_MS = 30000;
+
+/**
+ * @category HTTP
+ * @summary Default attempt timeouts of operations that are slower or faster than the rest
+ * @description Keyed by dotted operation name. Exports are generated on request and get more
+ * time; status and health checks are expected to answer quickly.
+ */
+export const DEFAULT_OPERATION_TIMEOUTS: Readonly<Record<string, number>> = {
+  "orders.getPdf": 120000,
+  "orders.getExcel": 120000,
+  "orders.downloadPdf": 120000,
+  "orders.downloadExcel": 120000,
+  "orders.status": 10000,
+  "system.health": 5000,
+};
+
+/**
+ * @category HTTP
+ * @summary Time limit of a single attempt and the error code raised when it runs out
+ * @description `TIMEOUT` for the configured or per-call timeout, `OPERATION_TIMEOUT` for a
+ * per-operation timeout and `DEADLINE_EXCEEDED` when the total deadline is closer than either
+ * @interface AttemptTimeout
+ */
+export interface AttemptTimeout {
+  ms: number;
+  code: "TIMEOUT" | "OPERATION_TIMEOUT" | "DEADLINE_EXCEEDED";
+}
+
+/**
+ * @summary Resolve the timeout of each attempt of a request
+ * @description A per-call timeout wins over the operation's timeout from `operationTimeouts` or the
+ * defaults, which wins over the configured `timeout`
+ *
+ * @param config - SDK configuration
+ * @param operation - Dotted name of the SDK operation, if the request belongs to one
+ * @param override - Optional per-call timeout
+ * @returns Attempt timeout
+ */
+export const resolveAttemptTimeout = (
+  config: TapsilatConfig,
+  operation?: string,
+  override?: number
+): AttemptTimeout => {
+  if (override !== undefined) {
+    return { ms: override, code: "TIMEOUT" };
+  }
+  const operationTimeout = operation
+    ? config.operationTimeouts?.[operation] ??
+      DEFAULT_OPERATION_TIMEOUTS[operation]
+    : undefined;
+  if (operationTimeout !== undefined) {
+    return { ms: operationTimeout, code: "OPERATION_TIMEOUT" };
+  }
+  return { ms: config.timeout ?? DEFAULT_TIMEOUT_MS, code: "TIMEOUT" };
+};
+
+/**
+ * @summary Shorten an attempt timeout to the time left before the deadline
+ *
+ * @param timeout - Attempt timeout
+ * @param deadlineAt - Deadline as an epoch timestamp in milliseconds, if any
+ * @returns The attempt timeout, or the remaining time with code `DEADLINE_EXCEEDED` when it is shorter
+ */
+export const capToDeadline = (
+  timeout: AttemptTimeout,
+  deadlineAt?: number
+): AttemptTimeout => {
+  if (deadlineAt === undefined) {
+    return timeout;
+  }
+  const remaining = deadlineAt - Date.now();
+  return remaining < timeout.ms
+    ? { ms: Math.max(remaining, 0), code: "DEADLINE_EXCEEDED" }
+    : timeout;
+};
+
+/**
+ * @summary Create the error of a request that ran out of time
+ *
+ * @param timeout - Attempt timeout that elapsed
+ * @param details - Optional context such as the operation and the deadline
+ * @returns Network error carrying the timeout's code
+ */
+export const timeoutError = (
+  timeout: AttemptTimeout,
+  details?: Record<string, unknown>
+): TapsilatNetworkError => {
+  const messages: Record<AttemptTimeout["code"], string> = {
+    TIMEOUT: "Request timeout",
+    OPERATION_TIMEOUT: "Operation timeout",
+    DEADLINE_EXCEEDED: "Request deadline exceeded",
+  };
+  return new TapsilatNetworkError(
+    messages[timeout.code],
+    timeout.code,
+    undefined,
+    { timeoutMs: timeout.ms, ...details }
+  );
+};
@@ -0,0 +1,150 @@
+/**
+ * @category HTTP
+ * @module Tracing
+ */
+import { Span, SpanAttributes, Tracer } from "../types/index";
+import { TapsilatError } from "../errors/TapsilatError";
+import { getReferenceId, OperationInfo } from "./operations";
+
+/**
+ * @category HTTP
+ * @summary Span kinds, numbered as in OpenTelemetry
+ */
+export const SpanKind = {
+  INTERNAL: 0,
+  CLIENT: 2,
+} as const;
+
+/**
+ * @category HTTP
+ * @summary Span status codes, numbered as in OpenTelemetry
+ */
+export const SpanStatusCode = {
+  UNSET: 0,
+  OK: 1,
+  ERROR: 2,
+} as const;
+
+/**
+ * @category HTTP
+ * @summary W3C trace context header sent with every traced attempt
+ */
+export const TRACEPARENT_HEADER = "traceparent";
+
+/**
+ * @summary Run an SDK operation inside an active operation span
+ * @description Starts `tapsilat.<operation>` as the active span, records the reference ID and any
+ * error code, and ends the span when the operation settles
+ *
+ * @param tracer - Tracer that creates the span
+ * @param info - Operation being called
+ * @param args - Arguments the SDK method was called with
+ * @param run - Runs the operation with its span
+ * @returns Result of the operation
+ */
+export const traceOperation = <T>(
+  tracer: Tracer,
+  info: OperationInfo,
+  args: unknown[],
+  run: (span: Span) => Promise<T>
+): Promise<T> =>
+  tracer.startActiveSpan(
+    `tapsilat.${info.name}`,
+    {
+      kind: SpanKind.INTERNAL,
+      attributes: {
+        "tapsilat.operation": info.name,
+        "http.request.method": info.method,
+        "http.route": info.route,
+        "tapsilat.reference_id": getReferenceId(info, args),
+      },
+    },
+    async (span: Span) => {
+      try {
+        return await run(span);
+      } catch (error) {
+        recordSpanError(span, error);
+        throw error;
+      } finally {
+        span.end();
+      }
+    }
+  );
+
+/**
+ * @summary Record a failure on a span
+ * @description Sets the error status, the `error.type` and `tapsilat.error_code` attributes and the exception
+ *
+ * @param span - Span to annotate
+ * @param error - Error that ended the work
+ */
+export const recordSpanError = (span: Span, error: unknown): void => {
+  const code = error instanceof TapsilatError ? error.code : undefined;
+  const message = error instanceof Error ? error.message : String(error);
+  span.setAttribute("error.type", code ?? (error as Error)?.name ?? "Error");
+  if (code) {
+    span.setAttribute("tapsilat.error_code", code);
+  }
+  if (error instanceof Error) {
+    span.recordException?.(error);
+  }
+  span.setStatus({ code: SpanStatusCode.ERROR, message });
+};
+
+/**
+ * @summary Set every defined attribute on a span
+ *
+ * @param span - Span to annotate
+ * @param attributes - Attributes to record; undefined values are skipped
+ */
+export const setSpanAttributes = (
+  span: Span,
+  attributes: SpanAttributes
+): void => {
+  for (const [key, value] of Object.entries(attributes)) {
+    if (value !== undefined) {
+      span.setAttribute(key, value);
+    }
+  }
+};
+
+/**
+ * @summary Format the W3C `traceparent` header value for a span
+ *
+ * @param span - Span whose context is propagated
+ * @returns Header value, or undefined when the span has no valid context
+ */
+export const formatTraceparent = (span: Span): string | undefined => {
+  const context = span.spanContext?.();
+  if (
+    !context ||
+    !/^[0-9a-f]{32}$/.test(context.traceId) ||
+    /^0+$/.test(context.traceId) ||
+    !/^[0-9a-f]{16}$/.test(context.spanId)
+  ) {
+    return undefined;
+  }
+  const flags = (context.traceFlags & 0xff).toString(16).padStart(2, "0");
+  return `00-${context.traceId}-${context.spanId}-${flags}`;
+};
+
+/**
+ * @summary Add the `traceparent` header of a span to request options
+ * @description Leaves a `traceparent` header that the caller set untouched
+ *
+ * @param options - Request options of the attempt
+ * @param span - Attempt span
+ * @returns Request options carrying the header
+ */
+export const withTraceparent = (
+  options: RequestInit,
+  span: Span
+): RequestInit => {
+  const traceparent = formatTraceparent(span);
+  const headers = new Headers(options.headers);
+  if (!traceparent || headers.has(TRACEPARENT_HEADER)) {
+    return options;
+  }
+  headers.set(TRACEPARENT_HEADER, traceparent);
+  return { ...options, headers };
+};
@@ -0,0 +1,25 @@
+/**
+ * @category HTTP
+ * @module Transport
+ */
+import { Transport, TransportAdapter } from "../types/index";
+
+/**
+ * @summary Normalize a configured transport into an adapter
+ * @description Wraps fetch-compatible functions in an adapter; without a transport the global `fetch` is looked up on every call
+ *
+ * @param transport - Transport from the SDK configuration
+ * @returns Transport adapter used by the HTTP client
+ */
+export const createTransport = (transport?: Transport): TransportAdapter => {
+  if (typeof transport === "function") {
+    return { request: (url, init) => transport(url, init) };
+  }
+
+  if (transport) {
+    return transport;
+  }
+
+  // Resolved per call so that a fetch installed after construction is used
+  return { request: (url, init) => fetch(url, init) };
+};
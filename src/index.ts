@@ -1,13 +1,80 @@
 // Main SDK class
 export { TapsilatSDK } from "./TapsilatSDK";
+export type { SafeNamespace, SafeTapsilatSDK } from "./TapsilatSDK";
+export {
+  TapsilatClientPool,
+  DEFAULT_POOL_MAX_CLIENTS,
+} from "./TapsilatClientPool";
+export type { ClientPoolOptions } from "./TapsilatClientPool";
+
+// Namespaced resources
+export { OrdersResource } from "./resources/OrdersResource";
+export { SubscriptionsResource } from "./resources/SubscriptionsResource";
+export { OrganizationResource } from "./resources/OrganizationResource";
+export { SubmerchantsResource } from "./resources/SubmerchantsResource";
+export { SystemResource } from "./resources/SystemResource";
+export { WebhooksResource } from "./resources/WebhooksResource";
 
 // Configuration management
 export { ConfigManager } from "./config/ConfigManager";
+export {
+  TAPSILAT_ENVIRONMENTS,
+  DEFAULT_ENVIRONMENT,
+} from "./config/environments";
 export { BusinessType } from "./types/index";
 
 // Types
 export type {
   TapsilatConfig,
+  ConfigChange,
+  DownloadProgress,
+  SaveToOptions,
+  SavedFile,
+  TapsilatEnvironment,
+  TapsilatEnvironmentName,
+  Credentials,
+  CredentialsProvider,
+  CredentialsOptions,
+  RetryPolicy,
+  Transport,
+  TransportAdapter,
+  FetchLike,
+  RequestOptions,
+  IdempotencyInfo,
+  Idempotent,
+  ResponseMetadata,
+  WithResponse,
+  WithResponseMethods,
+  SafeResult,
+  SafeMethods,
+  Logger,
+  LogLevel,
+  LogFields,
+  RedactionOptions,
+  TapsilatErrorCategory,
+  UserMessages,
+  ErrorCatalogEntry,
+  ResponseValidationMode,
+  SchemaIssue,
+  SchemaDrift,
+  Tracer,
+  Span,
+  SpanOptions,
+  SpanContext,
+  SpanAttributes,
+  SpanAttributeValue,
+  MetricsRecorder,
+  MetricsSnapshot,
+  EndpointMetrics,
+  LatencyHistogram,
+  RequestMetric,
+  CircuitBreakerOptions,
+  CircuitState,
+  CircuitStateChange,
+  RateLimitOptions,
+  CacheOptions,
+  CacheStore,
+  CacheEntry,
   PaymentMethod,
   PaymentStatus,
   Currency,
@@ -146,6 +213,44 @@ export type {
   OrgUserTokenCreateResponse,
 } from "./types/index";
 
+// HTTP
+export { HttpClient } from "./http/HttpClient";
+export { DEFAULT_RETRY_POLICY } from "./http/retry";
+export {
+  DEFAULT_TIMEOUT_MS,
+  DEFAULT_OPERATION_TIMEOUTS,
+} from "./http/timeouts";
+export { OPERATIONS } from "./http/operations";
+export type { OperationInfo } from "./http/operations";
+export { DEFAULT_CIRCUIT_BREAKER_OPTIONS } from "./http/circuitBreaker";
+export { DEFAULT_REFRESH_MARGIN_MS } from "./http/credentials";
+export {
+  MemoryCacheStore,
+  DEFAULT_CACHE_TTLS,
+  DEFAULT_CACHE_MAX_ENTRIES,
+} from "./http/cache";
+
+// Response schemas
+export { schema, validateSchema } from "./schemas/schema";
+export type { Schema, Infer } from "./schemas/schema";
+export { RESPONSE_SCHEMAS } from "./schemas/responses";
+
+// Downloads
+export { FileDownload, parseContentDisposition } from "./utils/download";
+
+// Metrics
+export { MetricsCollector, DEFAULT_LATENCY_BUCKETS } from "./http/metrics";
+export type { MetricsCollectorOptions } from "./http/metrics";
+
+// Logging
+export { createConsoleLogger } from "./utils/logger";
+export {
+  createRedactor,
+  DEFAULT_REDACTED_FIELDS,
+  DEFAULT_REDACTION_MASK,
+} from "./utils/redact";
+export type { Redactor } from "./utils/redact";
+
 // Errors
 export {
   TapsilatError,
@@ -153,7 +258,28 @@ export {
   TapsilatValidationError,
   TapsilatAuthenticationError,
   TapsilatRateLimitError,
+  TapsilatCancellationError,
+  TapsilatCircuitOpenError,
+  TapsilatSchemaError,
+} from "./errors/TapsilatError";
+export {
+  TapsilatBusinessError,
+  TapsilatCardDeclinedError,
+  TapsilatInsufficientFundsError,
+  TapsilatThreeDSecureError,
+  TapsilatLimitExceededError,
+  TapsilatDuplicateReferenceError,
+} from "./errors/TapsilatError";
+export type {
+  HttpErrorContext,
+  BusinessErrorInfo,
 } from "./errors/TapsilatError";
+export {
+  ErrorCatalog,
+  DEFAULT_ERROR_CATALOG,
+  ERROR_CATEGORY_DEFAULTS,
+  catalogEntriesFromErrorCodes,
+} from "./errors/catalog";
 
 // Utilities
 export {
@@ -165,4 +291,5 @@ export {
   sanitizeMetadata,
   validateGsmNumber,
   validateInstallments,
+  validateConfig,
 } from "./utils/validators";
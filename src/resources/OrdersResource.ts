@@ -0,0 +1,1452 @@
+/**
+ * @category Resources
+ * @module OrdersResource
+ */
+import type { HttpClient } from "../http/HttpClient";
+import { Resource } from "./Resource";
+import {
+  TapsilatError,
+  TapsilatValidationError,
+} from "../errors/TapsilatError";
+import {
+  hasValidDecimalPlaces,
+  isInteger,
+  isNonEmptyString,
+  isPositiveNumber,
+  isValidEmail,
+} from "../utils/validators";
+import {
+  handleError,
+  handleResponse,
+  withIdempotency,
+} from "../utils/response";
+import { FileDownload } from "../utils/download";
+import { toAbsoluteUrl } from "../config/environments";
+import {
+  AddBasketItemRequest,
+  AddBasketItemResponse,
+  CancelOrderRequest,
+  CancelOrderResponse,
+  GetOrderPaymentDetailsResponse,
+  GetOrderPaymentsRequest,
+  GetOrderPaymentsResponse,
+  GetOrderResponse,
+  GetOrderSubmerchantsRequest,
+  GetOrderSubmerchantsResponse,
+  GetOrderTermResponse,
+  GetOrderTransactionsResponse,
+  GetOrdersRequest,
+  GetOrdersResponse,
+  Idempotent,
+  OrderAccountingRequest,
+  OrderAccountingResponse,
+  OrderCallbackResponse,
+  OrderChargeRequest,
+  OrderChargeResponse,
+  OrderCreateRequest,
+  OrderCreateResponse,
+  OrderManualCallbackRequest,
+  OrderManualCallbackResponse,
+  OrderOIPDTO,
+  OrderOIPResponse,
+  OrderPaymentDetailDTO,
+  OrderPaymentOptionsUpdateDTO,
+  OrderPaymentTermActionResponse,
+  OrderPaymentTermCreateDTO,
+  OrderPaymentTermUpdateDTO,
+  OrderPostAuthRequest,
+  OrderPostAuthResponse,
+  OrderRefundRequest,
+  OrderRefundResponse,
+  OrderRelatedUpdateRequest,
+  OrderRelatedUpdateResponse,
+  OrderStatusResponse,
+  OrderTermRefundRequest,
+  OrderTerminateRequest,
+  OrderTerminateResponse,
+  OrderVposQueryResponse,
+  PaymentTermDeleteRequest,
+  PaymentTermRefundResponse,
+  PaymentTermResponse,
+  PaymentTermTerminateRequest,
+  RefundAllOrderDTO,
+  RefundOrderDTO,
+  RemoveBasketItemRequest,
+  RemoveBasketItemResponse,
+  RequestOptions,
+  SplitOrderItemPaymentDTO,
+  TapsilatEnvironment,
+  UpdateBasketItemRequest,
+  UpdateBasketItemResponse,
+} from "../types/index";
+
+/**
+ * @category Resources
+ * @summary Order operations, available as `sdk.orders`
+ * @description Sends each operation with the given HTTP client. The flat methods of `TapsilatSDK`
+ * call these methods, so validation, retries, tracing and metrics are the same for both. Operation
+ * names, such as `orders.refund` in `operationTimeouts` and spans, follow the method names of this
+ * class. The class depends on the HTTP client only, so bundles that use it on its own leave out
+ * the rest of the SDK.
+ *
+ * @example
+ * ```typescript
+ * const orders = new OrdersResource(new HttpClient(config));
+ * const { reference_id } = await orders.create(order);
+ * const status = await orders.status(reference_id);
+ * ```
+ * @class OrdersResource
+ */
+export class OrdersResource extends Resource {
+  /**
+   * @param httpClient - HTTP client the operations are sent with
+   * @param getEnvironment - Resolves the domains of relative checkout URLs; defaults to the
+   * environment of the client's configuration
+   */
+  constructor(
+    httpClient: HttpClient,
+    private readonly getEnvironment = async (): Promise<TapsilatEnvironment> =>
+      httpClient.getEnvironment()
+  ) {
+    super(httpClient, "orders");
+  }
+
+  /**
+   * @summary Create a payment order
+   * @see TapsilatSDK.createOrder
+   */
+  async create(
+    orderRequest: OrderCreateRequest,
+    options?: RequestOptions
+  ): Promise<Idempotent<OrderCreateResponse>> {
+    // Validate the order request
+    if (!orderRequest) {
+      throw new TapsilatValidationError(
+        "Order request cannot be null or undefined"
+      );
+    }
+
+    // Validate amount
+    if (!isPositiveNumber(orderRequest.amount)) {
+      throw new TapsilatValidationError("Amount must be a positive number", {
+        provided: orderRequest.amount,
+      });
+    }
+
+    if (!hasValidDecimalPlaces(orderRequest.amount)) {
+      throw new TapsilatValidationError(
+        "Amount must have maximum 2 decimal places",
+        { provided: orderRequest.amount }
+      );
+    }
+
+    // Validate currency
+    if (!isNonEmptyString(orderRequest.currency)) {
+      throw new TapsilatValidationError(
+        "Currency is required and must be a non-empty string",
+        { provided: orderRequest.currency }
+      );
+    }
+
+    // Validate locale
+    if (!isNonEmptyString(orderRequest.locale)) {
+      throw new TapsilatValidationError(
+        "Locale is required and must be a non-empty string",
+        { provided: orderRequest.locale }
+      );
+    }
+
+    // Validate buyer information
+    if (!orderRequest.buyer) {
+      throw new TapsilatValidationError("Buyer information is required");
+    }
+
+    const { buyer } = orderRequest;
+
+    if (!isNonEmptyString(buyer.name)) {
+      throw new TapsilatValidationError(
+        "Buyer name is required and must be a non-empty string",
+        { provided: buyer.name }
+      );
+    }
+
+    if (!isNonEmptyString(buyer.surname)) {
+      throw new TapsilatValidationError(
+        "Buyer surname is required and must be a non-empty string",
+        { provided: buyer.surname }
+      );
+    }
+
+    if (!isNonEmptyString(buyer.email)) {
+      throw new TapsilatValidationError(
+        "Buyer email is required and must be a non-empty string",
+        { provided: buyer.email }
+      );
+    }
+
+    if (!isValidEmail(buyer.email)) {
+      throw new TapsilatValidationError(
+        "Buyer email must be a valid email address",
+        { provided: buyer.email }
+      );
+    }
+
+    try {
+      // Make the API request
+      const createOrderResponse =
+        await this.httpClient.post<OrderCreateResponse>(
+          "/order/create",
+          orderRequest,
+          options
+        );
+
+      // Use our generic response handler
+      const order = handleResponse(createOrderResponse, "Order creation");
+      if (order.checkout_url) {
+        order.checkout_url = await this.toCheckoutUrl(order.checkout_url);
+      }
+      return withIdempotency(order, createOrderResponse);
+    } catch (error: unknown) {
+      // Use our generic error handler
+      return handleError(error, "order creation");
+    }
+  }
+
+  /**
+   * @summary Get an order by its reference ID
+   * @see TapsilatSDK.getOrder
+   */
+  async get(
+    referenceId: string,
+    options?: RequestOptions
+  ): Promise<GetOrderResponse> {
+    // Validate input
+    if (!isNonEmptyString(referenceId)) {
+      throw new TapsilatValidationError(
+        "Order referenceId is required and must be a non-empty string",
+        { provided: referenceId }
+      );
+    }
+
+    try {
+      // Make the API request
+      const getOrderResponse = await this.httpClient.get<GetOrderResponse>(
+        `/order/${referenceId}`,
+        options
+      );
+
+      // Use our generic response handler
+      return handleResponse(getOrderResponse, "Order retrieval");
+    } catch (error: unknown) {
+      // Use our generic error handler
+      return handleError(error, "order retrieval");
+    }
+  }
+
+  /**
+   * @summary List orders page by page
+   * @see TapsilatSDK.getOrders
+   */
+  async list(
+    params: GetOrdersRequest = {},
+    options?: RequestOptions
+  ): Promise<GetOrdersResponse> {
+    try {
+      // Validate pagination parameters if provided
+      // Check if page is defined
+      if (params.page !== undefined) {
+        // Check if page is integer
+        if (!isInteger(params.page)) {
+          throw new TapsilatValidationError("Page number must be an integer", {
+            provided: params.page,
+          });
+        }
+
+        // Check if page is positive
+        if (params.page < 1) {
+          throw new TapsilatValidationError(
+            "Page number must be greater than 0",
+            { provided: params.page }
+          );
+        }
+      }
+
+      // Check if per_page is defined
+      if (params.per_page !== undefined) {
+        // Check if per_page is integer
+        if (!isInteger(params.per_page)) {
+          throw new TapsilatValidationError(
+            "Items per page must be an integer",
+            { provided: params.per_page }
+          );
+        }
+
+        // Check if per_page is positive
+        if (params.per_page < 1) {
+          throw new TapsilatValidationError(
+            "Items per page must be greater than 0",
+            { provided: params.per_page }
+          );
+        }
+      }
+
+      // Check if status is defined
+      if (params.status !== undefined && !isInteger(params.status)) {
+        throw new TapsilatValidationError("Status must be an integer", {
+          provided: params.status,
+        });
+      }
+
+      // Make the API request
+      const getOrdersResponse = await this.httpClient.get<GetOrdersResponse>(
+        "/order/list",
+        { params: params as Record<string, unknown>, ...options }
+      );
+
+      // Use our generic response handler
+      return handleResponse(getOrdersResponse, "Order listing");
+    } catch (error: unknown) {
+      // Use our generic error handler
+      return handleError(error, "order listing");
+    }
+  }
+
+  /**
+   * @summary Cancel an order
+   * @see TapsilatSDK.cancelOrder
+   */
+  async cancel(
+    referenceId: string,
+    options?: RequestOptions
+  ): Promise<CancelOrderResponse> {
+    if (!isNonEmptyString(referenceId)) {
+      throw new TapsilatValidationError(
+        "Order referenceId is required and must be a non-empty string",
+        { provided: referenceId }
+      );
+    }
+
+    try {
+      const cancelOrderPayload: CancelOrderRequest = {
+        reference_id: referenceId,
+      };
+
+      const cancelOrderResponse =
+        await this.httpClient.post<CancelOrderResponse>(
+          "/order/cancel",
+          cancelOrderPayload,
+          options
+        );
+
+      // Check if API call was successful
+      if (!cancelOrderResponse.success) {
+        throw cancelOrderResponse.error
+          ? TapsilatError.fromAPIError(cancelOrderResponse.error)
+          : new TapsilatError(
+              "Order cancellation API call failed",
+              "CANCELLATION_API_FAILED"
+            );
+      }
+
+      // Check if response data exists
+      if (!cancelOrderResponse.data) {
+        throw new TapsilatError(
+          "Order cancellation response data is missing",
+          "CANCELLATION_DATA_MISSING"
+        );
+      }
+
+      return cancelOrderResponse.data;
+    } catch (error: unknown) {
+      return handleError(error, "order cancellation");
+    }
+  }
+
+  /**
+   * @summary Get the status of an order
+   * @see TapsilatSDK.getOrderStatus
+   */
+  async status(
+    referenceId: string,
+    options?: RequestOptions
+  ): Promise<OrderStatusResponse> {
+    // Validate input using proper validation
+    if (!isNonEmptyString(referenceId)) {
+      throw new TapsilatValidationError(
+        "Order referenceId is required and must be a non-empty string",
+        { provided: referenceId }
+      );
+    }
+
+    try {
+      // Make the API request
+      const getOrderStatusResponse =
+        await this.httpClient.get<OrderStatusResponse>(
+          `/order/${referenceId}/status`,
+          options
+        );
+
+      // Use our generic response handler
+      return handleResponse(getOrderStatusResponse, "Order status retrieval");
+    } catch (error: unknown) {
+      // Use our generic error handler
+      return handleError(error, "order status retrieval");
+    }
+  }
+
+  /**
+   * @summary Refund part of an order
+   * @see TapsilatSDK.refundOrder
+   */
+  async refund(
+    refundData: OrderRefundRequest,
+    options?: RequestOptions
+  ): Promise<Idempotent<OrderRefundResponse>> {
+    try {
+      const refundOrderResponse =
+        await this.httpClient.post<OrderRefundResponse>(
+          "/order/refund",
+          refundData,
+          options
+        );
+
+      if (!refundOrderResponse.success) {
+        throw refundOrderResponse.error
+          ? TapsilatError.fromAPIError(refundOrderResponse.error)
+          : new TapsilatError("Order refund failed", "REFUND_FAILED");
+      }
+
+      if (!refundOrderResponse.data) {
+        throw new TapsilatError(
+          "Order refund response data is missing",
+          "REFUND_DATA_MISSING"
+        );
+      }
+
+      return withIdempotency(refundOrderResponse.data, refundOrderResponse);
+    } catch (error: unknown) {
+      return handleError(error, "order refund");
+    }
+  }
+
+  /**
+   * @summary Refund an order in full
+   * @see TapsilatSDK.refundAllOrder
+   */
+  async refundAll(
+    referenceId: string,
+    options?: RequestOptions
+  ): Promise<Idempotent<OrderRefundResponse>> {
+    try {
+      const refundAllPayload: RefundAllOrderDTO = {
+        reference_id: referenceId,
+      };
+      const refundAllOrderResponse =
+        await this.httpClient.post<OrderRefundResponse>(
+          "/order/refund-all",
+          refundAllPayload,
+          options
+        );
+
+      if (!refundAllOrderResponse.success) {
+        throw refundAllOrderResponse.error
+          ? TapsilatError.fromAPIError(refundAllOrderResponse.error)
+          : new TapsilatError("Full order refund failed", "FULL_REFUND_FAILED");
+      }
+
+      if (!refundAllOrderResponse.data) {
+        throw new TapsilatError(
+          "Full order refund response data is missing",
+          "FULL_REFUND_DATA_MISSING"
+        );
+      }
+
+      return withIdempotency(
+        refundAllOrderResponse.data,
+        refundAllOrderResponse
+      );
+    } catch (error: unknown) {
+      return handleError(error, "full order refund");
+    }
+  }
+
+  /**
+   * @summary Get the payment details of an order by reference or conversation ID
+   * @see TapsilatSDK.getOrderPaymentDetails
+   */
+  async paymentDetails(
+    request: OrderPaymentDetailDTO,
+    options?: RequestOptions
+  ): Promise<GetOrderPaymentDetailsResponse> {
+    try {
+      const getOrderPaymentDetailsResponse =
+        await this.httpClient.post<GetOrderPaymentDetailsResponse>(
+          "/order/payment-details",
+          request,
+          options
+        );
+      return handleResponse(
+        getOrderPaymentDetailsResponse,
+        "Order payment details"
+      );
+    } catch (error: unknown) {
+      return handleError(error, "order payment details");
+    }
+  }
+
+  /**
+   * @summary Get the payment details of an order by its reference ID
+   * @see TapsilatSDK.getOrderPaymentDetailsById
+   */
+  async paymentDetailsById(
+    referenceId: string,
+    options?: RequestOptions
+  ): Promise<GetOrderPaymentDetailsResponse> {
+    if (!isNonEmptyString(referenceId))
+      throw new TapsilatValidationError(
+        "Reference ID is required and must be a non-empty string"
+      );
+
+    try {
+      const getOrderPaymentDetailsResponse =
+        await this.httpClient.get<GetOrderPaymentDetailsResponse>(
+          `/order/${referenceId}/payment-details`,
+          options
+        );
+      return handleResponse(
+        getOrderPaymentDetailsResponse,
+        "Order payment details by id"
+      );
+    } catch (error: unknown) {
+      return handleError(error, "order payment details by id");
+    }
+  }
+
+  /**
+   * @summary Get the callback of an order
+   * @see TapsilatSDK.orderCallback
+   */
+  async callback(
+    id: string,
+    options?: RequestOptions
+  ): Promise<OrderCallbackResponse> {
+    if (!isNonEmptyString(id))
+      throw new TapsilatValidationError(
+        "ID is required and must be a non-empty string"
+      );
+
+    try {
+      const response = await this.httpClient.get<OrderCallbackResponse>(
+        `/orders/${id}/callback`,
+        options
+      );
+      return handleResponse(response, "Order callback");
+    } catch (error: unknown) {
+      return handleError(error, "order callback");
+    }
+  }
+
+  /**
+   * @summary Update the payment options of an order
+   * @see TapsilatSDK.updatePaymentOptions
+   */
+  async updatePaymentOptions(
+    request: OrderPaymentOptionsUpdateDTO,
+    options?: RequestOptions
+  ): Promise<OrderRelatedUpdateResponse> {
+    try {
+      const response = await this.httpClient.patch<OrderRelatedUpdateResponse>(
+        "/order/payment-options",
+        request,
+        options
+      );
+      return handleResponse(response, "Update payment options");
+    } catch (error: unknown) {
+      return handleError(error, "update payment options");
+    }
+  }
+
+  /**
+   * @summary Split the payment of an order item
+   * @see TapsilatSDK.splitOrderItemPayment
+   */
+  async splitItemPayment(
+    request: SplitOrderItemPaymentDTO,
+    options?: RequestOptions
+  ): Promise<OrderRelatedUpdateResponse> {
+    try {
+      const response = await this.httpClient.post<OrderRelatedUpdateResponse>(
+        "/order/split",
+        request,
+        options
+      );
+      return handleResponse(response, "Split order item payment");
+    } catch (error: unknown) {
+      return handleError(error, "split order item payment");
+    }
+  }
+
+  /**
+   * @summary Query the virtual POS of an order
+   * @see TapsilatSDK.orderVposQuery
+   */
+  async vposQuery(
+    id: string,
+    options?: RequestOptions
+  ): Promise<OrderVposQueryResponse> {
+    if (!isNonEmptyString(id))
+      throw new TapsilatValidationError(
+        "ID is required and must be a non-empty string"
+      );
+
+    try {
+      const response = await this.httpClient.get<OrderVposQueryResponse>(
+        `/orders/${id}/vpos-query`,
+        options
+      );
+      return handleResponse(response, "Order vpos query");
+    } catch (error: unknown) {
+      return handleError(error, "order vpos query");
+    }
+  }
+
+  /**
+   * @summary Get an order by its conversation ID
+   * @see TapsilatSDK.getOrderByConversationId
+   */
+  async byConversationId(
+    conversationId: string,
+    options?: RequestOptions
+  ): Promise<GetOrderResponse> {
+    // Validate conversationId
+    if (!isNonEmptyString(conversationId)) {
+      throw new TapsilatValidationError(
+        "Order conversationId is required and must be a non-empty string",
+        { provided: conversationId }
+      );
+    }
+
+    try {
+      const getOrderByConversationIdResponse =
+        await this.httpClient.get<GetOrderResponse>(
+          `/order/conversation/${conversationId}`,
+          options
+        );
+
+      if (!getOrderByConversationIdResponse.success)
+        throw getOrderByConversationIdResponse.error
+          ? TapsilatError.fromAPIError(getOrderByConversationIdResponse.error)
+          : new TapsilatError(
+              "Order retrieval by conversation ID failed",
+              "ORDER_RETRIEVAL_FAILED"
+            );
+
+      if (!getOrderByConversationIdResponse.data)
+        throw new TapsilatError(
+          "Order response data is missing",
+          "ORDER_DATA_MISSING"
+        );
+
+      return getOrderByConversationIdResponse.data;
+    } catch (error: unknown) {
+      return handleError(error, "order retrieval by conversation ID");
+    }
+  }
+
+  /**
+   * @summary Get the transactions of an order
+   * @see TapsilatSDK.getOrderTransactions
+   */
+  async transactions(
+    referenceId: string,
+    options?: RequestOptions
+  ): Promise<GetOrderTransactionsResponse> {
+    // Validate referenceId
+    if (!isNonEmptyString(referenceId)) {
+      throw new TapsilatValidationError(
+        "Order referenceId is required and must be a non-empty string",
+        { provided: referenceId }
+      );
+    }
+    try {
+      const getOrderTransactionsResponse =
+        await this.httpClient.get<GetOrderTransactionsResponse>(
+          `/order/${referenceId}/transactions`,
+          options
+        );
+
+      if (!getOrderTransactionsResponse.success)
+        throw getOrderTransactionsResponse.error
+          ? TapsilatError.fromAPIError(getOrderTransactionsResponse.error)
+          : new TapsilatError(
+              "Order transactions retrieval failed",
+              "TRANSACTIONS_RETRIEVAL_FAILED"
+            );
+      if (!getOrderTransactionsResponse.data)
+        throw new TapsilatError(
+          "Order transactions response data is missing",
+          "TRANSACTIONS_DATA_MISSING"
+        );
+
+      return getOrderTransactionsResponse.data;
+    } catch (error: unknown) {
+      return handleError(error, "order transactions retrieval");
+    }
+  }
+
+  /**
+   * @summary List the submerchants of orders
+   * @see TapsilatSDK.getOrderSubmerchants
+   */
+  async submerchants(
+    params: GetOrderSubmerchantsRequest = {},
+    options?: RequestOptions
+  ): Promise<GetOrderSubmerchantsResponse> {
+    try {
+      const getOrderSubmerchantsResponse =
+        await this.httpClient.get<GetOrderSubmerchantsResponse>(
+          "/order/submerchants",
+          { params: params, ...options }
+        );
+
+      return handleResponse(
+        getOrderSubmerchantsResponse,
+        "Order submerchants retrieval"
+      );
+    } catch (error: unknown) {
+      return handleError(error, "order submerchants retrieval");
+    }
+  }
+
+  /**
+   * @summary Get the checkout URL of an order
+   * @see TapsilatSDK.getCheckoutUrl
+   */
+  async checkoutUrl(
+    referenceId: string,
+    options?: RequestOptions
+  ): Promise<string> {
+    const order = await this.get(referenceId, options);
+    if (order && order.checkout_url) {
+      return this.toCheckoutUrl(order.checkout_url);
+    }
+    throw new TapsilatError(
+      "Checkout URL not found in order response",
+      "CHECKOUT_URL_NOT_FOUND"
+    );
+  }
+
+  /**
+   * @summary Record the accounting of an order
+   * @see TapsilatSDK.orderAccounting
+   */
+  async accounting(
+    request: OrderAccountingRequest,
+    options?: RequestOptions
+  ): Promise<OrderAccountingResponse> {
+    if (!isNonEmptyString(request.order_reference_id)) {
+      throw new TapsilatValidationError(
+        "Order reference ID is required and must be a non-empty string",
+        { provided: request.order_reference_id }
+      );
+    }
+
+    try {
+      const orderAccountingResponse =
+        await this.httpClient.post<OrderAccountingResponse>(
+          "/order/accounting",
+          request,
+          options
+        );
+      return handleResponse(orderAccountingResponse, "Order accounting");
+    } catch (error: unknown) {
+      return handleError(error, "order accounting");
+    }
+  }
+
+  /**
+   * @summary Capture a pre-authorized order
+   * @see TapsilatSDK.orderPostAuth
+   */
+  async postAuth(
+    request: OrderPostAuthRequest,
+    options?: RequestOptions
+  ): Promise<OrderPostAuthResponse> {
+    if (!isNonEmptyString(request.reference_id)) {
+      throw new TapsilatValidationError(
+        "Reference ID is required and must be a non-empty string",
+        { provided: request.reference_id }
+      );
+    }
+    if (!isPositiveNumber(request.amount)) {
+      throw new TapsilatValidationError("Amount must be a positive number", {
+        provided: request.amount,
+      });
+    }
+
+    try {
+      const orderPostAuthResponse =
+        await this.httpClient.post<OrderPostAuthResponse>(
+          "/order/postauth",
+          request,
+          options
+        );
+      return handleResponse(orderPostAuthResponse, "Order post-auth");
+    } catch (error: unknown) {
+      return handleError(error, "order post-auth");
+    }
+  }
+
+  /**
+   * @summary Trigger the callback of an order manually
+   * @see TapsilatSDK.orderManualCallback
+   */
+  async manualCallback(
+    referenceId: string,
+    conversationId?: string,
+    options?: RequestOptions
+  ): Promise<OrderManualCallbackResponse> {
+    if (!isNonEmptyString(referenceId)) {
+      throw new TapsilatValidationError(
+        "Reference ID is required and must be a non-empty string"
+      );
+    }
+    const payload: OrderManualCallbackRequest = { reference_id: referenceId };
+    if (conversationId) {
+      payload.conversation_id = conversationId;
+    }
+    try {
+      const orderManualCallbackResponse =
+        await this.httpClient.post<OrderManualCallbackResponse>(
+          "/order/callback",
+          payload,
+          options
+        );
+      return handleResponse(
+        orderManualCallbackResponse,
+        "Order manual callback"
+      );
+    } catch (error: unknown) {
+      return handleError(error, "order manual callback");
+    }
+  }
+
+  /**
+   * @summary Link an order to a related order
+   * @see TapsilatSDK.orderRelatedUpdate
+   */
+  async relatedUpdate(
+    referenceId: string,
+    relatedReferenceId: string,
+    options?: RequestOptions
+  ): Promise<OrderRelatedUpdateResponse> {
+    if (!isNonEmptyString(referenceId)) {
+      throw new TapsilatValidationError(
+        "Reference ID is required and must be a non-empty string"
+      );
+    }
+    if (!isNonEmptyString(relatedReferenceId)) {
+      throw new TapsilatValidationError(
+        "Related Reference ID is required and must be a non-empty string"
+      );
+    }
+    try {
+      const payload: OrderRelatedUpdateRequest = {
+        reference_id: referenceId,
+        related_reference_id: relatedReferenceId,
+      };
+      const orderRelatedUpdateResponse =
+        await this.httpClient.patch<OrderRelatedUpdateResponse>(
+          "/order/releated",
+          payload,
+          options
+        );
+      return handleResponse(orderRelatedUpdateResponse, "Order related update");
+    } catch (error: unknown) {
+      return handleError(error, "order related update");
+    }
+  }
+
+  /**
+   * @summary Add an item to the basket of an order
+   * @see TapsilatSDK.addBasketItem
+   */
+  async addBasketItem(
+    request: AddBasketItemRequest,
+    options?: RequestOptions
+  ): Promise<AddBasketItemResponse> {
+    try {
+      const addBasketItemResponse =
+        await this.httpClient.post<AddBasketItemResponse>(
+          "/order/basket-item",
+          request,
+          options
+        );
+      return handleResponse(addBasketItemResponse, "Add basket item");
+    } catch (error: unknown) {
+      return handleError(error, "add basket item");
+    }
+  }
+
+  /**
+   * @summary Remove an item from the basket of an order
+   * @see TapsilatSDK.removeBasketItem
+   */
+  async removeBasketItem(
+    request: RemoveBasketItemRequest,
+    options?: RequestOptions
+  ): Promise<RemoveBasketItemResponse> {
+    try {
+      const removeBasketItemResponse =
+        await this.httpClient.delete<RemoveBasketItemResponse>(
+          "/order/basket-item",
+          request,
+          options
+        );
+      return handleResponse(removeBasketItemResponse, "Remove basket item");
+    } catch (error: unknown) {
+      return handleError(error, "remove basket item");
+    }
+  }
+
+  /**
+   * @summary Update an item in the basket of an order
+   * @see TapsilatSDK.updateBasketItem
+   */
+  async updateBasketItem(
+    request: UpdateBasketItemRequest,
+    options?: RequestOptions
+  ): Promise<UpdateBasketItemResponse> {
+    try {
+      const updateBasketItemResponse =
+        await this.httpClient.patch<UpdateBasketItemResponse>(
+          "/order/basket-item",
+          request,
+          options
+        );
+      return handleResponse(updateBasketItemResponse, "Update basket item");
+    } catch (error: unknown) {
+      return handleError(error, "update basket item");
+    }
+  }
+
+  /**
+   * @summary Add a payment term to an order
+   * @see TapsilatSDK.createOrderTerm
+   */
+  async createTerm(
+    termData: OrderPaymentTermCreateDTO,
+    options?: RequestOptions
+  ): Promise<Idempotent<OrderPaymentTermActionResponse>> {
+    // Validate required fields
+    if (!isNonEmptyString(termData.order_id)) {
+      throw new TapsilatValidationError(
+        "Order ID is required and must be a non-empty string",
+        { provided: termData.order_id }
+      );
+    }
+
+    if (!isNonEmptyString(termData.term_reference_id)) {
+      throw new TapsilatValidationError(
+        "Term reference ID is required and must be a non-empty string",
+        { provided: termData.term_reference_id }
+      );
+    }
+
+    if (!isPositiveNumber(termData.amount)) {
+      throw new TapsilatValidationError("Amount must be a positive number", {
+        provided: termData.amount,
+      });
+    }
+
+    if (!hasValidDecimalPlaces(termData.amount)) {
+      throw new TapsilatValidationError(
+        "Amount must have maximum 2 decimal places",
+        { provided: termData.amount }
+      );
+    }
+
+    if (!isNonEmptyString(termData.due_date)) {
+      throw new TapsilatValidationError(
+        "Due date is required and must be a non-empty string",
+        { provided: termData.due_date }
+      );
+    }
+
+    if (!isInteger(termData.term_sequence)) {
+      throw new TapsilatValidationError("Term sequence must be an integer", {
+        provided: termData.term_sequence,
+      });
+    }
+
+    if (typeof termData.required !== "boolean") {
+      throw new TapsilatValidationError("Required field must be a boolean", {
+        provided: termData.required,
+      });
+    }
+
+    if (!isNonEmptyString(termData.status)) {
+      throw new TapsilatValidationError(
+        "Status is required and must be a non-empty string",
+        { provided: termData.status }
+      );
+    }
+
+    try {
+      const createTermResponse =
+        await this.httpClient.post<OrderPaymentTermActionResponse>(
+          "/order/term",
+          termData,
+          options
+        );
+
+      return withIdempotency(
+        handleResponse(createTermResponse, "Payment term creation"),
+        createTermResponse
+      );
+    } catch (error: unknown) {
+      return handleError(error, "payment term creation");
+    }
+  }
+
+  /**
+   * @summary Update a payment term of an order
+   * @see TapsilatSDK.updateOrderTerm
+   */
+  async updateTerm(
+    updateData: OrderPaymentTermUpdateDTO,
+    options?: RequestOptions
+  ): Promise<OrderPaymentTermActionResponse> {
+    // Validate required fields
+    if (!isNonEmptyString(updateData.term_reference_id)) {
+      throw new TapsilatValidationError(
+        "Term reference ID is required and must be a non-empty string",
+        { provided: updateData.term_reference_id }
+      );
+    }
+
+    // Validate optional amount if provided
+    if (updateData.amount !== undefined) {
+      if (!isPositiveNumber(updateData.amount)) {
+        throw new TapsilatValidationError("Amount must be a positive number", {
+          provided: updateData.amount,
+        });
+      }
+
+      if (!hasValidDecimalPlaces(updateData.amount)) {
+        throw new TapsilatValidationError(
+          "Amount must have maximum 2 decimal places",
+          { provided: updateData.amount }
+        );
+      }
+    }
+
+    // Validate optional term sequence if provided
+    if (updateData.term_sequence !== undefined) {
+      if (!isInteger(updateData.term_sequence)) {
+        throw new TapsilatValidationError("Term sequence must be an integer", {
+          provided: updateData.term_sequence,
+        });
+      }
+    }
+
+    // Validate optional required field if provided
+    if (
+      updateData.required !== undefined &&
+      typeof updateData.required !== "boolean"
+    ) {
+      throw new TapsilatValidationError("Required field must be a boolean", {
+        provided: updateData.required,
+      });
+    }
+
+    try {
+      const updateTermResponse =
+        await this.httpClient.patch<OrderPaymentTermActionResponse>(
+          "/order/term",
+          updateData,
+          options
+        );
+
+      return handleResponse(updateTermResponse, "Payment term update");
+    } catch (error: unknown) {
+      return handleError(error, "payment term update");
+    }
+  }
+
+  /**
+   * @summary Delete a payment term of an order
+   * @see TapsilatSDK.deleteOrderTerm
+   */
+  async deleteTerm(
+    deleteData: PaymentTermDeleteRequest,
+    options?: RequestOptions
+  ): Promise<OrderPaymentTermActionResponse> {
+    // Validate required fields
+    if (!isNonEmptyString(deleteData.term_reference_id)) {
+      throw new TapsilatValidationError(
+        "Term reference ID is required and must be a non-empty string",
+        { provided: deleteData.term_reference_id }
+      );
+    }
+
+    try {
+      const deleteTermResponse =
+        await this.httpClient.delete<OrderPaymentTermActionResponse>(
+          "/order/term",
+          deleteData,
+          options
+        );
+
+      return handleResponse(deleteTermResponse, "Payment term deletion");
+    } catch (error: unknown) {
+      return handleError(error, "payment term deletion");
+    }
+  }
+
+  /**
+   * @summary Refund a payment term of an order
+   * @see TapsilatSDK.refundOrderTerm
+   */
+  async refundTerm(
+    refundData: OrderTermRefundRequest,
+    options?: RequestOptions
+  ): Promise<Idempotent<PaymentTermRefundResponse>> {
+    // Validate required fields
+    if (!isNonEmptyString(refundData.term_id)) {
+      throw new TapsilatValidationError(
+        "Term ID is required and must be a non-empty string",
+        { provided: refundData.term_id }
+      );
+    }
+
+    if (!isPositiveNumber(refundData.amount)) {
+      throw new TapsilatValidationError("Amount must be a positive number", {
+        provided: refundData.amount,
+      });
+    }
+
+    if (!hasValidDecimalPlaces(refundData.amount)) {
+      throw new TapsilatValidationError(
+        "Amount must have maximum 2 decimal places",
+        { provided: refundData.amount }
+      );
+    }
+
+    try {
+      const refundTermResponse =
+        await this.httpClient.post<PaymentTermRefundResponse>(
+          "/order/term/refund",
+          refundData,
+          options
+        );
+
+      return withIdempotency(
+        handleResponse(refundTermResponse, "Payment term refund"),
+        refundTermResponse
+      );
+    } catch (error: unknown) {
+      return handleError(error, "payment term refund");
+    }
+  }
+
+  /**
+   * @summary Get a payment term by its reference ID
+   * @see TapsilatSDK.getOrderTerm
+   */
+  async getTerm(
+    termReferenceId: string,
+    options?: RequestOptions
+  ): Promise<GetOrderTermResponse> {
+    if (!isNonEmptyString(termReferenceId)) {
+      throw new TapsilatValidationError(
+        "Term Reference ID is required and must be a non-empty string"
+      );
+    }
+    try {
+      const orderTermResponse = await this.httpClient.get<GetOrderTermResponse>(
+        `/order/term`,
+        { params: { term_reference_id: termReferenceId }, ...options }
+      );
+      return handleResponse(orderTermResponse, "Get order term");
+    } catch (error: unknown) {
+      return handleError(error, "get order term");
+    }
+  }
+
+  /**
+   * @summary Terminate a payment term of an order
+   * @see TapsilatSDK.terminateOrderTerm
+   */
+  async terminateTerm(
+    terminateData: PaymentTermTerminateRequest,
+    options?: RequestOptions
+  ): Promise<PaymentTermResponse> {
+    // Validate required fields
+    if (!isNonEmptyString(terminateData.term_reference_id)) {
+      throw new TapsilatValidationError(
+        "Term reference ID is required and must be a non-empty string",
+        { provided: terminateData.term_reference_id }
+      );
+    }
+
+    try {
+      const terminateTermResponse =
+        await this.httpClient.post<PaymentTermResponse>(
+          "/order/term/terminate",
+          terminateData,
+          options
+        );
+
+      return handleResponse(terminateTermResponse, "Payment term termination");
+    } catch (error: unknown) {
+      return handleError(error, "payment term termination");
+    }
+  }
+
+  /**
+   * @summary Terminate an order
+   * @see TapsilatSDK.terminateOrder
+   */
+  async terminate(
+    terminateData: OrderTerminateRequest,
+    options?: RequestOptions
+  ): Promise<OrderTerminateResponse> {
+    // Validate required fields
+    if (!isNonEmptyString(terminateData.reference_id)) {
+      throw new TapsilatValidationError(
+        "Reference ID is required and must be a non-empty string",
+        { provided: terminateData.reference_id }
+      );
+    }
+
+    try {
+      const terminateOrderResponse =
+        await this.httpClient.post<OrderTerminateResponse>(
+          "/order/terminate",
+          terminateData,
+          options
+        );
+
+      return handleResponse(terminateOrderResponse, "Order termination");
+    } catch (error: unknown) {
+      return handleError(error, "order termination");
+    }
+  }
+
+  /**
+   * @summary List the payments of an order
+   * @see TapsilatSDK.getOrderPayments
+   */
+  async getPayments(
+    request: GetOrderPaymentsRequest,
+    options?: RequestOptions
+  ): Promise<GetOrderPaymentsResponse> {
+    try {
+      const response = await this.httpClient.get<GetOrderPaymentsResponse>(
+        `/order/${request.order_id}/payment`,
+        options
+      );
+      return handleResponse(response, "Get order payments");
+    } catch (error) {
+      return handleError(error, "get order payments");
+    }
+  }
+
+  /**
+   * @summary Get the PDF of an order
+   * @see TapsilatSDK.getOrderPdf
+   */
+  async getPdf(id: string, options?: RequestOptions): Promise<Blob> {
+    if (!isNonEmptyString(id)) {
+      throw new TapsilatValidationError(
+        "Order id is required and must be a non-empty string",
+        { provided: id }
+      );
+    }
+    try {
+      const response = await this.httpClient.get<Blob>(`/order/${id}/pdf`, {
+        responseType: "blob",
+        ...options,
+      });
+      return handleResponse(response, "Get order pdf");
+    } catch (error: unknown) {
+      return handleError(error, "get order pdf");
+    }
+  }
+
+  /**
+   * @summary Get the Excel export of an order
+   * @see TapsilatSDK.getOrderExcel
+   */
+  async getExcel(id: string, options?: RequestOptions): Promise<Blob> {
+    if (!isNonEmptyString(id)) {
+      throw new TapsilatValidationError(
+        "Order id is required and must be a non-empty string",
+        { provided: id }
+      );
+    }
+    try {
+      const response = await this.httpClient.get<Blob>(`/order/${id}/excel`, {
+        responseType: "blob",
+        ...options,
+      });
+      return handleResponse(response, "Get order excel");
+    } catch (error: unknown) {
+      return handleError(error, "get order excel");
+    }
+  }
+
+  /**
+   * @summary Stream the PDF of an order
+   * @see TapsilatSDK.downloadOrderPdf
+   */
+  async downloadPdf(
+    id: string,
+    options?: RequestOptions
+  ): Promise<FileDownload> {
+    if (!isNonEmptyString(id)) {
+      throw new TapsilatValidationError(
+        "Order id is required and must be a non-empty string",
+        { provided: id }
+      );
+    }
+    try {
+      const response = await this.httpClient.get<ReadableStream<Uint8Array>>(
+        `/order/${id}/pdf`,
+        { responseType: "stream", ...options }
+      );
+      if (!response.success) {
+        handleResponse(response, "Download order pdf");
+      }
+      return new FileDownload(response.data, response.headers, `${id}.pdf`);
+    } catch (error: unknown) {
+      return handleError(error, "download order pdf");
+    }
+  }
+
+  /**
+   * @summary Stream the Excel export of an order
+   * @see TapsilatSDK.downloadOrderExcel
+   */
+  async downloadExcel(
+    id: string,
+    options?: RequestOptions
+  ): Promise<FileDownload> {
+    if (!isNonEmptyString(id)) {
+      throw new TapsilatValidationError(
+        "Order id is required and must be a non-empty string",
+        { provided: id }
+      );
+    }
+    try {
+      const response = await this.httpClient.get<ReadableStream<Uint8Array>>(
+        `/order/${id}/excel`,
+        { responseType: "stream", ...options }
+      );
+      if (!response.success) {
+        handleResponse(response, "Download order excel");
+      }
+      return new FileDownload(response.data, response.headers, `${id}.xlsx`);
+    } catch (error: unknown) {
+      return handleError(error, "download order excel");
+    }
+  }
+
+  /**
+   * @summary Create a refund request for an order
+   * @see TapsilatSDK.createOrderRefundRequest
+   */
+  async createRefundRequest(
+    request: RefundOrderDTO,
+    options?: RequestOptions
+  ): Promise<OrderRefundResponse> {
+    try {
+      const { reference_id, ...data } = request;
+      const response = await this.httpClient.post<OrderRefundResponse>(
+        `/order/${reference_id}/refund/request`,
+        data as Record<string, unknown>,
+        options
+      );
+      return handleResponse(response, "Create order refund request");
+    } catch (error) {
+      return handleError(error, "create order refund request");
+    }
+  }
+
+  /**
+   * @summary Add OIP information to an order
+   * @see TapsilatSDK.addOrderOip
+   */
+  async addOip(
+    request: OrderOIPDTO,
+    options?: RequestOptions
+  ): Promise<OrderOIPResponse> {
+    try {
+      const { order_id, ...data } = request;
+      const response = await this.httpClient.post<OrderOIPResponse>(
+        `/order/${order_id}/oip`,
+        data as Record<string, unknown>,
+        options
+      );
+      return handleResponse(response, "Add order OIP");
+    } catch (error) {
+      return handleError(error, "add order oip");
+    }
+  }
+
+  /**
+   * @summary Charge an order with a saved card
+   * @see TapsilatSDK.chargeOrder
+   */
+  async charge(
+    request: OrderChargeRequest,
+    options?: RequestOptions
+  ): Promise<Idempotent<OrderChargeResponse>> {
+    try {
+      const response = await this.httpClient.post<OrderChargeResponse>(
+        `/order/charge`,
+        request,
+        options
+      );
+      return withIdempotency(
+        handleResponse(response, "Charge order"),
+        response
+      );
+    } catch (error: unknown) {
+      return handleError(error, "charge order");
+    }
+  }
+
+  /**
+   * @summary List the payments of all orders
+   * @see TapsilatSDK.getAllOrdersPayments
+   */
+  async allPayments(
+    options?: RequestOptions
+  ): Promise<GetOrderPaymentsResponse> {
+    try {
+      const response = await this.httpClient.get<GetOrderPaymentsResponse>(
+        "/orders/payments",
+        options
+      );
+      return handleResponse(response, "Get all orders payments");
+    } catch (error: unknown) {
+      return handleError(error, "get all orders payments");
+    }
+  }
+
+  /**
+   * Resolves a checkout URL returned by the API against the checkout domain
+   *
+   * @param url - Absolute URL, or path relative to the checkout domain
+   * @returns Absolute checkout URL
+   */
+  private async toCheckoutUrl(url: string): Promise<string> {
+    if (!url.startsWith("/")) {
+      return url;
+    }
+    const { checkoutDomain } = await this.getEnvironment();
+    return toAbsoluteUrl(url, checkoutDomain);
+  }
+}
@@ -0,0 +1,583 @@
+/**
+ * @category Resources
+ * @module OrganizationResource
+ */
+import type { HttpClient } from "../http/HttpClient";
+import { Resource } from "./Resource";
+import { TapsilatValidationError } from "../errors/TapsilatError";
+import { isInteger, isNonEmptyString } from "../utils/validators";
+import { handleError, handleResponse } from "../utils/response";
+import {
+  CallbackURLDTO,
+  CreateOrganizationCurrencyPayload,
+  CreateOrganizationCurrencyResponse,
+  GetMetaResponse,
+  GetOrganizationCurrenciesResponse,
+  GetOrganizationCurrencyPresetsResponse,
+  GetOrganizationLimitsByIdResponse,
+  GetOrganizationLimitsResponse,
+  GetOrganizationPartnersResponse,
+  GetOrganizationScopesResponse,
+  GetSubOrganizationListResponse,
+  GetSuborganizationDetailsResponse,
+  GetSuborganizationSubmerchantsResponse,
+  GetSuborganizationsRequest,
+  GetUserLimitRequest,
+  GetUserLimitResponse,
+  GetVposRequest,
+  GetVposResponse,
+  OrgCreateBusinessRequest,
+  OrgCreateBusinessResponse,
+  OrgCreateUserRequest,
+  OrgCreateUserResponse,
+  OrgUserMobileVerifyRequest,
+  OrgUserMobileVerifyResponse,
+  OrgUserTokenCreateReq,
+  OrgUserTokenCreateResponse,
+  OrgUserVerifyRequest,
+  OrgUserVerifyResponse,
+  OrganizationResponse,
+  OrganizationSettings,
+  RequestOptions,
+  SetLimitUserRequest,
+  SetLimitUserResponse,
+} from "../types/index";
+
+/**
+ * @category Resources
+ * @summary Organization operations, available as `sdk.organization`
+ * @description Sends each operation with the given HTTP client; the flat methods of `TapsilatSDK`
+ * call these methods
+ *
+ * @example
+ * ```typescript
+ * const organization = new OrganizationResource(new HttpClient(config));
+ * const settings = await organization.settings();
+ * ```
+ * @class OrganizationResource
+ */
+export class OrganizationResource extends Resource {
+  /**
+   * @param httpClient - HTTP client the operations are sent with
+   */
+  constructor(httpClient: HttpClient) {
+    super(httpClient, "organization");
+  }
+
+  /**
+   * @summary Get the settings of the organization
+   * @see TapsilatSDK.getOrganizationSettings
+   */
+  async settings(options?: RequestOptions): Promise<OrganizationSettings> {
+    try {
+      const organizationSettingsResponse =
+        await this.httpClient.get<OrganizationSettings>(
+          "/organization/settings",
+          options
+        );
+      return handleResponse(
+        organizationSettingsResponse,
+        "Get organization settings"
+      );
+    } catch (error: unknown) {
+      return handleError(error, "get organization settings");
+    }
+  }
+
+  /**
+   * @summary Get the callback URLs of the organization
+   * @see TapsilatSDK.getOrganizationCallback
+   */
+  async callback(options?: RequestOptions): Promise<CallbackURLDTO> {
+    try {
+      const organizationCallbackResponse =
+        await this.httpClient.get<CallbackURLDTO>(
+          "/organization/callback",
+          options
+        );
+      return handleResponse(
+        organizationCallbackResponse,
+        "Get organization callback"
+      );
+    } catch (error: unknown) {
+      return handleError(error, "get organization callback");
+    }
+  }
+
+  /**
+   * @summary Update the callback URLs of the organization
+   * @see TapsilatSDK.updateOrganizationCallback
+   */
+  async updateCallback(
+    request: CallbackURLDTO,
+    options?: RequestOptions
+  ): Promise<OrganizationResponse> {
+    try {
+      const organizationCallbackResponse =
+        await this.httpClient.patch<OrganizationResponse>(
+          "/organization/callback",
+          request,
+          options
+        );
+      return handleResponse(
+        organizationCallbackResponse,
+        "Update organization callback"
+      );
+    } catch (error: unknown) {
+      return handleError(error, "update organization callback");
+    }
+  }
+
+  /**
+   * @summary Create a business under the organization
+   * @see TapsilatSDK.createOrganizationBusiness
+   */
+  async createBusiness(
+    request: OrgCreateBusinessRequest,
+    options?: RequestOptions
+  ): Promise<OrgCreateBusinessResponse> {
+    try {
+      const organizationBusinessResponse =
+        await this.httpClient.post<OrgCreateBusinessResponse>(
+          "/organization/business/create",
+          request,
+          options
+        );
+      return handleResponse(
+        organizationBusinessResponse,
+        "Create organization business"
+      );
+    } catch (error: unknown) {
+      return handleError(error, "create organization business");
+    }
+  }
+
+  /**
+   * @summary List the currencies of the organization
+   * @see TapsilatSDK.getOrganizationCurrencies
+   */
+  async currencies(
+    options?: RequestOptions
+  ): Promise<GetOrganizationCurrenciesResponse> {
+    try {
+      const organizationCurrenciesResponse =
+        await this.httpClient.get<GetOrganizationCurrenciesResponse>(
+          "/organization/currencies",
+          options
+        );
+      return handleResponse(
+        organizationCurrenciesResponse,
+        "Get organization currencies"
+      );
+    } catch (error: unknown) {
+      return handleError(error, "get organization currencies");
+    }
+  }
+
+  /**
+   * @summary Get the limits of a user
+   * @see TapsilatSDK.getOrganizationLimitUser
+   */
+  async getLimitUser(
+    request: GetUserLimitRequest,
+    options?: RequestOptions
+  ): Promise<GetUserLimitResponse> {
+    try {
+      const organizationLimitUserResponse =
+        await this.httpClient.get<GetUserLimitResponse>(
+          "/organization/limit/user",
+          { params: request, ...options }
+        );
+      return handleResponse(
+        organizationLimitUserResponse,
+        "Get organization user limit"
+      );
+    } catch (error: unknown) {
+      return handleError(error, "get organization user limit");
+    }
+  }
+
+  /**
+   * @summary Set the limits of a user
+   * @see TapsilatSDK.setOrganizationLimitUser
+   */
+  async setLimitUser(
+    request: SetLimitUserRequest,
+    options?: RequestOptions
+  ): Promise<SetLimitUserResponse> {
+    try {
+      const organizationLimitUserResponse =
+        await this.httpClient.post<SetLimitUserResponse>(
+          "/organization/limit/user",
+          request,
+          options
+        );
+      return handleResponse(
+        organizationLimitUserResponse,
+        "Set organization user limit"
+      );
+    } catch (error: unknown) {
+      return handleError(error, "set organization user limit");
+    }
+  }
+
+  /**
+   * @summary Get the limits of the organization
+   * @see TapsilatSDK.getOrganizationLimits
+   */
+  async limits(
+    options?: RequestOptions
+  ): Promise<GetOrganizationLimitsResponse> {
+    try {
+      const organizationLimitsResponse =
+        await this.httpClient.get<GetOrganizationLimitsResponse>(
+          "/organization/limits",
+          options
+        );
+      return handleResponse(
+        organizationLimitsResponse,
+        "Get organization limits"
+      );
+    } catch (error: unknown) {
+      return handleError(error, "get organization limits");
+    }
+  }
+
+  /**
+   * @summary Get an organization metadata entry by name
+   * @see TapsilatSDK.getOrganizationMeta
+   */
+  async meta(name: string, options?: RequestOptions): Promise<GetMetaResponse> {
+    if (!isNonEmptyString(name)) {
+      throw new TapsilatValidationError(
+        "Meta name is required and must be a non-empty string"
+      );
+    }
+    try {
+      const organizationMetaResponse =
+        await this.httpClient.get<GetMetaResponse>(
+          `/organization/meta/${name}`,
+          options
+        );
+      return handleResponse(organizationMetaResponse, "Get organization meta");
+    } catch (error: unknown) {
+      return handleError(error, "get organization meta");
+    }
+  }
+
+  /**
+   * @summary List the scopes of the organization
+   * @see TapsilatSDK.getOrganizationScopes
+   */
+  async scopes(
+    options?: RequestOptions
+  ): Promise<GetOrganizationScopesResponse> {
+    try {
+      const organizationScopesResponse =
+        await this.httpClient.get<GetOrganizationScopesResponse>(
+          "/organization/scopes",
+          options
+        );
+      return handleResponse(
+        organizationScopesResponse,
+        "Get organization scopes"
+      );
+    } catch (error: unknown) {
+      return handleError(error, "get organization scopes");
+    }
+  }
+
+  /**
+   * @summary List the suborganizations page by page
+   * @see TapsilatSDK.getOrganizationSuborganizations
+   */
+  async suborganizations(
+    params: GetSuborganizationsRequest = {},
+    options?: RequestOptions
+  ): Promise<GetSubOrganizationListResponse> {
+    if (params.page !== undefined) {
+      if (!isInteger(params.page) || params.page < 1) {
+        throw new TapsilatValidationError(
+          "Suborganization page must be a positive integer",
+          { provided: params.page }
+        );
+      }
+    }
+    if (params.per_page !== undefined) {
+      if (!isInteger(params.per_page) || params.per_page < 1) {
+        throw new TapsilatValidationError(
+          "Suborganization per_page must be a positive integer",
+          { provided: params.per_page }
+        );
+      }
+    }
+    try {
+      const organizationSuborganizationsResponse =
+        await this.httpClient.get<GetSubOrganizationListResponse>(
+          "/organization/suborganizations",
+          { params: params as Record<string, unknown>, ...options }
+        );
+      return handleResponse(
+        organizationSuborganizationsResponse,
+        "Get organization suborganizations"
+      );
+    } catch (error: unknown) {
+      return handleError(error, "get organization suborganizations");
+    }
+  }
+
+  /**
+   * @summary Create a user in the organization
+   * @see TapsilatSDK.createOrganizationUser
+   */
+  async createUser(
+    request: OrgCreateUserRequest,
+    options?: RequestOptions
+  ): Promise<OrgCreateUserResponse> {
+    try {
+      const organizationUserResponse =
+        await this.httpClient.post<OrgCreateUserResponse>(
+          "/organization/user/create",
+          request,
+          options
+        );
+      return handleResponse(
+        organizationUserResponse,
+        "Create organization user"
+      );
+    } catch (error: unknown) {
+      return handleError(error, "create organization user");
+    }
+  }
+
+  /**
+   * @summary Verify a user of the organization
+   * @see TapsilatSDK.verifyOrganizationUser
+   */
+  async verifyUser(
+    request: OrgUserVerifyRequest,
+    options?: RequestOptions
+  ): Promise<OrgUserVerifyResponse> {
+    try {
+      const organizationUserVerifyResponse =
+        await this.httpClient.post<OrgUserVerifyResponse>(
+          "/organization/user/verify",
+          request,
+          options
+        );
+      return handleResponse(
+        organizationUserVerifyResponse,
+        "Verify organization user"
+      );
+    } catch (error: unknown) {
+      return handleError(error, "verify organization user");
+    }
+  }
+
+  /**
+   * @summary Verify the mobile number of a user of the organization
+   * @see TapsilatSDK.verifyOrganizationUserMobile
+   */
+  async verifyUserMobile(
+    request: OrgUserMobileVerifyRequest,
+    options?: RequestOptions
+  ): Promise<OrgUserMobileVerifyResponse> {
+    try {
+      const organizationUserMobileVerifyResponse =
+        await this.httpClient.post<OrgUserMobileVerifyResponse>(
+          "/organization/user/verify-mobile",
+          request,
+          options
+        );
+      return handleResponse(
+        organizationUserMobileVerifyResponse,
+        "Verify organization user mobile"
+      );
+    } catch (error: unknown) {
+      return handleError(error, "verify organization user mobile");
+    }
+  }
+
+  /**
+   * @summary List the virtual POS of the organization
+   * @see TapsilatSDK.listOrganizationVpos
+   */
+  async listVpos(
+    request: GetVposRequest,
+    options?: RequestOptions
+  ): Promise<GetVposResponse> {
+    try {
+      const organizationVposResponse =
+        await this.httpClient.post<GetVposResponse>(
+          "/organization/list-vpos",
+          request,
+          options
+        );
+      return handleResponse(organizationVposResponse, "List organization VPOs");
+    } catch (error: unknown) {
+      return handleError(error, "list organization VPOs");
+    }
+  }
+
+  /**
+   * @summary List the currency presets of the organization
+   * @see TapsilatSDK.getOrganizationCurrencyPresets
+   */
+  async currencyPresets(
+    options?: RequestOptions
+  ): Promise<GetOrganizationCurrencyPresetsResponse> {
+    try {
+      const response =
+        await this.httpClient.get<GetOrganizationCurrencyPresetsResponse>(
+          "/organization/currency-presets",
+          options
+        );
+      return handleResponse(response, "Get organization currency presets");
+    } catch (error: unknown) {
+      return handleError(error, "get organization currency presets");
+    }
+  }
+
+  /**
+   * @summary Get the details of a suborganization
+   * @see TapsilatSDK.getOrganizationSuborganizationDetails
+   */
+  async suborganizationDetails(
+    id: string,
+    options?: RequestOptions
+  ): Promise<GetSuborganizationDetailsResponse> {
+    if (!isNonEmptyString(id))
+      throw new TapsilatValidationError(
+        "ID is required and must be a non-empty string"
+      );
+
+    try {
+      const response =
+        await this.httpClient.get<GetSuborganizationDetailsResponse>(
+          `/organization/suborganizations/${id}`,
+          options
+        );
+      return handleResponse(response, "Get suborganization details");
+    } catch (error: unknown) {
+      return handleError(error, "get suborganization details");
+    }
+  }
+
+  /**
+   * @summary List the submerchants of a suborganization
+   * @see TapsilatSDK.getOrganizationSuborganizationSubmerchants
+   */
+  async suborganizationSubmerchants(
+    id: string,
+    options?: RequestOptions
+  ): Promise<GetSuborganizationSubmerchantsResponse> {
+    if (!isNonEmptyString(id))
+      throw new TapsilatValidationError(
+        "ID is required and must be a non-empty string"
+      );
+
+    try {
+      const response =
+        await this.httpClient.get<GetSuborganizationSubmerchantsResponse>(
+          `/organization/suborganizations/${id}/submerchant`,
+          options
+        );
+      return handleResponse(response, "Get suborganization submerchants");
+    } catch (error: unknown) {
+      return handleError(error, "get suborganization submerchants");
+    }
+  }
+
+  /**
+   * @summary Create an API token for a user of the organization
+   * @see TapsilatSDK.createOrganizationUserToken
+   */
+  async createUserToken(
+    request: OrgUserTokenCreateReq,
+    options?: RequestOptions
+  ): Promise<OrgUserTokenCreateResponse> {
+    try {
+      const response = await this.httpClient.post<OrgUserTokenCreateResponse>(
+        `/organization/user/token`,
+        request as unknown as Record<string, unknown>,
+        options
+      );
+      return handleResponse(response, "Create organization user token");
+    } catch (error) {
+      return handleError(error, "create organization user token");
+    }
+  }
+
+  /**
+   * @summary Add a currency to the organization
+   * @see TapsilatSDK.createOrganizationCurrency
+   */
+  async createCurrency(
+    payload: CreateOrganizationCurrencyPayload,
+    options?: RequestOptions
+  ): Promise<CreateOrganizationCurrencyResponse> {
+    try {
+      const response =
+        await this.httpClient.post<CreateOrganizationCurrencyResponse>(
+          "/organization/currencies",
+          payload,
+          options
+        );
+      return handleResponse(response, "Create organization currency");
+    } catch (error: unknown) {
+      return handleError(error, "create organization currency");
+    }
+  }
+
+  /**
+   * @summary List the partners of the organization
+   * @see TapsilatSDK.getOrganizationPartners
+   */
+  async partners(
+    options?: RequestOptions
+  ): Promise<GetOrganizationPartnersResponse> {
+    try {
+      const response =
+        await this.httpClient.get<GetOrganizationPartnersResponse>(
+          "/organization/partners",
+          options
+        );
+      return handleResponse(response, "Get organization partners");
+    } catch (error: unknown) {
+      return handleError(error, "get organization partners");
+    }
+  }
+
+  /**
+   * @summary Get the limits of an organization by its ID
+   * @see TapsilatSDK.getOrganizationLimitsById
+   */
+  async limitsById(
+    id: string,
+    params?: { currency?: string; operation?: string },
+    options?: RequestOptions
+  ): Promise<GetOrganizationLimitsByIdResponse> {
+    if (!isNonEmptyString(id)) {
+      throw new TapsilatValidationError(
+        "ID is required and must be a non-empty string"
+      );
+    }
+    try {
+      const queryParams = new URLSearchParams();
+      if (params?.currency) queryParams.append("currency", params.currency);
+      if (params?.operation) queryParams.append("operation", params.operation);
+
+      const queryString = queryParams.toString();
+      const url = `/organization/${id}/limits${queryString ? `?${queryString}` : ""}`;
+
+      const response =
+        await this.httpClient.get<GetOrganizationLimitsByIdResponse>(
+          url,
+          options
+        );
+      return handleResponse(response, "Get organization limits by ID");
+    } catch (error: unknown) {
+      return handleError(error, "get organization limits by ID");
+    }
+  }
+}
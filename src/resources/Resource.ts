@@ -0,0 +1,60 @@
+/**
+ * @category Resources
+ * @module Resource
+ */
+import type { HttpClient } from "../http/HttpClient";
+import { getReferenceId, OPERATIONS } from "../http/operations";
+import { traceOperation } from "../http/tracing";
+import { Span } from "../types/index";
+
+/**
+ * @category Resources
+ * @summary Base class of the namespaced resources
+ * @description Binds each method listed in `OPERATIONS` under the resource's namespace to its
+ * operation description. Each call runs against a view of the HTTP client bound to the operation,
+ * so metrics use the route template and, with a tracer, the attempt spans, status, retry count
+ * and error code are recorded on a `tapsilat.<operation>` span. The tracer is read from the
+ * client at call time, so configuration updates apply to the operation spans too.
+ * @class Resource
+ */
+export abstract class Resource {
+  /**
+   * @param httpClient - HTTP client the operations are sent with
+   * @param namespace - Namespace of the resource's operations, such as `orders`
+   */
+  protected constructor(
+    protected readonly httpClient: HttpClient,
+    namespace: string
+  ) {
+    for (const info of Object.values(OPERATIONS)) {
+      const [operationNamespace, methodName] = info.name.split(".");
+      if (operationNamespace !== namespace) {
+        continue;
+      }
+      const method = Reflect.get(this, methodName) as (
+        ...args: unknown[]
+      ) => Promise<unknown>;
+      Object.defineProperty(this, methodName, {
+        configurable: true,
+        writable: true,
+        value: function (this: Resource, ...args: unknown[]): Promise<unknown> {
+          const run = (span?: Span): Promise<unknown> =>
+            method.apply(
+              Object.create(this, {
+                httpClient: {
+                  value: this.httpClient.withOperation({
+                    info,
+                    referenceId: getReferenceId(info, args),
+                    span,
+                  }),
+                },
+              }),
+              args
+            );
+          const tracer = this.httpClient.getTracer();
+          return tracer ? traceOperation(tracer, info, args, run) : run();
+        },
+      });
+    }
+  }
+}
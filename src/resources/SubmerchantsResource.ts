@@ -0,0 +1,155 @@
+/**
+ * @category Resources
+ * @module SubmerchantsResource
+ */
+import type { HttpClient } from "../http/HttpClient";
+import { Resource } from "./Resource";
+import { handleError, handleResponse } from "../utils/response";
+import {
+  GetSubmerchantResponse,
+  ListSubmerchantsResponse,
+  RequestOptions,
+  SubmerchantCreateDTO,
+  SubmerchantUpdateDTO,
+} from "../types/index";
+
+/**
+ * @category Resources
+ * @summary Submerchant operations, available as `sdk.submerchant`
+ * @description Sends each operation with the given HTTP client; the flat methods of `TapsilatSDK`
+ * call these methods
+ *
+ * @example
+ * ```typescript
+ * const submerchants = new SubmerchantsResource(new HttpClient(config));
+ * const submerchant = await submerchants.get("submerchant-id");
+ * ```
+ * @class SubmerchantsResource
+ */
+export class SubmerchantsResource extends Resource {
+  /**
+   * @param httpClient - HTTP client the operations are sent with
+   */
+  constructor(httpClient: HttpClient) {
+    super(httpClient, "submerchant");
+  }
+
+  /**
+   * @summary Create a submerchant
+   * @see TapsilatSDK.createSubmerchant
+   */
+  async create(
+    request: SubmerchantCreateDTO,
+    options?: RequestOptions
+  ): Promise<GetSubmerchantResponse> {
+    try {
+      const response = await this.httpClient.post<GetSubmerchantResponse>(
+        `/submerchants`,
+        request as unknown as Record<string, unknown>,
+        options
+      );
+      return handleResponse(response, "Create submerchant");
+    } catch (error) {
+      return handleError(error, "create submerchant");
+    }
+  }
+
+  /**
+   * @summary Get a submerchant by its ID
+   * @see TapsilatSDK.getSubmerchant
+   */
+  async get(
+    id: string,
+    options?: RequestOptions
+  ): Promise<GetSubmerchantResponse> {
+    try {
+      const response = await this.httpClient.get<GetSubmerchantResponse>(
+        `/submerchants/${id}`,
+        options
+      );
+      return handleResponse(response, "Get submerchant");
+    } catch (error) {
+      return handleError(error, "get submerchant");
+    }
+  }
+
+  /**
+   * @summary Get the suborganization of a submerchant
+   * @see TapsilatSDK.getSuborganizationBySubmerchant
+   */
+  async getSuborganization(
+    id: string,
+    options?: RequestOptions
+  ): Promise<unknown> {
+    try {
+      const response = await this.httpClient.get<unknown>(
+        `/submerchants/${id}/suborganization`,
+        options
+      );
+      return handleResponse(response, "Get suborganization by submerchant");
+    } catch (error) {
+      return handleError(error, "get suborganization by submerchant");
+    }
+  }
+
+  /**
+   * @summary Update a submerchant
+   * @see TapsilatSDK.updateSubmerchant
+   */
+  async update(
+    id: string,
+    request: SubmerchantUpdateDTO,
+    options?: RequestOptions
+  ): Promise<GetSubmerchantResponse> {
+    try {
+      const response = await this.httpClient.put<GetSubmerchantResponse>(
+        `/submerchants/${id}`,
+        request as Record<string, unknown>,
+        options
+      );
+      return handleResponse(response, "Update submerchant");
+    } catch (error) {
+      return handleError(error, "update submerchant");
+    }
+  }
+
+  /**
+   * @summary Delete a submerchant
+   * @see TapsilatSDK.deleteSubmerchant
+   */
+  async delete(id: string, options?: RequestOptions): Promise<unknown> {
+    try {
+      const response = await this.httpClient.delete<unknown>(
+        `/submerchants/${id}`,
+        options
+      );
+      return handleResponse(response, "Delete submerchant");
+    } catch (error) {
+      return handleError(error, "delete submerchant");
+    }
+  }
+
+  /**
+   * @summary List submerchants page by page
+   * @see TapsilatSDK.listSubmerchants
+   */
+  async list(
+    page?: number,
+    perPage?: number,
+    options?: RequestOptions
+  ): Promise<ListSubmerchantsResponse> {
+    try {
+      const params: Record<string, unknown> = {};
+      if (page) params.page = page;
+      if (perPage) params.per_page = perPage;
+
+      const response = await this.httpClient.get<ListSubmerchantsResponse>(
+        `/submerchants`,
+        { params, ...options }
+      );
+      return handleResponse(response, "List submerchants");
+    } catch (error) {
+      return handleError(error, "list submerchants");
+    }
+  }
+}
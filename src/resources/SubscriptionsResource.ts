@@ -0,0 +1,186 @@
+/**
+ * @category Resources
+ * @module SubscriptionsResource
+ */
+import type { HttpClient } from "../http/HttpClient";
+import { Resource } from "./Resource";
+import { handleError, handleResponse } from "../utils/response";
+import { toAbsoluteUrl } from "../config/environments";
+import {
+  CancelSubscriptionResponse,
+  ListSubscriptionsRequest,
+  ListSubscriptionsResponse,
+  RequestOptions,
+  SubscriptionCancelRequest,
+  SubscriptionCreateRequest,
+  SubscriptionCreateResponse,
+  SubscriptionDetail,
+  SubscriptionGetRequest,
+  SubscriptionRedirectRequest,
+  SubscriptionRedirectResponse,
+  TapsilatEnvironment,
+} from "../types/index";
+
+/**
+ * @category Resources
+ * @summary Subscription operations, available as `sdk.subscriptions`
+ * @description Sends each operation with the given HTTP client; the flat methods of `TapsilatSDK`
+ * call these methods
+ *
+ * @example
+ * ```typescript
+ * const subscriptions = new SubscriptionsResource(new HttpClient(config));
+ * const { rows } = await subscriptions.list({ page: 1, per_page: 20 });
+ * ```
+ * @class SubscriptionsResource
+ */
+export class SubscriptionsResource extends Resource {
+  /**
+   * @param httpClient - HTTP client the operations are sent with
+   * @param getEnvironment - Resolves the domains of relative subscription URLs; defaults to the
+   * environment of the client's configuration
+   */
+  constructor(
+    httpClient: HttpClient,
+    private readonly getEnvironment = async (): Promise<TapsilatEnvironment> =>
+      httpClient.getEnvironment()
+  ) {
+    super(httpClient, "subscriptions");
+  }
+
+  /**
+   * @summary Create a subscription
+   * @see TapsilatSDK.createSubscription
+   */
+  async create(
+    request: SubscriptionCreateRequest,
+    options?: RequestOptions
+  ): Promise<SubscriptionCreateResponse> {
+    try {
+      const subcriptionCreateResponse =
+        await this.httpClient.post<SubscriptionCreateResponse>(
+          "/subscription/create",
+          request,
+          options
+        );
+      return handleResponse(subcriptionCreateResponse, "Create subscription");
+    } catch (error: unknown) {
+      return handleError(error, "create subscription");
+    }
+  }
+
+  /**
+   * @summary Get a subscription by its reference or external reference ID
+   * @see TapsilatSDK.getSubscription
+   */
+  async get(
+    request: SubscriptionGetRequest,
+    options?: RequestOptions
+  ): Promise<SubscriptionDetail> {
+    try {
+      const subscriptionDetailResponse =
+        await this.httpClient.post<SubscriptionDetail>(
+          "/subscription",
+          request,
+          options
+        );
+      const data = handleResponse(
+        subscriptionDetailResponse,
+        "Get subscription"
+      );
+
+      if (data.orders) {
+        data.orders.forEach((order) => {
+          if (order.payment_url && !order.payment_url.startsWith("http")) {
+            order.payment_url = `https://${order.payment_url}`;
+          }
+        });
+      }
+
+      return data;
+    } catch (error: unknown) {
+      return handleError(error, "get subscription");
+    }
+  }
+
+  /**
+   * @summary List subscriptions page by page
+   * @see TapsilatSDK.listSubscriptions
+   */
+  async list(
+    params: ListSubscriptionsRequest = {},
+    options?: RequestOptions
+  ): Promise<ListSubscriptionsResponse> {
+    try {
+      const listSubscriptionsResponse =
+        await this.httpClient.get<ListSubscriptionsResponse>(
+          "/subscription/list",
+          { params, ...options }
+        );
+
+      return handleResponse(listSubscriptionsResponse, "List subscriptions");
+    } catch (error: unknown) {
+      return handleError(error, "list subscriptions");
+    }
+  }
+
+  /**
+   * @summary Cancel a subscription
+   * @see TapsilatSDK.cancelSubscription
+   */
+  async cancel(
+    request: SubscriptionCancelRequest,
+    options?: RequestOptions
+  ): Promise<CancelSubscriptionResponse> {
+    try {
+      const subscriptionCancelResponse =
+        await this.httpClient.post<CancelSubscriptionResponse>(
+          "/subscription/cancel",
+          request,
+          options
+        );
+      return handleResponse(subscriptionCancelResponse, "Cancel subscription");
+    } catch (error: unknown) {
+      return handleError(error, "cancel subscription");
+    }
+  }
+
+  /**
+   * @summary Get the hosted page URL of a subscription
+   * @see TapsilatSDK.redirectSubscription
+   */
+  async redirect(
+    request: SubscriptionRedirectRequest,
+    options?: RequestOptions
+  ): Promise<SubscriptionRedirectResponse> {
+    try {
+      const subscriptionRedirectResponse =
+        await this.httpClient.post<SubscriptionRedirectResponse>(
+          "/subscription/redirect",
+          request,
+          options
+        );
+      const data = handleResponse(
+        subscriptionRedirectResponse,
+        "Redirect subscription"
+      );
+
+      if (data.url) {
+        // Extract subscription ID from the signed URL to create a clean link
+        // api returns: /token/subscription/{id}
+        // we want: {subscriptionDomain}/?reference_id={id}
+        const { subscriptionDomain } = await this.getEnvironment();
+        const match = data.url.match(/\/subscription\/([a-f0-9-]{36})$/);
+        if (match) {
+          data.url = `${subscriptionDomain}/?reference_id=${match[1]}`;
+        } else {
+          data.url = toAbsoluteUrl(data.url, subscriptionDomain);
+        }
+      }
+
+      return data;
+    } catch (error: unknown) {
+      return handleError(error, "redirect subscription");
+    }
+  }
+}
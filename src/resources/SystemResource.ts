@@ -0,0 +1,263 @@
+/**
+ * @category Resources
+ * @module SystemResource
+ */
+import type { HttpClient } from "../http/HttpClient";
+import { Resource } from "./Resource";
+import { TapsilatError } from "../errors/TapsilatError";
+import { handleError, handleResponse } from "../utils/response";
+import {
+  GetSystemBasketItemTypesResponse,
+  GetSystemConfigResponse,
+  GetSystemErrorCodesResponse,
+  GetSystemOrderStatusesResponse,
+  GetSystemPaymentTermStatusesResponse,
+  GetSystemProductTypesResponse,
+  GetSystemShortcutTypesResponse,
+  GetSystemTransactionPaymentTypesResponse,
+  GetSystemTransactionPurposesResponse,
+  GetSystemTransactionStatusesResponse,
+  RequestOptions,
+} from "../types/index";
+
+/**
+ * @category Resources
+ * @summary Reference data of the platform, available as `sdk.system`
+ * @description Sends each operation with the given HTTP client; the flat methods of `TapsilatSDK`
+ * call these methods
+ *
+ * @example
+ * ```typescript
+ * const system = new SystemResource(new HttpClient(config));
+ * const statuses = await system.orderStatuses();
+ * ```
+ * @class SystemResource
+ */
+export class SystemResource extends Resource {
+  /**
+   * @param httpClient - HTTP client the operations are sent with
+   */
+  constructor(httpClient: HttpClient) {
+    super(httpClient, "system");
+  }
+
+  /**
+   * @summary List the order statuses
+   * @see TapsilatSDK.getSystemOrderStatuses
+   */
+  async orderStatuses(
+    options?: RequestOptions
+  ): Promise<GetSystemOrderStatusesResponse> {
+    try {
+      const getSystemOrderStatusesResponse =
+        await this.httpClient.get<GetSystemOrderStatusesResponse>(
+          "/system/order-statuses",
+          options
+        );
+      return handleResponse(
+        getSystemOrderStatusesResponse,
+        "Get system order statuses"
+      );
+    } catch (error: unknown) {
+      return handleError(error, "get system order statuses");
+    }
+  }
+
+  /**
+   * @summary List the basket item types
+   * @see TapsilatSDK.getSystemBasketItemTypes
+   */
+  async basketItemTypes(
+    options?: RequestOptions
+  ): Promise<GetSystemBasketItemTypesResponse> {
+    try {
+      const response =
+        await this.httpClient.get<GetSystemBasketItemTypesResponse>(
+          "/system/basket-item-types",
+          options
+        );
+      return handleResponse(response, "Get system basket item types");
+    } catch (error: unknown) {
+      return handleError(error, "get system basket item types");
+    }
+  }
+
+  /**
+   * @summary List the error codes
+   * @see TapsilatSDK.getSystemErrorCodes
+   */
+  async errorCodes(
+    options?: RequestOptions
+  ): Promise<GetSystemErrorCodesResponse> {
+    try {
+      const response = await this.httpClient.get<GetSystemErrorCodesResponse>(
+        "/system/error-codes",
+        options
+      );
+      return handleResponse(response, "Get system error codes");
+    } catch (error: unknown) {
+      return handleError(error, "get system error codes");
+    }
+  }
+
+  /**
+   * @summary List the payment term statuses
+   * @see TapsilatSDK.getSystemPaymentTermStatuses
+   */
+  async paymentTermStatuses(
+    options?: RequestOptions
+  ): Promise<GetSystemPaymentTermStatusesResponse> {
+    try {
+      const response =
+        await this.httpClient.get<GetSystemPaymentTermStatusesResponse>(
+          "/system/payment-term-statuses",
+          options
+        );
+      return handleResponse(response, "Get system payment term statuses");
+    } catch (error: unknown) {
+      return handleError(error, "get system payment term statuses");
+    }
+  }
+
+  /**
+   * @summary List the product types
+   * @see TapsilatSDK.getSystemProductTypes
+   */
+  async productTypes(
+    options?: RequestOptions
+  ): Promise<GetSystemProductTypesResponse> {
+    try {
+      const response = await this.httpClient.get<GetSystemProductTypesResponse>(
+        "/system/product-types",
+        options
+      );
+      return handleResponse(response, "Get system product types");
+    } catch (error: unknown) {
+      return handleError(error, "get system product types");
+    }
+  }
+
+  /**
+   * @summary List the shortcut types
+   * @see TapsilatSDK.getSystemShortcutTypes
+   */
+  async shortcutTypes(
+    options?: RequestOptions
+  ): Promise<GetSystemShortcutTypesResponse> {
+    try {
+      const response =
+        await this.httpClient.get<GetSystemShortcutTypesResponse>(
+          "/system/shortcut-types",
+          options
+        );
+      return handleResponse(response, "Get system shortcut types");
+    } catch (error: unknown) {
+      return handleError(error, "get system shortcut types");
+    }
+  }
+
+  /**
+   * @summary List the transaction payment types
+   * @see TapsilatSDK.getSystemTransactionPaymentTypes
+   */
+  async transactionPaymentTypes(
+    options?: RequestOptions
+  ): Promise<GetSystemTransactionPaymentTypesResponse> {
+    try {
+      const response =
+        await this.httpClient.get<GetSystemTransactionPaymentTypesResponse>(
+          "/system/transaction-payment-types",
+          options
+        );
+      return handleResponse(response, "Get system transaction payment types");
+    } catch (error: unknown) {
+      return handleError(error, "get system transaction payment types");
+    }
+  }
+
+  /**
+   * @summary List the transaction purposes
+   * @see TapsilatSDK.getSystemTransactionPurposes
+   */
+  async transactionPurposes(
+    options?: RequestOptions
+  ): Promise<GetSystemTransactionPurposesResponse> {
+    try {
+      const response =
+        await this.httpClient.get<GetSystemTransactionPurposesResponse>(
+          "/system/transaction-purposes",
+          options
+        );
+      return handleResponse(response, "Get system transaction purposes");
+    } catch (error: unknown) {
+      return handleError(error, "get system transaction purposes");
+    }
+  }
+
+  /**
+   * @summary List the transaction statuses
+   * @see TapsilatSDK.getSystemTransactionStatuses
+   */
+  async transactionStatuses(
+    options?: RequestOptions
+  ): Promise<GetSystemTransactionStatusesResponse> {
+    try {
+      const response =
+        await this.httpClient.get<GetSystemTransactionStatusesResponse>(
+          "/system/transaction-statuses",
+          options
+        );
+      return handleResponse(response, "Get system transaction statuses");
+    } catch (error: unknown) {
+      return handleError(error, "get system transaction statuses");
+    }
+  }
+
+  /**
+   * @summary Get the platform configuration
+   * @see TapsilatSDK.getSystemConfig
+   */
+  async config(options?: RequestOptions): Promise<GetSystemConfigResponse> {
+    try {
+      const response = await this.httpClient.get<GetSystemConfigResponse>(
+        "/system/config",
+        options
+      );
+      return handleResponse(response, "Get system config");
+    } catch (error: unknown) {
+      return handleError(error, "get system config");
+    }
+  }
+
+  /**
+   * @summary Check that the API is available
+   * @see TapsilatSDK.healthCheck
+   */
+  async health(
+    options?: RequestOptions
+  ): Promise<{ status: string; timestamp: string }> {
+    try {
+      // We use the direct /health endpoint which returns plain string "OK"
+      const healthCheckResponse = await this.httpClient.get<string>(
+        "/health",
+        options
+      );
+      const healthData = handleResponse(healthCheckResponse, "Health check");
+
+      // The API returns "OK" string, verify consistency
+      if (healthData !== "OK") {
+        throw new TapsilatError(
+          `Unexpected health check response: ${healthData}`,
+          "HEALTH_CHECK_INVALID_RESPONSE"
+        );
+      }
+
+      return {
+        status: "UP",
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error: unknown) {
+      return handleError(error, "health check");
+    }
+  }
+}
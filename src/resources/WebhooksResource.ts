@@ -0,0 +1,46 @@
+/**
+ * @category Resources
+ * @module WebhooksResource
+ */
+import { TapsilatValidationError } from "../errors/TapsilatError";
+import { isNonEmptyString } from "../utils/validators";
+import { verifyHmacSignature } from "../utils/verify";
+
+/**
+ * @category Resources
+ * @summary Webhook helpers, available as `sdk.webhooks`
+ * @description Verification runs locally and sends no request
+ *
+ * @example
+ * ```typescript
+ * const webhooks = new WebhooksResource();
+ * const isValid = await webhooks.verify(rawBody, signature, secret);
+ * ```
+ * @class WebhooksResource
+ */
+export class WebhooksResource {
+  /**
+   * @summary Verify the HMAC signature of a webhook payload
+   * @see TapsilatSDK.verifyWebhook
+   */
+  async verify(
+    payload: string,
+    signature: string,
+    secret: string
+  ): Promise<boolean> {
+    if (!isNonEmptyString(payload))
+      throw new TapsilatValidationError(
+        "Webhook payload is required and must be a non-empty string"
+      );
+    if (!isNonEmptyString(signature))
+      throw new TapsilatValidationError(
+        "Webhook signature is required and must be a non-empty string"
+      );
+    if (!isNonEmptyString(secret))
+      throw new TapsilatValidationError(
+        "Webhook secret is required and must be a non-empty string"
+      );
+
+    return verifyHmacSignature(payload, signature, secret);
+  }
+}
@@ -0,0 +1,842 @@
+/**
+ * @category Response Schemas
+ * @module ResponseSchemas
+ */
+import {
+  AddBasketItemResponse,
+  CallbackURLDTO,
+  CancelOrderResponse,
+  CancelSubscriptionResponse,
+  CreateOrganizationCurrencyResponse,
+  GetMetaResponse,
+  GetOrderPaymentDetailsResponse,
+  GetOrderPaymentsResponse,
+  GetOrderResponse,
+  GetOrdersResponse,
+  GetOrderSubmerchantsResponse,
+  GetOrderTermResponse,
+  GetOrderTransactionsResponse,
+  GetOrganizationCurrenciesResponse,
+  GetOrganizationCurrencyPresetsResponse,
+  GetOrganizationLimitsByIdResponse,
+  GetOrganizationLimitsResponse,
+  GetOrganizationPartnersResponse,
+  GetOrganizationScopesResponse,
+  GetSubmerchantResponse,
+  GetSubOrganizationListResponse,
+  GetSuborganizationDetailsResponse,
+  GetSuborganizationSubmerchantsResponse,
+  GetSystemConfigResponse,
+  GetSystemErrorCodesResponse,
+  GetSystemOrderStatusesResponse,
+  GetUserLimitResponse,
+  GetVposResponse,
+  ListSubmerchantsResponse,
+  ListSubscriptionsResponse,
+  OrderAccountingResponse,
+  OrderCallbackResponse,
+  OrderChargeResponse,
+  OrderCreateResponse,
+  OrderManualCallbackResponse,
+  OrderOIPResponse,
+  OrderPaymentTermActionResponse,
+  OrderPostAuthResponse,
+  OrderRefundResponse,
+  OrderRelatedUpdateResponse,
+  OrderStatusResponse,
+  OrderTerminateResponse,
+  OrderVposQueryResponse,
+  OrganizationResponse,
+  OrganizationSettings,
+  OrgCreateBusinessResponse,
+  OrgCreateUserResponse,
+  OrgUserMobileVerifyResponse,
+  OrgUserTokenCreateResponse,
+  OrgUserVerifyResponse,
+  PaymentTermRefundResponse,
+  PaymentTermResponse,
+  RemoveBasketItemResponse,
+  SetLimitUserResponse,
+  SubscriptionCreateResponse,
+  SubscriptionDetail,
+  SubscriptionRedirectResponse,
+  UpdateBasketItemResponse,
+} from "../types/index";
+import { Schema, schema } from "./schema";
+
+const { object, array, optional, union, literal } = schema;
+
+// Most response fields are optional, so these are the common field schemas
+const optionalString = optional(schema.string);
+const optionalNumber = optional(schema.number);
+const optionalBoolean = optional(schema.boolean);
+
+// Responses that only acknowledge an action
+const codeMessage = object({
+  code: optionalNumber,
+  message: optionalString,
+});
+
+const codeMessageSuccess = object({
+  code: optionalNumber,
+  is_success: optionalBoolean,
+  message: optionalString,
+});
+
+// Responses whose fields are not documented; only their shape is checked
+const looseObject = object({});
+
+const page = {
+  page: optionalNumber,
+  per_page: optionalNumber,
+  total: optionalNumber,
+  total_pages: optionalNumber,
+};
+
+// SHARED DTOS
+// Summary: Schemas of objects nested in several responses
+// Description: Mirror the DTO interfaces in the types module
+const metadata = object({ key: schema.string, value: schema.string });
+
+const basketItemPayment = object({
+  amount: optionalNumber,
+  card_brand: optionalString,
+  id: optionalString,
+  masked_bin: optionalString,
+  paid_date: optionalString,
+  refundable_amount: optionalNumber,
+  refunded: optionalBoolean,
+  refunded_amount: optionalNumber,
+  refunded_date: optionalString,
+  status: optionalNumber,
+  type: optionalString,
+});
+
+const basketItemPayer = object({
+  address: optionalString,
+  reference_id: optionalString,
+  tax_office: optionalString,
+  title: optionalString,
+  type: optionalString,
+  vat: optionalString,
+  name: optionalString,
+  surname: optionalString,
+  identity_number: optionalString,
+  email: optionalString,
+  phone: optionalString,
+});
+
+const basketItem = object({
+  category1: optionalString,
+  category2: optionalString,
+  commission_amount: optionalNumber,
+  coupon: optionalString,
+  coupon_discount: optionalNumber,
+  data: optionalString,
+  id: optionalString,
+  item_payments: optional(array(basketItemPayment)),
+  item_type: optionalString,
+  mcc: optionalString,
+  name: optionalString,
+  paid_amount: optionalNumber,
+  paidable_amount: optionalNumber,
+  payer: optional(basketItemPayer),
+  price: optionalNumber,
+  quantity: optionalNumber,
+  quantity_float: optionalNumber,
+  quantity_unit: optionalString,
+  refundable_amount: optionalNumber,
+  refunded_amount: optionalNumber,
+  status: optionalNumber,
+  sub_merchant_key: optionalString,
+  sub_merchant_price: optionalString,
+});
+
+const billingAddress = object({
+  address: optionalString,
+  billing_type: optionalString,
+  citizenship: optionalString,
+  city: optionalString,
+  contact_name: optionalString,
+  contact_phone: optionalString,
+  country: optionalString,
+  district: optionalString,
+  neighbourhood: optionalString,
+  street1: optionalString,
+  street2: optionalString,
+  street3: optionalString,
+  tax_office: optionalString,
+  title: optionalString,
+  vat_number: optionalString,
+  zip_code: optionalString,
+});
+
+const buyer = object({
+  name: schema.string,
+  surname: schema.string,
+  birth_date: optionalString,
+  city: optionalString,
+  country: optionalString,
+  email: optionalString,
+  gsm_number: optionalString,
+  id: optionalString,
+  identity_number: optionalString,
+  ip: optionalString,
+  last_login_date: optionalString,
+  registration_address: optionalString,
+  registration_date: optionalString,
+  title: optionalString,
+  zip_code: optionalString,
+  income_type: optionalString,
+  education: optionalString,
+  occupation: optionalString,
+});
+
+const checkoutDesign = object({
+  placeholder_color: optionalString,
+  input_background_color: optionalString,
+  input_text_color: optionalString,
+  label_text_color: optionalString,
+  left_background_color: optionalString,
+  logo: optionalString,
+  order_detail_html: optionalString,
+  pay_button_color: optionalString,
+  redirect_url: optionalString,
+  right_background_color: optionalString,
+  text_color: optionalString,
+});
+
+const paymentTerm = object({
+  hash_id: optionalString,
+  id: optionalNumber,
+  payments: optional(array(schema.unknown)),
+  amount: optionalNumber,
+  data: optionalString,
+  due_date: optionalString,
+  paid_date: optionalString,
+  required: optionalBoolean,
+  status: optionalString,
+  term_reference_id: optionalString,
+  term_sequence: optionalNumber,
+});
+
+const shippingAddress = object({
+  address: optionalString,
+  city: optionalString,
+  contact_name: optionalString,
+  country: optionalString,
+  shipping_date: optionalString,
+  tracking_code: optionalString,
+  zip_code: optionalString,
+});
+
+const timestamp = object({
+  nanos: optionalNumber,
+  seconds: optionalNumber,
+});
+
+const userLimit = {
+  currency: optionalString,
+  id: optionalString,
+  max_daily_transaction_amount: optionalNumber,
+  max_daily_transaction_count: optionalNumber,
+  max_expense_amount: optionalNumber,
+  max_income_amount: optionalNumber,
+  max_monthly_transaction_amount: optionalNumber,
+  max_monthly_transaction_count: optionalNumber,
+  max_topup_amount: optionalNumber,
+  max_wallet_balance: optionalNumber,
+  max_withdrawal_amount: optionalNumber,
+};
+
+const idName = object({ id: optionalString, name: optionalString });
+
+// System lookups share one row shape
+const systemRows = object({
+  rows: optional(
+    array(
+      object({
+        code: optional(union(schema.string, schema.number)),
+        message: optionalString,
+      })
+    )
+  ),
+});
+
+// ORDER RESPONSES
+// Summary: Schemas of the order, payment term and basket responses
+// Description: Each is declared with the response type it checks, so the two cannot drift apart
+export const orderCreateResponseSchema: Schema<OrderCreateResponse> = object({
+  code: optionalNumber,
+  id: optionalString,
+  message: optionalString,
+  organization_id: optionalString,
+  order_id: optionalString,
+  reference_id: schema.string,
+  checkout_url: optionalString,
+  conversation_id: optionalString,
+  status: optionalString,
+  qr_code_url: optionalString,
+});
+
+export const getOrderResponseSchema: Schema<GetOrderResponse> = object({
+  amount: optionalString,
+  basket_items: optional(array(basketItem)),
+  billing_address: optional(billingAddress),
+  buyer: optional(buyer),
+  checkout_design: optional(checkoutDesign),
+  checkout_url: optionalString,
+  conversation_id: optionalString,
+  created_at: optionalString,
+  currency: optionalString,
+  external_reference_id: optionalString,
+  locale: optionalString,
+  metadata: optional(array(metadata)),
+  paid_amount: optionalString,
+  payment_failure_url: optionalString,
+  payment_options: optional(array(schema.string)),
+  payment_success_url: optionalString,
+  payment_terms: optional(array(paymentTerm)),
+  redirect_failure_url: optionalString,
+  redirect_success_url: optionalString,
+  reference_id: optionalString,
+  refunded_amount: optionalString,
+  shipping_address: optional(shippingAddress),
+  status: optionalNumber,
+  status_enum: optionalString,
+  total: optionalString,
+});
+
+export const getOrdersResponseSchema: Schema<GetOrdersResponse> = object({
+  ...page,
+  rows: optional(
+    array(
+      object({
+        checkout_url: optionalString,
+        email: optionalString,
+        id: optionalString,
+        metadata: optional(array(metadata)),
+        name: optionalString,
+        organization: optionalString,
+        organization_id: optionalString,
+        paid_amount: optionalNumber,
+        paid_term_count: optionalNumber,
+        reference_id: optionalString,
+        refund_date: optionalString,
+        status: optionalNumber,
+        total: optionalString,
+        total_term_count: optionalNumber,
+        unpaid_amount: optionalNumber,
+      })
+    )
+  ),
+});
+
+export const cancelOrderResponseSchema: Schema<CancelOrderResponse> = object({
+  is_success: optionalBoolean,
+  message: optionalString,
+  status: optionalString,
+});
+
+export const orderStatusResponseSchema: Schema<OrderStatusResponse> = object({
+  error_code: optionalString,
+  status: optionalString,
+});
+
+export const orderRefundResponseSchema: Schema<OrderRefundResponse> = object({
+  is_success: optionalBoolean,
+  message: optionalString,
+  refundId: optionalString,
+  referenceId: optionalString,
+  status: optionalString,
+  amount: optionalNumber,
+  currency: optional(literal("TRY", "USD", "EUR", "GBP")),
+  createdAt: optionalString,
+});
+
+export const getOrderPaymentDetailsResponseSchema: Schema<GetOrderPaymentDetailsResponse> =
+  object({
+    conversation_id: optionalString,
+    id: optionalString,
+    order: optional(
+      object({
+        id: optionalString,
+        paid_date: optionalString,
+        paid_date_timestamp: optionalNumber,
+        reference_id: optionalString,
+        refunded_amount: optionalNumber,
+        status: optionalString,
+      })
+    ),
+    order_payment_status: optional(
+      object({
+        acquirere_response: optionalString,
+        code: optionalString,
+        expiry_month: optionalString,
+        expiry_year: optionalString,
+        is_error: optionalBoolean,
+        masked_pan: optionalString,
+        message: optionalString,
+      })
+    ),
+    organization_id: optionalString,
+    paymentDetails: optional(
+      object({
+        auth_code: optionalString,
+        batch_no: optionalString,
+        card_holder_name: optionalString,
+        card_number: optionalString,
+        is_three_ds: optionalBoolean,
+        mdstatus: optionalString,
+        order_id: optionalString,
+        payment_id: optionalString,
+        payment_transaction_id: optionalString,
+        reference_id: optionalString,
+        rrn: optionalString,
+      })
+    ),
+    rule: optional(idName),
+    vpos: optional(
+      object({
+        acquirer: optionalString,
+        bank_code: optionalString,
+        commission_rate: optionalString,
+        id: optionalString,
+        name: optionalString,
+      })
+    ),
+    vposResponse: optionalString,
+  });
+
+export const orderCallbackResponseSchema: Schema<OrderCallbackResponse> =
+  looseObject;
+
+export const orderRelatedUpdateResponseSchema: Schema<OrderRelatedUpdateResponse> =
+  codeMessageSuccess;
+
+export const orderVposQueryResponseSchema: Schema<OrderVposQueryResponse> =
+  looseObject;
+
+export const getOrderTransactionsResponseSchema: Schema<GetOrderTransactionsResponse> =
+  object({
+    orderTX: optional(
+      array(
+        object({
+          amount: optionalString,
+          amount_float: optionalNumber,
+          currency: optionalString,
+          date: optionalString,
+          id: optionalString,
+          receiver: optionalString,
+          reference_id: optionalString,
+          sender: optionalString,
+          status: optionalString,
+        })
+      )
+    ),
+  });
+
+export const getOrderSubmerchantsResponseSchema: Schema<GetOrderSubmerchantsResponse> =
+  object({
+    ...page,
+    row: optional(
+      array(
+        object({
+          acquirer: optionalString,
+          email: optionalString,
+          id: optionalString,
+          labels: optionalString,
+          name: optionalString,
+          status: optionalString,
+          submerchant_key: optionalString,
+          submerchant_type: optionalString,
+        })
+      )
+    ),
+  });
+
+export const orderAccountingResponseSchema: Schema<OrderAccountingResponse> =
+  codeMessage;
+
+export const orderPostAuthResponseSchema: Schema<OrderPostAuthResponse> =
+  codeMessageSuccess;
+
+export const orderPaymentTermActionResponseSchema: Schema<OrderPaymentTermActionResponse> =
+  codeMessage;
+
+export const paymentTermRefundResponseSchema: Schema<PaymentTermRefundResponse> =
+  object({
+    code: optionalNumber,
+    is_success: optionalBoolean,
+    message: optionalString,
+    refund_id: optionalString,
+    term_reference_id: optionalString,
+    amount: optionalNumber,
+    status: optionalString,
+    created_at: optionalString,
+    refund_reference_id: optionalString,
+  });
+
+export const paymentTermResponseSchema: Schema<PaymentTermResponse> = object({
+  term_reference_id: schema.string,
+  order_id: schema.string,
+  amount: schema.number,
+  due_date: schema.string,
+  status: schema.string,
+  term_sequence: schema.number,
+  required: schema.boolean,
+  created_at: schema.string,
+  updated_at: optionalString,
+  paid_date: optionalString,
+  data: optionalString,
+});
+
+export const getOrderTermResponseSchema: Schema<GetOrderTermResponse> = object({
+  amount: optionalNumber,
+  due_date: optional(timestamp),
+  paid_date: optional(timestamp),
+  required: optionalBoolean,
+  status: optionalString,
+  term_sequence: optionalNumber,
+});
+
+export const orderTerminateResponseSchema: Schema<OrderTerminateResponse> =
+  object({
+    code: optionalNumber,
+    message: optionalString,
+    reference_id: optionalString,
+    status: optionalString,
+    terminated_at: optionalString,
+    reason: optionalString,
+  });
+
+export const orderManualCallbackResponseSchema: Schema<OrderManualCallbackResponse> =
+  codeMessage;
+
+export const addBasketItemResponseSchema: Schema<AddBasketItemResponse> =
+  codeMessage;
+
+export const removeBasketItemResponseSchema: Schema<RemoveBasketItemResponse> =
+  codeMessage;
+
+export const updateBasketItemResponseSchema: Schema<UpdateBasketItemResponse> =
+  codeMessage;
+
+export const getOrderPaymentsResponseSchema: Schema<GetOrderPaymentsResponse> =
+  looseObject;
+
+export const orderOIPResponseSchema: Schema<OrderOIPResponse> = looseObject;
+
+export const orderChargeResponseSchema: Schema<OrderChargeResponse> =
+  looseObject;
+
+// SUBSCRIPTION RESPONSES
+// Summary: Schemas of the subscription responses
+// Description: Amounts of subscriptions are sent as strings
+export const subscriptionCreateResponseSchema: Schema<SubscriptionCreateResponse> =
+  object({
+    code: optionalNumber,
+    message: optionalString,
+    order_reference_id: optionalString,
+    reference_id: optionalString,
+  });
+
+export const subscriptionDetailSchema: Schema<SubscriptionDetail> = object({
+  amount: optionalString,
+  currency: optionalString,
+  due_date: optionalString,
+  external_reference_id: optionalString,
+  is_active: optionalBoolean,
+  orders: optional(
+    array(
+      object({
+        amount: optionalString,
+        currency: optionalString,
+        payment_date: optionalString,
+        payment_url: optionalString,
+        reference_id: optionalString,
+        status: optionalString,
+      })
+    )
+  ),
+  payment_date: optionalNumber,
+  payment_status: optionalString,
+  period: optionalNumber,
+  title: optionalString,
+});
+
+export const listSubscriptionsResponseSchema: Schema<ListSubscriptionsResponse> =
+  object({
+    ...page,
+    rows: optional(
+      array(
+        object({
+          amount: optionalString,
+          currency: optionalString,
+          external_reference_id: optionalString,
+          is_active: optionalBoolean,
+          payment_date: optionalNumber,
+          payment_status: optionalString,
+          period: optionalNumber,
+          reference_id: optionalString,
+          title: optionalString,
+        })
+      )
+    ),
+  });
+
+export const cancelSubscriptionResponseSchema: Schema<CancelSubscriptionResponse> =
+  codeMessage;
+
+export const subscriptionRedirectResponseSchema: Schema<SubscriptionRedirectResponse> =
+  object({ url: optionalString });
+
+// ORGANIZATION RESPONSES
+// Summary: Schemas of the organization, user and submerchant responses
+// Description: Several of these endpoints are undocumented and only checked to be objects
+export const organizationSettingsSchema: Schema<OrganizationSettings> = object({
+  ttl: optionalNumber,
+  retry_count: optionalNumber,
+  allow_payment: optionalBoolean,
+  session_ttl: optionalNumber,
+  custom_checkout: optionalBoolean,
+  domain_address: optionalString,
+  checkout_domain: optionalString,
+  subscription_domain: optionalString,
+});
+
+export const callbackURLSchema: Schema<CallbackURLDTO> = object({
+  callback_url: optionalString,
+  cancel_callback_url: optionalString,
+  fail_callback_url: optionalString,
+  refund_callback_url: optionalString,
+});
+
+export const organizationResponseSchema: Schema<OrganizationResponse> = object({
+  message: optionalString,
+});
+
+export const orgCreateBusinessResponseSchema: Schema<OrgCreateBusinessResponse> =
+  codeMessage;
+
+export const getOrganizationCurrenciesResponseSchema: Schema<GetOrganizationCurrenciesResponse> =
+  object({
+    currencies: optional(
+      array(
+        object({
+          code: optionalString,
+          currency_unit: optionalString,
+          id: optionalString,
+          name: optionalString,
+          symbol: optionalString,
+        })
+      )
+    ),
+  });
+
+export const getOrganizationCurrencyPresetsResponseSchema: Schema<GetOrganizationCurrencyPresetsResponse> =
+  object({
+    presets: optional(
+      array(
+        object({
+          id: optionalString,
+          name: optionalString,
+          code: optionalString,
+        })
+      )
+    ),
+  });
+
+export const getSuborganizationDetailsResponseSchema: Schema<GetSuborganizationDetailsResponse> =
+  looseObject;
+
+export const getSuborganizationSubmerchantsResponseSchema: Schema<GetSuborganizationSubmerchantsResponse> =
+  looseObject;
+
+export const getUserLimitResponseSchema: Schema<GetUserLimitResponse> = object({
+  user_limits: optional(array(object(userLimit))),
+});
+
+export const setLimitUserResponseSchema: Schema<SetLimitUserResponse> =
+  codeMessage;
+
+export const getOrganizationLimitsResponseSchema: Schema<GetOrganizationLimitsResponse> =
+  object({
+    limits: optional(array(object({ ...userLimit, name: optionalString }))),
+  });
+
+export const getMetaResponseSchema: Schema<GetMetaResponse> = object({
+  data: optionalString,
+});
+
+export const getOrganizationScopesResponseSchema: Schema<GetOrganizationScopesResponse> =
+  object({
+    scopes: optional(
+      array(
+        object({
+          create: optionalBoolean,
+          delete: optionalBoolean,
+          entity: optionalString,
+          read: optionalBoolean,
+          update: optionalBoolean,
+        })
+      )
+    ),
+  });
+
+export const getSubOrganizationListResponseSchema: Schema<GetSubOrganizationListResponse> =
+  object({ ...page, rows: optional(array(idName)) });
+
+export const orgCreateUserResponseSchema: Schema<OrgCreateUserResponse> =
+  object({
+    code: optionalNumber,
+    message: optionalString,
+    user_id: optionalString,
+  });
+
+export const orgUserVerifyResponseSchema: Schema<OrgUserVerifyResponse> =
+  codeMessage;
+
+export const orgUserMobileVerifyResponseSchema: Schema<OrgUserMobileVerifyResponse> =
+  codeMessage;
+
+export const getVposResponseSchema: Schema<GetVposResponse> = object({
+  organization_vpos: optional(array(idName)),
+});
+
+export const orgUserTokenCreateResponseSchema: Schema<OrgUserTokenCreateResponse> =
+  looseObject;
+
+export const createOrganizationCurrencyResponseSchema: Schema<CreateOrganizationCurrencyResponse> =
+  looseObject;
+
+export const getOrganizationPartnersResponseSchema: Schema<GetOrganizationPartnersResponse> =
+  looseObject;
+
+export const getOrganizationLimitsByIdResponseSchema: Schema<GetOrganizationLimitsByIdResponse> =
+  looseObject;
+
+export const getSubmerchantResponseSchema: Schema<GetSubmerchantResponse> =
+  looseObject;
+
+export const getSubmerchantSuborganizationResponseSchema: Schema<unknown> =
+  looseObject;
+
+export const deleteSubmerchantResponseSchema: Schema<unknown> = looseObject;
+
+export const listSubmerchantsResponseSchema: Schema<ListSubmerchantsResponse> =
+  object({
+    data: optional(array(schema.unknown)),
+    total: optionalNumber,
+    page: optionalNumber,
+    per_page: optionalNumber,
+  });
+
+// SYSTEM RESPONSES
+// Summary: Schemas of the platform's reference data
+// Description: The lookups return rows of codes and messages
+export const getSystemOrderStatusesResponseSchema: Schema<GetSystemOrderStatusesResponse> =
+  object({
+    rows: optional(
+      array(object({ code: optionalNumber, message: optionalString }))
+    ),
+  });
+
+export const getSystemLookupResponseSchema: Schema<GetSystemErrorCodesResponse> =
+  systemRows;
+
+export const getSystemConfigResponseSchema: Schema<GetSystemConfigResponse> =
+  looseObject;
+
+// The health endpoint answers with plain text, checked for "OK" by the SDK
+export const healthCheckResponseSchema: Schema<string> = schema.string;
+
+/**
+ * @category Response Schemas
+ * @summary Schemas of the response bodies, keyed by operation name
+ * @description Operations that return files, or whose response is not JSON, have no schema.
+ * Names follow the namespaced accessors, such as `orders.get`.
+ */
+export const RESPONSE_SCHEMAS: Readonly<Record<string, Schema<unknown>>> = {
+  "orders.create": orderCreateResponseSchema,
+  "orders.get": getOrderResponseSchema,
+  "orders.checkoutUrl": getOrderResponseSchema,
+  "orders.byConversationId": getOrderResponseSchema,
+  "orders.list": getOrdersResponseSchema,
+  "orders.cancel": cancelOrderResponseSchema,
+  "orders.status": orderStatusResponseSchema,
+  "orders.refund": orderRefundResponseSchema,
+  "orders.refundAll": orderRefundResponseSchema,
+  "orders.createRefundRequest": orderRefundResponseSchema,
+  "orders.paymentDetails": getOrderPaymentDetailsResponseSchema,
+  "orders.paymentDetailsById": getOrderPaymentDetailsResponseSchema,
+  "orders.callback": orderCallbackResponseSchema,
+  "orders.updatePaymentOptions": orderRelatedUpdateResponseSchema,
+  "orders.splitItemPayment": orderRelatedUpdateResponseSchema,
+  "orders.relatedUpdate": orderRelatedUpdateResponseSchema,
+  "orders.vposQuery": orderVposQueryResponseSchema,
+  "orders.transactions": getOrderTransactionsResponseSchema,
+  "orders.submerchants": getOrderSubmerchantsResponseSchema,
+  "orders.accounting": orderAccountingResponseSchema,
+  "orders.postAuth": orderPostAuthResponseSchema,
+  "orders.createTerm": orderPaymentTermActionResponseSchema,
+  "orders.updateTerm": orderPaymentTermActionResponseSchema,
+  "orders.deleteTerm": orderPaymentTermActionResponseSchema,
+  "orders.refundTerm": paymentTermRefundResponseSchema,
+  "orders.terminateTerm": paymentTermResponseSchema,
+  "orders.getTerm": getOrderTermResponseSchema,
+  "orders.terminate": orderTerminateResponseSchema,
+  "orders.manualCallback": orderManualCallbackResponseSchema,
+  "orders.addBasketItem": addBasketItemResponseSchema,
+  "orders.removeBasketItem": removeBasketItemResponseSchema,
+  "orders.updateBasketItem": updateBasketItemResponseSchema,
+  "orders.getPayments": getOrderPaymentsResponseSchema,
+  "orders.allPayments": getOrderPaymentsResponseSchema,
+  "orders.addOip": orderOIPResponseSchema,
+  "orders.charge": orderChargeResponseSchema,
+  "subscriptions.create": subscriptionCreateResponseSchema,
+  "subscriptions.get": subscriptionDetailSchema,
+  "subscriptions.list": listSubscriptionsResponseSchema,
+  "subscriptions.cancel": cancelSubscriptionResponseSchema,
+  "subscriptions.redirect": subscriptionRedirectResponseSchema,
+  "organization.settings": organizationSettingsSchema,
+  "organization.callback": callbackURLSchema,
+  "organization.updateCallback": organizationResponseSchema,
+  "organization.createBusiness": orgCreateBusinessResponseSchema,
+  "organization.currencies": getOrganizationCurrenciesResponseSchema,
+  "organization.currencyPresets": getOrganizationCurrencyPresetsResponseSchema,
+  "organization.suborganizationDetails": getSuborganizationDetailsResponseSchema,
+  "organization.suborganizationSubmerchants":
+    getSuborganizationSubmerchantsResponseSchema,
+  "organization.getLimitUser": getUserLimitResponseSchema,
+  "organization.setLimitUser": setLimitUserResponseSchema,
+  "organization.limits": getOrganizationLimitsResponseSchema,
+  "organization.meta": getMetaResponseSchema,
+  "organization.scopes": getOrganizationScopesResponseSchema,
+  "organization.suborganizations": getSubOrganizationListResponseSchema,
+  "organization.createUser": orgCreateUserResponseSchema,
+  "organization.verifyUser": orgUserVerifyResponseSchema,
+  "organization.verifyUserMobile": orgUserMobileVerifyResponseSchema,
+  "organization.listVpos": getVposResponseSchema,
+  "organization.createUserToken": orgUserTokenCreateResponseSchema,
+  "organization.createCurrency": createOrganizationCurrencyResponseSchema,
+  "organization.partners": getOrganizationPartnersResponseSchema,
+  "organization.limitsById": getOrganizationLimitsByIdResponseSchema,
+  "submerchant.create": getSubmerchantResponseSchema,
+  "submerchant.get": getSubmerchantResponseSchema,
+  "submerchant.getSuborganization": getSubmerchantSuborganizationResponseSchema,
+  "submerchant.update": getSubmerchantResponseSchema,
+  "submerchant.delete": deleteSubmerchantResponseSchema,
+  "submerchant.list": listSubmerchantsResponseSchema,
+  "system.orderStatuses": getSystemOrderStatusesResponseSchema,
+  "system.basketItemTypes": getSystemLookupResponseSchema,
+  "system.errorCodes": getSystemLookupResponseSchema,
+  "system.paymentTermStatuses": getSystemLookupResponseSchema,
+  "system.productTypes": getSystemLookupResponseSchema,
+  "system.shortcutTypes": getSystemLookupResponseSchema,
+  "system.transactionPaymentTypes": getSystemLookupResponseSchema,
+  "system.transactionPurposes": getSystemLookupResponseSchema,
+  "system.transactionStatuses": getSystemLookupResponseSchema,
+  "system.config": getSystemConfigResponseSchema,
+  "system.health": healthCheckResponseSchema,
+};
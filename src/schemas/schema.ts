@@ -0,0 +1,173 @@
+/**
+ * @category Response Schemas
+ * @module Schema
+ */
+import { SchemaIssue } from "../types/index";
+
+/**
+ * @category Response Schemas
+ * @summary Runtime description of the values of type `T`
+ * @description `check` appends an issue for every value that does not match. `type` is never set;
+ * it only ties the schema to `T`, so that a schema declared as `Schema<GetOrderResponse>` fails
+ * to compile when it disagrees with the interface.
+ * @interface Schema
+ */
+export interface Schema<T> {
+  readonly expected: string;
+  check(value: unknown, path: string, issues: SchemaIssue[]): void;
+  readonly type?: T;
+}
+
+/**
+ * @category Response Schemas
+ * @summary Type of the values a schema accepts
+ * @typedef {object} Infer
+ */
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+
+const describe = (value: unknown): string => {
+  if (value === null) {
+    return "null";
+  }
+  return Array.isArray(value) ? "array" : typeof value;
+};
+
+const primitive = <T>(
+  expected: string,
+  test: (value: unknown) => boolean
+): Schema<T> => ({
+  expected,
+  check(value, path, issues): void {
+    if (!test(value)) {
+      issues.push({ path, expected, received: describe(value) });
+    }
+  },
+});
+
+// SCHEMA BUILDERS
+// Summary: Dependency-free building blocks of the response schemas
+// Description: Objects accept fields they do not describe, so new API fields are not reported
+/**
+ * @category Response Schemas
+ * @summary Builders of primitive, optional, array, union and object schemas
+ * @description Optional fields accept `null` as well as a missing value, since the API sends
+ * `null` for fields that are not set
+ *
+ * @example
+ * ```typescript
+ * const statusSchema = schema.object({
+ *   status: schema.optional(schema.string),
+ *   rows: schema.array(schema.object({ code: schema.number })),
+ * });
+ * validateSchema(statusSchema, { rows: [{ code: "1" }] });
+ * // [{ path: "$.rows[0].code", expected: "number", received: "string" }]
+ * ```
+ */
+export const schema = {
+  string: primitive<string>("string", (value) => typeof value === "string"),
+  number: primitive<number>(
+    "number",
+    (value) => typeof value === "number" && Number.isFinite(value)
+  ),
+  boolean: primitive<boolean>("boolean", (value) => typeof value === "boolean"),
+  unknown: primitive<unknown>("unknown", () => true),
+
+  literal<T extends string>(...values: T[]): Schema<T> {
+    const expected = values.map((value) => JSON.stringify(value)).join(" | ");
+    return {
+      expected,
+      check(value, path, issues): void {
+        if (!values.includes(value as T)) {
+          issues.push({
+            path,
+            expected,
+            received:
+              typeof value === "string"
+                ? JSON.stringify(value)
+                : describe(value),
+          });
+        }
+      },
+    };
+  },
+
+  optional<T>(inner: Schema<T>): Schema<T | undefined> {
+    return {
+      expected: inner.expected,
+      check(value, path, issues): void {
+        if (value !== undefined && value !== null) {
+          inner.check(value, path, issues);
+        }
+      },
+    };
+  },
+
+  array<T>(item: Schema<T>): Schema<T[]> {
+    return {
+      expected: `${item.expected}[]`,
+      check(value, path, issues): void {
+        if (!Array.isArray(value)) {
+          issues.push({ path, expected: "array", received: describe(value) });
+          return;
+        }
+        value.forEach((element, index) =>
+          item.check(element, `${path}[${index}]`, issues)
+        );
+      },
+    };
+  },
+
+  union<M extends Schema<unknown>[]>(...members: M): Schema<Infer<M[number]>> {
+    const expected = members.map((member) => member.expected).join(" | ");
+    return {
+      expected,
+      check(value, path, issues): void {
+        const matches = members.some((member) => {
+          const memberIssues: SchemaIssue[] = [];
+          member.check(value, path, memberIssues);
+          return memberIssues.length === 0;
+        });
+        if (!matches) {
+          issues.push({ path, expected, received: describe(value) });
+        }
+      },
+    };
+  },
+
+  object<S extends Shape>(shape: S): Schema<{ [K in keyof S]: Infer<S[K]> }> {
+    return {
+      expected: "object",
+      check(value, path, issues): void {
+        if (typeof value !== "object" || value === null || Array.isArray(value)) {
+          issues.push({ path, expected: "object", received: describe(value) });
+          return;
+        }
+        for (const [key, field] of Object.entries(shape)) {
+          field.check(
+            (value as Record<string, unknown>)[key],
+            `${path}.${key}`,
+            issues
+          );
+        }
+      },
+    };
+  },
+};
+
+/**
+ * @summary Check a value against a schema
+ *
+ * @param valueSchema - Schema the value should match
+ * @param value - Value to check, such as a parsed response body
+ * @returns Issues found, with JSON paths starting at `$`; empty when the value matches
+ */
+export const validateSchema = <T>(
+  valueSchema: Schema<T>,
+  value: unknown
+): SchemaIssue[] => {
+  const issues: SchemaIssue[] = [];
+  valueSchema.check(value, "$", issues);
+  return issues;
+};
@@ -0,0 +1,358 @@
+/**
+ * @category Testing
+ * @module CassetteTransport
+ */
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { dirname } from "path";
+import {
+  RedactionOptions,
+  Transport,
+  TransportAdapter,
+} from "../types/index";
+import { TapsilatError } from "../errors/TapsilatError";
+import { createTransport } from "../http/transport";
+import { createRedactor, Redactor } from "../utils/redact";
+
+/**
+ * @category Testing
+ * @summary How a cassette transport treats requests
+ * @description `record` sends every request and records it, replacing the cassette's previous
+ * contents; `replay` answers from the cassette only; `auto` replays recorded requests and records
+ * the others
+ * @typedef {string} CassetteMode
+ */
+export type CassetteMode = "record" | "replay" | "auto";
+
+/**
+ * @category Testing
+ * @summary Request and response pair stored in a cassette
+ * @description Headers and bodies are stored redacted. Binary response bodies are stored base64-encoded.
+ * @interface CassetteInteraction
+ */
+export interface CassetteInteraction {
+  request: {
+    method: string;
+    path: string;
+    query?: Record<string, string>;
+    headers?: Record<string, string>;
+    body?: unknown;
+  };
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    body?: unknown;
+    encoding?: "base64";
+  };
+  recordedAt: string;
+}
+
+/**
+ * @category Testing
+ * @summary Contents of a cassette file
+ * @interface Cassette
+ */
+export interface Cassette {
+  version: 1;
+  interactions: CassetteInteraction[];
+}
+
+/**
+ * @category Testing
+ * @summary Options of a cassette transport
+ * @description `path` is the JSON cassette file. `mode` defaults to `replay`. `transport` sends the
+ * requests that are recorded, or passed through by a non-strict replay; the global `fetch` by
+ * default. `strict` (default true) makes unmatched requests fail during replay. `redaction` tunes
+ * what is masked before an interaction is stored.
+ * @interface CassetteOptions
+ */
+export interface CassetteOptions {
+  path: string;
+  mode?: CassetteMode;
+  transport?: Transport;
+  strict?: boolean;
+  redaction?: RedactionOptions;
+}
+
+interface RecordedRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+// CASSETTE TRANSPORT
+// Summary: Records real HTTP traffic to a JSON file and replays it offline
+// Description: Requests match on method, path, query and normalized body; credentials and PII are
+// redacted before anything is written
+/**
+ * @category Testing
+ * @summary Transport that records request and response pairs and replays them deterministically
+ * @description
+ * Matching compares the method, path, query and the JSON body with its keys sorted, after the
+ * same redaction that is applied on record. Interactions are replayed in recorded order; once
+ * every match has been used, the last one is repeated. In strict replay an unmatched request
+ * rejects with a `CASSETTE_MISMATCH` error, which is not retried.
+ *
+ * @example
+ * ```typescript
+ * const transport = new CassetteTransport({
+ *   path: "__cassettes__/create-order.json",
+ *   mode: process.env.RECORD ? "record" : "replay",
+ * });
+ * const sdk = new TapsilatSDK({ bearerToken: process.env.TAPSILAT_TOKEN!, transport });
+ * ```
+ * @class CassetteTransport
+ */
+export class CassetteTransport implements TransportAdapter {
+  private readonly mode: CassetteMode;
+  private readonly strict: boolean;
+  private readonly upstream: TransportAdapter;
+  private readonly redactor: Redactor;
+  private interactions?: Promise<CassetteInteraction[]>;
+  private readonly used = new Set<CassetteInteraction>();
+  private saving: Promise<void> = Promise.resolve();
+
+  /**
+   * @summary Creates a cassette transport; the cassette file is read on the first request
+   *
+   * @param options - Cassette path, mode, upstream transport, strictness and redaction
+   */
+  constructor(private readonly options: CassetteOptions) {
+    this.mode = options.mode ?? "replay";
+    this.strict = options.strict ?? true;
+    this.upstream = createTransport(options.transport);
+    this.redactor = createRedactor(options.redaction);
+  }
+
+  /**
+   * @summary Interactions recorded or loaded so far
+   *
+   * @returns Interactions in recorded order
+   */
+  async getInteractions(): Promise<CassetteInteraction[]> {
+    return [...(await this.load())];
+  }
+
+  /**
+   * @summary Serves a request from the cassette, or sends and records it
+   *
+   * @param url - Full request URL
+   * @param init - Request options
+   * @returns Recorded or live response
+   * @throws {TapsilatError} With code `CASSETTE_MISMATCH` when strict replay finds no interaction,
+   * or `CASSETTE_UNREADABLE` when the cassette file cannot be read
+   */
+  async request(url: string, init: RequestInit): Promise<Response> {
+    if (init.signal?.aborted) {
+      throw new DOMException("The operation was aborted", "AbortError");
+    }
+
+    const interactions = await this.load();
+    const recorded = this.toRecordedRequest(url, init);
+    if (this.mode !== "record") {
+      const match = this.findMatch(interactions, recorded);
+      if (match) {
+        this.used.add(match);
+        return toResponse(match);
+      }
+      if (this.mode === "replay") {
+        if (this.strict) {
+          throw new TapsilatError(
+            `No recorded interaction matches ${recorded.method} ` +
+              `${recorded.path} in ${this.options.path}`,
+            "CASSETTE_MISMATCH",
+            { request: recorded }
+          );
+        }
+        return this.upstream.request(url, init);
+      }
+    }
+
+    const response = await this.upstream.request(url, init);
+    const interaction = await this.toInteraction(recorded, response.clone());
+    interactions.push(interaction);
+    this.used.add(interaction);
+    await this.save();
+    return response;
+  }
+
+  /**
+   * @summary Writes the cassette file
+   * @description Called after every recorded interaction; writes are serialized
+   */
+  async save(): Promise<void> {
+    const interactions = await this.load();
+    const cassette: Cassette = { version: 1, interactions };
+    this.saving = this.saving.then(async () => {
+      await mkdir(dirname(this.options.path), { recursive: true });
+      await writeFile(
+        this.options.path,
+        `${JSON.stringify(cassette, null, 2)}\n`
+      );
+    });
+    return this.saving;
+  }
+
+  private load(): Promise<CassetteInteraction[]> {
+    if (!this.interactions) {
+      this.interactions =
+        this.mode === "record"
+          ? Promise.resolve([])
+          : readCassette(this.options.path, this.mode === "auto");
+    }
+    return this.interactions;
+  }
+
+  private findMatch(
+    interactions: CassetteInteraction[],
+    request: RecordedRequest
+  ): CassetteInteraction | undefined {
+    const key = matchKey(request);
+    const matches = interactions.filter(
+      (interaction) =>
+        matchKey({
+          ...interaction.request,
+          query: interaction.request.query ?? {},
+        }) === key
+    );
+    return (
+      matches.find((interaction) => !this.used.has(interaction)) ??
+      matches[matches.length - 1]
+    );
+  }
+
+  private toRecordedRequest(url: string, init: RequestInit): RecordedRequest {
+    const parsed = new URL(this.redactor.redactUrl(url));
+    return {
+      method: (init.method ?? "GET").toUpperCase(),
+      path: parsed.pathname,
+      query: Object.fromEntries(parsed.searchParams),
+      headers: this.redactor.redact(new Headers(init.headers)) as Record<
+        string,
+        string
+      >,
+      body: this.redactBody(parseBody(init.body)),
+    };
+  }
+
+  // Bodies are redacted under a `body` key, as in log entries, so that rules
+  // scoped to it, such as `body.name`, apply to their top-level fields
+  private redactBody(body: unknown): unknown {
+    return (this.redactor.redact({ body }) as { body: unknown }).body;
+  }
+
+  private async toInteraction(
+    request: RecordedRequest,
+    response: Response
+  ): Promise<CassetteInteraction> {
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, key) => {
+      headers[key] = value;
+    });
+    const contentType = headers["content-type"] ?? "";
+
+    let body: unknown;
+    let encoding: "base64" | undefined;
+    if (/json/i.test(contentType)) {
+      const text = await response.text();
+      body = this.redactBody(parseBody(text));
+    } else if (!contentType || /^text\/|xml/i.test(contentType)) {
+      const text = await response.text();
+      body = text ? this.redactor.redact(text) : undefined;
+    } else {
+      body = Buffer.from(await response.arrayBuffer()).toString("base64");
+      encoding = "base64";
+    }
+
+    return {
+      request: {
+        method: request.method,
+        path: request.path,
+        ...(Object.keys(request.query).length > 0 && { query: request.query }),
+        headers: request.headers,
+        ...(request.body !== undefined && { body: request.body }),
+      },
+      response: {
+        status: response.status,
+        headers: this.redactor.redact(headers) as Record<string, string>,
+        ...(body !== undefined && { body }),
+        ...(encoding && { encoding }),
+      },
+      recordedAt: new Date().toISOString(),
+    };
+  }
+}
+
+const readCassette = async (
+  path: string,
+  allowMissing: boolean
+): Promise<CassetteInteraction[]> => {
+  try {
+    const text = await readFile(path, "utf8");
+    return (JSON.parse(text) as Cassette).interactions ?? [];
+  } catch (error) {
+    if (allowMissing && (error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw new TapsilatError(
+      `Cannot read cassette ${path}: ${(error as Error).message}`,
+      "CASSETTE_UNREADABLE"
+    );
+  }
+};
+
+const parseBody = (body: RequestInit["body"] | string): unknown => {
+  if (typeof body !== "string") {
+    return undefined;
+  }
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+};
+
+// Keys are sorted so that bodies built in a different order still match
+const stableStringify = (value: unknown): string =>
+  JSON.stringify(value, (_key, nested: unknown) =>
+    nested && typeof nested === "object" && !Array.isArray(nested)
+      ? Object.fromEntries(
+          Object.entries(nested as Record<string, unknown>).sort(([a], [b]) =>
+            a.localeCompare(b)
+          )
+        )
+      : nested
+  ) ?? "";
+
+const matchKey = (request: {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  body?: unknown;
+}): string =>
+  [
+    request.method,
+    request.path,
+    stableStringify(request.query),
+    stableStringify(request.body),
+  ].join(" ");
+
+const toResponse = ({ response }: CassetteInteraction): Response => {
+  let body: BodyInit | null = null;
+  if (response.body !== undefined) {
+    if (response.encoding === "base64") {
+      body = Buffer.from(response.body as string, "base64");
+    } else {
+      body =
+        typeof response.body === "string"
+          ? response.body
+          : JSON.stringify(response.body);
+    }
+  }
+  // Bodies were re-serialized, so a recorded length no longer applies
+  const headers = new Headers(response.headers);
+  headers.delete("content-length");
+  headers.delete("content-encoding");
+  return new Response(body, { status: response.status, headers });
+};
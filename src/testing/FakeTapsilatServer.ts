@@ -0,0 +1,1131 @@
+/**
+ * @category Testing
+ * @module FakeTapsilatServer
+ */
+import crypto from "crypto";
+import http from "http";
+import {
+  BasketItemDTO,
+  PaymentTermDTO,
+  Transport,
+  TransportAdapter,
+} from "../types/index";
+import { TapsilatError } from "../errors/TapsilatError";
+import { resolveEnvironment } from "../config/environments";
+import {
+  IDEMPOTENCY_KEY_HEADER,
+  IDEMPOTENT_REPLAYED_HEADER,
+} from "../http/HttpClient";
+import { createTransport } from "../http/transport";
+import {
+  InMemoryReply,
+  InMemoryRequest,
+  InMemoryTransport,
+} from "./InMemoryTransport";
+
+/**
+ * Header carrying the signature of a fake webhook, as checked by `verifyWebhook`
+ */
+export const FAKE_WEBHOOK_SIGNATURE_HEADER = "x-tapsilat-signature";
+
+/**
+ * @category Testing
+ * @summary Lifecycle states of an order in the fake server
+ * @typedef {string} FakeOrderStatus
+ */
+export type FakeOrderStatus =
+  | "CREATED"
+  | "PAID"
+  | "FAILED"
+  | "CANCELLED"
+  | "PARTIALLY_REFUNDED"
+  | "REFUNDED";
+
+/**
+ * @category Testing
+ * @summary Event types sent by the fake server's webhooks
+ * @typedef {string} FakeWebhookEventType
+ */
+export type FakeWebhookEventType =
+  | "order.completed"
+  | "order.failed"
+  | "order.cancelled"
+  | "refund.completed"
+  | "subscription.cancelled";
+
+/**
+ * @category Testing
+ * @summary Webhook event sent by the fake server
+ * @interface FakeWebhookEvent
+ */
+export interface FakeWebhookEvent {
+  id: string;
+  type: FakeWebhookEventType;
+  data: Record<string, unknown>;
+  createdAt: string;
+}
+
+/**
+ * @category Testing
+ * @summary Webhook delivery made by the fake server
+ * @description `payload` is the exact body that was signed; `error` is set when posting it to the
+ * webhook URL failed
+ * @interface FakeWebhookDelivery
+ */
+export interface FakeWebhookDelivery {
+  event: FakeWebhookEvent;
+  payload: string;
+  signature: string;
+  status?: number;
+  error?: string;
+}
+
+/**
+ * @category Testing
+ * @summary Options of the fake server
+ * @description When `bearerToken` is set, other tokens are rejected with `401`. Webhooks are signed
+ * with `webhookSecret` and posted to `webhookUrl` through `transport`, and passed to `onWebhook`.
+ * @interface FakeTapsilatServerOptions
+ */
+export interface FakeTapsilatServerOptions {
+  bearerToken?: string;
+  webhookSecret?: string;
+  webhookUrl?: string;
+  transport?: Transport;
+  onWebhook?: (delivery: FakeWebhookDelivery) => void | Promise<void>;
+}
+
+interface FakeOrder {
+  id: string;
+  reference_id: string;
+  conversation_id?: string;
+  external_reference_id?: string;
+  amount: number;
+  paid_amount: number;
+  refunded_amount: number;
+  currency: string;
+  locale: string;
+  status: FakeOrderStatus;
+  request: Record<string, unknown>;
+  basket_items: BasketItemDTO[];
+  payment_terms: FakeTerm[];
+  created_at: string;
+}
+
+interface FakeTerm extends PaymentTermDTO {
+  order_id: string;
+  term_reference_id: string;
+  amount: number;
+  status: string;
+  refunded_amount: number;
+}
+
+interface FakeSubscription {
+  reference_id: string;
+  request: Record<string, unknown>;
+  is_active: boolean;
+  order_reference_ids: string[];
+}
+
+// Numeric order statuses returned in `status`, next to the `status_enum` name
+const ORDER_STATUS_CODES: Record<FakeOrderStatus, number> = {
+  CREATED: 1,
+  PAID: 2,
+  FAILED: 3,
+  CANCELLED: 4,
+  PARTIALLY_REFUNDED: 5,
+  REFUNDED: 6,
+};
+
+const SUBMERCHANT_REQUIRED_FIELDS = [
+  "name",
+  "email",
+  "gsm_number",
+  "iban",
+  "identity_number",
+  "address",
+  "city",
+  "country",
+  "contact_name",
+  "contact_surname",
+  "sub_merchant_type",
+  "tax_office",
+  "zip_code",
+];
+
+const API_PREFIX = "/api/v1";
+
+// FAKE TAPSILAT SERVER
+// Summary: Stateful, in-process stand-in for the Tapsilat API
+// Description: Keeps orders, payment terms, basket items, subscriptions and submerchants in memory,
+// enforces their state transitions and sends signed webhooks
+/**
+ * @category Testing
+ * @summary Stateful fake of the Tapsilat API, usable as a transport or as a local HTTP server
+ * @description
+ * Orders move from `CREATED` to `PAID` or `FAILED` when a test calls `completePayment` or
+ * `failPayment`, standing in for the buyer's checkout. Paid orders can be refunded, partially or
+ * fully; only unpaid orders can be cancelled or have their basket and terms changed. Invalid
+ * transitions, unknown resources and missing fields are answered with the API's `400`, `404` and
+ * `422` responses. Mutating requests honour the `Idempotency-Key` header.
+ *
+ * @example
+ * ```typescript
+ * const server = new FakeTapsilatServer({ webhookSecret: "whsec" });
+ * const sdk = new TapsilatSDK({ bearerToken: "test-token", transport: server });
+ *
+ * const { reference_id } = await sdk.createOrder(order);
+ * await server.completePayment(reference_id);
+ * await sdk.refundOrder({ reference_id, amount: 10 });
+ * ```
+ * @class FakeTapsilatServer
+ */
+export class FakeTapsilatServer implements TransportAdapter {
+  /**
+   * Webhooks sent so far, oldest first
+   */
+  public readonly webhooks: FakeWebhookDelivery[] = [];
+
+  private readonly routes = new InMemoryTransport();
+  private readonly upstream: TransportAdapter;
+  private readonly orders = new Map<string, FakeOrder>();
+  private readonly subscriptions = new Map<string, FakeSubscription>();
+  private readonly submerchants = new Map<string, Record<string, unknown>>();
+  private readonly idempotentReplies = new Map<string, InMemoryReply>();
+  private server?: http.Server;
+
+  /**
+   * @summary Creates an empty fake server
+   *
+   * @param options - Accepted token, webhook secret, URL and delivery transport
+   */
+  constructor(private readonly options: FakeTapsilatServerOptions = {}) {
+    this.upstream = createTransport(options.transport);
+    this.registerRoutes();
+  }
+
+  /**
+   * @summary Requests received so far, oldest first
+   */
+  get requests(): InMemoryRequest[] {
+    return this.routes.requests;
+  }
+
+  /**
+   * @summary Serves a request from the fake's state
+   *
+   * @param url - Full request URL
+   * @param init - Request options
+   * @returns Response of the fake API
+   */
+  request(url: string, init: RequestInit): Promise<Response> {
+    return this.routes.request(url, init);
+  }
+
+  /**
+   * @summary Answers the next matching request with a canned reply
+   * @description Use it to inject outages, such as a `503` before a retry succeeds
+   *
+   * @param method - HTTP method, or "*" for any method
+   * @param path - Path suffix or pattern to match
+   * @param reply - Reply to return once
+   * @returns This server, for chaining
+   */
+  failNext(method: string, path: string | RegExp, reply: InMemoryReply): this {
+    this.routes.once(method, path, reply);
+    return this;
+  }
+
+  /**
+   * @summary Pays an order, as the buyer would on the checkout page
+   * @description Moves a `CREATED` order to `PAID`, pays its terms and sends `order.completed`
+   *
+   * @param referenceId - Reference ID of the order
+   * @throws {TapsilatError} When the order does not exist or is not awaiting payment
+   */
+  async completePayment(referenceId: string): Promise<void> {
+    const order = this.requireUnpaidOrder(referenceId);
+    const paidDate = new Date().toISOString();
+    for (const term of order.payment_terms) {
+      if (term.status !== "PAID") {
+        term.status = "PAID";
+        term.paid_date = paidDate;
+      }
+    }
+    order.paid_amount = order.amount;
+    order.status = "PAID";
+    await this.emit("order.completed", this.toOrderSummary(order));
+  }
+
+  /**
+   * @summary Fails an order's payment, as a declined card would
+   * @description Moves a `CREATED` order to `FAILED` and sends `order.failed`
+   *
+   * @param referenceId - Reference ID of the order
+   * @throws {TapsilatError} When the order does not exist or is not awaiting payment
+   */
+  async failPayment(referenceId: string): Promise<void> {
+    const order = this.requireUnpaidOrder(referenceId);
+    order.status = "FAILED";
+    await this.emit("order.failed", this.toOrderSummary(order));
+  }
+
+  /**
+   * @summary Starts a local HTTP server backed by this fake
+   *
+   * @param port - Port to listen on; a free port by default
+   * @returns Base URL to use as `baseURL`, such as `http://127.0.0.1:50123/api/v1`
+   */
+  async listen(port = 0): Promise<string> {
+    if (!this.server) {
+      this.server = http.createServer((req, res) => {
+        this.handleNodeRequest(req, res).catch((error: unknown) => {
+          res.statusCode = 500;
+          res.end(String(error));
+        });
+      });
+      const server = this.server;
+      await new Promise<void>((resolve, reject) => {
+        server.once("error", reject);
+        server.listen(port, "127.0.0.1", () => resolve());
+      });
+    }
+    const { port: boundPort } = this.server.address() as { port: number };
+    return `http://127.0.0.1:${boundPort}${API_PREFIX}`;
+  }
+
+  /**
+   * @summary Stops the local HTTP server started by `listen`
+   */
+  async close(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    if (server) {
+      await new Promise<void>((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve()))
+      );
+    }
+  }
+
+  /**
+   * @summary Drops every order, subscription, submerchant, webhook and recorded request
+   */
+  reset(): void {
+    this.orders.clear();
+    this.subscriptions.clear();
+    this.submerchants.clear();
+    this.idempotentReplies.clear();
+    this.webhooks.length = 0;
+    this.routes.reset();
+    this.registerRoutes();
+  }
+
+  private registerRoutes(): void {
+    const on = (
+      method: string,
+      path: string | RegExp,
+      handler: (request: InMemoryRequest) => Promise<InMemoryReply>
+    ): void => {
+      this.routes.on(method, path, (request) => this.handle(request, handler));
+    };
+
+    on("GET", "/health", async () => ({ body: "OK" }));
+
+    // Orders
+    on("POST", "/order/create", (request) => this.createOrder(request));
+    on("GET", "/order/list", async (request) => this.listOrders(request));
+    on("POST", "/order/cancel", (request) => this.cancelOrder(request));
+    on("POST", "/order/refund", (request) => this.refundOrder(request));
+    on("POST", "/order/refund-all", (request) => this.refundOrder(request));
+    on("GET", /\/order\/conversation\/([^/]+)$/, async (request) => {
+      const conversationId = lastSegment(request.path);
+      const order = [...this.orders.values()].find(
+        (candidate) => candidate.conversation_id === conversationId
+      );
+      return order ? { body: this.toOrderDetail(order) } : orderNotFound();
+    });
+    on("GET", /\/order\/([^/]+)\/status$/, async (request) => {
+      const order = this.orders.get(request.path.split("/").slice(-2)[0]);
+      return order
+        ? { body: { status: order.status.toLowerCase() } }
+        : orderNotFound();
+    });
+
+    // Basket items
+    on("POST", "/order/basket-item", async (request) =>
+      this.changeBasket(request, "add")
+    );
+    on("PATCH", "/order/basket-item", async (request) =>
+      this.changeBasket(request, "update")
+    );
+    on("DELETE", "/order/basket-item", async (request) =>
+      this.changeBasket(request, "remove")
+    );
+
+    // Payment terms
+    on("POST", "/order/term/refund", (request) => this.refundTerm(request));
+    on("POST", "/order/term/terminate", async (request) =>
+      this.changeTerm(request, "terminate")
+    );
+    on("GET", "/order/term", async (request) => {
+      const term = this.findTerm(request.query.term_reference_id);
+      return term ? { body: toTermDetail(term) } : termNotFound();
+    });
+    on("POST", "/order/term", async (request) => this.createTerm(request));
+    on("PATCH", "/order/term", async (request) =>
+      this.changeTerm(request, "update")
+    );
+    on("DELETE", "/order/term", async (request) =>
+      this.changeTerm(request, "delete")
+    );
+
+    on("GET", /\/order\/([^/]+)$/, async (request) => {
+      const order = this.orders.get(lastSegment(request.path));
+      return order ? { body: this.toOrderDetail(order) } : orderNotFound();
+    });
+
+    // Subscriptions
+    on("POST", "/subscription/create", (request) =>
+      this.createSubscription(request)
+    );
+    on("GET", "/subscription/list", async (request) =>
+      paginate(request, [...this.subscriptions.values()], (subscription) =>
+        this.toSubscriptionDetail(subscription)
+      )
+    );
+    on("POST", "/subscription/cancel", (request) =>
+      this.cancelSubscription(request)
+    );
+    on("POST", "/subscription/redirect", async (request) => {
+      const id = bodyOf(request).subscription_id as string | undefined;
+      return id && this.subscriptions.has(id)
+        ? { body: { url: `/token/subscription/${id}` } }
+        : subscriptionNotFound();
+    });
+    on("POST", "/subscription", async (request) => {
+      const subscription = this.findSubscription(bodyOf(request));
+      return subscription
+        ? { body: this.toSubscriptionDetail(subscription) }
+        : subscriptionNotFound();
+    });
+
+    // Submerchants
+    on("POST", /\/submerchants$/, async (request) => {
+      const body = bodyOf(request);
+      const missing = missingFields(body, SUBMERCHANT_REQUIRED_FIELDS);
+      if (missing) {
+        return missing;
+      }
+      const submerchant = { ...body, id: crypto.randomUUID() };
+      this.submerchants.set(submerchant.id, submerchant);
+      return { status: 201, body: submerchant };
+    });
+    on("GET", /\/submerchants$/, async (request) =>
+      paginate(request, [...this.submerchants.values()], (row) => row, "data")
+    );
+    on("GET", /\/submerchants\/([^/]+)$/, async (request) => {
+      const submerchant = this.submerchants.get(lastSegment(request.path));
+      return submerchant ? { body: submerchant } : submerchantNotFound();
+    });
+    on("PUT", /\/submerchants\/([^/]+)$/, async (request) => {
+      const id = lastSegment(request.path);
+      const submerchant = this.submerchants.get(id);
+      if (!submerchant) {
+        return submerchantNotFound();
+      }
+      const updated = { ...submerchant, ...bodyOf(request), id };
+      this.submerchants.set(id, updated);
+      return { body: updated };
+    });
+    on("DELETE", /\/submerchants\/([^/]+)$/, async (request) =>
+      this.submerchants.delete(lastSegment(request.path))
+        ? { body: { message: "Submerchant deleted" } }
+        : submerchantNotFound()
+    );
+
+    on("*", /.*/, async (request) =>
+      errorReply(404, "ROUTE_NOT_FOUND", `No route for ${request.path}`)
+    );
+  }
+
+  // Checks the token and replays responses of repeated idempotency keys
+  private async handle(
+    request: InMemoryRequest,
+    handler: (request: InMemoryRequest) => Promise<InMemoryReply>
+  ): Promise<InMemoryReply> {
+    const authorization = request.headers.get("authorization");
+    const expected = this.options.bearerToken;
+    if (
+      !authorization?.startsWith("Bearer ") ||
+      (expected !== undefined && authorization !== `Bearer ${expected}`)
+    ) {
+      return errorReply(401, "UNAUTHORIZED", "Invalid or missing bearer token");
+    }
+
+    const key = request.headers.get(IDEMPOTENCY_KEY_HEADER);
+    const replayKey = key ? `${request.method} ${request.path} ${key}` : "";
+    const previous = this.idempotentReplies.get(replayKey);
+    if (previous) {
+      return {
+        ...previous,
+        headers: { ...previous.headers, [IDEMPOTENT_REPLAYED_HEADER]: "true" },
+      };
+    }
+
+    const reply = await handler(request);
+    if (replayKey && (reply.status ?? 200) < 500) {
+      this.idempotentReplies.set(replayKey, reply);
+    }
+    return reply;
+  }
+
+  private async createOrder(request: InMemoryRequest): Promise<InMemoryReply> {
+    const body = bodyOf(request);
+    const missing = missingFields(body, [
+      "amount",
+      "currency",
+      "locale",
+      "buyer",
+    ]);
+    if (missing) {
+      return missing;
+    }
+    if (typeof body.amount !== "number" || body.amount <= 0) {
+      return errorReply(400, "INVALID_AMOUNT", "Amount must be positive");
+    }
+
+    const order: FakeOrder = {
+      id: crypto.randomUUID(),
+      reference_id: crypto.randomUUID(),
+      conversation_id: body.conversation_id as string | undefined,
+      external_reference_id: body.external_reference_id as string | undefined,
+      amount: body.amount,
+      paid_amount: 0,
+      refunded_amount: 0,
+      currency: body.currency as string,
+      locale: body.locale as string,
+      status: "CREATED",
+      request: body,
+      basket_items: ((body.basket_items ?? []) as BasketItemDTO[]).map(
+        (item) => ({ ...item, id: item.id ?? crypto.randomUUID() })
+      ),
+      payment_terms: [],
+      created_at: new Date().toISOString(),
+    };
+    order.payment_terms = ((body.payment_terms ?? []) as PaymentTermDTO[]).map(
+      (term) => ({
+        ...term,
+        order_id: order.id,
+        term_reference_id: term.term_reference_id ?? crypto.randomUUID(),
+        amount: term.amount ?? 0,
+        status: term.status ?? "PENDING",
+        refunded_amount: 0,
+      })
+    );
+    this.orders.set(order.reference_id, order);
+
+    return {
+      body: {
+        order_id: order.id,
+        reference_id: order.reference_id,
+        conversation_id: order.conversation_id,
+        checkout_url: this.checkoutUrl(order),
+        status: order.status,
+      },
+    };
+  }
+
+  private listOrders(request: InMemoryRequest): InMemoryReply {
+    const status = request.query.status
+      ? Number(request.query.status)
+      : undefined;
+    const orders = [...this.orders.values()].filter(
+      (order) =>
+        (status === undefined || ORDER_STATUS_CODES[order.status] === status) &&
+        (!request.query.buyer_id ||
+          (order.request.buyer as Record<string, unknown>)?.id ===
+            request.query.buyer_id)
+    );
+    return paginate(request, orders, (order) => ({
+      id: order.id,
+      reference_id: order.reference_id,
+      checkout_url: this.checkoutUrl(order),
+      status: ORDER_STATUS_CODES[order.status],
+      total: order.amount.toFixed(2),
+      paid_amount: order.paid_amount,
+      unpaid_amount: order.amount - order.paid_amount,
+      total_term_count: order.payment_terms.length,
+      paid_term_count: order.payment_terms.filter(
+        (term) => term.status === "PAID"
+      ).length,
+    }));
+  }
+
+  private async cancelOrder(request: InMemoryRequest): Promise<InMemoryReply> {
+    const order = this.orders.get(bodyOf(request).reference_id as string);
+    if (!order) {
+      return orderNotFound();
+    }
+    if (order.status !== "CREATED") {
+      return invalidTransition(
+        `Order in status ${order.status} cannot be cancelled`
+      );
+    }
+    order.status = "CANCELLED";
+    await this.emit("order.cancelled", this.toOrderSummary(order));
+    return {
+      body: {
+        is_success: true,
+        message: "Order cancelled",
+        status: order.status,
+      },
+    };
+  }
+
+  // Serves both partial refunds and refund-all, which sends no amount
+  private async refundOrder(request: InMemoryRequest): Promise<InMemoryReply> {
+    const body = bodyOf(request);
+    const order = this.orders.get(body.reference_id as string);
+    if (!order) {
+      return orderNotFound();
+    }
+    if (order.status !== "PAID" && order.status !== "PARTIALLY_REFUNDED") {
+      return invalidTransition(
+        `Order in status ${order.status} cannot be refunded`
+      );
+    }
+
+    const refundable = round(order.paid_amount - order.refunded_amount);
+    const amount = request.path.endsWith("/refund-all")
+      ? refundable
+      : (body.amount as number);
+    if (typeof amount !== "number" || amount <= 0 || amount > refundable) {
+      return errorReply(
+        400,
+        "INVALID_REFUND_AMOUNT",
+        `Refund amount must be between 0 and ${refundable}`
+      );
+    }
+
+    order.refunded_amount = round(order.refunded_amount + amount);
+    order.status =
+      order.refunded_amount === order.paid_amount
+        ? "REFUNDED"
+        : "PARTIALLY_REFUNDED";
+    const refund = {
+      is_success: true,
+      refundId: crypto.randomUUID(),
+      referenceId: order.reference_id,
+      status: "succeeded",
+      amount,
+      currency: order.currency,
+      createdAt: new Date().toISOString(),
+    };
+    await this.emit("refund.completed", refund);
+    return { body: refund };
+  }
+
+  private changeBasket(
+    request: InMemoryRequest,
+    change: "add" | "update" | "remove"
+  ): InMemoryReply {
+    const body = bodyOf(request);
+    const order = this.orders.get(body.order_reference_id as string);
+    if (!order) {
+      return orderNotFound();
+    }
+    if (order.status !== "CREATED") {
+      return invalidTransition(
+        `Basket of an order in status ${order.status} cannot be changed`
+      );
+    }
+
+    const item = body.basket_item as BasketItemDTO | undefined;
+    const id = change === "remove" ? (body.basket_item_id as string) : item?.id;
+    const index = order.basket_items.findIndex(
+      (candidate) => candidate.id === id
+    );
+    if (change === "add") {
+      if (!item) {
+        return errorReply(422, "VALIDATION_ERROR", "basket_item is required");
+      }
+      if (index !== -1) {
+        return errorReply(
+          409,
+          "DUPLICATE_BASKET_ITEM",
+          `Basket item ${id} already exists`
+        );
+      }
+      order.basket_items.push({ ...item, id: id ?? crypto.randomUUID() });
+      return { body: { code: 200, message: "Basket item added" } };
+    }
+    if (index === -1) {
+      return errorReply(
+        404,
+        "BASKET_ITEM_NOT_FOUND",
+        `Basket item ${id} not found`
+      );
+    }
+    if (change === "update") {
+      order.basket_items[index] = { ...order.basket_items[index], ...item };
+      return { body: { code: 200, message: "Basket item updated" } };
+    }
+    order.basket_items.splice(index, 1);
+    return { body: { code: 200, message: "Basket item removed" } };
+  }
+
+  private createTerm(request: InMemoryRequest): InMemoryReply {
+    const body = bodyOf(request);
+    const missing = missingFields(body, [
+      "order_id",
+      "term_reference_id",
+      "amount",
+      "due_date",
+    ]);
+    if (missing) {
+      return missing;
+    }
+    const order = this.findOrder(body.order_id as string);
+    if (!order) {
+      return orderNotFound();
+    }
+    if (order.status !== "CREATED") {
+      return invalidTransition(
+        `Terms of an order in status ${order.status} cannot be changed`
+      );
+    }
+    if (this.findTerm(body.term_reference_id as string)) {
+      return errorReply(
+        409,
+        "DUPLICATE_TERM",
+        "Term reference ID already exists"
+      );
+    }
+
+    order.payment_terms.push({
+      ...(body as Partial<FakeTerm>),
+      order_id: order.id,
+      term_reference_id: body.term_reference_id as string,
+      amount: body.amount as number,
+      status: (body.status as string | undefined) ?? "PENDING",
+      refunded_amount: 0,
+    });
+    return { body: { code: 200, message: "Payment term created" } };
+  }
+
+  private changeTerm(
+    request: InMemoryRequest,
+    change: "update" | "delete" | "terminate"
+  ): InMemoryReply {
+    const body = bodyOf(request);
+    const term = this.findTerm(body.term_reference_id as string);
+    if (!term) {
+      return termNotFound();
+    }
+    if (term.status === "PAID" || term.status === "TERMINATED") {
+      return invalidTransition(
+        `Term in status ${term.status} cannot be changed`
+      );
+    }
+
+    if (change === "update") {
+      Object.assign(term, body, { refunded_amount: term.refunded_amount });
+      return { body: { code: 200, message: "Payment term updated" } };
+    }
+    if (change === "terminate") {
+      term.status = "TERMINATED";
+      return { body: toTermDetail(term) };
+    }
+    const order = this.findOrder(term.order_id) as FakeOrder;
+    order.payment_terms.splice(order.payment_terms.indexOf(term), 1);
+    return { body: { code: 200, message: "Payment term deleted" } };
+  }
+
+  private async refundTerm(request: InMemoryRequest): Promise<InMemoryReply> {
+    const body = bodyOf(request);
+    const term = this.findTerm(body.term_id as string);
+    if (!term) {
+      return termNotFound();
+    }
+    const refundable = round(term.amount - term.refunded_amount);
+    if (term.status !== "PAID") {
+      return invalidTransition(
+        `Term in status ${term.status} cannot be refunded`
+      );
+    }
+    const amount = body.amount as number;
+    if (typeof amount !== "number" || amount <= 0 || amount > refundable) {
+      return errorReply(
+        400,
+        "INVALID_REFUND_AMOUNT",
+        `Refund amount must be between 0 and ${refundable}`
+      );
+    }
+
+    term.refunded_amount = round(term.refunded_amount + amount);
+    const order = this.findOrder(term.order_id) as FakeOrder;
+    order.refunded_amount = round(order.refunded_amount + amount);
+    order.status =
+      order.refunded_amount === order.paid_amount
+        ? "REFUNDED"
+        : "PARTIALLY_REFUNDED";
+    const refund = {
+      is_success: true,
+      refund_id: crypto.randomUUID(),
+      term_reference_id: term.term_reference_id,
+      amount,
+    };
+    await this.emit("refund.completed", refund);
+    return { body: refund };
+  }
+
+  private async createSubscription(
+    request: InMemoryRequest
+  ): Promise<InMemoryReply> {
+    const body = bodyOf(request);
+    const missing = missingFields(body, ["amount", "currency", "period"]);
+    if (missing) {
+      return missing;
+    }
+
+    // The first payment of a subscription is an order awaiting payment
+    const user = (body.user ?? {}) as Record<string, unknown>;
+    const order = await this.createOrder({
+      ...request,
+      body: {
+        amount: body.amount,
+        currency: body.currency,
+        locale: "tr",
+        buyer: {
+          name: user.first_name,
+          surname: user.last_name,
+          email: user.email,
+        },
+      },
+    });
+    const { reference_id: orderReferenceId } = order.body as {
+      reference_id: string;
+    };
+    const subscription: FakeSubscription = {
+      reference_id: crypto.randomUUID(),
+      request: body,
+      is_active: true,
+      order_reference_ids: [orderReferenceId],
+    };
+    this.subscriptions.set(subscription.reference_id, subscription);
+    return {
+      body: {
+        code: 200,
+        message: "Subscription created",
+        reference_id: subscription.reference_id,
+        order_reference_id: orderReferenceId,
+      },
+    };
+  }
+
+  private async cancelSubscription(
+    request: InMemoryRequest
+  ): Promise<InMemoryReply> {
+    const subscription = this.findSubscription(bodyOf(request));
+    if (!subscription) {
+      return subscriptionNotFound();
+    }
+    if (!subscription.is_active) {
+      return invalidTransition("Subscription is already cancelled");
+    }
+    subscription.is_active = false;
+    await this.emit(
+      "subscription.cancelled",
+      this.toSubscriptionDetail(subscription)
+    );
+    return { body: { code: 200, message: "Subscription cancelled" } };
+  }
+
+  private async emit(
+    type: FakeWebhookEventType,
+    data: Record<string, unknown>
+  ): Promise<void> {
+    const event: FakeWebhookEvent = {
+      id: crypto.randomUUID(),
+      type,
+      data,
+      createdAt: new Date().toISOString(),
+    };
+    const payload = JSON.stringify(event);
+    const signature = `sha256=${crypto
+      .createHmac("sha256", this.options.webhookSecret ?? "")
+      .update(payload)
+      .digest("hex")}`;
+    const delivery: FakeWebhookDelivery = { event, payload, signature };
+
+    if (this.options.webhookUrl) {
+      try {
+        const response = await this.upstream.request(this.options.webhookUrl, {
+          method: "POST",
+          headers: {
+            "content-type": "application/json",
+            [FAKE_WEBHOOK_SIGNATURE_HEADER]: signature,
+          },
+          body: payload,
+        });
+        delivery.status = response.status;
+      } catch (error) {
+        delivery.error = (error as Error).message;
+      }
+    }
+    this.webhooks.push(delivery);
+    // A failing callback must not fail the request that caused the event
+    try {
+      await this.options.onWebhook?.(delivery);
+    } catch {
+      // ignored
+    }
+  }
+
+  private async handleNodeRequest(
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+    const headers = new Headers();
+    for (const [name, value] of Object.entries(req.headers)) {
+      if (value !== undefined) {
+        headers.set(name, Array.isArray(value) ? value.join(", ") : value);
+      }
+    }
+
+    const response = await this.request(
+      `http://${req.headers.host ?? "127.0.0.1"}${req.url ?? "/"}`,
+      {
+        method: req.method,
+        headers,
+        body:
+          chunks.length > 0
+            ? Buffer.concat(chunks).toString("utf8")
+            : undefined,
+      }
+    );
+    res.statusCode = response.status;
+    response.headers.forEach((value, name) => res.setHeader(name, value));
+    res.end(Buffer.from(await response.arrayBuffer()));
+  }
+
+  private requireUnpaidOrder(referenceId: string): FakeOrder {
+    const order = this.orders.get(referenceId);
+    if (!order) {
+      throw new TapsilatError(`Order ${referenceId} not found`, "NOT_FOUND");
+    }
+    if (order.status !== "CREATED") {
+      throw new TapsilatError(
+        `Order in status ${order.status} is not awaiting payment`,
+        "INVALID_STATE"
+      );
+    }
+    return order;
+  }
+
+  private findOrder(id: string | undefined): FakeOrder | undefined {
+    return (
+      (id && this.orders.get(id)) ||
+      [...this.orders.values()].find((order) => order.id === id)
+    );
+  }
+
+  private findTerm(termReferenceId: string | undefined): FakeTerm | undefined {
+    for (const order of this.orders.values()) {
+      const term = order.payment_terms.find(
+        (candidate) => candidate.term_reference_id === termReferenceId
+      );
+      if (term) {
+        return term;
+      }
+    }
+    return undefined;
+  }
+
+  private findSubscription(
+    body: Record<string, unknown>
+  ): FakeSubscription | undefined {
+    return [...this.subscriptions.values()].find(
+      (subscription) =>
+        (body.reference_id !== undefined &&
+          subscription.reference_id === body.reference_id) ||
+        (body.external_reference_id !== undefined &&
+          subscription.request.external_reference_id ===
+            body.external_reference_id)
+    );
+  }
+
+  private checkoutUrl(order: FakeOrder): string {
+    const { checkoutDomain } = resolveEnvironment({});
+    return `${checkoutDomain}/?reference_id=${order.reference_id}`;
+  }
+
+  private toOrderSummary(order: FakeOrder): Record<string, unknown> {
+    return {
+      reference_id: order.reference_id,
+      conversation_id: order.conversation_id,
+      amount: order.amount,
+      paid_amount: order.paid_amount,
+      refunded_amount: order.refunded_amount,
+      currency: order.currency,
+      status: order.status,
+    };
+  }
+
+  private toOrderDetail(order: FakeOrder): Record<string, unknown> {
+    return {
+      ...order.request,
+      reference_id: order.reference_id,
+      conversation_id: order.conversation_id,
+      external_reference_id: order.external_reference_id,
+      amount: order.amount.toFixed(2),
+      total: order.amount.toFixed(2),
+      paid_amount: order.paid_amount.toFixed(2),
+      refunded_amount: order.refunded_amount.toFixed(2),
+      currency: order.currency,
+      locale: order.locale,
+      status: ORDER_STATUS_CODES[order.status],
+      status_enum: order.status,
+      checkout_url: this.checkoutUrl(order),
+      basket_items: order.basket_items,
+      payment_terms: order.payment_terms.map(
+        (term): PaymentTermDTO => ({
+          term_reference_id: term.term_reference_id,
+          amount: term.amount,
+          due_date: term.due_date,
+          paid_date: term.paid_date,
+          required: term.required,
+          status: term.status,
+          term_sequence: term.term_sequence,
+        })
+      ),
+      created_at: order.created_at,
+    };
+  }
+
+  private toSubscriptionDetail(
+    subscription: FakeSubscription
+  ): Record<string, unknown> {
+    const { request } = subscription;
+    const orders = subscription.order_reference_ids
+      .map((referenceId) => this.orders.get(referenceId))
+      .filter((order): order is FakeOrder => order !== undefined);
+    const latest = orders[orders.length - 1];
+    return {
+      reference_id: subscription.reference_id,
+      external_reference_id: request.external_reference_id,
+      title: request.title,
+      amount: (request.amount as number).toFixed(2),
+      currency: request.currency,
+      period: request.period,
+      payment_date: request.payment_date,
+      is_active: subscription.is_active,
+      payment_status: latest?.status,
+      orders: orders.map((order) => ({
+        reference_id: order.reference_id,
+        amount: order.amount.toFixed(2),
+        currency: order.currency,
+        status: order.status,
+        payment_url: this.checkoutUrl(order),
+      })),
+    };
+  }
+}
+
+const bodyOf = (request: InMemoryRequest): Record<string, unknown> =>
+  request.body && typeof request.body === "object"
+    ? (request.body as Record<string, unknown>)
+    : {};
+
+const lastSegment = (path: string): string =>
+  decodeURIComponent(path.split("/").pop() ?? "");
+
+const round = (amount: number): number => Math.round(amount * 100) / 100;
+
+const errorReply = (
+  status: number,
+  code: string,
+  message: string,
+  details?: Record<string, string>
+): InMemoryReply => ({
+  status,
+  body: { code, message, ...(details && { errors: details }) },
+});
+
+const orderNotFound = (): InMemoryReply =>
+  errorReply(404, "ORDER_NOT_FOUND", "Order not found");
+
+const termNotFound = (): InMemoryReply =>
+  errorReply(404, "TERM_NOT_FOUND", "Payment term not found");
+
+const subscriptionNotFound = (): InMemoryReply =>
+  errorReply(404, "SUBSCRIPTION_NOT_FOUND", "Subscription not found");
+
+const submerchantNotFound = (): InMemoryReply =>
+  errorReply(404, "SUBMERCHANT_NOT_FOUND", "Submerchant not found");
+
+const invalidTransition = (message: string): InMemoryReply =>
+  errorReply(400, "INVALID_STATE", message);
+
+const missingFields = (
+  body: Record<string, unknown>,
+  fields: string[]
+): InMemoryReply | undefined => {
+  const missing = fields.filter(
+    (field) => body[field] === undefined || body[field] === ""
+  );
+  if (missing.length === 0) {
+    return undefined;
+  }
+  return errorReply(
+    422,
+    "VALIDATION_ERROR",
+    `Missing required fields: ${missing.join(", ")}`,
+    Object.fromEntries(missing.map((field) => [field, "is required"]))
+  );
+};
+
+const paginate = <T>(
+  request: InMemoryRequest,
+  items: T[],
+  toRow: (item: T) => unknown,
+  rowsKey: "rows" | "data" = "rows"
+): InMemoryReply => {
+  const page = Math.max(Number(request.query.page) || 1, 1);
+  const perPage = Math.max(Number(request.query.per_page) || 10, 1);
+  const rows = items
+    .slice((page - 1) * perPage, page * perPage)
+    .map((item) => toRow(item));
+  return {
+    body: {
+      page,
+      per_page: perPage,
+      total: items.length,
+      total_pages: Math.ceil(items.length / perPage),
+      [rowsKey]: rows,
+    },
+  };
+};
+
+const toTermDetail = (term: FakeTerm): Record<string, unknown> => ({
+  term_reference_id: term.term_reference_id,
+  amount: term.amount,
+  required: term.required,
+  status: term.status,
+  term_sequence: term.term_sequence,
+  due_date: toTimestamp(term.due_date),
+  paid_date: toTimestamp(term.paid_date),
+});
+
+const toTimestamp = (
+  date: string | undefined
+): { seconds: number; nanos: number } | undefined => {
+  const time = date ? Date.parse(date) : NaN;
+  return Number.isNaN(time)
+    ? undefined
+    : { seconds: Math.floor(time / 1000), nanos: 0 };
+};
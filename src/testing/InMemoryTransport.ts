@@ -0,0 +1,189 @@
+/**
+ * @category Testing
+ * @module InMemoryTransport
+ */
+import { TransportAdapter } from "../types/index";
+
+/**
+ * @category Testing
+ * @summary Request captured by the in-memory transport
+ * @description Method, URL, path, headers and parsed body of a request sent through the in-memory transport
+ * @interface InMemoryRequest
+ */
+export interface InMemoryRequest {
+  method: string;
+  url: string;
+  path: string;
+  query: Record<string, string>;
+  headers: Headers;
+  body?: unknown;
+}
+
+/**
+ * @category Testing
+ * @summary Canned reply returned by an in-memory route
+ * @description Status, JSON-serializable body and headers used to build the response
+ * @interface InMemoryReply
+ */
+export interface InMemoryReply {
+  status?: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+/**
+ * @category Testing
+ * @summary Function producing the response for an in-memory route
+ * @typedef {Function} InMemoryHandler
+ */
+export type InMemoryHandler = (
+  request: InMemoryRequest
+) => InMemoryReply | Response | Promise<InMemoryReply | Response>;
+
+interface InMemoryRoute {
+  method: string;
+  path: string | RegExp;
+  handler: InMemoryHandler | InMemoryReply;
+  once: boolean;
+}
+
+/**
+ * @category Testing
+ * @summary Transport that answers requests from registered routes without network access
+ * @description Records every request and serves canned replies or handler results, for unit tests of code built on the SDK
+ *
+ * @example
+ * ```typescript
+ * const transport = new InMemoryTransport()
+ *   .on("GET", "/order/ref-1/status", { body: { status: "paid" } });
+ *
+ * const sdk = new TapsilatSDK({ bearerToken: "token", transport });
+ * await sdk.getOrderStatus("ref-1");
+ * expect(transport.requests).toHaveLength(1);
+ * ```
+ * @class InMemoryTransport
+ */
+export class InMemoryTransport implements TransportAdapter {
+  public readonly requests: InMemoryRequest[] = [];
+  private routes: InMemoryRoute[] = [];
+
+  /**
+   * @summary Register a route
+   * @description Paths match when the request path ends with the given string, or when the RegExp matches the path
+   *
+   * @param method - HTTP method, or "*" for any method
+   * @param path - Path suffix or pattern to match
+   * @param handler - Canned reply or handler function
+   * @returns This transport, for chaining
+   */
+  on(
+    method: string,
+    path: string | RegExp,
+    handler: InMemoryHandler | InMemoryReply
+  ): this {
+    this.routes.push({ method: method.toUpperCase(), path, handler, once: false });
+    return this;
+  }
+
+  /**
+   * @summary Register a route that answers a single request
+   * @description Once-routes take precedence and are removed after their first match
+   *
+   * @param method - HTTP method, or "*" for any method
+   * @param path - Path suffix or pattern to match
+   * @param handler - Canned reply or handler function
+   * @returns This transport, for chaining
+   */
+  once(
+    method: string,
+    path: string | RegExp,
+    handler: InMemoryHandler | InMemoryReply
+  ): this {
+    this.routes.unshift({ method: method.toUpperCase(), path, handler, once: true });
+    return this;
+  }
+
+  /**
+   * @summary Remove all routes and recorded requests
+   */
+  reset(): void {
+    this.routes = [];
+    this.requests.length = 0;
+  }
+
+  /**
+   * @summary Serve a request from the registered routes
+   * @description Rejects with an AbortError when the request signal is aborted and with an error when no route matches
+   *
+   * @param url - Full request URL
+   * @param init - Request options
+   * @returns Response built from the matching route
+   */
+  async request(url: string, init: RequestInit): Promise<Response> {
+    if (init.signal?.aborted) {
+      throw new DOMException("The operation was aborted", "AbortError");
+    }
+
+    const parsed = new URL(url);
+    const request: InMemoryRequest = {
+      method: (init.method ?? "GET").toUpperCase(),
+      url,
+      path: parsed.pathname,
+      query: Object.fromEntries(parsed.searchParams),
+      headers: new Headers(init.headers),
+      body: parseBody(init.body),
+    };
+    this.requests.push(request);
+
+    const route = this.routes.find(
+      (candidate) =>
+        (candidate.method === "*" || candidate.method === request.method) &&
+        (typeof candidate.path === "string"
+          ? request.path.endsWith(candidate.path)
+          : candidate.path.test(request.path))
+    );
+    if (!route) {
+      throw new Error(
+        `No in-memory route for ${request.method} ${request.path}`
+      );
+    }
+    if (route.once) {
+      this.routes.splice(this.routes.indexOf(route), 1);
+    }
+
+    const reply =
+      typeof route.handler === "function"
+        ? await route.handler(request)
+        : route.handler;
+
+    return reply instanceof Response ? reply : toResponse(reply);
+  }
+}
+
+const parseBody = (body: RequestInit["body"]): unknown => {
+  if (typeof body !== "string") {
+    return body ?? undefined;
+  }
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+};
+
+const toResponse = (reply: InMemoryReply): Response => {
+  const headers = new Headers(reply.headers);
+  let body: string | null = null;
+  if (reply.body !== undefined) {
+    if (typeof reply.body === "string") {
+      body = reply.body;
+      if (!headers.has("content-type")) headers.set("content-type", "text/plain");
+    } else {
+      body = JSON.stringify(reply.body);
+      if (!headers.has("content-type")) {
+        headers.set("content-type", "application/json");
+      }
+    }
+  }
+  return new Response(body, { status: reply.status ?? 200, headers });
+};
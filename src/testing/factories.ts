@@ -0,0 +1,653 @@
+/**
+ * @category Testing
+ * @module Factories
+ */
+import {
+  BasketItem,
+  BillingAddress,
+  Buyer,
+  OrderCreateRequest,
+  SubmerchantCreateDTO,
+  SubscriptionCreateRequest,
+} from "../types/index";
+
+/**
+ * @category Testing
+ * @summary Partial value merged over a generated fixture
+ * @description Nested objects are merged field by field; arrays and other values replace the
+ * generated ones
+ * @typedef {Object} FactoryOverrides
+ */
+export type FactoryOverrides<T> = {
+  [K in keyof T]?: NonNullable<T[K]> extends unknown[]
+    ? T[K]
+    : T[K] extends object | undefined
+      ? FactoryOverrides<NonNullable<T[K]>>
+      : T[K];
+};
+
+/**
+ * @category Testing
+ * @summary Defects that `invalidOrderCreateRequest` can introduce
+ * @description Each one breaks a single rule that the SDK or the API checks
+ * @typedef {string} InvalidOrderField
+ */
+export type InvalidOrderField =
+  | "amount"
+  | "decimal_places"
+  | "currency"
+  | "locale"
+  | "buyer_name"
+  | "buyer_email"
+  | "basket_total"
+  | "gsm_number"
+  | "identity_number";
+
+/**
+ * @category Testing
+ * @summary Defects that `invalidSubmerchant` can introduce
+ * @typedef {string} InvalidSubmerchantField
+ */
+export type InvalidSubmerchantField =
+  | "email"
+  | "gsm_number"
+  | "iban"
+  | "identity_number";
+
+/**
+ * @category Testing
+ * @summary Options of a test data factory
+ * @description Factories created with the same `seed` (1 by default) generate the same data in
+ * the same order of calls
+ * @interface TestDataFactoryOptions
+ */
+export interface TestDataFactoryOptions {
+  seed?: number;
+}
+
+const FIRST_NAMES = [
+  "Ahmet",
+  "Ayşe",
+  "Mehmet",
+  "Fatma",
+  "Mustafa",
+  "Zeynep",
+  "Emre",
+  "Elif",
+  "Can",
+  "Şule",
+  "Burak",
+  "Gülşen",
+];
+
+const SURNAMES = [
+  "Yılmaz",
+  "Kaya",
+  "Demir",
+  "Şahin",
+  "Çelik",
+  "Yıldız",
+  "Öztürk",
+  "Aydın",
+  "Arslan",
+  "Doğan",
+];
+
+const CITIES = [
+  { city: "İstanbul", district: "Kadıköy", zip_code: "34710" },
+  { city: "İstanbul", district: "Beşiktaş", zip_code: "34353" },
+  { city: "Ankara", district: "Çankaya", zip_code: "06690" },
+  { city: "İzmir", district: "Karşıyaka", zip_code: "35540" },
+  { city: "Bursa", district: "Nilüfer", zip_code: "16110" },
+  { city: "Antalya", district: "Muratpaşa", zip_code: "07100" },
+];
+
+const STREETS = [
+  "Atatürk Cd.",
+  "Cumhuriyet Cd.",
+  "İstiklal Cd.",
+  "Bağdat Cd.",
+  "Gazi Bulvarı",
+  "Fevzi Çakmak Sk.",
+];
+
+const TAX_OFFICES = [
+  "Kadıköy",
+  "Beşiktaş",
+  "Çankaya",
+  "Karşıyaka",
+  "Nilüfer",
+  "Muratpaşa",
+];
+
+const PRODUCTS = [
+  { name: "Kablosuz Kulaklık", category1: "Elektronik", category2: "Ses" },
+  { name: "Pamuklu Tişört", category1: "Giyim", category2: "Üst Giyim" },
+  { name: "Seramik Kupa", category1: "Ev", category2: "Mutfak" },
+  { name: "Roman Seti", category1: "Kitap", category2: "Edebiyat" },
+  { name: "Koşu Ayakkabısı", category1: "Spor", category2: "Ayakkabı" },
+];
+
+// Mobile prefixes of Turkcell (53x), Vodafone (54x) and Türk Telekom (50x, 55x)
+const GSM_PREFIXES = ["505", "532", "533", "535", "542", "544", "552", "555"];
+
+// Participant codes of Turkish banks, used as the IBAN bank code
+const BANK_CODES = ["00010", "00012", "00015", "00046", "00062", "00064"];
+
+const TURKISH_ASCII: Record<string, string> = {
+  ç: "c",
+  ğ: "g",
+  ı: "i",
+  İ: "i",
+  ö: "o",
+  ş: "s",
+  ü: "u",
+};
+
+// TEST DATA FACTORY
+// Summary: Seeded generator of valid SDK request fixtures with Turkish-locale data
+// Description: Identity, tax, IBAN and GSM numbers carry valid check digits; basket totals add up
+/**
+ * @category Testing
+ * @summary Generates valid, deterministic request fixtures for tests
+ * @description
+ * Every fixture passes the SDK's validators and the API's format rules: TCKN and VKN numbers
+ * and IBANs have valid check digits, GSM numbers use Turkish mobile prefixes, and an order's
+ * amount is the sum of its basket items. Values come from a seeded generator, so a factory with
+ * a given seed produces the same fixtures on every run. Overrides are merged over the generated
+ * values, and the `invalid*` methods break one rule at a time for negative tests.
+ *
+ * @example
+ * ```typescript
+ * const factory = new TestDataFactory({ seed: 42 });
+ *
+ * const order = factory.orderCreateRequest({ currency: "EUR" });
+ * const broken = factory.invalidOrderCreateRequest("buyer_email");
+ * ```
+ * @class TestDataFactory
+ */
+export class TestDataFactory {
+  private state: number;
+  private sequence = 0;
+
+  /**
+   * @summary Creates a factory
+   *
+   * @param options - Seed of the generator
+   */
+  constructor(options: TestDataFactoryOptions = {}) {
+    this.state = (options.seed ?? 1) >>> 0;
+  }
+
+  /**
+   * @summary Generates a buyer
+   *
+   * @param overrides - Fields replacing the generated ones
+   * @returns Buyer with a valid TCKN, GSM number and e-mail address
+   */
+  buyer(overrides: FactoryOverrides<Buyer> = {}): Buyer {
+    const name = this.pick(FIRST_NAMES);
+    const surname = this.pick(SURNAMES);
+    const location = this.pick(CITIES);
+    return merge<Buyer>(
+      {
+        id: this.nextId("buyer"),
+        name,
+        surname,
+        email:
+          `${toAscii(name)}.${toAscii(surname)}` +
+          `${this.integer(1, 999)}@example.com`,
+        gsm_number: this.gsmNumber(),
+        identity_number: this.tckn(),
+        birth_date:
+          `${this.integer(1960, 2004)}-0${this.integer(1, 9)}` +
+          `-1${this.integer(0, 9)}`,
+        registration_address: this.streetAddress(location.district),
+        city: location.city,
+        country: "Türkiye",
+        zip_code: location.zip_code,
+        ip:
+          `85.${this.integer(96, 111)}.${this.integer(0, 255)}` +
+          `.${this.integer(1, 254)}`,
+      },
+      overrides
+    );
+  }
+
+  /**
+   * @summary Generates a billing address
+   * @description Personal addresses carry the buyer's TCKN; business addresses carry a VKN and a
+   * tax office
+   *
+   * @param overrides - Fields replacing the generated ones
+   * @returns Billing address of the given `billing_type`, `PERSONAL` by default
+   */
+  billingAddress(
+    overrides: FactoryOverrides<BillingAddress> = {}
+  ): BillingAddress {
+    const location = this.pick(CITIES);
+    const billingType = overrides.billing_type ?? "PERSONAL";
+    const contactName = `${this.pick(FIRST_NAMES)} ${this.pick(SURNAMES)}`;
+    return merge<BillingAddress>(
+      {
+        billing_type: billingType,
+        contact_name: contactName,
+        contact_phone: this.gsmNumber(),
+        address: this.streetAddress(location.district),
+        city: location.city,
+        district: location.district,
+        country: "Türkiye",
+        zip_code: location.zip_code,
+        citizenship: "TR",
+        ...(billingType === "PERSONAL"
+          ? { vat_number: this.tckn() }
+          : {
+              vat_number: this.vkn(),
+              tax_office: this.pick(TAX_OFFICES),
+              title: `${contactName.split(" ")[1]} Ticaret Ltd. Şti.`,
+            }),
+      },
+      overrides
+    );
+  }
+
+  /**
+   * @summary Generates a basket item
+   *
+   * @param overrides - Fields replacing the generated ones
+   * @returns Physical basket item with a quantity of 1 and a price with two decimals at most
+   */
+  basketItem(overrides: FactoryOverrides<BasketItem> = {}): BasketItem {
+    const product = this.pick(PRODUCTS);
+    return merge<BasketItem>(
+      {
+        id: this.nextId("item"),
+        ...product,
+        item_type: "PHYSICAL",
+        price: this.amount(25, 1500),
+        quantity: 1,
+      },
+      overrides
+    );
+  }
+
+  /**
+   * @summary Generates an order creation request
+   * @description Unless `amount` is overridden, it is the total of the basket items, so overriding
+   * `basket_items` keeps the order consistent
+   *
+   * @param overrides - Fields replacing the generated ones
+   * @returns Order request that passes `createOrder`'s validation
+   */
+  orderCreateRequest(
+    overrides: FactoryOverrides<OrderCreateRequest> = {}
+  ): OrderCreateRequest {
+    const basketItems =
+      overrides.basket_items ??
+      Array.from({ length: this.integer(1, 3) }, () => this.basketItem());
+    const buyer = this.buyer(overrides.buyer);
+    const isPersonal =
+      (overrides.billing_address?.billing_type ?? "PERSONAL") === "PERSONAL";
+    return merge<OrderCreateRequest>(
+      {
+        amount: basketTotal(basketItems),
+        currency: "TRY",
+        locale: "tr",
+        conversation_id: this.nextId("conversation"),
+        buyer,
+        billing_address: this.billingAddress({
+          contact_name: `${buyer.name} ${buyer.surname}`,
+          contact_phone: buyer.gsm_number,
+          // A personal invoice is issued to the buyer's identity number
+          ...(isPersonal && { vat_number: buyer.identity_number }),
+          ...overrides.billing_address,
+        }),
+        basket_items: basketItems,
+      },
+      {
+        ...overrides,
+        buyer: undefined,
+        billing_address: undefined,
+        basket_items: undefined,
+      }
+    );
+  }
+
+  /**
+   * @summary Generates an order request with one defect
+   *
+   * @param field - Rule to break
+   * @param overrides - Fields replacing the generated ones before the defect is applied
+   * @returns Order request that fails validation because of `field`
+   */
+  invalidOrderCreateRequest(
+    field: InvalidOrderField,
+    overrides: FactoryOverrides<OrderCreateRequest> = {}
+  ): OrderCreateRequest {
+    const request = this.orderCreateRequest(overrides);
+    switch (field) {
+      case "amount":
+        request.amount = -request.amount;
+        break;
+      case "decimal_places":
+        request.amount += 0.001;
+        break;
+      case "currency":
+        request.currency = "" as OrderCreateRequest["currency"];
+        break;
+      case "locale":
+        request.locale = "" as OrderCreateRequest["locale"];
+        break;
+      case "buyer_name":
+        request.buyer.name = "";
+        break;
+      case "buyer_email":
+        request.buyer.email = request.buyer.email.replace("@", "");
+        break;
+      case "basket_total":
+        request.amount = Math.round((request.amount + 10) * 100) / 100;
+        break;
+      case "gsm_number":
+        request.buyer.gsm_number = this.invalidGsmNumber();
+        break;
+      case "identity_number":
+        request.buyer.identity_number = this.invalidTckn();
+        break;
+    }
+    return request;
+  }
+
+  /**
+   * @summary Generates a subscription creation request
+   *
+   * @param overrides - Fields replacing the generated ones
+   * @returns Monthly subscription request with a subscriber and a billing address
+   */
+  subscriptionCreateRequest(
+    overrides: FactoryOverrides<SubscriptionCreateRequest> = {}
+  ): SubscriptionCreateRequest {
+    const buyer = this.buyer();
+    const location = this.pick(CITIES);
+    return merge<SubscriptionCreateRequest>(
+      {
+        title: `${this.pick(["Temel", "Standart", "Premium"])} Üyelik`,
+        amount: this.amount(49, 499),
+        currency: "TRY",
+        period: 30,
+        cycle: 12,
+        payment_date: this.integer(1, 28),
+        external_reference_id: this.nextId("subscription"),
+        success_url: "https://merchant.example.com/subscription/success",
+        failure_url: "https://merchant.example.com/subscription/failure",
+        user: {
+          id: buyer.id,
+          first_name: buyer.name,
+          last_name: buyer.surname,
+          email: buyer.email,
+          phone: buyer.gsm_number,
+          identity_number: buyer.identity_number,
+          address: buyer.registration_address,
+          city: buyer.city,
+          country: buyer.country,
+          zip_code: buyer.zip_code,
+        },
+        billing: {
+          contact_name: `${buyer.name} ${buyer.surname}`,
+          vat_number: buyer.identity_number,
+          address: this.streetAddress(location.district),
+          city: location.city,
+          country: "Türkiye",
+          zip_code: location.zip_code,
+        },
+      },
+      overrides
+    );
+  }
+
+  /**
+   * @summary Generates a submerchant creation request
+   *
+   * @param overrides - Fields replacing the generated ones
+   * @returns Personal submerchant with a valid TCKN, IBAN and GSM number
+   */
+  submerchant(
+    overrides: FactoryOverrides<SubmerchantCreateDTO> = {}
+  ): SubmerchantCreateDTO {
+    const name = this.pick(FIRST_NAMES);
+    const surname = this.pick(SURNAMES);
+    const location = this.pick(CITIES);
+    return merge<SubmerchantCreateDTO>(
+      {
+        name: `${name} ${surname} Mağazası`,
+        email: `${toAscii(name)}@${toAscii(surname)}-magaza.example.com`,
+        gsm_number: this.gsmNumber(),
+        iban: this.iban(),
+        iban_name: `${name} ${surname}`,
+        identity_number: this.tckn(),
+        address: this.streetAddress(location.district),
+        city: location.city,
+        district: location.district,
+        country: "Türkiye",
+        zip_code: location.zip_code,
+        contact_name: name,
+        contact_surname: surname,
+        sub_merchant_type: "PERSONAL",
+        tax_office: this.pick(TAX_OFFICES),
+      },
+      overrides
+    );
+  }
+
+  /**
+   * @summary Generates a submerchant request with one defect
+   *
+   * @param field - Field to make invalid
+   * @param overrides - Fields replacing the generated ones before the defect is applied
+   * @returns Submerchant request whose `field` is malformed
+   */
+  invalidSubmerchant(
+    field: InvalidSubmerchantField,
+    overrides: FactoryOverrides<SubmerchantCreateDTO> = {}
+  ): SubmerchantCreateDTO {
+    const request = this.submerchant(overrides);
+    switch (field) {
+      case "email":
+        request.email = request.email.replace("@", " at ");
+        break;
+      case "gsm_number":
+        request.gsm_number = this.invalidGsmNumber();
+        break;
+      case "iban":
+        request.iban = this.invalidIban();
+        break;
+      case "identity_number":
+        request.identity_number = this.invalidTckn();
+        break;
+    }
+    return request;
+  }
+
+  /**
+   * @summary Generates a Turkish identity number (TCKN)
+   *
+   * @returns 11-digit number with valid check digits
+   */
+  tckn(): string {
+    const digits = [this.integer(1, 9)];
+    while (digits.length < 9) {
+      digits.push(this.integer(0, 9));
+    }
+    return digits.join("") + tcknCheckDigits(digits);
+  }
+
+  /**
+   * @summary Generates a TCKN whose last check digit is wrong
+   *
+   * @returns 11-digit number that fails the TCKN checksum
+   */
+  invalidTckn(): string {
+    return breakLastDigit(this.tckn());
+  }
+
+  /**
+   * @summary Generates a Turkish tax number (VKN)
+   *
+   * @returns 10-digit number with a valid check digit
+   */
+  vkn(): string {
+    const digits = Array.from({ length: 9 }, () => this.integer(0, 9));
+    return digits.join("") + vknCheckDigit(digits);
+  }
+
+  /**
+   * @summary Generates a VKN whose check digit is wrong
+   *
+   * @returns 10-digit number that fails the VKN checksum
+   */
+  invalidVkn(): string {
+    return breakLastDigit(this.vkn());
+  }
+
+  /**
+   * @summary Generates a Turkish IBAN
+   *
+   * @returns 26-character `TR` IBAN with valid check digits and a Turkish bank code
+   */
+  iban(): string {
+    const account = Array.from({ length: 16 }, () => this.integer(0, 9)).join(
+      ""
+    );
+    const bban = `${this.pick(BANK_CODES)}0${account}`;
+    return `TR${ibanCheckDigits(bban)}${bban}`;
+  }
+
+  /**
+   * @summary Generates a Turkish IBAN whose check digits are wrong
+   *
+   * @returns 26-character IBAN that fails the mod-97 check
+   */
+  invalidIban(): string {
+    return breakLastDigit(this.iban());
+  }
+
+  /**
+   * @summary Generates a Turkish mobile number
+   *
+   * @returns Number in `+905XXXXXXXXX` form that passes `validateGsmNumber`
+   */
+  gsmNumber(): string {
+    const subscriber = Array.from({ length: 7 }, () =>
+      this.integer(0, 9)
+    ).join("");
+    return `+90${this.pick(GSM_PREFIXES)}${subscriber}`;
+  }
+
+  /**
+   * @summary Generates a number that is not a Turkish mobile number
+   *
+   * @returns Landline number that `validateGsmNumber` rejects
+   */
+  invalidGsmNumber(): string {
+    const subscriber = Array.from({ length: 7 }, () =>
+      this.integer(0, 9)
+    ).join("");
+    return `+90212${subscriber}`;
+  }
+
+  // Mulberry32: small, fast and good enough for fixtures
+  private next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let value = this.state;
+    value = Math.imul(value ^ (value >>> 15), value | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  }
+
+  private integer(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  private amount(min: number, max: number): number {
+    return this.integer(min * 100, max * 100) / 100;
+  }
+
+  private pick<T>(values: readonly T[]): T {
+    return values[this.integer(0, values.length - 1)];
+  }
+
+  private nextId(prefix: string): string {
+    this.sequence += 1;
+    return `${prefix}-${String(this.sequence).padStart(6, "0")}`;
+  }
+
+  private streetAddress(district: string): string {
+    return `${this.pick(STREETS)} No: ${this.integer(1, 180)}, ${district}`;
+  }
+}
+
+const basketTotal = (items: BasketItem[]): number =>
+  Math.round(
+    items.reduce(
+      (total, item) => total + (item.price ?? 0) * (item.quantity ?? 1) * 100,
+      0
+    )
+  ) / 100;
+
+const tcknCheckDigits = (digits: number[]): string => {
+  const odd = digits[0] + digits[2] + digits[4] + digits[6] + digits[8];
+  const even = digits[1] + digits[3] + digits[5] + digits[7];
+  const tenth = (((odd * 7 - even) % 10) + 10) % 10;
+  const eleventh =
+    (digits.reduce((total, digit) => total + digit, 0) + tenth) % 10;
+  return `${tenth}${eleventh}`;
+};
+
+const vknCheckDigit = (digits: number[]): number => {
+  let total = 0;
+  digits.forEach((digit, index) => {
+    const position = 9 - index;
+    const shifted = (digit + position) % 10;
+    if (shifted !== 0) {
+      total += (shifted * 2 ** position) % 9 || 9;
+    }
+  });
+  return (10 - (total % 10)) % 10;
+};
+
+const ibanCheckDigits = (bban: string): string => {
+  // Letters count as 10-35: T = 29, R = 27; the check digits start as 00
+  const numeric = `${bban}292700`;
+  let remainder = 0;
+  for (const digit of numeric) {
+    remainder = (remainder * 10 + Number(digit)) % 97;
+  }
+  return String(98 - remainder).padStart(2, "0");
+};
+
+const breakLastDigit = (value: string): string =>
+  value.slice(0, -1) + ((Number(value.slice(-1)) + 1) % 10);
+
+const toAscii = (value: string): string =>
+  value
+    .replace(/[çğıİöşü]/g, (letter) => TURKISH_ASCII[letter])
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, "");
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+const merge = <T>(base: T, overrides: FactoryOverrides<T>): T => {
+  const result: Record<string, unknown> = {
+    ...(base as Record<string, unknown>),
+  };
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value === undefined) {
+      continue;
+    }
+    result[key] =
+      isPlainObject(value) && isPlainObject(result[key])
+        ? merge(result[key], value)
+        : value;
+  }
+  return result as T;
+};
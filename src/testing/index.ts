@@ -0,0 +1,34 @@
+// Test doubles
+export { InMemoryTransport } from "./InMemoryTransport";
+export type {
+  InMemoryRequest,
+  InMemoryReply,
+  InMemoryHandler,
+} from "./InMemoryTransport";
+export { CassetteTransport } from "./CassetteTransport";
+export type {
+  CassetteMode,
+  CassetteInteraction,
+  Cassette,
+  CassetteOptions,
+} from "./CassetteTransport";
+export {
+  FakeTapsilatServer,
+  FAKE_WEBHOOK_SIGNATURE_HEADER,
+} from "./FakeTapsilatServer";
+export type {
+  FakeOrderStatus,
+  FakeWebhookEventType,
+  FakeWebhookEvent,
+  FakeWebhookDelivery,
+  FakeTapsilatServerOptions,
+} from "./FakeTapsilatServer";
+
+// Test data
+export { TestDataFactory } from "./factories";
+export type {
+  FactoryOverrides,
+  InvalidOrderField,
+  InvalidSubmerchantField,
+  TestDataFactoryOptions,
+} from "./factories";
@@ -2,6 +2,7 @@
  * @module Types
  * @description Tapsilat SDK type definitions, interfaces, and API data structures
  */
+import type { TapsilatError } from "../errors/TapsilatError";
 
 // SDK CONFIGURATION
 // Summary: Core configuration options for the Tapsilat SDK
@@ -13,15 +14,472 @@
  * @interface TapsilatConfig
  */
 export interface TapsilatConfig {
-  bearerToken: string;
+  bearerToken?: string;
+  credentials?: CredentialsProvider | CredentialsOptions;
+  environment?: TapsilatEnvironmentName | TapsilatEnvironment;
   baseURL?: string;
+  checkoutDomain?: string;
+  subscriptionDomain?: string;
+  useOrganizationDomains?: boolean;
   timeout?: number;
+  operationTimeouts?: Record<string, number>;
+  deadline?: number;
   maxRetries?: number;
   retryDelay?: number;
+  retryPolicy?: RetryPolicy;
+  autoIdempotencyKeys?: boolean;
+  transport?: Transport;
+  logger?: Logger;
+  redaction?: RedactionOptions;
+  errorCatalog?: ErrorCatalogEntry[];
+  responseValidation?: ResponseValidationMode;
+  onSchemaDrift?: (drift: SchemaDrift) => void;
+  tracer?: Tracer;
+  metrics?: MetricsRecorder;
+  circuitBreaker?: CircuitBreakerOptions;
+  rateLimit?: RateLimitOptions;
+  cache?: CacheOptions;
   version?: string;
   debug?: boolean;
 }
 
+/**
+ * @category Configuration
+ * @summary Configuration update applied by the config manager
+ * @description `changed` lists the keys whose values differ between `previous` and `current`. Both configurations are complete and include the bearer token.
+ * @interface ConfigChange
+ */
+export interface ConfigChange {
+  changed: (keyof TapsilatConfig)[];
+  previous: Readonly<TapsilatConfig>;
+  current: Readonly<TapsilatConfig>;
+}
+
+// ENVIRONMENTS
+// Summary: API base URL and checkout and subscription domains of a Tapsilat environment
+// Description: The production preset, or the URLs of any other deployment
+/**
+ * @category Configuration
+ * @summary Name of a built-in environment preset
+ * @description `production` has built-in URLs. Tapsilat provides the `sandbox` and `staging` URLs
+ * per account, so those names need `baseURL`, `checkoutDomain` and `subscriptionDomain` as well;
+ * other deployments are passed as a `TapsilatEnvironment`
+ * @typedef {string} TapsilatEnvironmentName
+ */
+export type TapsilatEnvironmentName = "production" | "sandbox" | "staging";
+
+/**
+ * @category Configuration
+ * @summary URLs of a Tapsilat environment
+ * @description `baseURL` is the API base URL; `checkoutDomain` and `subscriptionDomain` are the origins of the hosted checkout and subscription pages
+ * @interface TapsilatEnvironment
+ */
+export interface TapsilatEnvironment {
+  baseURL: string;
+  checkoutDomain: string;
+  subscriptionDomain: string;
+}
+
+// CREDENTIALS
+// Summary: Bearer tokens supplied at runtime by a provider
+// Description: Tokens are cached, refreshed before they expire and refreshed again after a 401
+/**
+ * @category Configuration
+ * @summary Bearer token returned by a credentials provider
+ * @description `expiresAt` is an epoch timestamp in milliseconds or a Date; tokens with an expiry are cached until shortly before it
+ * @interface Credentials
+ */
+export interface Credentials {
+  token: string;
+  expiresAt?: number | Date;
+}
+
+/**
+ * @category Configuration
+ * @summary Function that supplies the bearer token
+ * @description May be async. A plain string, or credentials without `expiresAt`, is cached until the API answers 401.
+ * @typedef {Function} CredentialsProvider
+ */
+export type CredentialsProvider = () =>
+  | string
+  | Credentials
+  | Promise<string | Credentials>;
+
+/**
+ * @category Configuration
+ * @summary Credentials provider with refresh settings
+ * @description Cached tokens are refreshed in the background once they are within `refreshMarginMs` of expiring (default 60000)
+ * @interface CredentialsOptions
+ */
+export interface CredentialsOptions {
+  provider: CredentialsProvider;
+  refreshMarginMs?: number;
+}
+
+// LOGGING
+// Summary: Structured logger used by the HTTP layer
+// Description: Leveled logging with a message and structured fields, compatible with pino, winston and console
+/**
+ * @category Configuration
+ * @summary Severity of a log entry
+ * @typedef {string} LogLevel
+ */
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/**
+ * @category Configuration
+ * @summary Structured fields attached to a log entry
+ * @typedef {object} LogFields
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * @category Configuration
+ * @summary Structured logger used by the HTTP layer
+ * @description Receives a message and redacted structured fields for every request, retry, response and failure
+ * @interface Logger
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+/**
+ * @category Configuration
+ * @summary Controls which values are masked before they reach the logger
+ * @description Tokens, buyer, billing and submerchant PII and card data are masked by default; field names match case-insensitively and ignore `_` and `-`, and an entry such as `buyer.name` matches only inside that parent
+ * @interface RedactionOptions
+ */
+export interface RedactionOptions {
+  fields?: string[];
+  keep?: string[];
+  patterns?: RegExp[];
+  mask?: string;
+}
+
+// TRANSPORT
+// Summary: Pluggable transport used by the HTTP client for every call
+// Description: Either a fetch-compatible function or an adapter object
+/**
+ * @category Configuration
+ * @summary Fetch-compatible function used to send requests
+ * @description Any function with the signature of the global `fetch`, such as undici's `fetch` bound to a custom dispatcher or an instrumented wrapper
+ * @typedef {Function} FetchLike
+ */
+export type FetchLike = (url: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * @category Configuration
+ * @summary Adapter object used to send requests
+ * @description Richer transport interface for adapters that keep their own state, such as connection pools or in-memory test doubles
+ * @interface TransportAdapter
+ */
+export interface TransportAdapter {
+  request(url: string, init: RequestInit): Promise<Response>;
+}
+
+/**
+ * @category Configuration
+ * @summary Transport accepted by the SDK configuration
+ * @description A fetch-compatible function or a transport adapter; defaults to the global `fetch`
+ * @typedef {FetchLike|TransportAdapter} Transport
+ */
+export type Transport = FetchLike | TransportAdapter;
+
+// TRACING
+// Summary: Tracer and span shapes used for distributed tracing
+// Description: Structural subset of the OpenTelemetry API, so an OpenTelemetry tracer can be passed without the SDK depending on it
+/**
+ * @category Configuration
+ * @summary Value of a span attribute
+ * @typedef {string|number|boolean} SpanAttributeValue
+ */
+export type SpanAttributeValue = string | number | boolean;
+
+/**
+ * @category Configuration
+ * @summary Attributes recorded on a span
+ * @typedef {object} SpanAttributes
+ */
+export type SpanAttributes = Record<string, SpanAttributeValue | undefined>;
+
+/**
+ * @category Configuration
+ * @summary Options used when starting a span
+ * @description `kind` follows the OpenTelemetry numbering: 0 internal, 2 client
+ * @interface SpanOptions
+ */
+export interface SpanOptions {
+  kind?: number;
+  attributes?: SpanAttributes;
+}
+
+/**
+ * @category Configuration
+ * @summary Identifiers of a span, used for `traceparent` propagation
+ * @interface SpanContext
+ */
+export interface SpanContext {
+  traceId: string;
+  spanId: string;
+  traceFlags: number;
+}
+
+/**
+ * @category Configuration
+ * @summary A single traced unit of work
+ * @description Status codes follow the OpenTelemetry numbering: 0 unset, 1 ok, 2 error
+ * @interface Span
+ */
+export interface Span {
+  setAttribute(key: string, value: SpanAttributeValue): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException?(exception: Error): void;
+  spanContext?(): SpanContext;
+  end(): void;
+}
+
+/**
+ * @category Configuration
+ * @summary Creates spans for SDK operations and HTTP attempts
+ * @description An OpenTelemetry `Tracer` satisfies this interface. Operation spans are started with `startActiveSpan`, so attempt spans started inside them become their children.
+ * @interface Tracer
+ */
+export interface Tracer {
+  startSpan(name: string, options?: SpanOptions): Span;
+  startActiveSpan<F extends (span: Span) => unknown>(
+    name: string,
+    options: SpanOptions,
+    fn: F
+  ): ReturnType<F>;
+}
+
+// METRICS
+// Summary: Per-endpoint request metrics collected by the SDK
+// Description: Latency histograms, request, error, retry and rate-limit counts keyed by endpoint template
+/**
+ * @category Configuration
+ * @summary Outcome of one SDK request, including all of its retries
+ * @description `route` is the endpoint template, such as `/order/{reference_id}`, so IDs do not create new series; `errorCode` is the `TapsilatError` code of failed requests
+ * @interface RequestMetric
+ */
+export interface RequestMetric {
+  route: string;
+  method: string;
+  status?: number;
+  durationMs: number;
+  attempts: number;
+  rateLimitHits: number;
+  errorCode?: string;
+}
+
+/**
+ * @category Configuration
+ * @summary Latency histogram of an endpoint, in milliseconds
+ * @description Bucket counts are cumulative, as in Prometheus: each bucket counts the requests that took at most `le` milliseconds
+ * @interface LatencyHistogram
+ */
+export interface LatencyHistogram {
+  buckets: { le: number; count: number }[];
+  count: number;
+  sum: number;
+  min: number;
+  max: number;
+}
+
+/**
+ * @category Configuration
+ * @summary Metrics of one endpoint template and HTTP method
+ * @description `errors` counts failed requests by `TapsilatError` code; `retries` counts the extra attempts and `rateLimitHits` the 429 responses
+ * @interface EndpointMetrics
+ */
+export interface EndpointMetrics {
+  route: string;
+  method: string;
+  requests: number;
+  errors: Record<string, number>;
+  retries: number;
+  rateLimitHits: number;
+  latency: LatencyHistogram;
+}
+
+/**
+ * @category Configuration
+ * @summary Point-in-time copy of every endpoint's metrics
+ * @interface MetricsSnapshot
+ */
+export interface MetricsSnapshot {
+  startedAt: number;
+  endpoints: EndpointMetrics[];
+}
+
+/**
+ * @category Configuration
+ * @summary Collects request metrics and exposes them by pull, push and Prometheus export
+ * @description Implemented by `MetricsCollector`; pass one instance to several SDK clients to aggregate their metrics
+ * @interface MetricsRecorder
+ */
+export interface MetricsRecorder {
+  record(metric: RequestMetric): void;
+  snapshot(): MetricsSnapshot;
+  subscribe(listener: (metric: RequestMetric) => void): () => void;
+  toPrometheus(): string;
+  reset(): void;
+}
+
+// CIRCUIT BREAKER
+// Summary: Fails calls fast while the API keeps failing
+// Description: Closed, open and half-open states per host or per endpoint group
+/**
+ * @category Configuration
+ * @summary State of a circuit
+ * @description `closed` lets calls through, `open` rejects them immediately, and `half-open` lets a limited number of trial calls through after the cool-down
+ * @typedef {string} CircuitState
+ */
+export type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * @category Configuration
+ * @summary State change of a circuit, emitted for alerting
+ * @description `circuit` is the host, or the method and route template of the endpoint group; `failures` is the number of consecutive failures that led to the change
+ * @interface CircuitStateChange
+ */
+export interface CircuitStateChange {
+  circuit: string;
+  from: CircuitState;
+  to: CircuitState;
+  failures: number;
+  at: number;
+}
+
+/**
+ * @category Configuration
+ * @summary Configures the circuit breaker of the HTTP client
+ * @description `scope` keeps one circuit per API host (default) or per endpoint group. A circuit opens after `failureThreshold` consecutive failed attempts (default 5), rejects calls for `cooldownMs` (default 30000), then lets `halfOpenMaxCalls` trial calls through (default 1). Network errors, timeouts and `failureStatusCodes` (default 500, 502, 503 and 504) count as failures.
+ * @interface CircuitBreakerOptions
+ */
+export interface CircuitBreakerOptions {
+  scope?: "host" | "endpoint";
+  failureThreshold?: number;
+  cooldownMs?: number;
+  halfOpenMaxCalls?: number;
+  failureStatusCodes?: number[];
+  onStateChange?: (change: CircuitStateChange) => void;
+}
+
+// RATE LIMIT
+// Summary: Client-side request rate and concurrency limits
+// Description: Token bucket that learns from x-ratelimit headers, plus a cap on requests in flight
+/**
+ * @category Configuration
+ * @summary Limits the request rate and concurrency of one SDK instance
+ * @description `requestsPerSecond` refills a token bucket holding up to `burst` tokens (defaults to `requestsPerSecond`); without it the rate is only limited by what the API reports. With `learnFromHeaders` (default true) the bucket never holds more than `x-ratelimit-remaining`, and requests are queued until `x-ratelimit-reset` when it reaches zero or until `Retry-After` after a 429. `maxConcurrent` caps the requests in flight. Queued requests are sent in order and can be cancelled through their signal.
+ * @interface RateLimitOptions
+ */
+export interface RateLimitOptions {
+  requestsPerSecond?: number;
+  burst?: number;
+  maxConcurrent?: number;
+  learnFromHeaders?: boolean;
+}
+
+// RESPONSE CACHE
+// Summary: Caching and single-flight deduplication of GET requests
+// Description: Pluggable store, per-route TTLs and invalidation when the SDK mutates an order
+/**
+ * @category Configuration
+ * @summary Cached GET response with the tags used to invalidate it
+ * @description `tags` name the order the response belongs to, such as `order:<reference_id>`
+ * @interface CacheEntry
+ */
+export interface CacheEntry {
+  response: APIResponse<unknown>;
+  storedAt: number;
+  tags: string[];
+}
+
+/**
+ * @category Configuration
+ * @summary Storage backend of the response cache
+ * @description Methods may return promises, so Redis-like stores can be plugged in; the store is responsible for expiring entries after `ttlMs`
+ * @interface CacheStore
+ */
+export interface CacheStore {
+  get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry, ttlMs: number): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+}
+
+/**
+ * @category Configuration
+ * @summary Enables the GET response cache
+ * @description `ttls` maps route templates, or prefixes ending in `*`, to a time to live in milliseconds and extends the defaults (5 minutes for `/system/*`, a few seconds for orders and order status). Routes without a TTL use `defaultTtlMs` (0, not cached). Identical GET requests in flight are always coalesced into one. `maxEntries` sizes the default in-memory LRU store.
+ * @interface CacheOptions
+ */
+export interface CacheOptions {
+  store?: CacheStore;
+  ttls?: Record<string, number>;
+  defaultTtlMs?: number;
+  maxEntries?: number;
+}
+
+// DOWNLOADS
+// Summary: Streamed file downloads such as order PDF and Excel exports
+// Description: Progress reporting and the result of saving a download to disk
+/**
+ * @category Downloads
+ * @summary Progress of a download being saved
+ * @description `totalBytes` comes from the Content-Length header and is missing when the server does not send one
+ * @interface DownloadProgress
+ */
+export interface DownloadProgress {
+  bytes: number;
+  totalBytes?: number;
+}
+
+/**
+ * @category Downloads
+ * @summary Options of saving a download to disk
+ * @description `onProgress` is called after each chunk is received
+ * @interface SaveToOptions
+ */
+export interface SaveToOptions {
+  onProgress?: (progress: DownloadProgress) => void;
+}
+
+/**
+ * @category Downloads
+ * @summary File written by saving a download
+ * @interface SavedFile
+ */
+export interface SavedFile {
+  path: string;
+  bytes: number;
+}
+
+// RETRY POLICY
+// Summary: Controls when and how failed requests are retried
+// Description: Retryable statuses, backoff, jitter, time budget and idempotency rules
+/**
+ * @category Configuration
+ * @summary Controls when and how failed requests are retried
+ * @description Configures retryable status codes, backoff and jitter strategy, the total time budget, whether `Retry-After` and `x-ratelimit-reset` are honoured, and whether only idempotent requests are retried
+ * @interface RetryPolicy
+ */
+export interface RetryPolicy {
+  maxRetries?: number;
+  retryableStatusCodes?: number[];
+  maxElapsedMs?: number;
+  backoff?: "exponential" | "linear" | "constant";
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  jitter?: "full" | "equal" | "none";
+  respectRetryAfter?: boolean;
+  idempotentOnly?: boolean;
+}
+
 // PAYMENT METHODS
 // Summary: Supported payment method types in the Tapsilat system
 // Description: Defines all available payment options that customers can use
@@ -261,6 +719,83 @@ export interface APIError {
   details?: unknown;
 }
 
+// ERROR CATALOG
+// Summary: Tapsilat business error codes mapped to error categories
+// Description: Decides which error class an API error becomes, whether it is retryable and what the customer is told
+/**
+ * @category Error Handling
+ * @summary Category of a Tapsilat business error
+ * @description Each category has its own error class: `card_declined` is `TapsilatCardDeclinedError`, `insufficient_funds` is `TapsilatInsufficientFundsError`, `three_ds_failure` is `TapsilatThreeDSecureError`, `limit_exceeded` is `TapsilatLimitExceededError` and `duplicate_reference` is `TapsilatDuplicateReferenceError`
+ * @typedef {string} TapsilatErrorCategory
+ */
+export type TapsilatErrorCategory =
+  | "card_declined"
+  | "insufficient_funds"
+  | "three_ds_failure"
+  | "limit_exceeded"
+  | "duplicate_reference";
+
+/**
+ * @category Error Handling
+ * @summary Error message that can be shown to a customer, in Turkish and English
+ * @interface UserMessages
+ */
+export interface UserMessages {
+  tr: string;
+  en: string;
+}
+
+/**
+ * @category Error Handling
+ * @summary Business error code known to the SDK
+ * @description `isRetryable` and `userMessages` default to those of the category
+ * @interface ErrorCatalogEntry
+ */
+export interface ErrorCatalogEntry {
+  code: string;
+  category: TapsilatErrorCategory;
+  isRetryable?: boolean;
+  userMessages?: UserMessages;
+}
+
+// RESPONSE SCHEMAS
+// Summary: Runtime checks of API responses against the SDK's response types
+// Description: Reports fields whose values no longer match the documented types
+/**
+ * @category Response Schemas
+ * @summary How responses are checked against their schemas
+ * @description `strict` rejects a response that does not match with `TapsilatSchemaError`,
+ * `lenient` reports the mismatch through `onSchemaDrift` or the logger and returns the response,
+ * and `off` skips the checks
+ * @typedef {string} ResponseValidationMode
+ */
+export type ResponseValidationMode = "strict" | "lenient" | "off";
+
+/**
+ * @category Response Schemas
+ * @summary A value in a response that does not match its schema
+ * @description `path` is the JSON path of the value, such as `$.rows[0].amount`. `received` is the
+ * JSON type of the value, or `undefined` for a missing field.
+ * @interface SchemaIssue
+ */
+export interface SchemaIssue {
+  path: string;
+  expected: string;
+  received: string;
+}
+
+/**
+ * @category Response Schemas
+ * @summary Response of an operation that did not match its schema in lenient mode
+ * @interface SchemaDrift
+ */
+export interface SchemaDrift {
+  operation: string;
+  issues: SchemaIssue[];
+  status?: number;
+  requestId?: string;
+}
+
 // API RESPONSE
 // Summary: Generic API response wrapper for all endpoints
 // Description: Standard structure containing success status, data payload, and error information
@@ -280,8 +815,127 @@ export interface APIResponse<T> {
   };
   status?: number;
   headers?: Record<string, string>;
+  requestId?: string;
+  durationMs?: number;
+  attempts?: number;
+  idempotency?: IdempotencyInfo;
+}
+
+// IDEMPOTENCY
+// Summary: Idempotency key used for a mutating request and whether it was replayed
+// Description: Lets callers detect responses that the API served from a previous attempt
+/**
+ * @category HTTP
+ * @summary Idempotency key used for a mutating request and whether it was replayed
+ * @description Carries the `Idempotency-Key` sent with a mutating request and whether the API answered with a previously stored response
+ * @interface IdempotencyInfo
+ */
+export interface IdempotencyInfo {
+  key: string;
+  replayed: boolean;
 }
 
+/**
+ * @category HTTP
+ * @summary Result of a mutating SDK call with idempotency information attached
+ * @description Response data extended with the idempotency key and replay flag when the API reported them
+ * @typedef {object} Idempotent
+ */
+export type Idempotent<T> = T & { idempotency?: IdempotencyInfo };
+
+// PER-CALL REQUEST OPTIONS
+// Summary: Options that can be passed to individual SDK method calls
+// Description: Per-call overrides applied on top of the SDK configuration
+/**
+ * @category HTTP
+ * @summary Options that can be passed to individual SDK method calls
+ * @description Per-call overrides applied on top of the SDK configuration: a cancellation signal, an attempt timeout, a total deadline across all attempts and backoff sleeps, extra headers, an idempotency key and a retry policy
+ * @interface RequestOptions
+ */
+export interface RequestOptions {
+  signal?: AbortSignal;
+  timeout?: number;
+  deadline?: number;
+  headers?: HeadersInit;
+  idempotencyKey?: string;
+  retryPolicy?: RetryPolicy;
+}
+
+// RESPONSE METADATA
+// Summary: HTTP details of the response behind an SDK call
+// Description: Status, headers, server request ID, timing and attempt count for support tickets and auditing
+/**
+ * @category HTTP
+ * @summary HTTP details of the response behind an SDK call
+ * @description Status code, lower-cased response headers (including any `x-ratelimit-*` headers), the server request ID, the total duration across retries and the number of attempts made
+ * @interface ResponseMetadata
+ */
+export interface ResponseMetadata {
+  status?: number;
+  headers: Record<string, string>;
+  requestId?: string;
+  durationMs?: number;
+  attempts?: number;
+}
+
+/**
+ * @category HTTP
+ * @summary Typed response data paired with its HTTP metadata
+ * @description Returned by the methods of `TapsilatSDK.withResponse()`
+ * @interface WithResponse
+ */
+export interface WithResponse<T> {
+  data: T;
+  response: ResponseMetadata;
+}
+
+/**
+ * @category HTTP
+ * @summary Async methods of a client rewritten to resolve with `WithResponse`
+ * @description Keeps each method's parameters and wraps its result type; untyped namespace getters are left out
+ * @typedef {object} WithResponseMethods
+ */
+export type WithResponseMethods<T> = {
+  [K in keyof T as 0 extends 1 & T[K]
+    ? never
+    : T[K] extends (...args: never[]) => Promise<unknown>
+      ? K
+      : never]: T[K] extends (...args: infer A) => Promise<infer R>
+    ? (...args: A) => Promise<WithResponse<R>>
+    : never;
+};
+
+// SAFE RESULTS
+// Summary: Outcome of an SDK call made through `sdk.safe`
+// Description: Failures are returned as values instead of being thrown
+/**
+ * @category HTTP
+ * @summary Outcome of an SDK call that does not throw
+ * @description `ok: true` carries the typed data and, when the call made an HTTP request, the
+ * metadata of the operation's own response; `ok: false` carries the error the throwing method would have
+ * thrown. Narrow on `ok`, then on the error class with `instanceof`.
+ * @typedef {object} SafeResult
+ */
+export type SafeResult<T> =
+  | { ok: true; data: T; meta?: ResponseMetadata }
+  | { ok: false; error: TapsilatError };
+
+/**
+ * @category HTTP
+ * @summary Async methods of a client rewritten to resolve with `SafeResult`
+ * @description Keeps each method's parameters and wraps its result type; untyped members are left out
+ * @typedef {object} SafeMethods
+ */
+export type SafeMethods<T> = {
+  [K in keyof T as 0 extends 1 & T[K]
+    ? never
+    : T[K] extends (...args: never[]) => Promise<unknown>
+      ? K
+      : never]: T[K] extends (...args: infer A) => Promise<infer R>
+    ? (...args: A) => Promise<SafeResult<R>>
+    : never;
+};
+
 // PAGINATION PARAMETERS
 // Summary: Query parameters for paginated API requests
 // Description: Controls paging behavior and sorting of list results
@@ -0,0 +1,192 @@
+/**
+ * @category Downloads
+ * @module Download
+ */
+import type { Readable } from "stream";
+import type { ReadableStream as NodeReadableStream } from "stream/web";
+import { SavedFile, SaveToOptions } from "../types/index";
+import { TapsilatError } from "../errors/TapsilatError";
+
+// CONTENT DISPOSITION
+// Summary: Extracts the file name from a Content-Disposition header
+// Description: Prefers the RFC 5987 `filename*` parameter over `filename`, and drops any directory part
+/**
+ * Extracts the file name from a Content-Disposition header
+ *
+ * @summary Extracts the file name from a Content-Disposition header
+ * @description Prefers the RFC 5987 `filename*` parameter over `filename`. Directory parts are
+ * removed so that a server-sent name cannot point outside the target directory.
+ *
+ * @param header - Content-Disposition header value
+ * @returns File name, or undefined when the header has none
+ */
+export const parseContentDisposition = (
+  header: string | undefined
+): string | undefined => {
+  if (!header) {
+    return undefined;
+  }
+
+  let filename: string | undefined;
+  const extended = header.match(/filename\*\s*=\s*([^;]+)/i);
+  if (extended) {
+    const value = extended[1].trim().replace(/^"(.*)"$/, "$1");
+    const encoded = value.replace(/^[\w-]+'[\w-]*'/, "");
+    try {
+      filename = decodeURIComponent(encoded);
+    } catch {
+      filename = encoded;
+    }
+  }
+  if (!filename) {
+    const plain = header.match(/filename\s*=\s*("((?:\\.|[^"\\])*)"|[^;]+)/i);
+    filename = plain
+      ? (plain[2]?.replace(/\\(.)/g, "$1") ?? plain[1]).trim()
+      : undefined;
+  }
+
+  const basename = filename?.split(/[\\/]/).pop();
+  return basename && basename !== "." && basename !== ".."
+    ? basename
+    : undefined;
+};
+
+// FILE DOWNLOAD
+// Summary: Streamed response body with its file name, content type and size
+// Description: The body can be read once, as a web stream, a Node stream, a Blob or by saving it to disk
+/**
+ * @category Downloads
+ * @summary File returned by a download method
+ * @description The body is not buffered: it is read once, through `stream`, `toNodeStream`, `blob`
+ * or `saveTo`. Aborting the signal passed to the download method cancels the body as well. The
+ * Node modules used by `toNodeStream` and `saveTo` are loaded when those are called, so the class
+ * does not tie the package to Node.
+ * @class FileDownload
+ */
+export class FileDownload {
+  /**
+   * File name from the Content-Disposition header, or the fallback name
+   */
+  readonly filename: string;
+
+  /**
+   * Media type from the Content-Type header
+   */
+  readonly contentType?: string;
+
+  /**
+   * Size in bytes from the Content-Length header
+   */
+  readonly size?: number;
+
+  private body?: ReadableStream<Uint8Array>;
+
+  /**
+   * @summary Wraps a response body
+   *
+   * @param body - Response body
+   * @param headers - Lower-cased response headers
+   * @param fallbackFilename - File name used when the response does not name the file
+   */
+  constructor(
+    body: ReadableStream<Uint8Array> | null | undefined,
+    headers: Record<string, string> = {},
+    fallbackFilename: string
+  ) {
+    this.body =
+      body ??
+      new ReadableStream<Uint8Array>({
+        start: (controller): void => controller.close(),
+      });
+    this.filename =
+      parseContentDisposition(headers["content-disposition"]) ??
+      fallbackFilename;
+    this.contentType =
+      headers["content-type"]?.split(";")[0].trim() || undefined;
+    const size = parseInt(headers["content-length"], 10);
+    this.size = Number.isNaN(size) ? undefined : size;
+  }
+
+  /**
+   * @summary Returns the body as a web stream
+   *
+   * @returns Stream of the file's bytes
+   * @throws {TapsilatError} When the body has already been read
+   */
+  stream(): ReadableStream<Uint8Array> {
+    const body = this.body;
+    if (!body) {
+      throw new TapsilatError(
+        "The download body has already been read",
+        "DOWNLOAD_CONSUMED"
+      );
+    }
+    this.body = undefined;
+    return body;
+  }
+
+  /**
+   * @summary Returns the body as a Node readable stream
+   *
+   * @returns Readable stream of the file's bytes
+   * @throws {TapsilatError} When the body has already been read
+   */
+  async toNodeStream(): Promise<Readable> {
+    const body = this.stream();
+    const { Readable } = await import("stream");
+    return Readable.fromWeb(body as NodeReadableStream<Uint8Array>);
+  }
+
+  /**
+   * @summary Reads the whole body into a Blob
+   *
+   * @returns Blob typed with the response's content type
+   * @throws {TapsilatError} When the body has already been read
+   */
+  async blob(): Promise<Blob> {
+    const blob = await new Response(this.stream()).blob();
+    return this.contentType
+      ? new Blob([blob], { type: this.contentType })
+      : blob;
+  }
+
+  /**
+   * @summary Writes the body to a file
+   * @description A partially written file is removed when the download fails
+   *
+   * @param path - Path of the file to write
+   * @param options - Optional progress callback
+   * @returns Path and number of bytes written
+   * @throws {TapsilatError} When the body has already been read
+   */
+  async saveTo(path: string, options: SaveToOptions = {}): Promise<SavedFile> {
+    const source = await this.toNodeStream();
+    const [{ createWriteStream }, { rm }, { Transform }, { pipeline }] =
+      await Promise.all([
+        import("fs"),
+        import("fs/promises"),
+        import("stream"),
+        import("stream/promises"),
+      ]);
+    let bytes = 0;
+    const progress = new Transform({
+      transform: (chunk: Buffer, _encoding, callback): void => {
+        bytes += chunk.length;
+        try {
+          options.onProgress?.({ bytes, totalBytes: this.size });
+          callback(null, chunk);
+        } catch (error) {
+          callback(error as Error);
+        }
+      },
+    });
+
+    try {
+      await pipeline(source, progress, createWriteStream(path));
+    } catch (error) {
+      await rm(path, { force: true });
+      throw error;
+    }
+    return { path, bytes };
+  }
+}
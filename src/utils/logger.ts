@@ -0,0 +1,113 @@
+import { LogFields, Logger, LogLevel, TapsilatConfig } from "../types/index";
+import { createRedactor, Redactor } from "./redact";
+
+const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+// CONSOLE LOGGER
+// Summary: Logger that writes structured entries to the console
+// Description: Used when `debug` is enabled and no logger is configured
+/**
+ * Creates a logger that writes to the console
+ *
+ * @summary Logger that writes structured entries to the console
+ * @description Prefixes messages with `[tapsilat]` and passes the fields as a second argument
+ *
+ * @returns Console-backed logger
+ */
+export const createConsoleLogger = (): Logger => ({
+  debug: (message, fields) => writeToConsole("debug", message, fields),
+  info: (message, fields) => writeToConsole("info", message, fields),
+  warn: (message, fields) => writeToConsole("warn", message, fields),
+  error: (message, fields) => writeToConsole("error", message, fields),
+});
+
+/**
+ * Logger that discards every entry
+ */
+export const silentLogger: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+};
+
+// REDACTING LOGGER
+// Summary: Wraps a logger so that every entry is redacted first
+// Description: Masks sensitive values in the message and fields before they reach the wrapped logger
+/**
+ * Wraps a logger so that messages and fields are redacted before they are written
+ *
+ * @summary Redact every entry before it reaches the wrapped logger
+ * @description Applies the redactor to the message and structured fields of each entry
+ *
+ * @param logger - Logger that receives the redacted entries
+ * @param redactor - Redactor applied to each entry
+ * @returns Redacting logger
+ */
+export const createRedactingLogger = (
+  logger: Logger,
+  redactor: Redactor
+): Logger => {
+  const write =
+    (level: LogLevel) =>
+    (message: string, fields?: LogFields): void => {
+      logger[level](
+        redactor.redact(message) as string,
+        fields && (redactor.redact(fields) as LogFields)
+      );
+    };
+
+  return Object.fromEntries(
+    LOG_LEVELS.map((level) => [level, write(level)])
+  ) as unknown as Logger;
+};
+
+/**
+ * Resolves the logger the SDK uses from its configuration
+ *
+ * @summary Pick the configured logger, or the console when `debug` is on
+ * @description The result is always wrapped in the configured redaction
+ *
+ * @param config - SDK configuration
+ * @returns Redacting logger, or the silent logger when logging is off
+ */
+export const resolveLogger = (config: TapsilatConfig): Logger => {
+  const logger =
+    config.logger ?? (config.debug ? createConsoleLogger() : undefined);
+  if (!logger) {
+    return silentLogger;
+  }
+  return createRedactingLogger(logger, createRedactor(config.redaction));
+};
+
+/**
+ * Converts a request body into a value that can be redacted and logged
+ *
+ * @param body - Request body as sent to the transport
+ * @returns Parsed JSON, the raw string, or a description of binary bodies
+ */
+export const toLoggableBody = (body: RequestInit["body"]): unknown => {
+  if (body === undefined || body === null) {
+    return undefined;
+  }
+  if (typeof body !== "string") {
+    return `[${body.constructor?.name ?? "binary"} body]`;
+  }
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+};
+
+const writeToConsole = (
+  level: LogLevel,
+  message: string,
+  fields?: LogFields
+): void => {
+  if (fields) {
+    console[level](`[tapsilat] ${message}`, fields);
+  } else {
+    console[level](`[tapsilat] ${message}`);
+  }
+};
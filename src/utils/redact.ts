@@ -0,0 +1,223 @@
+import { RedactionOptions } from "../types/index";
+
+// DEFAULT REDACTED FIELDS
+// Summary: Field names masked before values are logged
+// Description: Credentials, buyer, billing and submerchant PII, and card data
+/**
+ * Field names that are masked by default
+ *
+ * @summary Credentials, PII and card fields masked before logging
+ * @description Covers authentication headers and tokens, the personal fields of `BuyerDTO`,
+ * `BillingAddressDTO` and `SubmerchantCreateDTO`, and card data. Names are compared
+ * case-insensitively with `_` and `-` removed. An entry such as `buyer.name` only matches the
+ * field inside an object of that key, so item and organization names stay readable. Request
+ * bodies are logged under `body`, and `body.name` covers the submerchant's name, the only
+ * top-level `name` the SDK sends.
+ */
+export const DEFAULT_REDACTED_FIELDS: readonly string[] = [
+  // Credentials
+  "authorization",
+  "bearer_token",
+  "token",
+  "access_token",
+  "refresh_token",
+  "password",
+  "secret",
+  "api_key",
+  "x-api-key",
+  "cookie",
+  "set-cookie",
+  // Buyer and basket item payer
+  "buyer.name",
+  "payer.name",
+  "surname",
+  "email",
+  "gsm_number",
+  "identity_number",
+  "birth_date",
+  "registration_address",
+  "ip",
+  // Billing address and submerchant
+  "body.name",
+  "address",
+  "street1",
+  "street2",
+  "street3",
+  "contact_name",
+  "contact_surname",
+  "contact_phone",
+  "vat_number",
+  "iban",
+  "iban_name",
+  // Card data
+  "card_number",
+  "card_holder_name",
+  "pan",
+  "cvv",
+  "cvc",
+  "cvv2",
+  "expiry_month",
+  "expiry_year",
+  "expire_month",
+  "expire_year",
+];
+
+/**
+ * Default replacement for masked values
+ */
+export const DEFAULT_REDACTION_MASK = "[REDACTED]";
+
+const BEARER_PATTERN = /Bearer\s+[A-Za-z0-9\-._~+/]+=*/gi;
+const CARD_NUMBER_PATTERN = /\b(?:\d[ -]?){12,18}\d\b/g;
+
+/**
+ * @summary Masks sensitive values in data that is about to be logged
+ * @description Created by `createRedactor`; every method returns a masked copy and leaves its input untouched
+ */
+export interface Redactor {
+  redact(value: unknown): unknown;
+  redactUrl(url: string): string;
+}
+
+// REDACTOR
+// Summary: Builds a redactor from the redaction options
+// Description: Masks sensitive fields, bearer tokens, card numbers and custom patterns
+/**
+ * Creates a redactor for log data
+ *
+ * @summary Build a redactor from the redaction options
+ * @description Masks values of sensitive fields at any depth, bearer tokens and Luhn-valid card
+ * numbers inside strings, and any custom patterns. Sensitive query parameters are masked in
+ * URLs, including string values of `url` fields. `Headers` instances are converted to plain objects,
+ * and errors to their `toJSON()` result or their name and message.
+ *
+ * @param options - Extra fields to mask, default fields to keep, extra patterns and the mask text
+ * @returns Redactor applying the options
+ */
+export const createRedactor = (options: RedactionOptions = {}): Redactor => {
+  const mask = options.mask ?? DEFAULT_REDACTION_MASK;
+  const keep = new Set((options.keep ?? []).map(normalizeField));
+  const fields = new Set(
+    [...DEFAULT_REDACTED_FIELDS, ...(options.fields ?? [])]
+      .map(normalizeField)
+      .filter((field) => !keep.has(field))
+  );
+  const patterns = options.patterns ?? [];
+
+  const isSensitive = (key: string, parent?: string): boolean =>
+    fields.has(normalizeField(key)) ||
+    (parent !== undefined &&
+      fields.has(`${normalizeField(parent)}.${normalizeField(key)}`));
+
+  const redactString = (value: string): string => {
+    let result = value
+      .replace(BEARER_PATTERN, `Bearer ${mask}`)
+      .replace(CARD_NUMBER_PATTERN, (match) =>
+        isLuhnValid(match.replace(/[ -]/g, "")) ? mask : match
+      );
+    for (const pattern of patterns) {
+      result = result.replace(
+        pattern.global ? pattern : new RegExp(pattern.source, `${pattern.flags}g`),
+        mask
+      );
+    }
+    return result;
+  };
+
+  const redact = (
+    value: unknown,
+    seen: WeakSet<object>,
+    parent?: string
+  ): unknown => {
+    if (typeof value === "string") {
+      return redactString(value);
+    }
+    if (!value || typeof value !== "object") {
+      return value;
+    }
+    if (seen.has(value)) {
+      return "[Circular]";
+    }
+
+    seen.add(value);
+    const result = redactObject(value, seen, parent);
+    seen.delete(value);
+    return result;
+  };
+
+  // `parent` is the key the value is stored under; array items keep the
+  // key of their array
+  const redactObject = (
+    value: object,
+    seen: WeakSet<object>,
+    parent?: string
+  ): unknown => {
+    if (value instanceof Headers) {
+      const record: Record<string, string> = {};
+      value.forEach((headerValue, key) => {
+        record[key] = headerValue;
+      });
+      return redact(record, seen);
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => redact(item, seen, parent));
+    }
+    if (value instanceof Error) {
+      const { toJSON } = value as { toJSON?: () => unknown };
+      return typeof toJSON === "function"
+        ? redact(toJSON.call(value), seen)
+        : { name: value.name, message: redactString(value.message) };
+    }
+
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => {
+        if (isSensitive(key, parent) && entry !== undefined && entry !== null) {
+          return [key, mask];
+        }
+        if (key === "url" && typeof entry === "string") {
+          return [key, redactUrl(entry)];
+        }
+        return [key, redact(entry, seen, key)];
+      })
+    );
+  };
+
+  const redactUrl = (url: string): string => {
+    const queryStart = url.indexOf("?");
+    if (queryStart === -1) {
+      return redactString(url);
+    }
+    const params = new URLSearchParams(
+      [...new URLSearchParams(url.slice(queryStart + 1))].map(
+        ([key, paramValue]) => [
+          key,
+          isSensitive(key) ? mask : redactString(paramValue),
+        ]
+      )
+    );
+    return `${redactString(url.slice(0, queryStart))}?${params.toString()}`;
+  };
+
+  return {
+    redact: (value) => redact(value, new WeakSet()),
+    redactUrl,
+  };
+};
+
+const normalizeField = (field: string): string =>
+  field.toLowerCase().replace(/[_-]/g, "");
+
+// Card-number-like digit runs are only masked when they pass the Luhn
+// checksum, so order amounts, timestamps and IDs stay readable
+const isLuhnValid = (digits: string): boolean => {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
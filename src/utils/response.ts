@@ -1,5 +1,5 @@
 import { TapsilatError, TapsilatNetworkError } from "../errors/TapsilatError";
-import { APIResponse } from "../types";
+import { APIResponse, Idempotent, ResponseMetadata } from "../types";
 
 /**
  * Generic response handler - consistent way to handle API responses
@@ -31,6 +31,46 @@ export const handleResponse = <T>(
   return response.data;
 };
 
+/**
+ * Attaches idempotency information to the data of a mutating call
+ *
+ * @summary Surface the idempotency key and replay flag on SDK results
+ * @description Copies the idempotency details reported by the HTTP client onto the returned data object
+ *
+ * @param data - The data extracted from the API response
+ * @param response - The API response the data was extracted from
+ * @returns The data, extended with `idempotency` when the response carried it
+ */
+export const withIdempotency = <T>(
+  data: T,
+  response: APIResponse<unknown>
+): Idempotent<T> => {
+  if (!response.idempotency || !data || typeof data !== "object") {
+    return data as Idempotent<T>;
+  }
+
+  return { ...data, idempotency: response.idempotency };
+};
+
+/**
+ * Extracts the HTTP metadata of an API response
+ *
+ * @summary Build the response metadata returned by `withResponse()` calls
+ * @description Picks the status, headers, request ID, duration and attempt count reported by the HTTP client
+ *
+ * @param response - The API response to describe
+ * @returns Response metadata without the body
+ */
+export const toResponseMetadata = (
+  response: APIResponse<unknown>
+): ResponseMetadata => ({
+  status: response.status,
+  headers: response.headers ?? {},
+  requestId: response.requestId,
+  durationMs: response.durationMs,
+  attempts: response.attempts,
+});
+
 // ERROR HANDLING
 // Summary: Centralized error handling for consistent error reporting
 // Description: Processes caught errors and ensures they are properly converted to TapsilatError types
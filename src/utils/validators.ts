@@ -1,5 +1,13 @@
-import { PaymentRequest, Currency, PaymentMethod, GsmValidationResult, InstallmentsValidationResult } from "../types/index";
+import { PaymentRequest, Currency, PaymentMethod, GsmValidationResult, InstallmentsValidationResult, ResponseValidationMode, TapsilatConfig } from "../types/index";
 import { TapsilatValidationError } from "../errors/TapsilatError";
+import { missingEnvironmentUrls } from "../config/environments";
+import { ERROR_CATEGORY_DEFAULTS } from "../errors/catalog";
+
+const RESPONSE_VALIDATION_MODES: ResponseValidationMode[] = [
+  "strict",
+  "lenient",
+  "off",
+];
 
 
 // EMAIL VALIDATION
@@ -159,6 +167,117 @@ export function validateBearerToken(
   }
 }
 
+// CONFIGURATION VALIDATION
+// Summary: Validates a complete SDK configuration before it is applied
+// Description: Checks authentication, the base URL and numeric ranges, reporting every invalid field at once
+/**
+ * Validates an SDK configuration as a whole
+ *
+ * @summary Validates a complete SDK configuration before it is applied
+ * @description A bearer token is required unless a credentials provider is set. The environment must
+ * be a known preset or a complete set of URLs. The base URL and domains must be HTTP or HTTPS URLs,
+ * `timeout`, `deadline` and every `operationTimeouts` entry a positive number, `maxRetries` a
+ * non-negative integer and `retryDelay` a non-negative number. Error catalog entries need a code
+ * and a known category. `responseValidation` must be a known mode and `onSchemaDrift` a function.
+ *
+ * @param config - Configuration to validate
+ * @throws {TapsilatValidationError} When any field is invalid; `details` maps each field to its problem
+ */
+export function validateConfig(config: TapsilatConfig): void {
+  const errors: Record<string, string> = {};
+
+  if (config.bearerToken !== undefined || !config.credentials) {
+    try {
+      validateBearerToken(config.bearerToken);
+    } catch (error) {
+      errors.bearerToken = (error as Error).message;
+    }
+  }
+  if (typeof config.environment === "object") {
+    const { baseURL, checkoutDomain, subscriptionDomain } = config.environment;
+    if (![baseURL, checkoutDomain, subscriptionDomain].every(isValidUrl)) {
+      errors.environment =
+        "Environment URLs and domains must be valid HTTP/HTTPS URLs";
+    }
+  } else {
+    try {
+      const missing = missingEnvironmentUrls(config);
+      if (missing.length > 0) {
+        errors.environment = `The ${config.environment} environment needs ${missing.join(", ")}`;
+      }
+    } catch (error) {
+      errors.environment = (error as Error).message;
+    }
+  }
+  if (config.baseURL !== undefined && !isValidUrl(config.baseURL)) {
+    errors.baseURL = "Base URL must be a valid HTTP/HTTPS URL";
+  }
+  for (const field of ["checkoutDomain", "subscriptionDomain"] as const) {
+    const domain = config[field];
+    if (domain !== undefined && !isValidUrl(domain)) {
+      errors[field] = "Domain must be a valid HTTP/HTTPS URL";
+    }
+  }
+  if (config.timeout !== undefined && !isPositiveNumber(config.timeout)) {
+    errors.timeout = "Timeout must be a positive number of milliseconds";
+  }
+  if (
+    config.operationTimeouts !== undefined &&
+    !Object.values(config.operationTimeouts).every(isPositiveNumber)
+  ) {
+    errors.operationTimeouts =
+      "Operation timeouts must be positive numbers of milliseconds";
+  }
+  if (config.deadline !== undefined && !isPositiveNumber(config.deadline)) {
+    errors.deadline = "Deadline must be a positive number of milliseconds";
+  }
+  if (
+    config.errorCatalog !== undefined &&
+    !config.errorCatalog.every(
+      (entry) =>
+        String(entry.code ?? "") !== "" &&
+        Object.keys(ERROR_CATEGORY_DEFAULTS).includes(entry.category)
+    )
+  ) {
+    errors.errorCatalog =
+      "Error catalog entries need a code and a known category";
+  }
+  if (
+    config.responseValidation !== undefined &&
+    !RESPONSE_VALIDATION_MODES.includes(config.responseValidation)
+  ) {
+    errors.responseValidation = `Response validation must be one of: ${RESPONSE_VALIDATION_MODES.join(", ")}`;
+  }
+  if (
+    config.onSchemaDrift !== undefined &&
+    typeof config.onSchemaDrift !== "function"
+  ) {
+    errors.onSchemaDrift = "Schema drift hook must be a function";
+  }
+  if (
+    config.maxRetries !== undefined &&
+    (!isInteger(config.maxRetries) || config.maxRetries < 0)
+  ) {
+    errors.maxRetries = "Max retries must be a non-negative integer";
+  }
+  if (
+    config.retryDelay !== undefined &&
+    !(isPositiveNumber(config.retryDelay) || config.retryDelay === 0)
+  ) {
+    errors.retryDelay = "Retry delay must be a non-negative number";
+  }
+
+  const fields = Object.keys(errors);
+  if (fields.length > 0) {
+    throw new TapsilatValidationError(
+      `Invalid configuration: ${fields
+        .map((field) => `${field}: ${errors[field]}`)
+        .join("; ")}`,
+      errors
+    );
+  }
+}
+
 // PAYMENT REQUEST VALIDATION
 // Summary: Comprehensive validation of payment request data
 // Description: Validates all required and optional fields in a payment request for integrity and correctness
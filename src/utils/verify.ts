@@ -1,5 +1,3 @@
-import crypto from "crypto";
-
 // WEBHOOK SIGNATURE VERIFICATION
 // Summary: Security verification of webhook payloads using HMAC-SHA256
 // Description: Computes expected signature from payload and secret, compares with provided signature
@@ -7,22 +5,35 @@ import crypto from "crypto";
  * Verifies HMAC-SHA256 signature for webhook security
  *
  * @summary Security verification of webhook payloads using HMAC-SHA256
- * @description Computes expected signature from payload and secret, compares with provided signature
+ * @description Computes expected signature from payload and secret, compares with provided signature.
+ * The HMAC is computed with Web Crypto, so verification runs outside Node as well.
  *
  * @param payload - Raw webhook payload string
  * @param signature - Webhook signature from headers (should include "sha256=" prefix)
  * @param secret - Your webhook secret key
  * @returns true if signature is valid, false otherwise
  */
-export const verifyHmacSignature = (
+export const verifyHmacSignature = async (
   payload: string,
   signature: string,
   secret: string
-): boolean => {
-  const expectedSignature = crypto
-    .createHmac("sha256", secret)
-    .update(payload)
-    .digest("hex");
+): Promise<boolean> => {
+  const encoder = new TextEncoder();
+  const key = await globalThis.crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const digest = await globalThis.crypto.subtle.sign(
+    "HMAC",
+    key,
+    encoder.encode(payload)
+  );
+  const expectedSignature = Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
 
   return `sha256=${expectedSignature}` === signature;
 };